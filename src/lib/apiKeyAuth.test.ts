@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiKey } from './types';
+
+const create = vi.fn();
+
+vi.mock('./firebaseAdmin', () => ({
+	db: { collection: () => ({ doc: () => ({ create }) }) },
+}));
+
+const apiKey: ApiKey = {
+	id: 'key1',
+	name: 'Zapier',
+	prefix: 'led_abc',
+	keyHash: 'hash',
+	signingSecret: 'secret',
+	requireSignature: true,
+	userId: 'service-user',
+	scope: {},
+	active: true,
+	createdBy: 'admin',
+	createdAt: new Date(),
+};
+
+vi.mock('./firestore/apiKeys', () => ({
+	findApiKey: async () => apiKey,
+	isApiKeyUsable: () => true,
+	touchApiKey: async () => undefined,
+}));
+
+const { authenticateApiKey, checkApiKeyScope, signPayload } = await import('./apiKeyAuth');
+
+function signedRequest(body: string, timestamp = String(Math.floor(Date.now() / 1000))): Request {
+	return new Request('https://ledger.example/api/webhook/transaction', {
+		method: 'POST',
+		body,
+		headers: {
+			Authorization: 'Bearer led_abc_key',
+			'X-Timestamp': timestamp,
+			'X-Signature': `sha256=${signPayload(apiKey.signingSecret, timestamp, body)}`,
+		},
+	});
+}
+
+describe('authenticateApiKey', () => {
+	beforeEach(() => {
+		create.mockReset();
+	});
+
+	it('accepts a correctly signed request once', async () => {
+		create.mockResolvedValueOnce(undefined);
+		const body = '{"amount":10}';
+		await expect(authenticateApiKey(signedRequest(body), body)).resolves.toEqual({ ok: true, apiKey });
+	});
+
+	it('rejects a replayed signature', async () => {
+		create.mockRejectedValueOnce(Object.assign(new Error('Document already exists'), { code: 6 }));
+		const body = '{"amount":10}';
+		await expect(authenticateApiKey(signedRequest(body), body)).resolves.toMatchObject({
+			ok: false,
+			status: 401,
+			error: expect.stringContaining('replayed'),
+		});
+	});
+
+	it('lets a reused signature through only when the caller can answer it from a stored response', async () => {
+		create.mockRejectedValueOnce(Object.assign(new Error('Document already exists'), { code: 6 }));
+		const body = '{"amount":10}';
+		await expect(authenticateApiKey(signedRequest(body), body, { allowReplayedSignature: true })).resolves.toEqual({
+			ok: true,
+			apiKey,
+			replayedSignature: true,
+		});
+	});
+
+	it('rethrows Firestore failures instead of reporting a replay', async () => {
+		create.mockRejectedValueOnce(Object.assign(new Error('Service unavailable'), { code: 14 }));
+		const body = '{"amount":10}';
+		await expect(authenticateApiKey(signedRequest(body), body)).rejects.toThrow('Service unavailable');
+	});
+
+	it('rejects a tampered body or an old timestamp without recording a nonce', async () => {
+		const body = '{"amount":10}';
+		await expect(authenticateApiKey(signedRequest(body), '{"amount":1000}')).resolves.toMatchObject({ ok: false, error: 'Invalid signature' });
+		const old = String(Math.floor(Date.now() / 1000) - 3600);
+		await expect(authenticateApiKey(signedRequest(body, old), body)).resolves.toMatchObject({ ok: false, status: 401 });
+		expect(create).not.toHaveBeenCalled();
+	});
+});
+
+describe('checkApiKeyScope', () => {
+	it('limits types and categories', () => {
+		const scope = { types: ['expense' as const], categoryIds: ['rent'] };
+		expect(checkApiKeyScope({ scope }, { type: 'expense', categoryId: 'rent' })).toBeNull();
+		expect(checkApiKeyScope({ scope }, { type: 'income', categoryId: 'rent' })).toMatch(/income/);
+		expect(checkApiKeyScope({ scope }, { type: 'expense', categoryId: 'food' })).toMatch(/food/);
+	});
+
+	it('checks the category of every split line', () => {
+		const scope = { categoryIds: ['rent', 'utilities'] };
+		const splits = [{ categoryId: 'rent' }, { categoryId: 'utilities' }];
+		expect(checkApiKeyScope({ scope }, { type: 'expense', categoryId: 'rent', splits })).toBeNull();
+		expect(checkApiKeyScope({ scope }, { type: 'expense', categoryId: 'rent', splits: [...splits, { categoryId: 'food' }] })).toMatch(/food/);
+	});
+});
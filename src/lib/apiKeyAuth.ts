@@ -0,0 +1,142 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { db } from './firebaseAdmin';
+import { findApiKey, isApiKeyUsable, touchApiKey } from './firestore/apiKeys';
+import type { ApiKey, TransactionSplit, TransactionType } from './types';
+
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// gRPC status Firestore returns when create() finds the document already there
+const ALREADY_EXISTS = 6;
+
+export const REPLAYED_SIGNATURE_ERROR = 'Request has already been processed (replayed signature)';
+
+export type ApiKeyAuthResult =
+	| { ok: true; apiKey: ApiKey; replayedSignature?: boolean }
+	| { ok: false; status: 401 | 403; error: string };
+
+/**
+ * Read the API key from "Authorization: Bearer <key>" or "X-Api-Key"
+ */
+export function getApiKeyFromRequest(request: Request): string | null {
+	const authorization = request.headers.get('authorization');
+	if (authorization?.toLowerCase().startsWith('bearer ')) {
+		return authorization.slice(7).trim() || null;
+	}
+	return request.headers.get('x-api-key')?.trim() || null;
+}
+
+/**
+ * Compute the signature for a request body: HMAC-SHA256 over "<timestamp>.<body>"
+ */
+export function signPayload(secret: string, timestamp: string, rawBody: string): string {
+	return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+	const bufA = Buffer.from(a, 'hex');
+	const bufB = Buffer.from(b, 'hex');
+	return bufA.length === bufB.length && bufA.length > 0 && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Verify X-Timestamp/X-Signature headers against the key's signing secret.
+ * Each signature is accepted once, so a captured request cannot be replayed.
+ */
+async function verifySignature(
+	apiKey: ApiKey,
+	request: Request,
+	rawBody: string
+): Promise<string | null> {
+	const timestamp = request.headers.get('x-timestamp');
+	const signatureHeader = request.headers.get('x-signature');
+	if (!timestamp || !signatureHeader) {
+		return 'Missing X-Timestamp or X-Signature header';
+	}
+
+	const timestampSeconds = Number(timestamp);
+	if (!Number.isInteger(timestampSeconds)) {
+		return 'Invalid X-Timestamp header. Use Unix time in seconds';
+	}
+	if (Math.abs(Date.now() / 1000 - timestampSeconds) > SIGNATURE_TOLERANCE_SECONDS) {
+		return 'Request timestamp is outside the allowed window';
+	}
+
+	const signature = signatureHeader.replace(/^sha256=/, '');
+	const expected = signPayload(apiKey.signingSecret, timestamp, rawBody);
+	if (!safeEqualHex(signature, expected)) {
+		return 'Invalid signature';
+	}
+
+	// create() fails if the document exists, which makes this check atomic
+	const nonceId = createHash('sha256').update(`${apiKey.id}:${signature}`).digest('hex');
+	try {
+		await db.collection('api_key_nonces').doc(nonceId).create({
+			apiKeyId: apiKey.id,
+			createdAt: new Date(),
+			// Firestore TTL policy can be configured on this field to clean up old nonces
+			expiresAt: new Date((timestampSeconds + SIGNATURE_TOLERANCE_SECONDS) * 1000),
+		});
+	} catch (err: any) {
+		// Anything else is Firestore failing, not a replay, and must not look like bad credentials
+		if (err?.code !== ALREADY_EXISTS) throw err;
+		return REPLAYED_SIGNATURE_ERROR;
+	}
+	return null;
+}
+
+/**
+ * Authenticate a machine request by API key and, when present or required, HMAC signature.
+ * rawBody must be the exact body text that was signed. With allowReplayedSignature a reused
+ * signature passes as replayedSignature, for callers that can answer it from a stored response
+ * and nothing else.
+ */
+export async function authenticateApiKey(
+	request: Request,
+	rawBody: string,
+	options: { allowReplayedSignature?: boolean } = {}
+): Promise<ApiKeyAuthResult> {
+	const presented = getApiKeyFromRequest(request);
+	if (!presented) {
+		return { ok: false, status: 401, error: 'Missing API key. Send it as "Authorization: Bearer <key>"' };
+	}
+
+	const apiKey = await findApiKey(presented);
+	if (!apiKey || !isApiKeyUsable(apiKey)) {
+		return { ok: false, status: 401, error: 'Invalid, expired or revoked API key' };
+	}
+
+	if (apiKey.requireSignature || request.headers.has('x-signature')) {
+		const signatureError = await verifySignature(apiKey, request, rawBody);
+		if (signatureError === REPLAYED_SIGNATURE_ERROR && options.allowReplayedSignature) {
+			return { ok: true, apiKey, replayedSignature: true };
+		}
+		if (signatureError) {
+			return { ok: false, status: 401, error: signatureError };
+		}
+	}
+
+	await touchApiKey(apiKey.id);
+	return { ok: true, apiKey };
+}
+
+/**
+ * Check a transaction against the key's scope; every split line's category must be allowed.
+ * Returns an error message, or null if allowed.
+ */
+export function checkApiKeyScope(
+	apiKey: Pick<ApiKey, 'scope'>,
+	transaction: { type: TransactionType; categoryId: string; splits?: Array<Pick<TransactionSplit, 'categoryId'>> }
+): string | null {
+	const { types, categoryIds } = apiKey.scope;
+	if (types?.length && !types.includes(transaction.type)) {
+		return `API key is not allowed to create ${transaction.type} transactions`;
+	}
+	if (categoryIds?.length) {
+		const lineCategories = [transaction.categoryId, ...(transaction.splits || []).map(line => line.categoryId)];
+		const outside = lineCategories.find(categoryId => !categoryIds.includes(categoryId));
+		if (outside !== undefined) {
+			return `API key is not allowed to use category "${outside}"`;
+		}
+	}
+	return null;
+}
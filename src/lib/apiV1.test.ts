@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { InputSpec } from './apiV1';
+
+vi.mock('./firebaseAdmin', () => ({ db: {}, auth: {} }));
+
+const { decodeCursor, encodeCursor, paginate, parseInput, parsePageParams, MAX_PAGE_SIZE } = await import('./apiV1');
+
+const spec: InputSpec = {
+	name: { type: 'string', required: true, description: 'Name' },
+	kind: { type: 'string', enum: ['a', 'b'], description: 'Kind' },
+	amountCents: { type: 'integer', minimum: 1, description: 'Amount' },
+	active: { type: 'boolean', description: 'Active' },
+	note: { type: 'string', nullable: true, description: 'Note' },
+	startDate: { type: 'date', description: 'Start' },
+};
+
+/** The error envelope of an apiError() thrown by fn */
+async function thrownError(fn: () => unknown): Promise<{ status: number; error: { code: string; message: string; details?: { field?: string } } }> {
+	try {
+		fn();
+	} catch (response) {
+		if (!(response instanceof Response)) throw response;
+		return { status: response.status, ...(await response.json()) };
+	}
+	throw new Error('Expected an API error');
+}
+
+describe('parseInput', () => {
+	it('returns the valid fields and parses dates', () => {
+		const values = parseInput({ name: 'Rent', kind: 'a', amountCents: 500, active: false, startDate: '2026-03-01' }, spec);
+		expect(values).toMatchObject({ name: 'Rent', kind: 'a', amountCents: 500, active: false });
+		expect(values.startDate).toEqual(new Date('2026-03-01T00:00:00'));
+		expect(values).not.toHaveProperty('note');
+	});
+
+	it('names the offending field in validation errors', async () => {
+		const cases: Array<[unknown, string, string]> = [
+			[{ name: 'x', extra: 1 }, 'extra', 'Unknown field "extra"'],
+			[{}, 'name', 'Field "name" is required'],
+			[{ name: '  ' }, 'name', 'must be a non-empty string'],
+			[{ name: 'x', kind: 'c' }, 'kind', 'must be one of: a, b'],
+			[{ name: 'x', amountCents: 1.5 }, 'amountCents', 'must be an integer'],
+			[{ name: 'x', amountCents: 0 }, 'amountCents', 'must be at least 1'],
+			[{ name: 'x', active: 'yes' }, 'active', 'must be a boolean'],
+			[{ name: 'x', startDate: 'soon' }, 'startDate', 'must be an ISO 8601 date'],
+			[{ name: 'x', kind: null }, 'kind', 'cannot be null'],
+		];
+		for (const [body, field, message] of cases) {
+			const { status, error } = await thrownError(() => parseInput(body, spec));
+			expect(status).toBe(400);
+			expect(error.code).toBe('validation_error');
+			expect(error.details?.field).toBe(field);
+			expect(error.message).toContain(message);
+		}
+	});
+
+	it('rejects bodies that are not objects', async () => {
+		for (const body of [undefined, null, [], 'text']) {
+			expect((await thrownError(() => parseInput(body, spec))).error.message).toBe('Request body must be a JSON object');
+		}
+	});
+
+	it('lets updates omit required fields and clear nullable ones, but not send nothing', async () => {
+		expect(parseInput({ note: null }, spec, true)).toEqual({ note: null });
+		expect((await thrownError(() => parseInput({}, spec, true))).error.message).toContain('at least one field');
+	});
+});
+
+describe('pagination', () => {
+	const items = ['a', 'b', 'c', 'd', 'e'].map(id => ({ id }));
+
+	it('walks a list page by page with cursors', () => {
+		const first = paginate(items, 2);
+		expect(first.data.map(item => item.id)).toEqual(['a', 'b']);
+		const second = paginate(items, 2, decodeCursor(first.nextCursor!));
+		expect(second.data.map(item => item.id)).toEqual(['c', 'd']);
+		const last = paginate(items, 2, decodeCursor(second.nextCursor!));
+		expect(last).toEqual({ data: [{ id: 'e' }], nextCursor: null });
+	});
+
+	it('ends without a cursor when the page is exactly full', () => {
+		expect(paginate(items.slice(0, 2), 2).nextCursor).toBeNull();
+	});
+
+	it('rejects cursors that do not point into the list', async () => {
+		expect((await thrownError(() => paginate(items, 2, 'z'))).error.code).toBe('invalid_cursor');
+		expect((await thrownError(() => decodeCursor(encodeCursor('transactions/a')))).error.code).toBe('invalid_cursor');
+	});
+
+	it('reads limit and cursor from the query string', async () => {
+		expect(parsePageParams(new URL('https://ledger.example/api/v1/transactions'))).toEqual({ limit: 50, cursorId: undefined });
+		expect(parsePageParams(new URL(`https://ledger.example/x?limit=10&cursor=${encodeCursor('tx1')}`))).toEqual({ limit: 10, cursorId: 'tx1' });
+		for (const limit of ['0', '2.5', String(MAX_PAGE_SIZE + 1)]) {
+			const { error } = await thrownError(() => parsePageParams(new URL(`https://ledger.example/x?limit=${limit}`)));
+			expect(error.details?.field).toBe('limit');
+		}
+	});
+});
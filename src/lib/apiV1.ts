@@ -0,0 +1,361 @@
+import type { APIRoute } from 'astro';
+import { db } from './firebaseAdmin';
+import { getUserFromRequest } from './auth';
+import { authenticateApiKey, getApiKeyFromRequest } from './apiKeyAuth';
+import { getCategory } from './firestore/categories';
+import { isActivePaymentMethod } from './firestore/paymentMethods';
+import { resolveTransactionAccount } from './firestore/accounts';
+import { parseRRule } from './recurrence';
+import type { ApiKey, RecurrenceRule } from './types';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+/** Who is calling: a signed-in user, or the service user behind an API key */
+export interface ApiPrincipal {
+	uid: string;
+	role: 'admin' | 'staff';
+	apiKey?: ApiKey;
+}
+
+export interface ApiContext {
+	request: Request;
+	url: URL;
+	params: Record<string, string | undefined>;
+	principal: ApiPrincipal;
+	body: unknown;
+}
+
+/**
+ * Describes one input field. Used both to validate request bodies and to generate the OpenAPI document.
+ */
+export interface FieldSpec {
+	type: 'string' | 'integer' | 'boolean' | 'date';
+	description: string;
+	required?: boolean;
+	enum?: readonly string[];
+	nullable?: boolean; // Can be cleared by sending null on update
+	minimum?: number;
+}
+
+export type InputSpec = Record<string, FieldSpec>;
+
+export function apiJson(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json', ...headers },
+	});
+}
+
+/**
+ * Build an error response in the standard envelope: { "error": { "code", "message", "details"? } }
+ */
+export function apiError(status: number, code: string, message: string, details?: Record<string, unknown>): Response {
+	return apiJson(status, { error: { code, message, ...(details ? { details } : {}) } });
+}
+
+/**
+ * Map errors thrown by the data layer to API errors
+ */
+function errorToResponse(error: any): Response {
+	const message: string = error?.message || 'Internal server error';
+	if (/not found/i.test(message)) {
+		return apiError(404, 'not_found', message);
+	}
+	if (message === 'Invalid cursor') {
+		return apiError(400, 'invalid_cursor', 'Cursor is invalid or expired');
+	}
+	if (message.startsWith('Cannot ')) {
+		return apiError(409, 'conflict', message);
+	}
+	console.error('API v1 error:', error);
+	return apiError(500, 'internal_error', 'Internal server error');
+}
+
+/**
+ * Authenticate with an API key when one is sent, otherwise with the session cookie
+ */
+async function authenticate(request: Request, rawBody: string): Promise<ApiPrincipal> {
+	if (getApiKeyFromRequest(request)) {
+		const result = await authenticateApiKey(request, rawBody);
+		if (!result.ok) {
+			throw apiError(result.status, 'unauthorized', result.error);
+		}
+		const userDoc = await db.collection('users').doc(result.apiKey.userId).get();
+		return {
+			uid: result.apiKey.userId,
+			role: userDoc.data()?.role === 'admin' ? 'admin' : 'staff',
+			apiKey: result.apiKey,
+		};
+	}
+
+	const user = await getUserFromRequest(request);
+	if (!user) {
+		throw apiError(401, 'unauthorized', 'Authentication required. Send an API key or a session cookie');
+	}
+	return { uid: user.uid, role: user.role };
+}
+
+/**
+ * Wrap a v1 route handler with authentication, JSON body parsing and error mapping.
+ * Handlers may throw an apiError() Response to stop early.
+ */
+export function apiHandler(handler: (context: ApiContext) => Promise<Response>): APIRoute {
+	return async ({ request, params, url }) => {
+		try {
+			// Read the raw body first - API key signatures are computed over the exact bytes sent
+			const rawBody = await request.text();
+			const principal = await authenticate(request, rawBody);
+
+			let body: unknown;
+			if (rawBody) {
+				try {
+					body = JSON.parse(rawBody);
+				} catch {
+					return apiError(400, 'invalid_json', 'Request body is not valid JSON');
+				}
+			}
+
+			return await handler({ request, url, params, principal, body });
+		} catch (error) {
+			if (error instanceof Response) {
+				return error;
+			}
+			return errorToResponse(error);
+		}
+	};
+}
+
+export function requireApiAdmin(principal: ApiPrincipal): void {
+	if (principal.role !== 'admin') {
+		throw apiError(403, 'forbidden', 'This operation requires the admin role');
+	}
+}
+
+export function requireParam(params: Record<string, string | undefined>, name: string): string {
+	const value = params[name];
+	if (!value) {
+		throw apiError(400, 'validation_error', `Missing path parameter "${name}"`);
+	}
+	return value;
+}
+
+/**
+ * Reject references to categories that do not exist
+ */
+export async function requireCategory(categoryId: string): Promise<void> {
+	if (!(await getCategory(categoryId))) {
+		throw apiError(400, 'validation_error', `Category ID "${categoryId}" does not exist`, { field: 'categoryId' });
+	}
+}
+
+/**
+ * Reject payment methods that do not exist or are inactive
+ */
+export async function requirePaymentMethod(paymentMethod: string): Promise<void> {
+	if (!(await isActivePaymentMethod(paymentMethod))) {
+		throw apiError(400, 'validation_error', `Payment method "${paymentMethod}" does not exist or is inactive`, { field: 'paymentMethod' });
+	}
+}
+
+/**
+ * The account a write is booked to: the one named, which must be active, or the default account
+ */
+export async function resolveAccount(accountId: string | undefined): Promise<string | undefined> {
+	try {
+		return await resolveTransactionAccount(accountId);
+	} catch (err: any) {
+		throw apiError(400, 'validation_error', err.message, { field: 'accountId' });
+	}
+}
+
+/**
+ * Parse the rrule field, reporting unsupported or invalid rules as validation errors
+ */
+export function requireRecurrence(rrule: string): RecurrenceRule {
+	try {
+		return parseRRule(rrule);
+	} catch (err: any) {
+		throw apiError(400, 'validation_error', err.message, { field: 'rrule' });
+	}
+}
+
+export function encodeCursor(id: string): string {
+	return Buffer.from(id).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): string {
+	const id = Buffer.from(cursor, 'base64url').toString();
+	if (!id || id.includes('/')) {
+		throw apiError(400, 'invalid_cursor', 'Cursor is invalid or expired');
+	}
+	return id;
+}
+
+/**
+ * Read ?limit and ?cursor from the query string
+ */
+export function parsePageParams(url: URL): { limit: number; cursorId?: string } {
+	const limitParam = url.searchParams.get('limit');
+	const limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam);
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+		throw apiError(400, 'validation_error', `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`, { field: 'limit' });
+	}
+	const cursor = url.searchParams.get('cursor');
+	return { limit, cursorId: cursor ? decodeCursor(cursor) : undefined };
+}
+
+/**
+ * Page through a list that is already loaded in memory (small collections)
+ */
+export function paginate<T extends { id: string }>(
+	items: T[],
+	limit: number,
+	cursorId?: string
+): { data: T[]; nextCursor: string | null } {
+	let start = 0;
+	if (cursorId) {
+		const index = items.findIndex(item => item.id === cursorId);
+		if (index === -1) {
+			throw apiError(400, 'invalid_cursor', 'Cursor is invalid or expired');
+		}
+		start = index + 1;
+	}
+	const data = items.slice(start, start + limit);
+	const hasMore = start + limit < items.length;
+	return { data, nextCursor: hasMore && data.length ? encodeCursor(data[data.length - 1].id) : null };
+}
+
+/**
+ * Parse a date field: ISO 8601 or YYYY-MM-DD (start of day)
+ */
+function parseDateInput(value: string): Date | null {
+	const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(value + 'T00:00:00') : new Date(value);
+	return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validate a JSON body against an input spec. Unknown fields are rejected.
+ * With partial=true (PATCH) required fields may be omitted; null clears nullable fields.
+ */
+export function parseInput(body: unknown, spec: InputSpec, partial: boolean = false): Record<string, unknown> {
+	if (!body || typeof body !== 'object' || Array.isArray(body)) {
+		throw apiError(400, 'validation_error', 'Request body must be a JSON object');
+	}
+
+	const input = body as Record<string, unknown>;
+	const unknownFields = Object.keys(input).filter(key => !(key in spec));
+	if (unknownFields.length) {
+		throw apiError(400, 'validation_error', `Unknown field "${unknownFields[0]}"`, { field: unknownFields[0] });
+	}
+
+	const invalid = (field: string, message: string) =>
+		apiError(400, 'validation_error', message, { field });
+
+	const values: Record<string, unknown> = {};
+	for (const [field, fieldSpec] of Object.entries(spec)) {
+		const value = input[field];
+
+		if (value === undefined) {
+			if (fieldSpec.required && !partial) {
+				throw invalid(field, `Field "${field}" is required`);
+			}
+			continue;
+		}
+		if (value === null) {
+			if (!fieldSpec.nullable) {
+				throw invalid(field, `Field "${field}" cannot be null`);
+			}
+			values[field] = null;
+			continue;
+		}
+
+		switch (fieldSpec.type) {
+			case 'string':
+				if (typeof value !== 'string' || (fieldSpec.required && !value.trim())) {
+					throw invalid(field, `Field "${field}" must be a non-empty string`);
+				}
+				if (fieldSpec.enum && !fieldSpec.enum.includes(value)) {
+					throw invalid(field, `Field "${field}" must be one of: ${fieldSpec.enum.join(', ')}`);
+				}
+				values[field] = value;
+				break;
+			case 'integer':
+				if (typeof value !== 'number' || !Number.isInteger(value)) {
+					throw invalid(field, `Field "${field}" must be an integer`);
+				}
+				if (fieldSpec.minimum !== undefined && value < fieldSpec.minimum) {
+					throw invalid(field, `Field "${field}" must be at least ${fieldSpec.minimum}`);
+				}
+				values[field] = value;
+				break;
+			case 'boolean':
+				if (typeof value !== 'boolean') {
+					throw invalid(field, `Field "${field}" must be a boolean`);
+				}
+				values[field] = value;
+				break;
+			case 'date': {
+				const date = typeof value === 'string' ? parseDateInput(value) : null;
+				if (!date) {
+					throw invalid(field, `Field "${field}" must be an ISO 8601 date or YYYY-MM-DD`);
+				}
+				values[field] = date;
+				break;
+			}
+		}
+	}
+
+	if (partial && Object.keys(values).length === 0) {
+		throw apiError(400, 'validation_error', 'Request body must contain at least one field to update');
+	}
+	return values;
+}
+
+const TRANSACTION_FIELDS: InputSpec = {
+	ts: { type: 'date', required: true, description: 'Transaction date (ISO 8601 or YYYY-MM-DD)' },
+	type: { type: 'string', required: true, enum: ['income', 'expense'], description: 'Transaction type' },
+	amountCents: { type: 'integer', required: true, minimum: 1, description: 'Amount in cents' },
+	categoryId: { type: 'string', required: true, description: 'Category ID' },
+	paymentMethod: { type: 'string', nullable: true, description: 'Payment method ID (e.g. "cash", "card")' },
+	accountId: { type: 'string', nullable: true, description: 'Account the money moved in or out of. Defaults to the default account; required once accounts exist and none is set' },
+	note: { type: 'string', nullable: true, description: 'Free-text note' },
+	clickupId: { type: 'string', nullable: true, description: 'ClickUp task ID' },
+	companyName: { type: 'string', nullable: true, description: 'Company name' },
+};
+
+export const TRANSACTION_CREATE: InputSpec = {
+	...TRANSACTION_FIELDS,
+	externalId: { type: 'string', description: 'ID from the calling system' },
+};
+
+export const TRANSACTION_UPDATE: InputSpec = TRANSACTION_FIELDS;
+
+export const CATEGORY_CREATE: InputSpec = {
+	name: { type: 'string', required: true, description: 'Category name' },
+	type: { type: 'string', enum: ['income', 'expense', 'both'], description: 'Which transaction types may use the category' },
+};
+
+export const CATEGORY_UPDATE: InputSpec = {
+	...CATEGORY_CREATE,
+	active: { type: 'boolean', description: 'Inactive categories are hidden from forms' },
+};
+
+export const REPEATABLE_PAYMENT_CREATE: InputSpec = {
+	name: { type: 'string', required: true, description: 'Display name' },
+	type: { type: 'string', required: true, enum: ['income', 'expense'], description: 'Transaction type' },
+	amountCents: { type: 'integer', required: true, minimum: 1, description: 'Amount in cents' },
+	categoryId: { type: 'string', required: true, description: 'Category ID' },
+	paymentMethod: { type: 'string', nullable: true, description: 'Payment method ID (e.g. "cash", "card")' },
+	accountId: { type: 'string', nullable: true, description: 'Account the generated transactions are booked to. Defaults to the default account; required once accounts exist and none is set' },
+	frequency: { type: 'string', enum: ['daily', 'weekly', 'monthly', 'yearly'], description: 'How often the payment repeats; required unless rrule is given' },
+	rrule: { type: 'string', description: 'iCalendar RRULE with FREQ, INTERVAL, BYMONTHDAY, BYDAY and BYSETPOS, e.g. "FREQ=MONTHLY;BYMONTHDAY=15,-1". Overrides frequency; the stored rule is returned as recurrence' },
+	startDate: { type: 'date', required: true, description: 'First due date (ISO 8601 or YYYY-MM-DD)' },
+	endDate: { type: 'date', nullable: true, description: 'Last date the payment may run' },
+	note: { type: 'string', nullable: true, description: 'Free-text note' },
+	clickupId: { type: 'string', nullable: true, description: 'ClickUp task ID' },
+	companyName: { type: 'string', nullable: true, description: 'Company name' },
+	active: { type: 'boolean', description: 'Inactive payments are not run (default true)' },
+};
+
+export const REPEATABLE_PAYMENT_UPDATE: InputSpec = REPEATABLE_PAYMENT_CREATE;
@@ -0,0 +1,39 @@
+import { timingSafeEqual } from 'node:crypto';
+
+function getCronSecret(): string | null {
+	return import.meta.env.CRON_SECRET || process.env.CRON_SECRET || null;
+}
+
+/**
+ * User ID cron jobs act as, e.g. when booking transactions or purging the trash
+ * (SYSTEM_USER_ID, default "system")
+ */
+export function getSystemUserId(): string {
+	return import.meta.env.SYSTEM_USER_ID || process.env.SYSTEM_USER_ID || 'system';
+}
+
+export function hasCronSecret(): boolean {
+	return !!getCronSecret();
+}
+
+/**
+ * Check the request's "Authorization: Bearer <CRON_SECRET>" header. Always fails when the
+ * secret is not set, so the cron endpoints are off until it is configured.
+ */
+export function isCronAuthorized(request: Request): boolean {
+	const secret = getCronSecret();
+	const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
+	const expected = Buffer.from(secret || '');
+	const given = Buffer.from(token);
+	return !!secret && given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * 401 response for cron requests without the right secret
+ */
+export function cronUnauthorized(): Response {
+	return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+		status: 401,
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCsv, parseCsvRecords, toCsvCell } from './csv';
+
+describe('parseCsv', () => {
+	it('reads quoted fields, doubled quotes and embedded newlines', () => {
+		expect(parseCsv('a,"b, c","say ""hi"""\r\n"two\nlines",x,\r\n')).toEqual([
+			['a', 'b, c', 'say "hi"'],
+			['two\nlines', 'x', ''],
+		]);
+	});
+
+	it('skips blank lines and the byte order mark', () => {
+		expect(parseCsv('\uFEFFname;amount\n\n;\nRent;500\n')).toEqual([
+			['name', 'amount'],
+			['Rent', '500'],
+		]);
+	});
+});
+
+describe('detectDelimiter', () => {
+	it('picks the most frequent delimiter of the first line', () => {
+		expect(detectDelimiter('Date;Amount;Note\n01/03/2026;1,50;a,b')).toBe(';');
+		expect(detectDelimiter('Date\tAmount\n')).toBe('\t');
+		expect(detectDelimiter('Date,Amount')).toBe(',');
+		expect(detectDelimiter('Date')).toBe(',');
+	});
+});
+
+describe('parseCsvRecords', () => {
+	it('keys the values by the trimmed, lower-cased header', () => {
+		expect(parseCsvRecords(' Date ,AMOUNT,Note\n2026-03-02, 10.00 \n')).toEqual([
+			{ date: '2026-03-02', amount: '10.00', note: '' },
+		]);
+		expect(parseCsvRecords('')).toEqual([]);
+	});
+});
+
+describe('toCsvCell', () => {
+	it('quotes the value and doubles quotes inside it', () => {
+		expect(toCsvCell('ACME "Holdings", S.A.')).toBe('"ACME ""Holdings"", S.A."');
+		expect(toCsvCell(12.5)).toBe('"12.5"');
+	});
+});
@@ -0,0 +1,72 @@
+/**
+ * Minimal RFC 4180 CSV reader: quoted fields, doubled quotes, embedded newlines and
+ * CRLF line endings. Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let inQuotes = false;
+
+	// Excel adds a byte order mark to UTF-8 exports
+	const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+		if (inQuotes) {
+			if (char === '"' && input[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && input[i + 1] === '\n') i++;
+			row.push(field);
+			field = '';
+			if (row.some(value => value.trim() !== '')) rows.push(row);
+			row = [];
+		} else {
+			field += char;
+		}
+	}
+
+	row.push(field);
+	if (row.some(value => value.trim() !== '')) rows.push(row);
+	return rows;
+}
+
+/**
+ * Guess the delimiter from the first line. Greek and other European bank exports
+ * usually use semicolons because the comma is the decimal separator.
+ */
+export function detectDelimiter(text: string): string {
+	const firstLine = text.split(/\r?\n/, 1)[0] || '';
+	const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length - 1 }));
+	counts.sort((a, b) => b.n - a.n);
+	return counts[0].n > 0 ? counts[0].d : ',';
+}
+
+/**
+ * Read rows into objects keyed by the trimmed, lower-cased header of each column
+ */
+export function parseCsvRecords(text: string, delimiter?: string): Array<Record<string, string>> {
+	const [header, ...rows] = parseCsv(text, delimiter);
+	if (!header) return [];
+	const keys = header.map(h => h.trim().toLowerCase());
+	return rows.map(row => Object.fromEntries(keys.map((key, i) => [key, (row[i] ?? '').trim()])));
+}
+
+/**
+ * Quote one value for a CSV cell
+ */
+export function toCsvCell(value: unknown): string {
+	return `"${String(value).replace(/"/g, '""')}"`;
+}
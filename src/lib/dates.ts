@@ -1,4 +1,4 @@
-import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
+import { formatInTimeZone, fromZonedTime, toZonedTime } from 'date-fns-tz';
 
 const TIMEZONE = 'Europe/Athens';
 
@@ -51,6 +51,13 @@ export function formatDate(date: Date, format: string = 'yyyy-MM-dd'): string {
 	return formatInTimeZone(date, TIMEZONE, format);
 }
 
+/**
+ * The instant a date (YYYY-MM-DD) and time (HH:mm) in Europe/Athens timezone refer to
+ */
+export function fromDateKeyAndTime(dateKey: string, time: string): Date {
+	return fromZonedTime(`${dateKey}T${time}:00`, TIMEZONE);
+}
+
 /**
  * Parse a date string (YYYY-MM-DD) and return Date in Europe/Athens timezone
  */
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const docs = vi.hoisted(() => new Map<string, Record<string, any>>());
+const commits = vi.hoisted(() => [] as number[]);
+
+vi.mock('../firebaseAdmin', () => {
+	const matching = (name: string, field: string, value: unknown) =>
+		[...docs.keys()].filter(path => path.startsWith(`${name}/`) && docs.get(path)![field] === value);
+	return {
+		db: {
+			collection: (name: string) => ({
+				doc: (id: string) => ({
+					path: `${name}/${id}`,
+					get: async () => {
+						const data = docs.get(`${name}/${id}`);
+						return { id, exists: !!data, data: () => data };
+					},
+					delete: async () => {
+						docs.delete(`${name}/${id}`);
+					},
+				}),
+				where: (field: string, _op: '==', value: unknown) => ({
+					limit: () => ({
+						get: async () => ({ empty: matching(name, field, value).length === 0 }),
+					}),
+					get: async () => ({ docs: matching(name, field, value).map(path => ({ ref: { path } })) }),
+				}),
+			}),
+			batch: () => {
+				const deletes: string[] = [];
+				return {
+					delete: (ref: { path: string }) => deletes.push(ref.path),
+					commit: async () => {
+						commits.push(deletes.length);
+						deletes.forEach(path => docs.delete(path));
+					},
+				};
+			},
+		},
+	};
+});
+vi.mock('./audit', () => ({ logAudit: vi.fn() }));
+
+const { deleteAccount, resolveTransactionAccount } = await import('./accounts');
+
+describe('resolveTransactionAccount', () => {
+	beforeEach(() => {
+		docs.clear();
+	});
+
+	it('leaves the account out while there are no accounts', async () => {
+		await expect(resolveTransactionAccount(undefined)).resolves.toBeUndefined();
+	});
+
+	it('requires an account once one exists and no default is set', async () => {
+		docs.set('accounts/bank', { name: 'Bank', active: true });
+		await expect(resolveTransactionAccount(undefined)).rejects.toThrow('Account is required');
+		await expect(resolveTransactionAccount('bank')).resolves.toBe('bank');
+	});
+
+	it('falls back to the default account while it is active', async () => {
+		docs.set('accounts/bank', { name: 'Bank', active: true });
+		docs.set('accounts/cash', { name: 'Cash', active: true });
+		docs.set('settings/default_account', { accountId: 'cash' });
+		await expect(resolveTransactionAccount(undefined)).resolves.toBe('cash');
+
+		docs.set('accounts/cash', { name: 'Cash', active: false });
+		await expect(resolveTransactionAccount(undefined)).rejects.toThrow('Account is required');
+	});
+
+	it('rejects an inactive or unknown account', async () => {
+		docs.set('accounts/old', { name: 'Old', active: false });
+		await expect(resolveTransactionAccount('old')).rejects.toThrow('Account "old" does not exist or is inactive');
+		await expect(resolveTransactionAccount('nope')).rejects.toThrow('Account "nope" does not exist or is inactive');
+	});
+});
+
+describe('deleteAccount', () => {
+	beforeEach(() => {
+		docs.clear();
+		commits.length = 0;
+	});
+
+	it('deletes every daily balance doc, in chunks, then the account', async () => {
+		docs.set('accounts/old', { name: 'Old', active: false });
+		for (let day = 0; day < 1000; day++) {
+			docs.set(`stats_account_daily/old_${day}`, { accountId: 'old', inCents: 0, outCents: 0 });
+		}
+		docs.set('stats_account_daily/bank_2026-10-01', { accountId: 'bank', inCents: 100, outCents: 0 });
+
+		await deleteAccount('old', 'admin');
+
+		expect(commits).toEqual([450, 450, 100]);
+		expect([...docs.keys()]).toEqual(['stats_account_daily/bank_2026-10-01']);
+	});
+
+	it('refuses an account that is still in use', async () => {
+		docs.set('accounts/bank', { name: 'Bank', active: true });
+		docs.set('transactions/tx1', { accountId: 'bank' });
+
+		await expect(deleteAccount('bank', 'admin')).rejects.toThrow('Cannot delete account that is in use');
+		expect(docs.has('accounts/bank')).toBe(true);
+	});
+});
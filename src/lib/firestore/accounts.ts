@@ -0,0 +1,446 @@
+import { db } from '../firebaseAdmin';
+import { FieldValue, type WriteBatch } from 'firebase-admin/firestore';
+import type { Account, AccountDailyBalance, AccountKind } from '../types';
+import { toDateKey } from '../dates';
+import { logAudit } from './audit';
+
+/** A change to an account's money in and out on one day. Reversals use negative amounts. */
+export interface AccountMovement {
+	accountId: string;
+	dateKey: string;
+	inCents: number;
+	outCents: number;
+}
+
+// Rows read per query when scanning transactions and transfers
+const SCAN_BATCH_SIZE = 500;
+// Each assigned row is one update plus at most two movement writes
+const ASSIGN_CHUNK_SIZE = 150;
+// Firestore allows 500 writes per batch
+const WRITE_CHUNK_SIZE = 450;
+
+function toAccount(doc: FirebaseFirestore.DocumentSnapshot): Account {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		name: data.name,
+		kind: data.kind || 'bank',
+		openingBalanceCents: data.openingBalanceCents || 0,
+		balanceCents: data.balanceCents || 0,
+		active: data.active ?? true,
+		createdAt: data.createdAt?.toDate() || new Date(),
+	};
+}
+
+async function commitInChunks<T>(items: T[], write: (batch: WriteBatch, item: T) => void): Promise<void> {
+	for (let start = 0; start < items.length; start += WRITE_CHUNK_SIZE) {
+		const batch = db.batch();
+		items.slice(start, start + WRITE_CHUNK_SIZE).forEach(item => write(batch, item));
+		await batch.commit();
+	}
+}
+
+/**
+ * ID of the stats_account_daily document for an account and day
+ */
+function dailyBalanceId(accountId: string, dateKey: string): string {
+	return `${accountId}_${dateKey}`;
+}
+
+/**
+ * List all accounts (active and inactive)
+ */
+export async function listAccounts(): Promise<Account[]> {
+	const snapshot = await db.collection('accounts').orderBy('name').get();
+	return snapshot.docs.map(toAccount);
+}
+
+/**
+ * List only active accounts
+ */
+export async function listActiveAccounts(): Promise<Account[]> {
+	const snapshot = await db.collection('accounts')
+		.where('active', '==', true)
+		.get();
+	// Sort by name in memory to avoid composite index requirement
+	return snapshot.docs.map(toAccount).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get a single account by ID
+ */
+export async function getAccount(id: string): Promise<Account | null> {
+	const doc = await db.collection('accounts').doc(id).get();
+	return doc.exists ? toAccount(doc) : null;
+}
+
+/**
+ * True if the ID names an active account (used to validate form and API input)
+ */
+export async function isActiveAccount(id: string): Promise<boolean> {
+	const account = await getAccount(id);
+	return !!account?.active;
+}
+
+/**
+ * Check the account picked for a new transaction. Once any active account exists,
+ * new transactions must name one; before that the field is optional.
+ */
+export async function isValidTransactionAccount(accountId: string | undefined): Promise<boolean> {
+	if (accountId) {
+		return isActiveAccount(accountId);
+	}
+	const active = await db.collection('accounts').where('active', '==', true).limit(1).get();
+	return active.empty;
+}
+
+/**
+ * The default account, if one is set and still active
+ */
+export async function getDefaultAccountId(): Promise<string | null> {
+	const settings = await db.collection('settings').doc('default_account').get();
+	const accountId: string | undefined = settings.data()?.accountId;
+	return accountId && (await isActiveAccount(accountId)) ? accountId : null;
+}
+
+/**
+ * Set the account that webhook, API, import and statement writes naming no account are booked to.
+ * null clears it.
+ */
+export async function setDefaultAccount(accountId: string | null, actorId: string): Promise<void> {
+	if (accountId && !(await isActiveAccount(accountId))) {
+		throw new Error('Cannot make an inactive account the default');
+	}
+	await db.collection('settings').doc('default_account').set({
+		accountId,
+		updatedBy: actorId,
+		updatedAt: new Date(),
+	});
+	await logAudit({
+		action: 'account.set_default',
+		entityType: 'account',
+		...(accountId ? { entityId: accountId } : {}),
+		createdBy: actorId,
+		createdAt: new Date(),
+	});
+}
+
+/**
+ * The account a transaction written outside the transaction form is booked to. A named account
+ * must be active. Without one the default account is used; once active accounts exist and no
+ * default is set, an account is required, as in the form.
+ */
+export async function resolveTransactionAccount(accountId: string | undefined): Promise<string | undefined> {
+	if (accountId) {
+		if (!(await isActiveAccount(accountId))) {
+			throw new Error(`Account "${accountId}" does not exist or is inactive`);
+		}
+		return accountId;
+	}
+	const defaultAccountId = await getDefaultAccountId();
+	if (defaultAccountId) {
+		return defaultAccountId;
+	}
+	if (!(await isValidTransactionAccount(undefined))) {
+		throw new Error('Account is required; name one or set a default account');
+	}
+	return undefined;
+}
+
+/**
+ * Create an account. Its balance starts at the opening balance.
+ */
+export async function createAccount(
+	data: { name: string; kind: AccountKind; openingBalanceCents: number },
+	actorId: string
+): Promise<string> {
+	const ref = db.collection('accounts').doc();
+	await ref.set({
+		name: data.name,
+		kind: data.kind,
+		openingBalanceCents: data.openingBalanceCents,
+		balanceCents: data.openingBalanceCents,
+		active: true,
+		createdAt: new Date(),
+	});
+	await logAudit({
+		action: 'account.create',
+		entityType: 'account',
+		entityId: ref.id,
+		amountCents: data.openingBalanceCents,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { name: data.name, kind: data.kind },
+	});
+	return ref.id;
+}
+
+/**
+ * Update an account. A new opening balance shifts the current balance by the difference.
+ */
+export async function updateAccount(
+	id: string,
+	data: Partial<Pick<Account, 'name' | 'kind' | 'openingBalanceCents' | 'active'>>,
+	actorId: string
+): Promise<void> {
+	const account = await getAccount(id);
+	if (!account) {
+		throw new Error('Account not found');
+	}
+
+	const updateData: Record<string, unknown> = {};
+	if (data.name !== undefined) updateData.name = data.name;
+	if (data.kind !== undefined) updateData.kind = data.kind;
+	if (data.active !== undefined) updateData.active = data.active;
+	if (data.openingBalanceCents !== undefined && data.openingBalanceCents !== account.openingBalanceCents) {
+		updateData.openingBalanceCents = data.openingBalanceCents;
+		updateData.balanceCents = FieldValue.increment(data.openingBalanceCents - account.openingBalanceCents);
+	}
+	if (Object.keys(updateData).length === 0) {
+		return;
+	}
+
+	await db.collection('accounts').doc(id).update(updateData);
+	await logAudit({
+		action: 'account.update',
+		entityType: 'account',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: {
+			...data,
+			...(updateData.openingBalanceCents !== undefined ? { previousOpeningBalanceCents: account.openingBalanceCents } : {}),
+		},
+	});
+}
+
+/**
+ * Delete an account that no transaction, transfer or repeatable payment uses
+ */
+export async function deleteAccount(id: string, actorId: string): Promise<void> {
+	const account = await getAccount(id);
+	if (!account) {
+		throw new Error('Account not found');
+	}
+
+	const usage = await Promise.all([
+		db.collection('transactions').where('accountId', '==', id).limit(1).get(),
+		db.collection('transfers').where('fromAccountId', '==', id).limit(1).get(),
+		db.collection('transfers').where('toAccountId', '==', id).limit(1).get(),
+		db.collection('repeatable_payments').where('accountId', '==', id).limit(1).get(),
+	]);
+	if (usage.some(snapshot => !snapshot.empty)) {
+		throw new Error('Cannot delete account that is in use; deactivate it instead');
+	}
+
+	// Daily docs left behind by movements that were later removed are all zero. They go first,
+	// so a run that stops in between leaves the account to delete again.
+	const daily = await db.collection('stats_account_daily').where('accountId', '==', id).get();
+	await commitInChunks(daily.docs, (batch, doc) => batch.delete(doc.ref));
+	await db.collection('accounts').doc(id).delete();
+
+	await logAudit({
+		action: 'account.delete',
+		entityType: 'account',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { name: account.name },
+	});
+}
+
+/**
+ * Add balance movements to a batch. Movements are combined per account and day, so each
+ * touched stats_account_daily doc and account doc is written once. Uses server-side
+ * increments, like the summary docs, so concurrent commits can't overwrite each other.
+ */
+export function applyAccountMovements(batch: WriteBatch, movements: AccountMovement[]): void {
+	const byDay = new Map<string, AccountMovement>();
+	const byAccount = new Map<string, number>();
+
+	for (const movement of movements) {
+		const id = dailyBalanceId(movement.accountId, movement.dateKey);
+		const day = byDay.get(id) || { accountId: movement.accountId, dateKey: movement.dateKey, inCents: 0, outCents: 0 };
+		day.inCents += movement.inCents;
+		day.outCents += movement.outCents;
+		byDay.set(id, day);
+		byAccount.set(movement.accountId, (byAccount.get(movement.accountId) || 0) + movement.inCents - movement.outCents);
+	}
+
+	for (const [id, day] of byDay) {
+		batch.set(db.collection('stats_account_daily').doc(id), {
+			accountId: day.accountId,
+			dateKey: day.dateKey,
+			inCents: FieldValue.increment(day.inCents),
+			outCents: FieldValue.increment(day.outCents),
+			netCents: FieldValue.increment(day.inCents - day.outCents),
+			updatedAt: new Date(),
+		}, { merge: true });
+	}
+	// update, not set: a movement against a deleted account should fail the batch
+	for (const [accountId, amountCents] of byAccount) {
+		batch.update(db.collection('accounts').doc(accountId), {
+			balanceCents: FieldValue.increment(amountCents),
+		});
+	}
+}
+
+/**
+ * Day-by-day history of an account with the running balance at the end of each day,
+ * oldest first. Days without movements are left out.
+ */
+export async function getAccountBalanceHistory(account: Account): Promise<AccountDailyBalance[]> {
+	const snapshot = await db.collection('stats_account_daily')
+		.where('accountId', '==', account.id)
+		.get();
+
+	// Sort in memory to avoid composite index requirement
+	const days = snapshot.docs
+		.map(doc => doc.data())
+		.sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+
+	let balanceCents = account.openingBalanceCents;
+	const history: AccountDailyBalance[] = [];
+	for (const day of days) {
+		balanceCents += day.netCents || 0;
+		if (!day.inCents && !day.outCents) continue;
+		history.push({
+			dateKey: day.dateKey,
+			inCents: day.inCents || 0,
+			outCents: day.outCents || 0,
+			netCents: day.netCents || 0,
+			balanceCents,
+		});
+	}
+	return history;
+}
+
+/**
+ * Every document of a query, read in pages ordered by document ID
+ */
+async function scanAll(query: FirebaseFirestore.Query): Promise<FirebaseFirestore.QueryDocumentSnapshot[]> {
+	const docs: FirebaseFirestore.QueryDocumentSnapshot[] = [];
+	let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+	for (;;) {
+		let page = query.limit(SCAN_BATCH_SIZE);
+		if (cursor) page = page.startAfter(cursor);
+		const snapshot = await page.get();
+		docs.push(...snapshot.docs);
+		if (snapshot.size < SCAN_BATCH_SIZE) break;
+		cursor = snapshot.docs[snapshot.docs.length - 1];
+	}
+	return docs;
+}
+
+/**
+ * Rebuild an account's daily docs and balance from its transactions and transfers.
+ * Like the summary repair, writes landing while it runs are not seen, so run it when
+ * the ledger is quiet. Returns the recalculated balance.
+ */
+export async function recalculateAccountBalance(id: string, actorId: string): Promise<number> {
+	const account = await getAccount(id);
+	if (!account) {
+		throw new Error('Account not found');
+	}
+
+	const [transactions, transfersOut, transfersIn, existing] = await Promise.all([
+		scanAll(db.collection('transactions').where('accountId', '==', id)),
+		scanAll(db.collection('transfers').where('fromAccountId', '==', id)),
+		scanAll(db.collection('transfers').where('toAccountId', '==', id)),
+		db.collection('stats_account_daily').where('accountId', '==', id).get(),
+	]);
+
+	const days = new Map<string, { inCents: number; outCents: number }>();
+	const add = (ts: Date, direction: 'in' | 'out', amountCents: number) => {
+		const dateKey = toDateKey(ts);
+		const day = days.get(dateKey) || { inCents: 0, outCents: 0 };
+		if (direction === 'in') {
+			day.inCents += amountCents;
+		} else {
+			day.outCents += amountCents;
+		}
+		days.set(dateKey, day);
+	};
+	for (const doc of transactions) {
+		const data = doc.data();
+		add(data.ts.toDate(), data.type === 'income' ? 'in' : 'out', data.amountCents);
+	}
+	transfersOut.forEach(doc => add(doc.data().ts.toDate(), 'out', doc.data().amountCents));
+	transfersIn.forEach(doc => add(doc.data().ts.toDate(), 'in', doc.data().amountCents));
+
+	// Replace every daily doc of the account; 500 writes per batch is the Firestore limit
+	const writes: Array<(batch: WriteBatch) => void> = [];
+	const keep = new Set(Array.from(days.keys()).map(dateKey => dailyBalanceId(id, dateKey)));
+	for (const doc of existing.docs) {
+		if (!keep.has(doc.id)) writes.push(batch => batch.delete(doc.ref));
+	}
+	let movementCents = 0;
+	for (const [dateKey, day] of days) {
+		movementCents += day.inCents - day.outCents;
+		writes.push(batch => batch.set(db.collection('stats_account_daily').doc(dailyBalanceId(id, dateKey)), {
+			accountId: id,
+			dateKey,
+			inCents: day.inCents,
+			outCents: day.outCents,
+			netCents: day.inCents - day.outCents,
+			updatedAt: new Date(),
+		}));
+	}
+	const balanceCents = account.openingBalanceCents + movementCents;
+	writes.push(batch => batch.update(db.collection('accounts').doc(id), { balanceCents }));
+
+	for (let i = 0; i < writes.length; i += 500) {
+		const batch = db.batch();
+		writes.slice(i, i + 500).forEach(write => write(batch));
+		await batch.commit();
+	}
+
+	await logAudit({
+		action: 'account.recalculate',
+		entityType: 'account',
+		entityId: id,
+		amountCents: balanceCents,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { before: account.balanceCents, after: balanceCents },
+	});
+	return balanceCents;
+}
+
+/**
+ * Assign every transaction that has no account yet to the given account, moving its
+ * balance along. Scans the whole ledger, since Firestore can't query for a missing field.
+ */
+export async function assignUnassignedTransactions(accountId: string, actorId: string): Promise<number> {
+	if (!(await getAccount(accountId))) {
+		throw new Error('Account not found');
+	}
+
+	const unassigned = (await scanAll(db.collection('transactions'))).filter(doc => !doc.data().accountId);
+	for (let i = 0; i < unassigned.length; i += ASSIGN_CHUNK_SIZE) {
+		const chunk = unassigned.slice(i, i + ASSIGN_CHUNK_SIZE);
+		const batch = db.batch();
+		const movements = chunk.map((doc): AccountMovement => {
+			const data = doc.data();
+			batch.update(doc.ref, { accountId });
+			return {
+				accountId,
+				dateKey: toDateKey(data.ts.toDate()),
+				inCents: data.type === 'income' ? data.amountCents : 0,
+				outCents: data.type === 'income' ? 0 : data.amountCents,
+			};
+		});
+		applyAccountMovements(batch, movements);
+		await batch.commit();
+	}
+
+	await logAudit({
+		action: 'account.assign_unassigned',
+		entityType: 'account',
+		entityId: accountId,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { transactions: unassigned.length },
+	});
+	return unassigned.length;
+}
@@ -0,0 +1,196 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { db } from '../firebaseAdmin';
+import type { ApiKey, ApiKeyScope } from '../types';
+import { logAudit } from './audit';
+
+const KEY_PREFIX = 'led';
+const ROTATION_GRACE_MS = 24 * 60 * 60 * 1000; // Old key keeps working for 24h after rotation
+
+export interface IssuedApiKey {
+	id: string;
+	key: string; // Only returned once - store it in the integration
+	signingSecret: string;
+}
+
+/**
+ * Hash an API key for storage/lookup
+ */
+export function hashApiKey(key: string): string {
+	return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Split "led_<prefix>_<secret>" into its parts
+ */
+export function parseApiKey(key: string): { prefix: string } | null {
+	const match = key.match(/^led_([a-f0-9]{8})_([A-Za-z0-9_-]{32,})$/);
+	return match ? { prefix: match[1] } : null;
+}
+
+function generateKey(): { key: string; prefix: string } {
+	const prefix = randomBytes(4).toString('hex');
+	const secret = randomBytes(24).toString('base64url');
+	return { key: `${KEY_PREFIX}_${prefix}_${secret}`, prefix };
+}
+
+function toApiKey(doc: FirebaseFirestore.DocumentSnapshot): ApiKey {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		...data,
+		scope: data.scope || {},
+		expiresAt: data.expiresAt?.toDate(),
+		revokedAt: data.revokedAt?.toDate(),
+		lastUsedAt: data.lastUsedAt?.toDate(),
+		createdAt: data.createdAt?.toDate() || new Date(),
+	} as ApiKey;
+}
+
+/**
+ * Create a new API key for a service user
+ */
+export async function createApiKey(
+	data: { name: string; userId: string; scope: ApiKeyScope; requireSignature: boolean },
+	actorId: string
+): Promise<IssuedApiKey> {
+	const { key, prefix } = generateKey();
+	const signingSecret = randomBytes(32).toString('hex');
+
+	const scope: ApiKeyScope = {};
+	if (data.scope.types?.length) scope.types = data.scope.types;
+	if (data.scope.categoryIds?.length) scope.categoryIds = data.scope.categoryIds;
+
+	const keyRef = db.collection('api_keys').doc();
+	await keyRef.set({
+		name: data.name,
+		prefix,
+		keyHash: hashApiKey(key),
+		signingSecret,
+		requireSignature: data.requireSignature,
+		userId: data.userId,
+		scope,
+		active: true,
+		createdBy: actorId,
+		createdAt: new Date(),
+	});
+	await logAudit({
+		action: 'api_key.create',
+		entityType: 'api_key',
+		entityId: keyRef.id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { name: data.name, prefix, userId: data.userId },
+	});
+	return { id: keyRef.id, key, signingSecret };
+}
+
+/**
+ * List all API keys (newest first)
+ */
+export async function listApiKeys(): Promise<ApiKey[]> {
+	const snapshot = await db.collection('api_keys').orderBy('createdAt', 'desc').get();
+	return snapshot.docs.map(toApiKey);
+}
+
+/**
+ * Get a single API key by ID
+ */
+export async function getApiKey(id: string): Promise<ApiKey | null> {
+	const doc = await db.collection('api_keys').doc(id).get();
+	if (!doc.exists) {
+		return null;
+	}
+	return toApiKey(doc);
+}
+
+/**
+ * Find the API key matching a presented key, or null if unknown
+ */
+export async function findApiKey(key: string): Promise<ApiKey | null> {
+	const parsed = parseApiKey(key);
+	if (!parsed) {
+		return null;
+	}
+	const snapshot = await db.collection('api_keys')
+		.where('prefix', '==', parsed.prefix)
+		.limit(1)
+		.get();
+	if (snapshot.empty) {
+		return null;
+	}
+	const apiKey = toApiKey(snapshot.docs[0]);
+	return apiKey.keyHash === hashApiKey(key) ? apiKey : null;
+}
+
+/**
+ * Whether a key may currently be used
+ */
+export function isApiKeyUsable(apiKey: ApiKey, now: Date = new Date()): boolean {
+	if (!apiKey.active || apiKey.revokedAt) return false;
+	if (apiKey.expiresAt && apiKey.expiresAt <= now) return false;
+	return true;
+}
+
+/**
+ * Record that a key was just used
+ */
+export async function touchApiKey(id: string): Promise<void> {
+	await db.collection('api_keys').doc(id).update({ lastUsedAt: new Date() });
+}
+
+/**
+ * Revoke an API key immediately
+ */
+export async function revokeApiKey(id: string, actorId: string): Promise<void> {
+	const doc = await db.collection('api_keys').doc(id).get();
+	if (!doc.exists) {
+		throw new Error('API key not found');
+	}
+	await db.collection('api_keys').doc(id).update({
+		active: false,
+		revokedAt: new Date(),
+	});
+	await logAudit({
+		action: 'api_key.revoke',
+		entityType: 'api_key',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { name: doc.data()?.name, prefix: doc.data()?.prefix },
+	});
+}
+
+/**
+ * Rotate an API key: issue a replacement with the same settings and let the
+ * old key expire after a grace period
+ */
+export async function rotateApiKey(id: string, actorId: string): Promise<IssuedApiKey> {
+	const existing = await getApiKey(id);
+	if (!existing) {
+		throw new Error('API key not found');
+	}
+	if (!isApiKeyUsable(existing)) {
+		throw new Error('Cannot rotate a revoked or expired API key');
+	}
+
+	const issued = await createApiKey({
+		name: existing.name,
+		userId: existing.userId,
+		scope: existing.scope,
+		requireSignature: existing.requireSignature,
+	}, actorId);
+
+	await db.collection('api_keys').doc(id).update({
+		expiresAt: new Date(Date.now() + ROTATION_GRACE_MS),
+		rotatedToId: issued.id,
+	});
+	await logAudit({
+		action: 'api_key.rotate',
+		entityType: 'api_key',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { name: existing.name, prefix: existing.prefix, rotatedToId: issued.id },
+	});
+	return issued;
+}
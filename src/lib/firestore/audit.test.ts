@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory audit_logs with the createdAt range, ordering and cursors listAuditLogs relies on
+const entries = vi.hoisted(() => new Map<string, Record<string, any>>());
+const reads = vi.hoisted(() => ({ pages: 0 }));
+
+vi.mock('../firebaseAdmin', () => {
+	// orderBy('createdAt', 'desc'), ties by document ID
+	const compare = (a: string, b: string) => entries.get(b)!.createdAt - entries.get(a)!.createdAt || (a < b ? -1 : a > b ? 1 : 0);
+	const snapshot = (id: string) => {
+		const data = entries.get(id);
+		return { id, exists: !!data, data: () => data && { ...data, createdAt: { toDate: () => data.createdAt } } };
+	};
+	const ops: Record<string, (a: any, b: any) => boolean> = {
+		'==': (a, b) => a === b,
+		'>=': (a, b) => a >= b,
+		'<=': (a, b) => a <= b,
+	};
+
+	interface State {
+		filters: Array<(data: Record<string, any>) => boolean>;
+		after?: string;
+		limit?: number;
+	}
+	const query = (state: State): any => ({
+		where: (field: string, op: string, value: any) =>
+			query({ ...state, filters: [...state.filters, data => ops[op](data[field], value)] }),
+		orderBy: () => query(state),
+		startAfter: (doc: { id: string }) => query({ ...state, after: doc.id }),
+		limit: (n: number) => query({ ...state, limit: n }),
+		get: async () => {
+			reads.pages++;
+			const ids = [...entries.keys()]
+				.filter(id => state.filters.every(filter => filter(entries.get(id)!)))
+				.sort(compare)
+				.filter(id => state.after === undefined || compare(id, state.after) > 0)
+				.slice(0, state.limit);
+			return { docs: ids.map(snapshot), size: ids.length };
+		},
+	});
+
+	return {
+		db: {
+			collection: () => ({
+				...query({ filters: [] }),
+				doc: (id: string) => ({ get: async () => snapshot(id) }),
+			}),
+		},
+		auth: {
+			getUserByEmail: async (email: string) => {
+				if (email !== 'maria@example.com') throw new Error('auth/user-not-found');
+				return { uid: 'maria' };
+			},
+		},
+	};
+});
+
+const { listAuditLogs, parseAuditFilters } = await import('./audit');
+
+/** Seed entries e0001.. one minute apart, newest last */
+function seed(count: number, fields: (n: number) => Record<string, any> = () => ({})) {
+	for (let n = 1; n <= count; n++) {
+		entries.set(`e${String(n).padStart(4, '0')}`, {
+			action: 'transaction.create',
+			entityType: 'transaction',
+			entityId: `tx${n}`,
+			createdBy: 'staff1',
+			createdAt: new Date(Date.UTC(2026, 9, 1) + n * 60_000),
+			...fields(n),
+		});
+	}
+}
+
+const ids = (result: { entries: Array<{ id: string }> }) => result.entries.map(entry => entry.id);
+
+beforeEach(() => {
+	entries.clear();
+	reads.pages = 0;
+});
+
+describe('listAuditLogs', () => {
+	it('scans past batches without matches to fill a page, then pages on from the last entry', async () => {
+		// Every 300th entry is by the admin; 1200 entries take three scan batches
+		seed(1200, n => (n % 300 === 0 ? { createdBy: 'admin', action: 'category.update' } : {}));
+
+		const first = await listAuditLogs({ actorId: 'admin', limit: 2 });
+		expect(ids(first)).toEqual(['e1200', 'e0900']);
+		expect(first.hasMore).toBe(true);
+
+		const second = await listAuditLogs({ actorId: 'admin', limit: 2, startAfterId: 'e0900' });
+		expect(ids(second)).toEqual(['e0600', 'e0300']);
+		expect(second.hasMore).toBe(false);
+	});
+
+	it('combines the date range with the in-memory filters', async () => {
+		seed(10, n => ({ entityType: n % 2 ? 'transaction' : 'category' }));
+
+		const result = await listAuditLogs({
+			entityType: 'category',
+			action: 'transaction.create',
+			fromDate: new Date(Date.UTC(2026, 9, 1, 0, 3)),
+			toDate: new Date(Date.UTC(2026, 9, 1, 0, 8)),
+		});
+		expect(ids(result)).toEqual(['e0008', 'e0006', 'e0004']);
+		expect(reads.pages).toBe(1);
+	});
+
+	it('reads an entity\'s entries directly, newest first, and applies the other filters', async () => {
+		seed(6, n => ({ entityId: n <= 4 ? 'tx1' : 'tx2', createdBy: n === 2 ? 'admin' : 'staff1' }));
+
+		expect(ids(await listAuditLogs({ entityId: 'tx1' }))).toEqual(['e0004', 'e0003', 'e0002', 'e0001']);
+		expect(ids(await listAuditLogs({ entityId: 'tx1', actorId: 'staff1' }))).toEqual(['e0004', 'e0003', 'e0001']);
+
+		const page = await listAuditLogs({ entityId: 'tx1', limit: 2, startAfterId: 'e0004' });
+		expect(ids(page)).toEqual(['e0003', 'e0002']);
+		expect(page.hasMore).toBe(true);
+	});
+});
+
+describe('parseAuditFilters', () => {
+	it('resolves an actor email to its user ID and keeps an unknown one so nothing matches', async () => {
+		const known = await parseAuditFilters(new URLSearchParams('actor=maria@example.com&action=%20category.update%20'));
+		expect(known).toMatchObject({ actorId: 'maria', action: 'category.update' });
+
+		const unknown = await parseAuditFilters(new URLSearchParams('actor=nobody@example.com&entityType='));
+		expect(unknown).toMatchObject({ actorId: 'nobody@example.com', entityType: undefined, fromDate: undefined });
+	});
+});
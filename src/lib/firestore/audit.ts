@@ -1,4 +1,7 @@
-import { db } from '../firebaseAdmin';
+import { createHash } from 'node:crypto';
+import { db, auth } from '../firebaseAdmin';
+import type { AuditLog } from '../types';
+import { parseDateKey, getDayRange } from '../dates';
 
 export interface AuditLogEntry {
 	action: string;
@@ -11,9 +14,173 @@ export interface AuditLogEntry {
 	meta?: Record<string, unknown>;
 }
 
+export interface AuditFilters {
+	actorId?: string;
+	action?: string;
+	entityType?: string;
+	entityId?: string;
+	fromDate?: Date;
+	toDate?: Date;
+}
+
+// Entries read per query while filtering in memory
+const SCAN_BATCH_SIZE = 500;
+
+/** prevHash of the first entry in the chain */
+export const GENESIS_HASH = '0'.repeat(64);
+
+function canonicalize(value: unknown): unknown {
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+	// Firestore Timestamps read back from stored entries
+	if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+		return (value as { toDate: () => Date }).toDate().toISOString();
+	}
+	if (Array.isArray(value)) {
+		return value.map(canonicalize);
+	}
+	if (value && typeof value === 'object') {
+		return Object.keys(value as Record<string, unknown>)
+			.sort()
+			.reduce<Record<string, unknown>>((acc, key) => {
+				acc[key] = canonicalize((value as Record<string, unknown>)[key]);
+				return acc;
+			}, {});
+	}
+	return value;
+}
+
+/**
+ * SHA-256 of an entry's stored fields (including seq and prevHash, excluding hash itself),
+ * independent of key order
+ */
+export function hashAuditEntry(fields: Record<string, unknown>): string {
+	const { hash, ...content } = fields;
+	return createHash('sha256').update(JSON.stringify(canonicalize(content))).digest('hex');
+}
+
+/**
+ * Write an entry to the audit log and queue it for the hash chain. appendAuditChain later
+ * gives queued entries their place in the chain, so writers never contend for the chain head.
+ */
 export async function logAudit(entry: AuditLogEntry): Promise<void> {
-	await db.collection('audit_logs').add({
-		...entry,
-		createdAt: entry.createdAt || new Date(),
-	});
+	const entryRef = db.collection('audit_logs').doc();
+	const createdAt = entry.createdAt || new Date();
+
+	const batch = db.batch();
+	batch.set(entryRef, { ...entry, createdAt });
+	// Same ID as the entry
+	batch.set(db.collection('audit_chain_queue').doc(entryRef.id), { createdAt });
+	await batch.commit();
+}
+
+function toAuditLog(doc: FirebaseFirestore.DocumentSnapshot): AuditLog {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		...data,
+		createdAt: data.createdAt?.toDate() || new Date(),
+	} as AuditLog;
+}
+
+function matchesFilters(entry: AuditLog, filters: AuditFilters): boolean {
+	return (!filters.actorId || entry.createdBy === filters.actorId)
+		&& (!filters.action || entry.action === filters.action)
+		&& (!filters.entityType || entry.entityType === filters.entityType)
+		&& (!filters.entityId || entry.entityId === filters.entityId)
+		&& (!filters.fromDate || entry.createdAt >= filters.fromDate)
+		&& (!filters.toDate || entry.createdAt <= filters.toDate);
+}
+
+/**
+ * List audit entries, newest first. Only the date range is queried; actor, action and entity type
+ * are checked in memory so no composite indexes are needed. With an entity ID, that entity's
+ * entries are read directly. Pass the last entry's ID as startAfterId for the next page.
+ */
+export async function listAuditLogs(
+	filters: AuditFilters & { limit?: number; startAfterId?: string } = {}
+): Promise<{ entries: AuditLog[]; hasMore: boolean }> {
+	const limit = filters.limit || 100;
+
+	if (filters.entityId) {
+		const snapshot = await db.collection('audit_logs').where('entityId', '==', filters.entityId).get();
+		let entries = snapshot.docs
+			.map(toAuditLog)
+			.filter(entry => matchesFilters(entry, filters))
+			.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+		if (filters.startAfterId) {
+			entries = entries.slice(entries.findIndex(entry => entry.id === filters.startAfterId) + 1);
+		}
+		return { entries: entries.slice(0, limit), hasMore: entries.length > limit };
+	}
+
+	let query: FirebaseFirestore.Query = db.collection('audit_logs');
+	if (filters.fromDate) {
+		query = query.where('createdAt', '>=', filters.fromDate);
+	}
+	if (filters.toDate) {
+		query = query.where('createdAt', '<=', filters.toDate);
+	}
+	query = query.orderBy('createdAt', 'desc');
+
+	let cursor: FirebaseFirestore.DocumentSnapshot | null = null;
+	if (filters.startAfterId) {
+		const cursorDoc = await db.collection('audit_logs').doc(filters.startAfterId).get();
+		cursor = cursorDoc.exists ? cursorDoc : null;
+	}
+
+	const entries: AuditLog[] = [];
+	for (;;) {
+		const page: FirebaseFirestore.QuerySnapshot = await (cursor ? query.startAfter(cursor) : query)
+			.limit(SCAN_BATCH_SIZE)
+			.get();
+		for (const doc of page.docs) {
+			const entry = toAuditLog(doc);
+			if (!matchesFilters(entry, filters)) continue;
+			entries.push(entry);
+			if (entries.length > limit) {
+				return { entries: entries.slice(0, limit), hasMore: true };
+			}
+		}
+		if (page.size < SCAN_BATCH_SIZE) break;
+		cursor = page.docs[page.docs.length - 1];
+	}
+	return { entries, hasMore: false };
+}
+
+/**
+ * One entity's audit entries, newest first
+ */
+export async function listEntityAuditLogs(entityType: string, entityId: string): Promise<AuditLog[]> {
+	const { entries } = await listAuditLogs({ entityType, entityId, limit: 500 });
+	return entries;
+}
+
+/**
+ * Read audit filters from query parameters: actor (email or user ID), action, entityType,
+ * entityId, and from/to date keys
+ */
+export async function parseAuditFilters(params: URLSearchParams): Promise<AuditFilters> {
+	const actor = params.get('actor')?.trim();
+	const from = params.get('from');
+	const to = params.get('to');
+
+	let actorId = actor || undefined;
+	if (actor && actor.includes('@')) {
+		try {
+			actorId = (await auth.getUserByEmail(actor)).uid;
+		} catch {
+			// Unknown email: keep it so nothing matches
+		}
+	}
+
+	return {
+		actorId,
+		action: params.get('action')?.trim() || undefined,
+		entityType: params.get('entityType') || undefined,
+		entityId: params.get('entityId')?.trim() || undefined,
+		fromDate: from ? getDayRange(parseDateKey(from)).start : undefined,
+		toDate: to ? getDayRange(parseDateKey(to)).end : undefined,
+	};
 }
@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory collections keyed by "collection/id". Dates are stored as is and read back as
+// Firestore-like timestamps, nested ones included.
+const docs = vi.hoisted(() => new Map<string, Record<string, any>>());
+const transactions = vi.hoisted(() => ({ count: 0 }));
+
+vi.mock('../firebaseAdmin', () => {
+	let nextId = 0;
+	const wrap = (value: any): any => {
+		if (value instanceof Date) return { toDate: () => value };
+		if (Array.isArray(value)) return value.map(wrap);
+		if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, wrap(v)]));
+		return value;
+	};
+	const sortable = (value: any) => (value instanceof Date ? value.getTime() : value);
+	const ref = (name: string, id: string = `auto${String(++nextId).padStart(4, '0')}`) => ({
+		id,
+		path: `${name}/${id}`,
+		get: async () => snapshot(`${name}/${id}`),
+	});
+	const snapshot = (path: string) => {
+		const data = docs.get(path);
+		const [name, id] = path.split('/');
+		return { id, ref: ref(name, id), exists: !!data, data: () => data && wrap(data) };
+	};
+
+	interface State {
+		name: string;
+		where?: { field: string; value: any };
+		order?: { field: string; desc: boolean };
+		after?: string;
+		limit?: number;
+	}
+	const query = (state: State): any => ({
+		where: (field: string, _op: '<=', value: any) => query({ ...state, where: { field, value } }),
+		orderBy: (field: string, dir?: 'desc') => query({ ...state, order: { field, desc: dir === 'desc' } }),
+		startAfter: (doc: { id: string }) => query({ ...state, after: doc.id }),
+		limit: (n: number) => query({ ...state, limit: n }),
+		get: async () => {
+			let paths = [...docs.keys()]
+				.filter(path => path.startsWith(`${state.name}/`))
+				.filter(path => !state.where || docs.get(path)![state.where.field] <= state.where.value);
+			if (state.order) {
+				const { field, desc } = state.order;
+				paths.sort((a, b) => (sortable(docs.get(a)![field]) - sortable(docs.get(b)![field])) * (desc ? -1 : 1) || (a < b ? -1 : 1));
+			}
+			if (state.after !== undefined) {
+				paths = paths.slice(paths.indexOf(`${state.name}/${state.after}`) + 1);
+			}
+			const matches = paths.slice(0, state.limit).map(snapshot);
+			return { docs: matches, size: matches.length, empty: matches.length === 0 };
+		},
+	});
+
+	return {
+		db: {
+			collection: (name: string) => ({
+				...query({ name }),
+				doc: (id?: string) => ref(name, id),
+				add: async (data: Record<string, any>) => {
+					const added = ref(name);
+					docs.set(added.path, data);
+					return added;
+				},
+			}),
+			batch: () => {
+				const writes: Array<() => void> = [];
+				return {
+					set: (r: { path: string }, data: Record<string, any>) => writes.push(() => docs.set(r.path, data)),
+					commit: async () => writes.forEach(write => write()),
+				};
+			},
+			// Writes are applied when the callback returns, like a committed transaction
+			runTransaction: async (fn: (tx: any) => Promise<unknown>) => {
+				transactions.count++;
+				const writes: Array<() => void> = [];
+				const result = await fn({
+					get: (target: { path?: string; get: () => Promise<unknown> }) => target.get(),
+					getAll: async (...refs: Array<{ path: string }>) => refs.map(r => snapshot(r.path)),
+					set: (r: { path: string }, data: Record<string, any>) => writes.push(() => docs.set(r.path, data)),
+					update: (r: { path: string }, fields: Record<string, any>) => writes.push(() => docs.set(r.path, { ...docs.get(r.path), ...fields })),
+					delete: (r: { path: string }) => writes.push(() => docs.delete(r.path)),
+				});
+				writes.forEach(write => write());
+				return result;
+			},
+		},
+		auth: {},
+	};
+});
+
+const { hashAuditEntry, logAudit } = await import('./audit');
+const { appendAuditChain, createAuditCheckpoint, createAuditCheckpointIfDue, verifyAuditChain } = await import('./auditChain');
+
+/** Log entries one second apart, newest last */
+async function log(count: number) {
+	for (let n = 1; n <= count; n++) {
+		await logAudit({
+			action: 'transaction.create',
+			entityType: 'transaction',
+			entityId: `tx${n}`,
+			createdBy: 'staff1',
+			createdAt: new Date(Date.UTC(2026, 9, 1) + n * 1000),
+			meta: { amounts: [n], note: `Entry ${n}` },
+		});
+	}
+}
+
+/** Path of the chained entry with this seq */
+function entryAt(seq: number): string {
+	return [...docs.keys()].find(path => path.startsWith('audit_logs/') && docs.get(path)!.seq === seq)!;
+}
+
+const queued = () => [...docs.keys()].filter(path => path.startsWith('audit_chain_queue/'));
+
+beforeEach(() => {
+	docs.clear();
+	transactions.count = 0;
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+});
+
+describe('logAudit', () => {
+	it('writes and queues the entry without touching the chain head', async () => {
+		await log(3);
+
+		expect(transactions.count).toBe(0);
+		expect(docs.has('audit_chain/head')).toBe(false);
+		expect(queued()).toHaveLength(3);
+		const entry = docs.get(queued()[0].replace('audit_chain_queue/', 'audit_logs/'))!;
+		expect(entry).toMatchObject({ action: 'transaction.create', entityId: 'tx1' });
+		expect(entry).not.toHaveProperty('seq');
+	});
+});
+
+describe('appendAuditChain', () => {
+	it('chains queued entries oldest first, in batches, and empties the queue', async () => {
+		await log(250);
+
+		await expect(appendAuditChain()).resolves.toBe(250);
+
+		expect(transactions.count).toBe(3);
+		expect(queued()).toEqual([]);
+		expect(docs.get(entryAt(1))!.entityId).toBe('tx1');
+		expect(docs.get(entryAt(250))!.entityId).toBe('tx250');
+		expect(docs.get(entryAt(101))!.prevHash).toBe(docs.get(entryAt(100))!.hash);
+		expect(docs.get('audit_chain/head')).toMatchObject({ seq: 250, hash: docs.get(entryAt(250))!.hash });
+
+		await log(1);
+		await expect(appendAuditChain()).resolves.toBe(1);
+		expect(docs.get(entryAt(251))!.prevHash).toBe(docs.get(entryAt(250))!.hash);
+	});
+
+	it('skips queued entries that were deleted before they were chained', async () => {
+		await log(3);
+		docs.delete(queued()[1].replace('audit_chain_queue/', 'audit_logs/'));
+
+		await expect(appendAuditChain()).resolves.toBe(3);
+		expect(docs.get('audit_chain/head')!.seq).toBe(2);
+		expect(docs.get(entryAt(2))!.entityId).toBe('tx3');
+	});
+});
+
+describe('verifyAuditChain', () => {
+	it('appends queued entries first and passes an untouched chain', async () => {
+		await log(5);
+
+		const result = await verifyAuditChain('admin');
+
+		expect(result).toMatchObject({ ok: true, checked: 5, headSeq: 5, checkpoints: [] });
+		expect(result.brokenAt).toBeUndefined();
+	});
+
+	it('reports an edited entry', async () => {
+		await log(5);
+		await appendAuditChain();
+		docs.set(entryAt(3), { ...docs.get(entryAt(3))!, meta: { amounts: [300], note: 'Entry 3' } });
+
+		const result = await verifyAuditChain('admin');
+		expect(result.ok).toBe(false);
+		expect(result.brokenAt).toMatchObject({ seq: 3, reason: 'Content does not match its hash' });
+	});
+
+	it('reports a removed entry, in the middle or at the end', async () => {
+		await log(5);
+		await appendAuditChain();
+		docs.delete(entryAt(2));
+
+		expect((await verifyAuditChain('admin')).brokenAt).toMatchObject({ seq: 2, reason: 'Entry 2 is missing' });
+
+		docs.clear();
+		await log(5);
+		await appendAuditChain();
+		docs.delete(entryAt(5));
+
+		expect((await verifyAuditChain('admin')).brokenAt).toMatchObject({ seq: 5, reason: 'Entries after 4 are missing' });
+	});
+});
+
+describe('checkpoints', () => {
+	it('need the signing key', async () => {
+		await log(1);
+		await expect(createAuditCheckpoint('admin')).rejects.toThrow('Cannot create a checkpoint: AUDIT_SIGNING_KEY is not set');
+		await expect(createAuditCheckpointIfDue('system')).resolves.toBeNull();
+	});
+
+	it('sign the head after appending queued entries and are checked by verification', async () => {
+		vi.stubEnv('AUDIT_SIGNING_KEY', 'test-key');
+		await log(3);
+
+		const checkpoint = await createAuditCheckpoint('admin');
+		expect(checkpoint).toMatchObject({ seq: 3, hash: docs.get(entryAt(3))!.hash });
+
+		expect((await verifyAuditChain('admin')).checkpoints).toEqual([{ id: checkpoint.id, seq: 3, ok: true }]);
+
+		// Edit entry 3 and rehash everything after it: the chain holds, the checkpoint does not
+		docs.set(entryAt(3), { ...docs.get(entryAt(3))!, meta: { amounts: [300], note: 'Entry 3' } });
+		const headSeq: number = docs.get('audit_chain/head')!.seq;
+		for (let seq = 3; seq <= headSeq; seq++) {
+			const { hash, ...data } = docs.get(entryAt(seq))!;
+			const prevHash = docs.get(entryAt(seq - 1))!.hash;
+			docs.set(entryAt(seq), { ...data, prevHash, hash: hashAuditEntry({ ...data, prevHash }) });
+		}
+		docs.set('audit_chain/head', { ...docs.get('audit_chain/head')!, hash: docs.get(entryAt(headSeq))!.hash });
+
+		const result = await verifyAuditChain('admin');
+		expect(result.brokenAt).toBeUndefined();
+		expect(result.checkpoints).toEqual([{ id: checkpoint.id, seq: 3, ok: false, reason: 'Chain differs from the checkpoint' }]);
+	});
+
+	it('reject a checkpoint whose signature does not match', async () => {
+		vi.stubEnv('AUDIT_SIGNING_KEY', 'test-key');
+		await log(3);
+		const checkpoint = await createAuditCheckpoint('admin');
+		docs.set(`audit_checkpoints/${checkpoint.id}`, { ...docs.get(`audit_checkpoints/${checkpoint.id}`)!, seq: 2 });
+
+		const result = await verifyAuditChain('admin');
+		expect(result.ok).toBe(false);
+		expect(result.checkpoints).toEqual([{ id: checkpoint.id, seq: 2, ok: false, reason: 'Invalid signature' }]);
+	});
+
+	it('are created when the last one is a day old', async () => {
+		vi.stubEnv('AUDIT_SIGNING_KEY', 'test-key');
+		await log(1);
+		const now = new Date();
+
+		expect(await createAuditCheckpointIfDue('system', now)).not.toBeNull();
+		await expect(createAuditCheckpointIfDue('system', new Date(now.getTime() + 60 * 60 * 1000))).resolves.toBeNull();
+		expect(await createAuditCheckpointIfDue('system', new Date(now.getTime() + 25 * 60 * 60 * 1000))).not.toBeNull();
+	});
+});
@@ -0,0 +1,282 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { db } from '../firebaseAdmin';
+import type { AuditCheckpoint } from '../types';
+import { logAudit, hashAuditEntry, GENESIS_HASH } from './audit';
+
+// Entries read per query while walking the chain
+const VERIFY_BATCH_SIZE = 500;
+
+// Queued entries appended per transaction (each one is read, updated and dequeued)
+const APPEND_BATCH_SIZE = 100;
+
+const CHECKPOINT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface AuditChainVerification {
+	ok: boolean;
+	checked: number; // Entries walked
+	headSeq: number;
+	brokenAt?: { seq: number; entryId?: string; reason: string }; // First broken link
+	checkpoints: Array<{ id: string; seq: number; ok: boolean; reason?: string }>;
+	verifiedAt: Date;
+}
+
+/**
+ * Key that signs checkpoints (AUDIT_SIGNING_KEY). Checkpoints cannot be created without it.
+ */
+function getSigningKey(): string | null {
+	return import.meta.env.AUDIT_SIGNING_KEY || process.env.AUDIT_SIGNING_KEY || null;
+}
+
+export function hasAuditSigningKey(): boolean {
+	return !!getSigningKey();
+}
+
+function signCheckpoint(checkpoint: { seq: number; hash: string; entryId: string; createdAt: Date }, key: string): string {
+	return createHmac('sha256', key)
+		.update(`${checkpoint.seq}.${checkpoint.hash}.${checkpoint.entryId}.${checkpoint.createdAt.toISOString()}`)
+		.digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+	const bufA = Buffer.from(a);
+	const bufB = Buffer.from(b);
+	return bufA.length === bufB.length && bufA.length > 0 && timingSafeEqual(bufA, bufB);
+}
+
+function toCheckpoint(doc: FirebaseFirestore.DocumentSnapshot): AuditCheckpoint {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		...data,
+		createdAt: data.createdAt.toDate(),
+	} as AuditCheckpoint;
+}
+
+/**
+ * Append queued audit entries to the chain, oldest first. Each gets the next sequence number
+ * (seq), the previous entry's hash (prevHash) and its own hash. The head is read and moved in
+ * the same transaction, so concurrent runs cannot fork the chain. Returns the number appended.
+ */
+export async function appendAuditChain(): Promise<number> {
+	// Latest entry of the chain: { seq, hash, entryId, updatedAt }
+	const headRef = db.collection('audit_chain').doc('head');
+	const queue = db.collection('audit_chain_queue').orderBy('createdAt').limit(APPEND_BATCH_SIZE);
+	let appended = 0;
+
+	for (;;) {
+		const count = await db.runTransaction(async (tx) => {
+			const [head, queued] = await Promise.all([tx.get(headRef), tx.get(queue)]);
+			if (queued.empty) return 0;
+
+			const entries = await tx.getAll(...queued.docs.map(doc => db.collection('audit_logs').doc(doc.id)));
+			let seq: number = head.exists ? head.data()!.seq : 0;
+			let prevHash: string = head.exists ? head.data()!.hash : GENESIS_HASH;
+			let entryId: string | undefined;
+			for (const entry of entries) {
+				// An entry deleted before it was chained has nothing to append
+				if (entry.exists) {
+					seq++;
+					const hash = hashAuditEntry({ ...entry.data(), seq, prevHash });
+					tx.update(entry.ref, { seq, prevHash, hash });
+					prevHash = hash;
+					entryId = entry.id;
+				}
+			}
+			queued.docs.forEach(doc => tx.delete(doc.ref));
+			if (entryId) {
+				tx.set(headRef, { seq, hash: prevHash, entryId, updatedAt: new Date() });
+			}
+			return queued.size;
+		});
+		appended += count;
+		if (count < APPEND_BATCH_SIZE) break;
+	}
+	return appended;
+}
+
+/**
+ * Checkpoints, newest first
+ */
+export async function listAuditCheckpoints(limit: number = 100): Promise<AuditCheckpoint[]> {
+	const snapshot = await db.collection('audit_checkpoints').orderBy('createdAt', 'desc').limit(limit).get();
+	return snapshot.docs.map(toCheckpoint);
+}
+
+/**
+ * Append queued entries, then walk the chain from the first entry. Each entry must follow the
+ * previous one's sequence number, point at its hash and hash to its stored value; the last
+ * entry must match the head. Stored checkpoints are checked against the chain and, when the
+ * key is set, their signatures.
+ */
+export async function verifyAuditChain(actorId: string): Promise<AuditChainVerification> {
+	await appendAuditChain();
+	const head = await db.collection('audit_chain').doc('head').get();
+	const headSeq: number = head.exists ? head.data()!.seq : 0;
+	const hashesBySeq = new Map<number, string>();
+
+	let brokenAt: AuditChainVerification['brokenAt'];
+	let checked = 0;
+	let prevSeq = 0;
+	let prevHash = GENESIS_HASH;
+	let cursor: FirebaseFirestore.DocumentSnapshot | null = null;
+
+	walk: for (;;) {
+		// Entries written while the walk runs are past the head read above and left for next time
+		let query = db.collection('audit_logs').where('seq', '<=', headSeq).orderBy('seq').limit(VERIFY_BATCH_SIZE);
+		if (cursor) {
+			query = query.startAfter(cursor);
+		}
+		const page = await query.get();
+
+		for (const doc of page.docs) {
+			const data = doc.data();
+			checked++;
+			if (data.seq !== prevSeq + 1) {
+				brokenAt = {
+					seq: prevSeq + 1,
+					entryId: doc.id,
+					reason: data.seq === prevSeq ? `Entry ${data.seq} appears twice` : `Entry ${prevSeq + 1} is missing`,
+				};
+				break walk;
+			}
+			if (data.prevHash !== prevHash) {
+				brokenAt = { seq: data.seq, entryId: doc.id, reason: 'Does not point at the previous entry' };
+				break walk;
+			}
+			if (hashAuditEntry(data) !== data.hash) {
+				brokenAt = { seq: data.seq, entryId: doc.id, reason: 'Content does not match its hash' };
+				break walk;
+			}
+			prevSeq = data.seq;
+			prevHash = data.hash;
+			hashesBySeq.set(data.seq, data.hash);
+		}
+
+		if (page.size < VERIFY_BATCH_SIZE) break;
+		cursor = page.docs[page.docs.length - 1];
+	}
+
+	// Entries removed from the end leave the head pointing past the last one
+	if (!brokenAt && (prevSeq !== headSeq || (headSeq > 0 && prevHash !== head.data()!.hash))) {
+		brokenAt = {
+			seq: prevSeq + 1,
+			reason: prevSeq < headSeq ? `Entries after ${prevSeq} are missing` : 'The last entry does not match the chain head',
+		};
+	}
+
+	const key = getSigningKey();
+	const checkpoints = (await listAuditCheckpoints(1000)).map(checkpoint => {
+		if (key && !safeEqual(signCheckpoint(checkpoint, key), checkpoint.signature)) {
+			return { id: checkpoint.id, seq: checkpoint.seq, ok: false, reason: 'Invalid signature' };
+		}
+		const hash = hashesBySeq.get(checkpoint.seq);
+		if (hash === undefined) {
+			return { id: checkpoint.id, seq: checkpoint.seq, ok: false, reason: 'Entry not reached' };
+		}
+		if (hash !== checkpoint.hash) {
+			return { id: checkpoint.id, seq: checkpoint.seq, ok: false, reason: 'Chain differs from the checkpoint' };
+		}
+		return { id: checkpoint.id, seq: checkpoint.seq, ok: true };
+	});
+
+	const result: AuditChainVerification = {
+		ok: !brokenAt && checkpoints.every(checkpoint => checkpoint.ok),
+		checked,
+		headSeq,
+		...(brokenAt ? { brokenAt } : {}),
+		checkpoints,
+		verifiedAt: new Date(),
+	};
+
+	await logAudit({
+		action: 'audit.verify',
+		entityType: 'audit_chain',
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: {
+			ok: result.ok,
+			checked,
+			headSeq,
+			...(brokenAt ? { brokenAt } : {}),
+			failedCheckpoints: checkpoints.filter(checkpoint => !checkpoint.ok).length,
+		},
+	});
+
+	return result;
+}
+
+/**
+ * Append queued entries, then sign the chain head and store it as a checkpoint
+ */
+export async function createAuditCheckpoint(actorId: string): Promise<AuditCheckpoint> {
+	const key = getSigningKey();
+	if (!key) {
+		throw new Error('Cannot create a checkpoint: AUDIT_SIGNING_KEY is not set');
+	}
+
+	await appendAuditChain();
+
+	const head = await db.collection('audit_chain').doc('head').get();
+	if (!head.exists) {
+		throw new Error('Cannot create a checkpoint: the audit chain is empty');
+	}
+
+	const { seq, hash, entryId } = head.data()!;
+	const createdAt = new Date();
+	const signature = signCheckpoint({ seq, hash, entryId, createdAt }, key);
+	const ref = await db.collection('audit_checkpoints').add({
+		seq,
+		hash,
+		entryId,
+		signature,
+		createdBy: actorId,
+		createdAt,
+	});
+
+	await logAudit({
+		action: 'audit.checkpoint',
+		entityType: 'audit_chain',
+		entityId: ref.id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: {
+			seq,
+			hash,
+		},
+	});
+
+	return { id: ref.id, seq, hash, entryId, signature, createdBy: actorId, createdAt };
+}
+
+/**
+ * Create a checkpoint when the signing key is set and the last one is a day old or more.
+ * Returns the new checkpoint, or null when none was due.
+ */
+export async function createAuditCheckpointIfDue(actorId: string, now: Date = new Date()): Promise<AuditCheckpoint | null> {
+	if (!getSigningKey()) {
+		return null;
+	}
+	await appendAuditChain();
+	const [head, [latest]] = await Promise.all([
+		db.collection('audit_chain').doc('head').get(),
+		listAuditCheckpoints(1),
+	]);
+	if (!head.exists || (latest && now.getTime() - latest.createdAt.getTime() < CHECKPOINT_INTERVAL_MS)) {
+		return null;
+	}
+	return createAuditCheckpoint(actorId);
+}
+
+/**
+ * Checkpoints in the form stored off-site
+ */
+export function serializeCheckpoint(checkpoint: AuditCheckpoint) {
+	return {
+		id: checkpoint.id,
+		seq: checkpoint.seq,
+		hash: checkpoint.hash,
+		entryId: checkpoint.entryId,
+		createdAt: checkpoint.createdAt.toISOString(),
+		signature: checkpoint.signature,
+	};
+}
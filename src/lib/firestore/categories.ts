@@ -64,11 +64,16 @@ export async function listActiveCategoriesByType(transactionType: 'income' | 'ex
 /**
  * Create a new category
  */
-export async function createCategory(name: string, actorId?: string): Promise<string> {
+export async function createCategory(
+	name: string,
+	actorId?: string,
+	type?: Category['type']
+): Promise<string> {
 	const categoryRef = db.collection('categories').doc();
 	await categoryRef.set({
 		name,
 		active: true,
+		...(type ? { type } : {}),
 		createdAt: new Date(),
 	});
 	if (actorId) {
@@ -85,9 +90,56 @@ export async function createCategory(name: string, actorId?: string): Promise<st
 }
 
 /**
- * Get or create a payment type category (Cash or Online Payment)
+ * Get a single category by ID
  */
-export async function getOrCreatePaymentTypeCategory(name: 'Cash' | 'Online Payment'): Promise<string> {
+export async function getCategory(id: string): Promise<Category | null> {
+	const doc = await db.collection('categories').doc(id).get();
+	if (!doc.exists) {
+		return null;
+	}
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		...data,
+		createdAt: data.createdAt?.toDate() || new Date(),
+	} as Category;
+}
+
+/**
+ * Update a category's name, type or active flag
+ */
+export async function updateCategory(
+	categoryId: string,
+	data: Partial<Pick<Category, 'name' | 'type' | 'active'>>,
+	actorId?: string
+): Promise<void> {
+	const categoryDoc = await db.collection('categories').doc(categoryId).get();
+	if (!categoryDoc.exists) {
+		throw new Error('Category not found');
+	}
+
+	const updateData: Record<string, unknown> = {};
+	if (data.name !== undefined) updateData.name = data.name;
+	if (data.type !== undefined) updateData.type = data.type;
+	if (data.active !== undefined) updateData.active = data.active;
+
+	await db.collection('categories').doc(categoryId).update(updateData);
+	if (actorId) {
+		await logAudit({
+			action: 'category.update',
+			entityType: 'category',
+			entityId: categoryId,
+			createdBy: actorId,
+			createdAt: new Date(),
+			meta: updateData,
+		});
+	}
+}
+
+/**
+ * Get the ID of the category with this name, creating it if it doesn't exist
+ */
+export async function getOrCreateCategoryByName(name: string, type: NonNullable<Category['type']>): Promise<string> {
 	// Check if category already exists
 	const snapshot = await db.collection('categories')
 		.where('name', '==', name)
@@ -102,7 +154,7 @@ export async function getOrCreatePaymentTypeCategory(name: 'Cash' | 'Online Paym
 	const categoryRef = db.collection('categories').doc();
 	await categoryRef.set({
 		name,
-		type: 'income',
+		type,
 		active: true,
 		createdAt: new Date(),
 	});
@@ -142,13 +194,13 @@ export async function deleteCategory(categoryId: string, actorId?: string): Prom
 		throw new Error('Category not found');
 	}
 	
-	// Check if category is used in any transactions
-	const transactionsSnapshot = await db.collection('transactions')
-		.where('categoryId', '==', categoryId)
-		.limit(1)
-		.get();
+	// Check if category is used in any transactions, including split lines
+	const [transactionsSnapshot, linesSnapshot] = await Promise.all([
+		db.collection('transactions').where('categoryId', '==', categoryId).limit(1).get(),
+		db.collection('transactions').where('categoryIds', 'array-contains', categoryId).limit(1).get(),
+	]);
 	
-	if (!transactionsSnapshot.empty) {
+	if (!transactionsSnapshot.empty || !linesSnapshot.empty) {
 		throw new Error('Cannot delete category that is used in transactions');
 	}
 	
@@ -170,9 +222,8 @@ export async function deleteCategory(categoryId: string, actorId?: string): Prom
  */
 export async function seedDefaultCategories(): Promise<void> {
 	const defaults = [
-		// Income categories
-		{ name: 'Cash', type: 'income' },
-		{ name: 'Online Payment', type: 'income' },
+		// Income categories (how a payment was made is a payment method, not a category)
+		{ name: 'Sales', type: 'income' },
 		// Expense categories
 		{ name: 'Rent', type: 'expense' },
 		{ name: 'Utilities', type: 'expense' },
@@ -0,0 +1,183 @@
+import { createHash } from 'node:crypto';
+import { db } from '../firebaseAdmin';
+
+const PENDING_TIMEOUT_MS = 60 * 1000; // A claim that never completed can be retried after this
+const MAX_KEY_LENGTH = 255;
+
+// gRPC status Firestore returns when a write's lastUpdateTime precondition does not hold
+const FAILED_PRECONDITION = 9;
+
+export interface StoredResponse {
+	statusCode: number;
+	body: unknown;
+}
+
+/**
+ * A key this request holds. Writes made with it only succeed while the key has not been
+ * claimed again since, e.g. by a retry after the pending timeout.
+ */
+export interface HeldIdempotencyKey {
+	namespace: string;
+	key: string;
+	claimedAt: FirebaseFirestore.Timestamp; // Update time of the claim
+}
+
+export type IdempotencyClaim =
+	| { status: 'claimed'; held: HeldIdempotencyKey }
+	| { status: 'replay'; response: StoredResponse }
+	| { status: 'conflict'; error: string };
+
+function canonicalize(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(canonicalize);
+	}
+	if (value && typeof value === 'object') {
+		return Object.keys(value as Record<string, unknown>)
+			.sort()
+			.reduce<Record<string, unknown>>((acc, key) => {
+				acc[key] = canonicalize((value as Record<string, unknown>)[key]);
+				return acc;
+			}, {});
+	}
+	return value;
+}
+
+/**
+ * Hash a request payload independently of key order and whitespace
+ */
+export function hashRequestPayload(payload: unknown): string {
+	return createHash('sha256').update(JSON.stringify(canonicalize(payload))).digest('hex');
+}
+
+/**
+ * Validate a client-supplied idempotency key. Returns an error message, or null if valid.
+ */
+export function validateIdempotencyKey(key: string): string | null {
+	if (!key.trim()) return 'Idempotency key must not be empty';
+	if (key.length > MAX_KEY_LENGTH) return `Idempotency key must be at most ${MAX_KEY_LENGTH} characters`;
+	return null;
+}
+
+function idempotencyRef(namespace: string, key: string) {
+	const docId = createHash('sha256').update(`${namespace}:${key}`).digest('hex');
+	return db.collection('idempotency_keys').doc(docId);
+}
+
+/**
+ * Claim an idempotency key before doing the work. Keys are namespaced (e.g. per API key)
+ * so two integrations cannot collide.
+ */
+export async function claimIdempotencyKey(
+	namespace: string,
+	key: string,
+	requestHash: string
+): Promise<IdempotencyClaim> {
+	const ref = idempotencyRef(namespace, key);
+	const claim = await db.runTransaction(async (tx) => {
+		const doc = await tx.get(ref);
+		const now = new Date();
+
+		if (doc.exists) {
+			const data = doc.data()!;
+			if (data.requestHash !== requestHash) {
+				return {
+					status: 'conflict',
+					error: 'Idempotency key was already used with a different payload',
+				} as const;
+			}
+			if (data.state === 'completed') {
+				return { status: 'replay', response: data.response as StoredResponse } as const;
+			}
+			const claimedAt: Date = data.claimedAt?.toDate() || now;
+			if (now.getTime() - claimedAt.getTime() < PENDING_TIMEOUT_MS) {
+				return {
+					status: 'conflict',
+					error: 'A request with this idempotency key is still being processed',
+				} as const;
+			}
+		}
+
+		tx.set(ref, {
+			namespace,
+			key,
+			requestHash,
+			state: 'pending',
+			claimedAt: now,
+			createdAt: doc.exists ? doc.data()!.createdAt : now,
+		});
+		return { status: 'claimed' } as const;
+	});
+	if (claim.status !== 'claimed') {
+		return claim;
+	}
+
+	// Nobody can claim the key again within the pending timeout, so this is our write
+	const claimed = await ref.get();
+	return { status: 'claimed', held: { namespace, key, claimedAt: claimed.updateTime! } };
+}
+
+/**
+ * Look up the stored response for a completed key and the same payload, without claiming it.
+ * Returns null while the key is unknown, pending or used with a different payload.
+ */
+export async function getCompletedResponse(
+	namespace: string,
+	key: string,
+	requestHash: string
+): Promise<StoredResponse | null> {
+	const doc = await idempotencyRef(namespace, key).get();
+	const data = doc.data();
+	if (!data || data.state !== 'completed' || data.requestHash !== requestHash) {
+		return null;
+	}
+	return data.response as StoredResponse;
+}
+
+function completion(response: StoredResponse, transactionId?: string) {
+	return {
+		state: 'completed',
+		response,
+		...(transactionId ? { transactionId } : {}),
+		completedAt: new Date(),
+	};
+}
+
+/**
+ * Complete a held key in the same batch that writes the result, so the result can't be saved
+ * without the key being completed. The batch fails if the key has been claimed again since.
+ */
+export function completeIdempotencyKeyInBatch(
+	batch: FirebaseFirestore.WriteBatch,
+	held: HeldIdempotencyKey,
+	response: StoredResponse,
+	transactionId?: string
+): void {
+	batch.update(idempotencyRef(held.namespace, held.key), completion(response, transactionId), {
+		lastUpdateTime: held.claimedAt,
+	});
+}
+
+/**
+ * Store the final response for a claimed key so replays return it unchanged
+ */
+export async function completeIdempotencyKey(
+	held: HeldIdempotencyKey,
+	response: StoredResponse,
+	transactionId?: string
+): Promise<void> {
+	await idempotencyRef(held.namespace, held.key).update(completion(response, transactionId), {
+		lastUpdateTime: held.claimedAt,
+	});
+}
+
+/**
+ * Release a claim when the request failed, so a corrected retry can reuse the key. A key
+ * claimed again since belongs to the other request and is left alone.
+ */
+export async function releaseIdempotencyKey(held: HeldIdempotencyKey): Promise<void> {
+	try {
+		await idempotencyRef(held.namespace, held.key).delete({ lastUpdateTime: held.claimedAt });
+	} catch (err: any) {
+		if (err?.code !== FAILED_PRECONDITION) throw err;
+	}
+}
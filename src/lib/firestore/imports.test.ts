@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory collections keyed by "collection/id"
+const docs = vi.hoisted(() => new Map<string, Record<string, any>>());
+const DELETE = vi.hoisted(() => Symbol('delete'));
+
+vi.mock('firebase-admin/firestore', () => ({ FieldValue: { delete: () => DELETE } }));
+
+vi.mock('../firebaseAdmin', () => {
+	const applyUpdate = (path: string, fields: Record<string, any>) => {
+		const data = { ...docs.get(path)! };
+		for (const [key, value] of Object.entries(fields)) {
+			if (value === DELETE) delete data[key];
+			else data[key] = value;
+		}
+		docs.set(path, data);
+	};
+	const wrap = (value: any) => (value instanceof Date ? { toDate: () => value } : value);
+	const snapshot = (path: string) => {
+		const data = docs.get(path);
+		const stored = data && Object.fromEntries(Object.entries(data).map(([key, value]) => [key, wrap(value)]));
+		return { id: path.split('/')[1], ref: { path }, exists: !!data, data: () => stored };
+	};
+	const ref = (name: string, id: string) => ({
+		id,
+		path: `${name}/${id}`,
+		get: async () => snapshot(`${name}/${id}`),
+		update: async (fields: Record<string, any>) => applyUpdate(`${name}/${id}`, fields),
+	});
+	const query = (name: string, field: string, value: unknown, limit = Infinity, after?: string): any => ({
+		orderBy: () => query(name, field, value, limit, after),
+		select: () => query(name, field, value, limit, after),
+		limit: (n: number) => query(name, field, value, n, after),
+		startAfter: (doc: { id: string }) => query(name, field, value, limit, doc.id),
+		get: async () => {
+			const matches = [...docs.keys()]
+				.filter(path => path.startsWith(`${name}/`) && docs.get(path)![field] === value)
+				.sort()
+				.filter(path => after === undefined || path > `${name}/${after}`)
+				.slice(0, limit)
+				.map(snapshot);
+			return { docs: matches, empty: matches.length === 0 };
+		},
+	});
+	return {
+		db: {
+			collection: (name: string) => ({
+				doc: (id: string) => ref(name, id),
+				where: (field: string, _op: '==', value: unknown) => query(name, field, value),
+			}),
+			getAll: async (...refs: Array<{ path: string }>) => refs.map(r => snapshot(r.path)),
+			batch: () => {
+				const writes: Array<() => void> = [];
+				return {
+					update: (r: { path: string }, fields: Record<string, any>) => writes.push(() => applyUpdate(r.path, fields)),
+					commit: async () => writes.forEach(write => write()),
+				};
+			},
+			runTransaction: async (fn: (tx: any) => Promise<unknown>) => fn({
+				get: async (r: { path: string }) => snapshot(r.path),
+				update: (r: { path: string }, fields: Record<string, any>) => applyUpdate(r.path, fields),
+			}),
+		},
+	};
+});
+
+const transactions = vi.hoisted(() => ({
+	createTransactions: vi.fn(),
+	deleteTransactions: vi.fn(),
+	listTransactions: vi.fn(async () => ({ transactions: [], hasNext: false, hasPrev: false })),
+}));
+vi.mock('./transactions', () => transactions);
+vi.mock('./categories', () => ({
+	listCategories: async () => [{ id: 'sales', name: 'Sales', type: 'both', active: true }],
+	getOrCreateCategoryByName: vi.fn(),
+}));
+vi.mock('./accounts', () => ({ resolveTransactionAccount: vi.fn() }));
+vi.mock('./paymentMethods', () => ({ isActivePaymentMethod: vi.fn() }));
+const logAudit = vi.hoisted(() => vi.fn());
+vi.mock('./audit', () => ({ logAudit }));
+
+const { commitImportBatch, rollbackImportBatch } = await import('./imports');
+
+/** A draft import of three valid rows */
+function seedImport() {
+	docs.set('import_batches/imp1', {
+		filename: 'ledger.csv',
+		headers: ['Date', 'Amount', 'Category'],
+		rowCount: 3,
+		mapping: { date: 0, amount: 1, category: 2 },
+		options: { dateFormat: 'dmy', createMissingCategories: false, skipDuplicates: true },
+		status: 'draft',
+		createdBy: 'admin',
+		createdAt: new Date(),
+	});
+	['10.00', '20.00', '30.00'].forEach((amount, index) => {
+		docs.set(`import_rows/row${index}`, { batchId: 'imp1', index, cells: ['2026-03-01', amount, 'Sales'] });
+	});
+}
+
+/** Write transactions under the IDs asked for, like createTransactions does */
+function writeTransactions(items: Array<Record<string, any>>, options: { ids: string[] }) {
+	items.forEach((item, i) => docs.set(`transactions/${options.ids[i]}`, item));
+	return options.ids.map(id => ({ id }));
+}
+
+beforeEach(() => {
+	docs.clear();
+	logAudit.mockReset();
+	transactions.createTransactions.mockReset();
+	transactions.deleteTransactions.mockReset();
+	seedImport();
+});
+
+describe('commitImportBatch', () => {
+	it('records a failed commit and resumes it without writing rows twice', async () => {
+		// The transactions are written, then the commit dies before the rows' results are saved
+		transactions.createTransactions.mockImplementationOnce(async (items, options) => {
+			writeTransactions(items, options);
+			throw new Error('Deadline exceeded');
+		});
+
+		await expect(commitImportBatch('imp1', 'admin')).rejects.toThrow('Deadline exceeded');
+		expect(docs.get('import_batches/imp1')).toMatchObject({ status: 'commit_failed', commitError: 'Deadline exceeded' });
+		expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'import.commit_failed' }));
+
+		const batch = await commitImportBatch('imp1', 'admin');
+
+		expect(transactions.createTransactions).toHaveBeenCalledTimes(1);
+		expect(batch).toMatchObject({ status: 'committed', createdCount: 3, failedCount: 0, processedCount: 3 });
+		expect(batch.commitError).toBeUndefined();
+		expect(docs.get('import_rows/row1')!.transactionId).toBe('imp_row1');
+		expect(logAudit).toHaveBeenLastCalledWith(expect.objectContaining({
+			action: 'import.commit',
+			meta: expect.objectContaining({ created: 3, resumed: true }),
+		}));
+	});
+
+	it('retries only the rows of a chunk that failed', async () => {
+		transactions.createTransactions.mockImplementation(async (items, options) => writeTransactions(items, options));
+		docs.set('import_batches/imp1', { ...docs.get('import_batches/imp1')!, status: 'commit_failed' });
+		docs.set('import_rows/row0', { ...docs.get('import_rows/row0')!, transactionId: 'imp_row0' });
+		docs.set('import_rows/row2', { ...docs.get('import_rows/row2')!, error: 'Quota exceeded' });
+
+		await commitImportBatch('imp1', 'admin');
+
+		expect(transactions.createTransactions).toHaveBeenCalledWith(
+			[expect.objectContaining({ amountCents: 2000 }), expect.objectContaining({ amountCents: 3000 })],
+			{ ids: ['imp_row1', 'imp_row2'] }
+		);
+		expect(docs.get('import_rows/row2')).toMatchObject({ transactionId: 'imp_row2' });
+		expect(docs.get('import_rows/row2')!.error).toBeUndefined();
+	});
+
+	it('refuses a commit that is still running', async () => {
+		docs.set('import_batches/imp1', { ...docs.get('import_batches/imp1')!, status: 'committing', commitUpdatedAt: new Date() });
+		await expect(commitImportBatch('imp1', 'admin')).rejects.toThrow('Import is already being committed');
+	});
+});
+
+describe('rollbackImportBatch', () => {
+	it('trashes every transaction carrying the import ID, saved on a row or not', async () => {
+		docs.set('import_batches/imp1', { ...docs.get('import_batches/imp1')!, status: 'commit_failed' });
+		docs.set('import_rows/row0', { ...docs.get('import_rows/row0')!, transactionId: 'imp_row0' });
+		docs.set('transactions/imp_row0', { importBatchId: 'imp1' });
+		docs.set('transactions/imp_row1', { importBatchId: 'imp1' });
+		docs.set('transactions/other', { importBatchId: 'imp2' });
+		transactions.deleteTransactions.mockImplementation(async (ids: string[]) => ids.length);
+
+		await expect(rollbackImportBatch('imp1', 'admin')).resolves.toBe(2);
+
+		expect(transactions.deleteTransactions).toHaveBeenCalledWith(['imp_row0', 'imp_row1'], 'admin');
+		expect(docs.get('import_batches/imp1')!.status).toBe('rolled_back');
+	});
+
+	it('leaves drafts alone', async () => {
+		await expect(rollbackImportBatch('imp1', 'admin')).rejects.toThrow('Only committed imports can be rolled back');
+	});
+});
@@ -0,0 +1,556 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../firebaseAdmin';
+import type { Category, ImportBatch, ImportMapping, ImportOptions, Transaction, TransactionType } from '../types';
+import {
+	IMPORT_FIELDS,
+	guessImportMapping,
+	parseImportRow,
+	duplicateKey,
+	isLikelyDuplicate,
+	type ParsedImportRow,
+} from '../imports';
+import { toDateKey } from '../dates';
+import { listCategories, getOrCreateCategoryByName } from './categories';
+import { resolveTransactionAccount } from './accounts';
+import { isActivePaymentMethod } from './paymentMethods';
+import { createTransactions, deleteTransactions, listTransactions } from './transactions';
+import { logAudit } from './audit';
+
+// Firestore allows 500 writes per batch
+const WRITE_CHUNK_SIZE = 450;
+
+// Rows handed to createTransactions at a time; each row's result is saved after every chunk
+const COMMIT_CHUNK_SIZE = 400;
+
+// A commit that has not reported progress for this long has stopped and can be resumed
+const COMMIT_STALE_MS = 10 * 60 * 1000;
+
+// Transactions read per query when rolling an import back
+const ROLLBACK_SCAN_SIZE = 500;
+
+const DAY_MS = 86400000;
+
+const DEFAULT_OPTIONS: ImportOptions = {
+	dateFormat: 'dmy',
+	createMissingCategories: false,
+	skipDuplicates: true,
+};
+
+interface ImportRow {
+	id: string;
+	index: number;
+	cells: string[];
+	transactionId?: string;
+	error?: string;
+}
+
+/** One row of the dry-run preview */
+export interface ImportPreviewRow {
+	index: number;
+	cells: string[];
+	data?: ParsedImportRow;
+	categoryId?: string; // Unset while the category is still to be created
+	errors: string[];
+	duplicateOf?: string; // Why the row looks like a duplicate, e.g. "row 4"
+	transactionId?: string; // Set once committed
+	error?: string; // Commit error
+}
+
+export interface ImportPreview {
+	rows: ImportPreviewRow[];
+	validCount: number;
+	errorCount: number;
+	duplicateCount: number;
+	newCategories: string[];
+}
+
+function toImportBatch(doc: FirebaseFirestore.DocumentSnapshot): ImportBatch {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		filename: data.filename,
+		headers: data.headers || [],
+		rowCount: data.rowCount || 0,
+		...(data.mapping ? { mapping: data.mapping } : {}),
+		...(data.options ? { options: data.options } : {}),
+		status: data.status,
+		createdCount: data.createdCount || 0,
+		failedCount: data.failedCount || 0,
+		skippedCount: data.skippedCount || 0,
+		processedCount: data.processedCount || 0,
+		createdCategories: data.createdCategories || [],
+		createdBy: data.createdBy,
+		createdAt: data.createdAt?.toDate() || new Date(),
+		...(data.committedAt ? { committedAt: data.committedAt.toDate() } : {}),
+		...(data.commitUpdatedAt ? { commitUpdatedAt: data.commitUpdatedAt.toDate() } : {}),
+		...(data.commitError ? { commitError: data.commitError } : {}),
+		...(data.rolledBackBy ? { rolledBackBy: data.rolledBackBy } : {}),
+		...(data.rolledBackAt ? { rolledBackAt: data.rolledBackAt.toDate() } : {}),
+	};
+}
+
+async function commitInChunks<T>(items: T[], write: (batch: FirebaseFirestore.WriteBatch, item: T) => void): Promise<void> {
+	for (let start = 0; start < items.length; start += WRITE_CHUNK_SIZE) {
+		const batch = db.batch();
+		items.slice(start, start + WRITE_CHUNK_SIZE).forEach(item => write(batch, item));
+		await batch.commit();
+	}
+}
+
+/**
+ * List imports, newest first
+ */
+export async function listImportBatches(limit: number = 50): Promise<ImportBatch[]> {
+	const snapshot = await db.collection('import_batches').orderBy('createdAt', 'desc').limit(limit).get();
+	return snapshot.docs.map(toImportBatch);
+}
+
+/**
+ * Get a single import by ID
+ */
+export async function getImportBatch(id: string): Promise<ImportBatch | null> {
+	const doc = await db.collection('import_batches').doc(id).get();
+	return doc.exists ? toImportBatch(doc) : null;
+}
+
+async function listImportRows(batchId: string): Promise<ImportRow[]> {
+	const snapshot = await db.collection('import_rows').where('batchId', '==', batchId).get();
+	// Sort in memory to avoid composite index requirement
+	return snapshot.docs
+		.map(doc => ({ id: doc.id, ...doc.data() } as ImportRow))
+		.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Store an uploaded sheet as a draft import, with the column mapping guessed from the headers
+ */
+export async function createImportBatch(
+	data: { filename: string; headers: string[]; rows: string[][] },
+	actorId: string
+): Promise<string> {
+	const ref = db.collection('import_batches').doc();
+	await ref.set({
+		filename: data.filename,
+		headers: data.headers,
+		rowCount: data.rows.length,
+		mapping: guessImportMapping(data.headers),
+		options: DEFAULT_OPTIONS,
+		status: 'draft',
+		createdBy: actorId,
+		createdAt: new Date(),
+	});
+
+	await commitInChunks(data.rows.map((cells, index) => ({ cells, index })), (batch, row) => {
+		batch.set(db.collection('import_rows').doc(), { batchId: ref.id, index: row.index, cells: row.cells });
+	});
+	return ref.id;
+}
+
+/**
+ * Save the column mapping and options of a draft import
+ */
+export async function saveImportSettings(id: string, mapping: ImportMapping, options: ImportOptions): Promise<void> {
+	const batch = await getImportBatch(id);
+	if (!batch) {
+		throw new Error('Import not found');
+	}
+	if (batch.status !== 'draft') {
+		throw new Error('Import has already been committed');
+	}
+	for (const { field, label, required } of IMPORT_FIELDS) {
+		if (required && mapping[field] === undefined) {
+			throw new Error(`Map a column to ${label}`);
+		}
+	}
+	// Rows are booked to the default account when none is picked
+	const accountId = await resolveTransactionAccount(options.accountId);
+	if (options.paymentMethod && !(await isActivePaymentMethod(options.paymentMethod))) {
+		throw new Error('Unknown payment method');
+	}
+
+	await db.collection('import_batches').doc(id).update({
+		mapping,
+		options: {
+			dateFormat: options.dateFormat,
+			createMissingCategories: options.createMissingCategories,
+			skipDuplicates: options.skipDuplicates,
+			...(accountId ? { accountId } : {}),
+			...(options.paymentMethod ? { paymentMethod: options.paymentMethod } : {}),
+		},
+	});
+}
+
+/**
+ * Existing transactions on the days the rows fall on, grouped by duplicate key. Transactions
+ * the import itself created are left out, so a resumed commit doesn't skip its own rows.
+ */
+async function loadExistingByKey(rows: ParsedImportRow[], importBatchId: string): Promise<Map<string, Transaction[]>> {
+	const byKey = new Map<string, Transaction[]>();
+	if (rows.length === 0) {
+		return byKey;
+	}
+
+	const dateKeys = rows.map(row => row.dateKey).sort();
+	// One day of slack either side; rows are compared by date key afterwards
+	const fromDate = new Date(new Date(dateKeys[0] + 'T00:00:00').getTime() - DAY_MS);
+	const toDate = new Date(new Date(dateKeys[dateKeys.length - 1] + 'T00:00:00').getTime() + 2 * DAY_MS);
+	const wanted = new Set(dateKeys);
+
+	let startAfterId: string | undefined;
+	let hasNext = true;
+	while (hasNext) {
+		const page = await listTransactions({ fromDate, toDate, limit: 1000, startAfterId });
+		for (const tx of page.transactions) {
+			const dateKey = toDateKey(tx.ts);
+			if (!wanted.has(dateKey) || tx.importBatchId === importBatchId) continue;
+			const key = duplicateKey({ dateKey, type: tx.type, amountCents: tx.amountCents });
+			byKey.set(key, [...(byKey.get(key) || []), tx]);
+		}
+		startAfterId = page.transactions[page.transactions.length - 1]?.id;
+		hasNext = page.hasNext;
+	}
+	return byKey;
+}
+
+/**
+ * Validate every row against the mapping: parse it, resolve the category name and look
+ * for likely duplicates among existing transactions and earlier rows of the file.
+ */
+function buildPreview(
+	batch: ImportBatch,
+	rows: ImportRow[],
+	categories: Category[],
+	existing: Map<string, Transaction[]>
+): ImportPreview {
+	const options = batch.options || DEFAULT_OPTIONS;
+	const mapping = batch.mapping || {};
+	const categoriesByName = new Map(categories.map(c => [c.name.trim().toLowerCase(), c]));
+	const newCategories = new Map<string, string>();
+	const seen = new Map<string, Array<{ index: number; clickupId?: string }>>();
+
+	const previewRows = rows.map(row => {
+		const { data, errors } = parseImportRow(row.cells, mapping, options);
+		const previewRow: ImportPreviewRow = {
+			index: row.index,
+			cells: row.cells,
+			errors,
+			...(row.transactionId ? { transactionId: row.transactionId } : {}),
+			...(row.error ? { error: row.error } : {}),
+		};
+		if (!data) {
+			return previewRow;
+		}
+		previewRow.data = data;
+
+		const category = categoriesByName.get(data.categoryName.toLowerCase());
+		if (category) {
+			if (!category.active) {
+				errors.push(`Category "${category.name}" is inactive`);
+			} else if (category.type && category.type !== 'both' && category.type !== data.type) {
+				errors.push(`Category "${category.name}" is for ${category.type} only`);
+			} else {
+				previewRow.categoryId = category.id;
+			}
+		} else if (options.createMissingCategories) {
+			if (!newCategories.has(data.categoryName.toLowerCase())) {
+				newCategories.set(data.categoryName.toLowerCase(), data.categoryName);
+			}
+		} else {
+			errors.push(`Unknown category "${data.categoryName}"`);
+		}
+
+		const key = duplicateKey(data);
+		const match = (existing.get(key) || []).find(tx => isLikelyDuplicate(data, tx));
+		const earlier = (seen.get(key) || []).find(other => isLikelyDuplicate(data, other));
+		if (match) {
+			previewRow.duplicateOf = `existing transaction${match.companyName ? ` (${match.companyName})` : ''}`;
+		} else if (earlier) {
+			previewRow.duplicateOf = `row ${earlier.index + 2}`;
+		}
+		seen.set(key, [...(seen.get(key) || []), { index: row.index, clickupId: data.clickupId }]);
+
+		return previewRow;
+	});
+
+	return {
+		rows: previewRows,
+		validCount: previewRows.filter(row => row.errors.length === 0).length,
+		errorCount: previewRows.filter(row => row.errors.length > 0).length,
+		duplicateCount: previewRows.filter(row => row.errors.length === 0 && row.duplicateOf).length,
+		newCategories: Array.from(newCategories.values()),
+	};
+}
+
+/**
+ * Dry run: validate the whole file with the saved mapping without writing anything
+ */
+export async function previewImportBatch(id: string): Promise<ImportPreview> {
+	const batch = await getImportBatch(id);
+	if (!batch) {
+		throw new Error('Import not found');
+	}
+	const [rows, categories] = await Promise.all([listImportRows(id), listCategories()]);
+	const parsed = rows
+		.map(row => parseImportRow(row.cells, batch.mapping || {}, batch.options || DEFAULT_OPTIONS).data)
+		.filter((data): data is ParsedImportRow => !!data);
+	// Rows of a finished import would match other transactions on their days
+	const existing = isImportResumable(batch) || batch.status === 'draft' ? await loadExistingByKey(parsed, id) : new Map();
+	return buildPreview(batch, rows, categories, existing);
+}
+
+/**
+ * True if a commit of the import failed or stopped without finishing, so it can be resumed
+ * or rolled back
+ */
+export function isImportResumable(batch: ImportBatch, now: Date = new Date()): boolean {
+	if (batch.status === 'commit_failed') return true;
+	return batch.status === 'committing' &&
+		now.getTime() - (batch.commitUpdatedAt || batch.createdAt).getTime() > COMMIT_STALE_MS;
+}
+
+/**
+ * ID of the transaction an import row becomes. Fixed, so a resumed commit finds rows that were
+ * written before their result was saved instead of writing them again.
+ */
+function importTransactionId(rowId: string): string {
+	return `imp_${rowId}`;
+}
+
+/**
+ * Create the transactions of a draft import. Rows with errors are skipped, and so are
+ * likely duplicates unless the options say otherwise. Missing categories are created
+ * first when allowed. Recorded as a single audit entry.
+ *
+ * Progress is saved after every chunk. A commit that fails, or stops without a word, can be
+ * committed again: rows already written are kept and only the rest are imported.
+ */
+export async function commitImportBatch(id: string, actorId: string): Promise<ImportBatch> {
+	const ref = db.collection('import_batches').doc(id);
+
+	// Claim the import first so a double submit can't import the file twice
+	const resumed = await db.runTransaction(async (tx) => {
+		const doc = await tx.get(ref);
+		if (!doc.exists) {
+			throw new Error('Import not found');
+		}
+		const current = toImportBatch(doc);
+		if (current.status === 'committing' && !isImportResumable(current)) {
+			throw new Error('Import is already being committed');
+		}
+		if (current.status !== 'draft' && !isImportResumable(current)) {
+			throw new Error('Import has already been committed');
+		}
+		tx.update(ref, {
+			status: 'committing',
+			commitUpdatedAt: new Date(),
+			commitError: FieldValue.delete(),
+			...(current.committedAt ? {} : { committedAt: new Date() }),
+		});
+		return current.status !== 'draft';
+	});
+
+	try {
+		return await runImportCommit(id, actorId, resumed);
+	} catch (error: any) {
+		const message = error?.message || 'Import failed';
+		await ref.update({ status: 'commit_failed', commitError: message, commitUpdatedAt: new Date() });
+		await logAudit({
+			action: 'import.commit_failed',
+			entityType: 'import_batch',
+			entityId: id,
+			createdBy: actorId,
+			createdAt: new Date(),
+			meta: { error: message },
+		});
+		throw error;
+	}
+}
+
+async function runImportCommit(id: string, actorId: string, resumed: boolean): Promise<ImportBatch> {
+	const ref = db.collection('import_batches').doc(id);
+	const batch = (await getImportBatch(id))!;
+	const options = batch.options || DEFAULT_OPTIONS;
+	const [rows, categories] = await Promise.all([listImportRows(id), listCategories()]);
+	const parsed = rows
+		.map(row => parseImportRow(row.cells, batch.mapping || {}, options).data)
+		.filter((data): data is ParsedImportRow => !!data);
+	const preview = buildPreview(batch, rows, categories, await loadExistingByKey(parsed, id));
+
+	const toImport = preview.rows.filter(row =>
+		row.errors.length === 0 && !(options.skipDuplicates && row.duplicateOf)
+	);
+
+	// A new category gets the type of the rows using it, or "both" when they mix. Saved right
+	// away, since a resumed commit finds them as existing categories.
+	const createdCategories = [...batch.createdCategories];
+	for (const name of preview.newCategories) {
+		const types = new Set<TransactionType>(
+			toImport.filter(row => row.data!.categoryName.toLowerCase() === name.toLowerCase()).map(row => row.data!.type)
+		);
+		if (types.size === 0) continue;
+		const categoryId = await getOrCreateCategoryByName(name, types.size === 1 ? [...types][0] : 'both');
+		createdCategories.push(name);
+		for (const row of toImport) {
+			if (row.data!.categoryName.toLowerCase() === name.toLowerCase()) row.categoryId = categoryId;
+		}
+	}
+	await ref.update({ createdCategories, commitUpdatedAt: new Date() });
+
+	const rowIds = new Map(rows.map(row => [row.index, row.id]));
+	const saveResults = async (results: Array<{ row: ImportPreviewRow; result: { id: string } | { error: string } }>) => {
+		await commitInChunks(results, (writeBatch, { row, result }) => {
+			writeBatch.update(
+				db.collection('import_rows').doc(rowIds.get(row.index)!),
+				'id' in result ? { transactionId: result.id, error: FieldValue.delete() } : { error: result.error }
+			);
+		});
+		for (const { row, result } of results) {
+			if ('id' in result) {
+				row.transactionId = result.id;
+				delete row.error;
+			} else {
+				row.error = result.error;
+			}
+		}
+	};
+
+	// Rows written by an earlier attempt that stopped before saving their result
+	let pending = toImport.filter(row => !row.transactionId);
+	const recovered: Array<{ row: ImportPreviewRow; result: { id: string } }> = [];
+	for (let start = 0; start < pending.length; start += WRITE_CHUNK_SIZE) {
+		const chunk = pending.slice(start, start + WRITE_CHUNK_SIZE);
+		const docs = await db.getAll(...chunk.map(row => db.collection('transactions').doc(importTransactionId(rowIds.get(row.index)!))));
+		docs.forEach((doc, i) => {
+			if (doc.exists) recovered.push({ row: chunk[i], result: { id: doc.id } });
+		});
+	}
+	await saveResults(recovered);
+	pending = pending.filter(row => !row.transactionId);
+
+	let processedCount = toImport.length - pending.length;
+	await ref.update({ processedCount, commitUpdatedAt: new Date() });
+	for (let start = 0; start < pending.length; start += COMMIT_CHUNK_SIZE) {
+		const chunk = pending.slice(start, start + COMMIT_CHUNK_SIZE);
+		const results = await createTransactions(chunk.map(row => ({
+			ts: new Date(row.data!.dateKey + 'T00:00:00'),
+			type: row.data!.type,
+			amountCents: row.data!.amountCents,
+			categoryId: row.categoryId!,
+			...(options.paymentMethod ? { paymentMethod: options.paymentMethod } : {}),
+			...(options.accountId ? { accountId: options.accountId } : {}),
+			note: row.data!.note,
+			...(row.data!.clickupId ? { clickupId: row.data!.clickupId } : {}),
+			...(row.data!.companyName ? { companyName: row.data!.companyName } : {}),
+			importBatchId: id,
+			source: 'import',
+			createdBy: actorId,
+		})), { ids: chunk.map(row => importTransactionId(rowIds.get(row.index)!)) });
+
+		await saveResults(chunk.map((row, i) => ({ row, result: results[i] })));
+		processedCount += chunk.length;
+		await ref.update({ processedCount, commitUpdatedAt: new Date() });
+	}
+
+	const createdCount = toImport.filter(row => row.transactionId).length;
+	const failedCount = toImport.length - createdCount;
+	const skippedCount = rows.length - toImport.length;
+	await ref.update({
+		status: 'committed',
+		createdCount,
+		failedCount,
+		skippedCount,
+		commitUpdatedAt: new Date(),
+	});
+
+	await logAudit({
+		action: 'import.commit',
+		entityType: 'import_batch',
+		entityId: id,
+		amountCents: toImport.reduce((sum, row) => sum + row.data!.amountCents, 0),
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: {
+			filename: batch.filename,
+			created: createdCount,
+			failed: failedCount,
+			skipped: skippedCount,
+			createdCategories,
+			...(resumed ? { resumed: true } : {}),
+		},
+	});
+
+	return (await getImportBatch(id))!;
+}
+
+/**
+ * Move every transaction an import created to the trash: a committed import, or one whose
+ * commit failed or stopped. Transactions are found by their importBatchId, so rows whose
+ * result was never saved are included. Categories it created are kept.
+ * Returns the number of transactions deleted.
+ */
+export async function rollbackImportBatch(id: string, actorId: string): Promise<number> {
+	const batch = await getImportBatch(id);
+	if (!batch) {
+		throw new Error('Import not found');
+	}
+	if (batch.status !== 'committed' && !isImportResumable(batch)) {
+		throw new Error('Only committed imports can be rolled back');
+	}
+
+	const transactionIds: string[] = [];
+	let lastDoc: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+	for (;;) {
+		let query = db.collection('transactions')
+			.where('importBatchId', '==', id)
+			.orderBy('__name__')
+			.select()
+			.limit(ROLLBACK_SCAN_SIZE);
+		if (lastDoc) {
+			query = query.startAfter(lastDoc);
+		}
+		const snapshot = await query.get();
+		if (snapshot.empty) break;
+		transactionIds.push(...snapshot.docs.map(doc => doc.id));
+		lastDoc = snapshot.docs[snapshot.docs.length - 1];
+	}
+	const deleted = await deleteTransactions(transactionIds, actorId);
+
+	// Rows whose transaction is gone already, e.g. deleted by hand since
+	const found = new Set(transactionIds);
+	const rows = await listImportRows(id);
+	const alreadyDeleted = rows.filter(row => row.transactionId && !found.has(row.transactionId)).length;
+
+	await db.collection('import_batches').doc(id).update({
+		status: 'rolled_back',
+		rolledBackBy: actorId,
+		rolledBackAt: new Date(),
+	});
+	await logAudit({
+		action: 'import.rollback',
+		entityType: 'import_batch',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { filename: batch.filename, deleted, alreadyDeleted },
+	});
+	return deleted;
+}
+
+/**
+ * Discard a draft import and its stored rows
+ */
+export async function deleteImportDraft(id: string): Promise<void> {
+	const batch = await getImportBatch(id);
+	if (!batch) {
+		throw new Error('Import not found');
+	}
+	if (batch.status !== 'draft') {
+		throw new Error('Committed imports are rolled back, not deleted');
+	}
+
+	const rows = await listImportRows(id);
+	await commitInChunks(rows, (writeBatch, row) => {
+		writeBatch.delete(db.collection('import_rows').doc(row.id));
+	});
+	await db.collection('import_batches').doc(id).delete();
+}
@@ -0,0 +1,381 @@
+import { db } from '../firebaseAdmin';
+import type { PaymentMethod, PaymentTotals, TransactionSplit } from '../types';
+import { logAudit } from './audit';
+import { updateSummariesBulk } from './summaries';
+import { getOrCreateCategoryByName } from './categories';
+import { rewriteRevisionSnapshots } from './revisions';
+import { lineCategoryIds } from '../splits';
+
+export const DEFAULT_PAYMENT_METHODS = ['Cash', 'Card', 'Bank Transfer', 'POS', 'Online Payment'];
+
+/** Category names that stood in for payment methods before the paymentMethod field existed */
+const LEGACY_PAYMENT_CATEGORIES: Record<string, string> = {
+	'Cash': 'cash',
+	'Online Payment': 'online_payment',
+};
+
+/** Category legacy rows go to until the migration has recorded its target */
+const LEGACY_FALLBACK_CATEGORY = 'Other';
+
+// Each migrated row is one update plus up to six summary and two account writes; stays under the
+// 500-write batch limit. 30 is also the most IDs the revision lookup takes at once.
+const MIGRATION_CHUNK_SIZE = 30;
+
+// gRPC status Firestore returns when create() finds the document already there
+const ALREADY_EXISTS = 6;
+
+/**
+ * Payment method ids are slugs of the name ("Bank Transfer" -> "bank_transfer")
+ */
+export function paymentMethodId(name: string): string {
+	return name
+		.normalize('NFD')
+		.replace(/\p{M}/gu, '')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, '_')
+		.replace(/^_+|_+$/g, '');
+}
+
+function toPaymentMethod(doc: FirebaseFirestore.DocumentSnapshot): PaymentMethod {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		name: data.name,
+		active: data.active ?? true,
+		createdAt: data.createdAt?.toDate() || new Date(),
+	};
+}
+
+/**
+ * List all payment methods (active and inactive)
+ */
+export async function listPaymentMethods(): Promise<PaymentMethod[]> {
+	const snapshot = await db.collection('payment_methods').orderBy('name').get();
+	return snapshot.docs.map(toPaymentMethod);
+}
+
+/**
+ * List only active payment methods
+ */
+export async function listActivePaymentMethods(): Promise<PaymentMethod[]> {
+	const snapshot = await db.collection('payment_methods')
+		.where('active', '==', true)
+		.get();
+	// Sort by name in memory to avoid composite index requirement
+	return snapshot.docs.map(toPaymentMethod).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get a single payment method by ID
+ */
+export async function getPaymentMethod(id: string): Promise<PaymentMethod | null> {
+	const doc = await db.collection('payment_methods').doc(id).get();
+	return doc.exists ? toPaymentMethod(doc) : null;
+}
+
+/**
+ * True if the ID names an active payment method (used to validate form and API input)
+ */
+export async function isActivePaymentMethod(id: string): Promise<boolean> {
+	const method = await getPaymentMethod(id);
+	return !!method?.active;
+}
+
+/**
+ * Label per-method income totals with method names for display, largest first.
+ * Methods that have since been deleted are shown by their ID.
+ */
+export function labelPaymentTotals(
+	totals: PaymentTotals,
+	methods: PaymentMethod[]
+): Array<{ label: string; value: number }> {
+	const names = new Map(methods.map(m => [m.id, m.name]));
+	return Object.entries(totals)
+		.filter(([, value]) => value !== 0)
+		.map(([id, value]) => ({ label: names.get(id) || id, value }))
+		.sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Create a payment method. The ID is derived from the name, so names must be unique.
+ */
+export async function createPaymentMethod(name: string, actorId: string): Promise<string> {
+	const id = paymentMethodId(name);
+	if (!id) {
+		throw new Error('Payment method name must contain letters or digits');
+	}
+	const ref = db.collection('payment_methods').doc(id);
+	if ((await ref.get()).exists) {
+		throw new Error(`Payment method "${id}" already exists`);
+	}
+
+	await ref.set({
+		name: name.trim(),
+		active: true,
+		createdAt: new Date(),
+	});
+	await logAudit({
+		action: 'payment_method.create',
+		entityType: 'payment_method',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { name: name.trim() },
+	});
+	return id;
+}
+
+/**
+ * Toggle payment method active status. Inactive methods stay on existing transactions
+ * but can't be picked for new ones.
+ */
+export async function togglePaymentMethod(id: string, actorId: string): Promise<void> {
+	const method = await getPaymentMethod(id);
+	if (!method) {
+		throw new Error('Payment method not found');
+	}
+	await db.collection('payment_methods').doc(id).update({ active: !method.active });
+	await logAudit({
+		action: 'payment_method.toggle',
+		entityType: 'payment_method',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { active: !method.active },
+	});
+}
+
+/**
+ * Delete a payment method that no transaction or repeatable payment uses
+ */
+export async function deletePaymentMethod(id: string, actorId: string): Promise<void> {
+	const method = await getPaymentMethod(id);
+	if (!method) {
+		throw new Error('Payment method not found');
+	}
+
+	const [transactions, payments] = await Promise.all([
+		db.collection('transactions').where('paymentMethod', '==', id).limit(1).get(),
+		db.collection('repeatable_payments').where('paymentMethod', '==', id).limit(1).get(),
+	]);
+	if (!transactions.empty || !payments.empty) {
+		throw new Error('Cannot delete payment method that is in use; deactivate it instead');
+	}
+
+	await db.collection('payment_methods').doc(id).delete();
+	await logAudit({
+		action: 'payment_method.delete',
+		entityType: 'payment_method',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { name: method.name },
+	});
+}
+
+/**
+ * Seed default payment methods (skips ones that already exist)
+ */
+export async function seedDefaultPaymentMethods(): Promise<void> {
+	const existing = await db.collection('payment_methods').get();
+	const existingIds = new Set(existing.docs.map(doc => doc.id));
+
+	const batch = db.batch();
+	for (const name of DEFAULT_PAYMENT_METHODS) {
+		const id = paymentMethodId(name);
+		if (!existingIds.has(id)) {
+			batch.set(db.collection('payment_methods').doc(id), {
+				name,
+				active: true,
+				createdAt: new Date(),
+			});
+		}
+	}
+	await batch.commit();
+}
+
+/**
+ * Make sure one of the default payment methods exists, creating it on first use. Lets senders
+ * that imply a method (legacy webhook payloads) work before the defaults are seeded. Returns
+ * its ID.
+ */
+export async function ensureDefaultPaymentMethod(name: string): Promise<string> {
+	const id = paymentMethodId(name);
+	const ref = db.collection('payment_methods').doc(id);
+	if (!(await ref.get()).exists) {
+		try {
+			await ref.create({ name, active: true, createdAt: new Date() });
+		} catch (err: any) {
+			if (err?.code !== ALREADY_EXISTS) throw err;
+		}
+	}
+	return id;
+}
+
+/**
+ * The category rows filed under "Cash" / "Online Payment" belong in: the target of the last
+ * migration, or "Other" (created if needed) before one has run
+ */
+export async function getLegacyPaymentCategory(): Promise<string> {
+	const settings = await db.collection('settings').doc('legacy_payment_types').get();
+	const categoryId: string | undefined = settings.data()?.categoryId;
+	if (categoryId && (await db.collection('categories').doc(categoryId).get()).exists) {
+		return categoryId;
+	}
+	return getOrCreateCategoryByName(LEGACY_FALLBACK_CATEGORY, 'both');
+}
+
+/**
+ * A transaction (or revision snapshot) with the lines filed under a legacy category moved to
+ * the target. The payment method replaces the transaction's own when the whole transaction was
+ * filed under the legacy category, and fills in a missing one when only split lines were.
+ */
+function moveLegacyLines<T extends { categoryId: string; splits?: TransactionSplit[]; paymentMethod?: string }>(
+	row: T,
+	legacyCategoryId: string,
+	targetCategoryId: string,
+	paymentMethod: string
+): T {
+	const wholeRow = row.categoryId === legacyCategoryId;
+	if (!wholeRow && !row.splits?.some(line => line.categoryId === legacyCategoryId)) {
+		return row;
+	}
+	return {
+		...row,
+		categoryId: wholeRow ? targetCategoryId : row.categoryId,
+		...(row.splits ? {
+			splits: row.splits.map(line => line.categoryId === legacyCategoryId ? { ...line, categoryId: targetCategoryId } : line),
+		} : {}),
+		paymentMethod: wholeRow ? paymentMethod : row.paymentMethod || paymentMethod,
+	};
+}
+
+/**
+ * Move transactions (in the trash too) and repeatable payments filed under the old "Cash" /
+ * "Online Payment" categories, as a whole or in split lines, to a real category, recording the
+ * payment method in paymentMethod instead. Summaries are moved along in the same batches and
+ * the transactions' revision snapshots are rewritten the same way, so a revert or restore can't
+ * bring the old category back. The target is recorded for legacy webhook payloads and the old categories
+ * are deactivated afterwards. Safe to run again.
+ */
+export async function migratePaymentTypeCategories(
+	targetCategoryId: string,
+	actorId: string
+): Promise<{ transactions: number; trashedTransactions: number; repeatablePayments: number }> {
+	const target = await db.collection('categories').doc(targetCategoryId).get();
+	if (!target.exists) {
+		throw new Error('Category not found');
+	}
+	if (LEGACY_PAYMENT_CATEGORIES[target.data()!.name]) {
+		throw new Error('Cannot migrate into a payment type category');
+	}
+
+	const legacy = await db.collection('categories')
+		.where('name', 'in', Object.keys(LEGACY_PAYMENT_CATEGORIES))
+		.get();
+
+	// Make sure the methods the rows are moved to exist
+	await seedDefaultPaymentMethods();
+
+	let transactions = 0;
+	let trashedTransactions = 0;
+	let repeatablePayments = 0;
+	for (const categoryDoc of legacy.docs) {
+		const paymentMethod = LEGACY_PAYMENT_CATEGORIES[categoryDoc.data().name];
+
+		// Trashed rows too, so restoring one can't bring the old category back. They are no
+		// longer counted in the summaries, so only the rows themselves change.
+		for (const collection of ['transactions', 'deleted_transactions'] as const) {
+			const trashed = collection === 'deleted_transactions';
+
+			// Whole rows first, then rows with only split lines there (categoryIds may be missing on
+			// rows older than splits). Rows leave the query once updated, so always read the first
+			// chunk again.
+			const queries = [
+				db.collection(collection).where('categoryId', '==', categoryDoc.id),
+				db.collection(collection).where('categoryIds', 'array-contains', categoryDoc.id),
+			];
+			for (const query of queries) {
+				for (;;) {
+					const snapshot = await query.limit(MIGRATION_CHUNK_SIZE).get();
+					if (snapshot.empty) break;
+
+					const rows = snapshot.docs.map(doc => {
+						const data = doc.data();
+						return {
+							ts: data.ts.toDate() as Date,
+							type: data.type,
+							amountCents: data.amountCents,
+							categoryId: data.categoryId as string,
+							splits: data.splits as TransactionSplit[] | undefined,
+							paymentMethod: data.paymentMethod as string | undefined,
+							accountId: data.accountId as string | undefined,
+						};
+					});
+					const moved = rows.map(row => moveLegacyLines(row, categoryDoc.id, targetCategoryId, paymentMethod));
+
+					// Before the rows, so a run that stops in between rewrites them again next time
+					await rewriteRevisionSnapshots(
+						snapshot.docs.map(doc => doc.id),
+						revision => moveLegacyLines(revision, categoryDoc.id, targetCategoryId, paymentMethod)
+					);
+
+					const batch = db.batch();
+					snapshot.docs.forEach((doc, i) => {
+						batch.update(doc.ref, {
+							categoryId: moved[i].categoryId,
+							categoryIds: lineCategoryIds(moved[i]),
+							...(moved[i].splits ? { splits: moved[i].splits } : {}),
+							...(moved[i].paymentMethod ? { paymentMethod: moved[i].paymentMethod } : {}),
+						});
+					});
+					if (trashed) {
+						trashedTransactions += snapshot.size;
+					} else {
+						await updateSummariesBulk(batch, rows, 'decrement');
+						await updateSummariesBulk(batch, moved, 'increment');
+						transactions += snapshot.size;
+					}
+					await batch.commit();
+				}
+			}
+		}
+
+		const payments = await db.collection('repeatable_payments')
+			.where('categoryId', '==', categoryDoc.id)
+			.get();
+		for (let i = 0; i < payments.docs.length; i += 500) {
+			const batch = db.batch();
+			payments.docs.slice(i, i + 500).forEach(doc => {
+				batch.update(doc.ref, { categoryId: targetCategoryId, paymentMethod, updatedAt: new Date() });
+			});
+			await batch.commit();
+		}
+		repeatablePayments += payments.size;
+
+		await categoryDoc.ref.update({ active: false });
+	}
+
+	// Legacy webhook payloads are filed under the same category from now on
+	await db.collection('settings').doc('legacy_payment_types').set({
+		categoryId: targetCategoryId,
+		updatedBy: actorId,
+		updatedAt: new Date(),
+	});
+
+	await logAudit({
+		action: 'payment_method.migrate',
+		entityType: 'payment_method',
+		categoryId: targetCategoryId,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: {
+			legacyCategoryIds: legacy.docs.map(doc => doc.id),
+			transactions,
+			trashedTransactions,
+			repeatablePayments,
+		},
+	});
+
+	return { transactions, trashedTransactions, repeatablePayments };
+}
@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OccurrenceException } from '../types';
+
+const timestamp = (date: Date) => ({ toDate: () => date });
+
+const state = vi.hoisted(() => ({
+	payment: {} as Record<string, any>,
+	booked: new Set<string>(), // IDs of transactions that exist
+	paymentUpdates: [] as Array<Record<string, any>>,
+	getAll: 0,
+}));
+
+vi.mock('../firebaseAdmin', () => {
+	const paymentRef = { id: 'rent' };
+	const batch = () => {
+		const writes: Array<Record<string, any>> = [];
+		return {
+			update: (_ref: unknown, data: Record<string, any>) => writes.push(data),
+			commit: async () => state.paymentUpdates.push(...writes),
+		};
+	};
+	return {
+		db: {
+			collection: (name: string) => ({
+				where: () => ({
+					get: async () => ({ docs: [{ id: 'rent', ref: paymentRef, data: () => state.payment }] }),
+				}),
+				doc: (id: string) => ({
+					id,
+					path: `${name}/${id}`,
+					get: async () => ({ id, exists: true, data: () => state.payment }),
+					update: async (data: Record<string, any>) => state.paymentUpdates.push(data),
+				}),
+			}),
+			getAll: async (...refs: Array<{ id: string; path: string }>) => {
+				state.getAll++;
+				return refs.map(ref => ({ exists: ref.path.startsWith('transactions/') && state.booked.has(ref.id) }));
+			},
+			batch,
+		},
+	};
+});
+
+const createTransaction = vi.hoisted(() => vi.fn());
+vi.mock('./transactions', () => ({ createTransaction, listRepeatablePaymentTransactions: vi.fn() }));
+vi.mock('./accounts', () => ({ getDefaultAccountId: async () => null }));
+vi.mock('./audit', () => ({ logAudit: vi.fn() }));
+vi.mock('../outboundWebhooks', () => ({ emitEvent: vi.fn() }));
+
+const { runDuePayments, setOccurrenceException } = await import('./repeatablePayments');
+
+// Monthly on the 1st; March's date is moved to the 20th and April's is not due yet
+function monthlyPayment(exceptions: OccurrenceException[]) {
+	return {
+		name: 'Rent',
+		type: 'expense',
+		amountCents: 50000,
+		categoryId: 'rent',
+		frequency: 'monthly',
+		startDate: timestamp(new Date('2026-01-01T00:00:00')),
+		nextDueDate: timestamp(new Date('2026-04-01T00:00:00')),
+		active: true,
+		exceptions,
+	};
+}
+
+describe('runDuePayments with a moved date', () => {
+	const now = new Date('2026-03-25T12:00:00');
+
+	beforeEach(() => {
+		state.booked.clear();
+		state.paymentUpdates.length = 0;
+		state.getAll = 0;
+		createTransaction.mockReset();
+		createTransaction.mockImplementation(async (_data, options) => {
+			const batch = (await import('../firebaseAdmin')).db.batch();
+			options.beforeCommit?.(batch, options.id);
+			await batch.commit();
+			state.booked.add(options.id);
+			return options.id;
+		});
+	});
+
+	it('books it once it is due and marks the exception booked in the same write', async () => {
+		state.payment = monthlyPayment([{ date: '2026-03-01', moveTo: '2026-03-20' }]);
+
+		const result = await runDuePayments({ actorId: 'system', now });
+
+		expect(result.created).toBe(1);
+		expect(createTransaction).toHaveBeenCalledWith(
+			expect.objectContaining({ ts: new Date('2026-03-20T00:00:00'), occurrenceDate: '2026-03-01' }),
+			expect.objectContaining({ id: 'rp_rent_2026-03-01', beforeCommit: expect.any(Function) })
+		);
+		expect(state.paymentUpdates).toContainEqual({
+			exceptions: [{ date: '2026-03-01', moveTo: '2026-03-20', booked: true }],
+		});
+	});
+
+	it('never books a booked date again, even after its transaction is gone', async () => {
+		state.payment = monthlyPayment([{ date: '2026-03-01', moveTo: '2026-03-20', booked: true }]);
+
+		const result = await runDuePayments({ actorId: 'system', now });
+
+		expect(result.occurrences).toEqual([]);
+		expect(state.getAll).toBe(0);
+		expect(createTransaction).not.toHaveBeenCalled();
+	});
+
+	it('marks a date booked before exceptions were marked without booking it again', async () => {
+		state.payment = monthlyPayment([{ date: '2026-03-01', moveTo: '2026-03-20' }]);
+		state.booked.add('rp_rent_2026-03-01');
+
+		const result = await runDuePayments({ actorId: 'system', now });
+
+		expect(result.created).toBe(0);
+		expect(createTransaction).not.toHaveBeenCalled();
+		expect(state.paymentUpdates).toContainEqual({
+			exceptions: [{ date: '2026-03-01', moveTo: '2026-03-20', booked: true }],
+		});
+	});
+});
+
+describe('runDuePayments counts', () => {
+	beforeEach(() => {
+		state.booked.clear();
+		state.paymentUpdates.length = 0;
+		createTransaction.mockReset();
+		createTransaction.mockResolvedValue('tx');
+	});
+
+	it('counts dates skipped by an exception apart from dates already booked', async () => {
+		state.payment = {
+			...monthlyPayment([{ date: '2026-02-01', skip: true }]),
+			nextDueDate: timestamp(new Date('2026-01-01T00:00:00')),
+		};
+		state.booked.add('rp_rent_2026-01-01');
+
+		const result = await runDuePayments({ actorId: 'system', now: new Date('2026-03-25T12:00:00') });
+
+		expect(result).toMatchObject({ created: 1, alreadyBooked: 1, skipped: 1 });
+		expect(result.occurrences.map(occurrence => occurrence.status).sort()).toEqual(['created', 'exists', 'skipped']);
+	});
+});
+
+describe('setOccurrenceException', () => {
+	beforeEach(() => {
+		state.booked.clear();
+		state.paymentUpdates.length = 0;
+		state.payment = monthlyPayment([]);
+	});
+
+	it('refuses a date before the next due date, which would be booked again', async () => {
+		await expect(setOccurrenceException('rent', { date: '2026-03-01', moveTo: '2026-04-20' }, 'admin'))
+			.rejects.toThrow('Cannot change 2026-03-01: it is before the next due date');
+		expect(state.paymentUpdates).toEqual([]);
+	});
+
+	it('changes a date that is not due yet', async () => {
+		await setOccurrenceException('rent', { date: '2026-04-01', moveTo: '2026-04-20' }, 'admin');
+
+		expect(state.paymentUpdates).toContainEqual(expect.objectContaining({
+			exceptions: [{ date: '2026-04-01', moveTo: '2026-04-20' }],
+		}));
+	});
+});
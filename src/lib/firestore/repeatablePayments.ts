@@ -1,27 +1,78 @@
 import { db } from '../firebaseAdmin';
-import type { RepeatablePayment, RepeatFrequency } from '../types';
+import type { RepeatablePayment, RecurrenceRule, OccurrenceException } from '../types';
+import { getRecurrence, listOccurrences, nextOccurrence, formatRRule } from '../recurrence';
+import { toDateKey, parseDateKey } from '../dates';
+import { emitEvent } from '../outboundWebhooks';
 import { logAudit } from './audit';
+import { createTransaction, listRepeatablePaymentTransactions } from './transactions';
+import { getDefaultAccountId } from './accounts';
 
-/**
- * Calculate next due date based on frequency
- */
-export function calculateNextDueDate(lastDate: Date, frequency: RepeatFrequency): Date {
-	const next = new Date(lastDate);
-	switch (frequency) {
-		case 'daily':
-			next.setDate(next.getDate() + 1);
-			break;
-		case 'weekly':
-			next.setDate(next.getDate() + 7);
-			break;
-		case 'monthly':
-			next.setMonth(next.getMonth() + 1);
-			break;
-		case 'yearly':
-			next.setFullYear(next.getFullYear() + 1);
-			break;
-	}
-	return next;
+// Missed dates caught up per payment in one run; the rest follow on the next run
+const MAX_CATCH_UP = 366;
+
+// gRPC status Firestore returns when create() finds the document already there
+const ALREADY_EXISTS = 6;
+
+// How far back the occurrence history looks for past dates, and how many upcoming dates it lists
+const HISTORY_MONTHS = 24;
+const UPCOMING_COUNT = 12;
+
+export interface RunDueOccurrence {
+	repeatablePaymentId: string;
+	name: string;
+	dueDate: Date; // The date booked: the scheduled one, or the one it was moved to
+	movedFrom?: Date; // Moved by an exception: the scheduled date
+	amountCents: number;
+	transactionId: string;
+	status: 'created' | 'exists' | 'planned' | 'skipped'; // planned: would be created (dry run); skipped: by an exception
+}
+
+export interface RunDueResult {
+	dryRun: boolean;
+	created: number;
+	alreadyBooked: number; // Dates whose transaction already exists
+	skipped: number; // Dates skipped by an exception
+	occurrences: RunDueOccurrence[];
+	completed: string[]; // Payments past their end date, deactivated
+}
+
+export interface OccurrenceHistoryItem {
+	date: Date; // The scheduled date, also when an exception moved it
+	status: 'paid' | 'skipped' | 'unknown' | 'upcoming'; // unknown: past date with no transaction found
+	amountCents: number;
+	transactionId?: string; // Paid: the transaction booked for the date
+	exception?: OccurrenceException;
+}
+
+export interface OccurrenceHistory {
+	items: OccurrenceHistoryItem[]; // Oldest first
+	paid: { count: number; amountCents: number };
+	skipped: number;
+	unknown: number;
+	upcoming: { count: number; amountCents: number };
+}
+
+// First date of the rule on or after the given one
+function firstDueDate(rule: RecurrenceRule, startDate: Date, from: Date): Date {
+	const [first] = listOccurrences(rule, startDate, { count: 1, from });
+	if (!first) {
+		throw new Error('Cannot schedule: the recurrence has no dates');
+	}
+	return first;
+}
+
+// A YYYY-MM-DD date as the schedule's dates are kept (midnight, like dates from the forms)
+function occurrenceDate(dateKey: string): Date {
+	return new Date(dateKey + 'T00:00:00');
+}
+
+function isScheduledDate(rule: RecurrenceRule, startDate: Date, dateKey: string): boolean {
+	const [date] = listOccurrences(rule, startDate, { count: 1, from: occurrenceDate(dateKey) });
+	return !!date && toDateKey(date) === dateKey;
+}
+
+function exceptionsByDate(exceptions: OccurrenceException[] | undefined): Map<string, OccurrenceException> {
+	return new Map((exceptions || []).map(exception => [exception.date, exception]));
 }
 
 /**
@@ -31,7 +82,8 @@ export async function createRepeatablePayment(
 	data: Omit<RepeatablePayment, 'id' | 'nextDueDate' | 'createdAt' | 'updatedAt'>
 ): Promise<string> {
 	const now = new Date();
-	const nextDueDate = data.startDate;
+	const recurrence = getRecurrence(data);
+	const nextDueDate = firstDueDate(recurrence, data.startDate, data.startDate);
 
 	// Build payment data, excluding undefined optional fields
 	const paymentData: any = {
@@ -39,7 +91,8 @@ export async function createRepeatablePayment(
 		type: data.type,
 		amountCents: data.amountCents,
 		categoryId: data.categoryId,
-		frequency: data.frequency,
+		frequency: recurrence.freq,
+		recurrence,
 		startDate: data.startDate,
 		nextDueDate,
 		active: data.active,
@@ -49,6 +102,12 @@ export async function createRepeatablePayment(
 	};
 
 	// Only include optional fields if they have values
+	if (data.paymentMethod) {
+		paymentData.paymentMethod = data.paymentMethod;
+	}
+	if (data.accountId) {
+		paymentData.accountId = data.accountId;
+	}
 	if (data.note) {
 		paymentData.note = data.note;
 	}
@@ -73,7 +132,8 @@ export async function createRepeatablePayment(
 		createdBy: data.createdBy,
 		createdAt: new Date(),
 		meta: {
-			frequency: data.frequency,
+			frequency: recurrence.freq,
+			rrule: formatRRule(recurrence),
 			type: data.type,
 		},
 	});
@@ -147,11 +207,16 @@ export async function updateRepeatablePayment(
 	if (data.type !== undefined) updateData.type = data.type;
 	if (data.amountCents !== undefined) updateData.amountCents = data.amountCents;
 	if (data.categoryId !== undefined) updateData.categoryId = data.categoryId;
-	if (data.frequency !== undefined) updateData.frequency = data.frequency;
 	if (data.startDate !== undefined) updateData.startDate = data.startDate;
 	if (data.active !== undefined) updateData.active = data.active;
 	
 	// Optional fields - only update if provided
+	if (data.paymentMethod !== undefined) {
+		updateData.paymentMethod = data.paymentMethod || null;
+	}
+	if (data.accountId !== undefined) {
+		updateData.accountId = data.accountId || null;
+	}
 	if (data.note !== undefined) {
 		updateData.note = data.note || null;
 	}
@@ -165,12 +230,25 @@ export async function updateRepeatablePayment(
 		updateData.endDate = data.endDate || null;
 	}
 
-	// Recalculate next due date if frequency or start date changed
-	if (data.frequency || data.startDate) {
-		const current = doc.data()!;
-		const startDate = data.startDate || current.startDate.toDate();
-		const frequency = data.frequency || current.frequency;
-		updateData.nextDueDate = calculateNextDueDate(startDate, frequency);
+	// A new schedule starts over from the start date when that moved, otherwise it carries on
+	// from the current due date
+	const current = doc.data()!;
+	const currentStart: Date = current.startDate.toDate();
+	const startChanged = !!data.startDate && data.startDate.getTime() !== currentStart.getTime();
+	let recurrence: RecurrenceRule | undefined;
+	if (data.recurrence || data.frequency || startChanged) {
+		recurrence = data.recurrence || (data.frequency ? { freq: data.frequency, interval: 1 } : getRecurrence(current as RepeatablePayment));
+		const startDate = data.startDate || currentStart;
+		updateData.frequency = recurrence.freq;
+		updateData.recurrence = recurrence;
+		updateData.nextDueDate = firstDueDate(recurrence, startDate, startChanged ? startDate : current.nextDueDate.toDate());
+
+		// Exceptions for dates the new schedule no longer has are dropped
+		const exceptions: OccurrenceException[] = current.exceptions || [];
+		const kept = exceptions.filter(exception => isScheduledDate(recurrence!, startDate, exception.date));
+		if (kept.length !== exceptions.length) {
+			updateData.exceptions = kept;
+		}
 	} else if (data.nextDueDate) {
 		updateData.nextDueDate = data.nextDueDate;
 	}
@@ -186,7 +264,8 @@ export async function updateRepeatablePayment(
 			createdBy: actorId,
 			createdAt: new Date(),
 			meta: {
-				frequency: data.frequency,
+				frequency: recurrence?.freq,
+				...(recurrence ? { rrule: formatRRule(recurrence) } : {}),
 				type: data.type,
 				active: data.active,
 			},
@@ -242,3 +321,407 @@ export async function toggleRepeatablePayment(id: string, actorId?: string): Pro
 		});
 	}
 }
+
+/**
+ * Skip, move or change the amount of one scheduled date, replacing any earlier change to it.
+ * Dates that are already booked can no longer be changed.
+ */
+export async function setOccurrenceException(
+	id: string,
+	exception: OccurrenceException,
+	actorId: string
+): Promise<void> {
+	const doc = await db.collection('repeatable_payments').doc(id).get();
+	if (!doc.exists) {
+		throw new Error('Repeatable payment not found');
+	}
+	const data = doc.data()!;
+	const startDate: Date = data.startDate.toDate();
+	const endDate: Date | undefined = data.endDate?.toDate?.();
+
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(exception.date) || !isScheduledDate(getRecurrence(data as RepeatablePayment), startDate, exception.date)) {
+		throw new Error(`Cannot change ${exception.date}: it is not one of the payment's dates`);
+	}
+	// Earlier dates have been run: a move saved for one would book it again
+	if (exception.date < toDateKey(data.nextDueDate.toDate())) {
+		throw new Error(`Cannot change ${exception.date}: it is before the next due date`);
+	}
+	if (exception.moveTo !== undefined) {
+		if (!/^\d{4}-\d{2}-\d{2}$/.test(exception.moveTo) || isNaN(occurrenceDate(exception.moveTo).getTime())) {
+			throw new Error('Invalid date to move to');
+		}
+		if (endDate && occurrenceDate(exception.moveTo) > endDate) {
+			throw new Error('Cannot move a date past the end date');
+		}
+	}
+	if (exception.amountCents !== undefined && (!Number.isInteger(exception.amountCents) || exception.amountCents <= 0)) {
+		throw new Error('Amount must be greater than 0');
+	}
+	if (!exception.skip && exception.moveTo === undefined && exception.amountCents === undefined) {
+		throw new Error('Cannot save an exception that changes nothing');
+	}
+
+	const current = ((data.exceptions || []) as OccurrenceException[]).find(other => other.date === exception.date);
+	if (current?.booked) {
+		throw new Error(`Cannot change ${exception.date}: it has already been booked`);
+	}
+	const transactionId = occurrenceTransactionId(id, occurrenceDate(exception.date));
+	const [existing, trashed] = await db.getAll(
+		db.collection('transactions').doc(transactionId),
+		db.collection('deleted_transactions').doc(transactionId)
+	);
+	if (existing.exists || trashed.exists) {
+		throw new Error(`Cannot change ${exception.date}: it has already been booked`);
+	}
+
+	// Skipping drops any move or amount, so only what applies is stored
+	const stored: OccurrenceException = exception.skip
+		? { date: exception.date, skip: true }
+		: {
+			date: exception.date,
+			...(exception.moveTo !== undefined ? { moveTo: exception.moveTo } : {}),
+			...(exception.amountCents !== undefined ? { amountCents: exception.amountCents } : {}),
+		};
+	const exceptions = [
+		...((data.exceptions || []) as OccurrenceException[]).filter(other => other.date !== exception.date),
+		stored,
+	].sort((a, b) => a.date.localeCompare(b.date));
+
+	await db.collection('repeatable_payments').doc(id).update({
+		exceptions,
+		updatedAt: new Date(),
+	});
+	await logAudit({
+		action: 'repeatable.exception_set',
+		entityType: 'repeatable_payment',
+		entityId: id,
+		...(stored.amountCents !== undefined ? { amountCents: stored.amountCents } : {}),
+		categoryId: data.categoryId,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { ...stored },
+	});
+}
+
+/**
+ * Undo the change to one date, so it is booked as scheduled again
+ */
+export async function removeOccurrenceException(id: string, date: string, actorId: string): Promise<void> {
+	const doc = await db.collection('repeatable_payments').doc(id).get();
+	if (!doc.exists) {
+		throw new Error('Repeatable payment not found');
+	}
+	const data = doc.data()!;
+	const exceptions: OccurrenceException[] = data.exceptions || [];
+	const exception = exceptions.find(other => other.date === date);
+	if (!exception) {
+		throw new Error('Exception not found');
+	}
+	if (exception.booked) {
+		throw new Error(`Cannot undo the change to ${date}: it has already been booked`);
+	}
+
+	await db.collection('repeatable_payments').doc(id).update({
+		exceptions: exceptions.filter(exception => exception.date !== date),
+		updatedAt: new Date(),
+	});
+	await logAudit({
+		action: 'repeatable.exception_remove',
+		entityType: 'repeatable_payment',
+		entityId: id,
+		categoryId: data.categoryId,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { date },
+	});
+}
+
+/**
+ * ID of the transaction booked for one date of a payment. Runs that overlap, or repeat after
+ * a failure, try the same ID and cannot book a date twice.
+ */
+export function occurrenceTransactionId(paymentId: string, dueDate: Date): string {
+	return `rp_${paymentId}_${toDateKey(dueDate)}`;
+}
+
+/**
+ * Book every date of every active payment that is due by now: all dates missed since the
+ * next due date, never past the end date. Exceptions skip a date, book it on another date
+ * or with another amount. A payment with no dates left is deactivated.
+ * A dry run writes nothing and reports what would be created.
+ */
+export async function runDuePayments(options: { actorId: string; now?: Date; dryRun?: boolean }): Promise<RunDueResult> {
+	const { actorId, now = new Date(), dryRun = false } = options;
+	const result: RunDueResult = { dryRun, created: 0, alreadyBooked: 0, skipped: 0, occurrences: [], completed: [] };
+
+	const snapshot = await db.collection('repeatable_payments')
+		.where('active', '==', true)
+		.get();
+
+	// Filter in memory to avoid needing a composite index. A date moved to one that is due counts too,
+	// until it has been booked.
+	const isMoveDue = (exception: OccurrenceException) =>
+		!exception.skip && !!exception.moveTo && !exception.booked && occurrenceDate(exception.moveTo) <= now;
+	const dueDocs = snapshot.docs.filter(doc => {
+		const data = doc.data();
+		const nextDueDate = data.nextDueDate?.toDate?.();
+		return (nextDueDate && nextDueDate <= now) || ((data.exceptions || []) as OccurrenceException[]).some(isMoveDue);
+	});
+	// Payments saved before accounts existed book to the default account
+	const defaultAccountId = dueDocs.length > 0 ? await getDefaultAccountId() : null;
+
+	for (const doc of dueDocs) {
+		const data = doc.data();
+
+		// Skip documents with missing required fields
+		if (!data.type || !data.amountCents || !data.categoryId) continue;
+
+		const rule = getRecurrence(data as RepeatablePayment);
+		const startDate: Date = data.startDate.toDate();
+		const endDate: Date | undefined = data.endDate?.toDate?.();
+		const exceptions = exceptionsByDate(data.exceptions);
+		const scheduleDue = data.nextDueDate.toDate() <= now;
+		// Moved dates booked by this run, marked on the payment together with their transaction
+		const bookedMoves = new Set<string>();
+		const markBooked = (batch: FirebaseFirestore.WriteBatch) => batch.update(doc.ref, {
+			exceptions: ((data.exceptions || []) as OccurrenceException[])
+				.map(exception => bookedMoves.has(exception.date) ? { ...exception, booked: true } : exception),
+		});
+		const dueDates = listOccurrences(rule, startDate, {
+			count: MAX_CATCH_UP,
+			from: data.nextDueDate.toDate(),
+			until: endDate && endDate < now ? endDate : now,
+		});
+
+		// A due date that is not on the schedule (saved before recurrence rules) moves to the next one that is
+		let nextDueDate: Date | null = listOccurrences(rule, startDate, { count: 1, from: data.nextDueDate.toDate() })[0] || null;
+		const bookings: Array<{ scheduledDate: Date; dueDate: Date; amountCents: number; moved: boolean }> = [];
+		for (const dueDate of dueDates) {
+			nextDueDate = nextOccurrence(rule, startDate, dueDate);
+			const exception = exceptions.get(toDateKey(dueDate));
+			if (exception?.skip) {
+				result.occurrences.push({
+					repeatablePaymentId: doc.id,
+					name: data.name,
+					dueDate,
+					amountCents: data.amountCents,
+					transactionId: occurrenceTransactionId(doc.id, dueDate),
+					status: 'skipped',
+				});
+				result.skipped++;
+				continue;
+			}
+			// Moved dates are booked below once the date they moved to is due
+			if (exception?.moveTo) continue;
+			bookings.push({ scheduledDate: dueDate, dueDate, amountCents: exception?.amountCents ?? data.amountCents, moved: false });
+		}
+		for (const exception of exceptions.values()) {
+			if (!isMoveDue(exception)) continue;
+			bookings.push({
+				scheduledDate: occurrenceDate(exception.date),
+				dueDate: occurrenceDate(exception.moveTo!),
+				amountCents: exception.amountCents ?? data.amountCents,
+				moved: true,
+			});
+		}
+
+		for (const booking of bookings) {
+			// The ID follows the scheduled date, so a moved date is still booked once
+			const transactionId = occurrenceTransactionId(doc.id, booking.scheduledDate);
+			const occurrence: RunDueOccurrence = {
+				repeatablePaymentId: doc.id,
+				name: data.name,
+				dueDate: booking.dueDate,
+				...(booking.moved ? { movedFrom: booking.scheduledDate } : {}),
+				amountCents: booking.amountCents,
+				transactionId,
+				status: 'planned',
+			};
+
+			// A booked date may since have been deleted; the trash keeps its ID
+			const [existing, trashed] = await db.getAll(
+				db.collection('transactions').doc(transactionId),
+				db.collection('deleted_transactions').doc(transactionId)
+			);
+			if (existing.exists || trashed.exists) {
+				// A moved date booked before exceptions were marked: mark it now, without reporting it
+				if (booking.moved) {
+					if (!dryRun) {
+						bookedMoves.add(toDateKey(booking.scheduledDate));
+						const batch = db.batch();
+						markBooked(batch);
+						await batch.commit();
+					}
+					continue;
+				}
+				occurrence.status = 'exists';
+			} else if (!dryRun) {
+				if (booking.moved) {
+					bookedMoves.add(toDateKey(booking.scheduledDate));
+				}
+				try {
+					await createTransaction({
+						ts: booking.dueDate,
+						type: data.type,
+						amountCents: booking.amountCents,
+						categoryId: data.categoryId,
+						paymentMethod: data.paymentMethod || undefined,
+						accountId: data.accountId || defaultAccountId || undefined,
+						note: data.note || '',
+						clickupId: data.clickupId || undefined,
+						companyName: data.companyName || undefined,
+						source: 'repeatable',
+						repeatablePaymentId: doc.id,
+						occurrenceDate: toDateKey(booking.scheduledDate),
+						createdBy: actorId,
+					}, {
+						id: transactionId,
+						// Marked in the same write, so the date is never looked at again even once the transaction is purged
+						...(booking.moved ? { beforeCommit: markBooked } : {}),
+					});
+					occurrence.status = 'created';
+				} catch (err: any) {
+					// Another run booked it in the meantime, and marked it if it was moved
+					if (err?.code !== ALREADY_EXISTS) throw err;
+					occurrence.status = 'exists';
+				}
+			}
+
+			result.occurrences.push(occurrence);
+			if (occurrence.status === 'exists') {
+				result.alreadyBooked++;
+				continue;
+			}
+			if (dryRun) continue;
+
+			result.created++;
+			await logAudit({
+				action: 'repeatable.run_due',
+				entityType: 'repeatable_payment',
+				entityId: doc.id,
+				amountCents: booking.amountCents,
+				categoryId: data.categoryId,
+				createdBy: actorId,
+				createdAt: new Date(),
+				meta: {
+					transactionId,
+					dueDate: booking.dueDate.toISOString(),
+					...(booking.moved ? { movedFrom: booking.scheduledDate.toISOString() } : {}),
+				},
+			});
+			await emitEvent('repeatable_payment.run', {
+				repeatablePaymentId: doc.id,
+				name: data.name,
+				transactionId,
+				dueDate: booking.dueDate.toISOString(),
+				nextDueDate: nextDueDate ? nextDueDate.toISOString() : null,
+				runBy: actorId,
+			});
+		}
+
+		// A date moved to later than the last one keeps the payment going until it is booked
+		const movePending = [...exceptions.values()].some(exception =>
+			exception.moveTo && !exception.skip && !exception.booked && !isMoveDue(exception));
+		const finished = (!nextDueDate || (endDate !== undefined && nextDueDate > endDate)) && !movePending;
+		if (finished) {
+			result.completed.push(doc.id);
+		}
+		if (dryRun || (!scheduleDue && !finished)) continue;
+
+		// Dates another run booked still move the payment on
+		await db.collection('repeatable_payments').doc(doc.id).update({
+			...(nextDueDate ? { nextDueDate } : {}),
+			...(finished ? { active: false } : {}),
+			updatedAt: new Date(),
+		});
+		if (finished) {
+			await logAudit({
+				action: 'repeatable.complete',
+				entityType: 'repeatable_payment',
+				entityId: doc.id,
+				createdBy: actorId,
+				createdAt: new Date(),
+				meta: {
+					endDate: endDate ? endDate.toISOString() : null,
+				},
+			});
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Dates of a payment with what happened to them, looking back HISTORY_MONTHS: paid (a
+ * transaction was booked for it), skipped (by an exception), unknown (a past date with no
+ * transaction found: booked before transactions were linked to their payment, deleted, or
+ * not booked while the payment was paused) and upcoming (the next UPCOMING_COUNT dates
+ * while the payment is active, up to the end date). Each date carries its exception, if any.
+ */
+export async function getOccurrenceHistory(payment: RepeatablePayment, now: Date = new Date()): Promise<OccurrenceHistory> {
+	const rule = getRecurrence(payment);
+	const exceptions = exceptionsByDate(payment.exceptions);
+	const items: OccurrenceHistoryItem[] = [];
+	const withException = (item: OccurrenceHistoryItem): OccurrenceHistoryItem => {
+		const exception = exceptions.get(toDateKey(item.date));
+		return exception ? { ...item, exception } : item;
+	};
+
+	const paidDates = new Set<string>();
+	for (const tx of await listRepeatablePaymentTransactions(payment.id)) {
+		const date = tx.occurrenceDate ? parseDateKey(tx.occurrenceDate) : tx.ts;
+		paidDates.add(toDateKey(date));
+		items.push(withException({ date, status: 'paid', amountCents: tx.amountCents, transactionId: tx.id }));
+	}
+
+	// Scheduled dates before the next due date; ones booked before transactions were linked are found by their ID
+	const historyFrom = new Date(now.getFullYear(), now.getMonth() - HISTORY_MONTHS, now.getDate());
+	const pastDates = listOccurrences(rule, payment.startDate, {
+		count: MAX_CATCH_UP * 2, // Enough for daily dates across the whole window
+		from: historyFrom,
+		until: new Date(payment.nextDueDate.getTime() - 1),
+	}).filter(date => !paidDates.has(toDateKey(date)));
+	const booked = pastDates.length > 0
+		? await db.getAll(...pastDates.map(date => db.collection('transactions').doc(occurrenceTransactionId(payment.id, date))))
+		: [];
+	pastDates.forEach((date, index) => {
+		const doc = booked[index];
+		const exception = exceptions.get(toDateKey(date));
+		// A past date moved to another one is still to be booked
+		const moved = payment.active && !!exception?.moveTo && !exception.skip && !exception.booked;
+		const status = exception?.skip ? 'skipped' : moved ? 'upcoming' : 'unknown';
+		items.push(withException(doc.exists
+			? { date, status: 'paid', amountCents: doc.data()!.amountCents, transactionId: doc.id }
+			: { date, status, amountCents: exception?.amountCents ?? payment.amountCents }));
+	});
+
+	if (payment.active) {
+		const upcomingDates = listOccurrences(rule, payment.startDate, {
+			count: UPCOMING_COUNT,
+			from: payment.nextDueDate,
+			until: payment.endDate,
+		});
+		for (const date of upcomingDates) {
+			const exception = exceptions.get(toDateKey(date));
+			items.push(withException({
+				date,
+				status: exception?.skip ? 'skipped' : 'upcoming',
+				amountCents: exception?.amountCents ?? payment.amountCents,
+			}));
+		}
+	}
+
+	items.sort((a, b) => a.date.getTime() - b.date.getTime());
+	const total = (status: OccurrenceHistoryItem['status']) => {
+		const matching = items.filter(item => item.status === status);
+		return { count: matching.length, amountCents: matching.reduce((sum, item) => sum + item.amountCents, 0) };
+	};
+
+	return {
+		items,
+		paid: total('paid'),
+		skipped: total('skipped').count,
+		unknown: total('unknown').count,
+		upcoming: total('upcoming'),
+	};
+}
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const slot = vi.hoisted(() => ({
+	data: undefined as Record<string, any> | undefined,
+	update: vi.fn(),
+}));
+
+vi.mock('../firebaseAdmin', () => {
+	const timestamp = (date: Date) => ({ toDate: () => date });
+	const ref = {
+		id: 'scheduled_2026-03-02_0600',
+		get: async () => ({
+			exists: !!slot.data,
+			data: () => slot.data,
+			updateTime: timestamp(new Date(0)),
+		}),
+		update: slot.update,
+	};
+	return {
+		db: {
+			collection: () => ({ doc: () => ref }),
+			runTransaction: async (fn: (tx: unknown) => Promise<unknown>) => fn({
+				get: ref.get,
+				set: (_ref: unknown, data: Record<string, any>) => {
+					slot.data = Object.fromEntries(Object.entries(data).map(([key, value]) => [
+						key,
+						value instanceof Date ? timestamp(value) : value,
+					]));
+				},
+			}),
+		},
+	};
+});
+
+const runDuePayments = vi.hoisted(() => vi.fn());
+vi.mock('./repeatablePayments', () => ({ runDuePayments }));
+
+const { runScheduledDuePayments } = await import('./repeatableRuns');
+
+// 06:30 Athens time, half an hour after the default 06:00 slot
+const now = new Date('2026-03-02T04:30:00Z');
+
+function existingRun(status: string, startedMinutesAgo: number) {
+	return { status, startedAt: { toDate: () => new Date(now.getTime() - startedMinutesAgo * 60 * 1000) } };
+}
+
+describe('runScheduledDuePayments', () => {
+	beforeEach(() => {
+		slot.data = undefined;
+		slot.update.mockReset();
+		runDuePayments.mockReset();
+		runDuePayments.mockResolvedValue({ created: 1, alreadyBooked: 0, skipped: 0, completed: [] });
+	});
+
+	it('runs a slot once', async () => {
+		await expect(runScheduledDuePayments({ now })).resolves.toMatchObject({ ran: true });
+		await expect(runScheduledDuePayments({ now })).resolves.toMatchObject({ ran: false });
+		expect(runDuePayments).toHaveBeenCalledTimes(1);
+	});
+
+	it('leaves a slot that is still running alone', async () => {
+		slot.data = existingRun('running', 5);
+		await expect(runScheduledDuePayments({ now })).resolves.toMatchObject({ ran: false });
+		expect(runDuePayments).not.toHaveBeenCalled();
+	});
+
+	it('runs a failed slot or one whose run crashed again', async () => {
+		slot.data = existingRun('failed', 5);
+		await expect(runScheduledDuePayments({ now })).resolves.toMatchObject({ ran: true });
+
+		slot.data = existingRun('running', 45);
+		await expect(runScheduledDuePayments({ now })).resolves.toMatchObject({ ran: true });
+		expect(runDuePayments).toHaveBeenCalledTimes(2);
+	});
+
+	it('stores the outcome only while the slot is still its claim', async () => {
+		await runScheduledDuePayments({ now });
+		expect(slot.update).toHaveBeenCalledWith(
+			expect.objectContaining({ status: 'success', created: 1, alreadyBooked: 0, skipped: 0 }),
+			{ lastUpdateTime: expect.anything() }
+		);
+
+		// A run that was reclaimed meanwhile finishes without failing
+		slot.data = undefined;
+		slot.update.mockRejectedValueOnce(Object.assign(new Error('Precondition failed'), { code: 9 }));
+		await expect(runScheduledDuePayments({ now })).resolves.toMatchObject({ ran: true });
+	});
+});
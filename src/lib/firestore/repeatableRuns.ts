@@ -0,0 +1,163 @@
+import { db } from '../firebaseAdmin';
+import { toDateKey, formatDate, fromDateKeyAndTime } from '../dates';
+import type { RepeatableRun, RepeatableRunTrigger } from '../types';
+import { getSystemUserId } from '../cron';
+import { runDuePayments, type RunDueResult } from './repeatablePayments';
+
+const DEFAULT_RUN_TIMES = ['06:00'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A scheduled slot still 'running' after this long is taken to have crashed and is run again.
+// Longer than any serverless function may run.
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+// gRPC status Firestore returns when a write's lastUpdateTime precondition does not hold
+const FAILED_PRECONDITION = 9;
+
+/**
+ * Times of day (HH:mm, Europe/Athens) scheduled runs are due, from REPEATABLE_RUN_TIMES
+ * (comma-separated, default 06:00)
+ */
+export function getRunTimes(): string[] {
+	const value: string = import.meta.env.REPEATABLE_RUN_TIMES || process.env.REPEATABLE_RUN_TIMES || '';
+	const times = value
+		.split(',')
+		.map(time => time.trim())
+		.filter(time => /^([01]\d|2[0-3]):[0-5]\d$/.test(time));
+	return times.length > 0 ? Array.from(new Set(times)).sort() : DEFAULT_RUN_TIMES;
+}
+
+/**
+ * The latest scheduled time slot at or before now
+ */
+export function latestRunSlot(now: Date = new Date()): Date {
+	const slots = [toDateKey(new Date(now.getTime() - DAY_MS)), toDateKey(now)]
+		.flatMap(dateKey => getRunTimes().map(time => fromDateKeyAndTime(dateKey, time)))
+		.filter(slot => slot <= now);
+	return slots[slots.length - 1];
+}
+
+function toRepeatableRun(doc: FirebaseFirestore.DocumentSnapshot): RepeatableRun {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		...data,
+		// Runs recorded before skips were counted apart stored already booked dates as skipped
+		...(data.alreadyBooked === undefined ? { alreadyBooked: data.skipped ?? 0, skipped: 0 } : {}),
+		scheduledFor: data.scheduledFor?.toDate(),
+		startedAt: data.startedAt.toDate(),
+		finishedAt: data.finishedAt?.toDate(),
+	} as RepeatableRun;
+}
+
+/**
+ * Run history, newest first
+ */
+export async function listRepeatableRuns(limit: number = 20): Promise<RepeatableRun[]> {
+	const snapshot = await db.collection('repeatable_runs').orderBy('startedAt', 'desc').limit(limit).get();
+	return snapshot.docs.map(toRepeatableRun);
+}
+
+// Run the due payments under an already written 'running' entry and store the outcome on it.
+// With claimedAt the outcome is only stored while the entry is still that claim, so a run that
+// was taken for crashed and reclaimed can't overwrite the new run's outcome.
+async function executeRun(
+	ref: FirebaseFirestore.DocumentReference,
+	actorId: string,
+	now: Date,
+	claimedAt?: FirebaseFirestore.Timestamp
+): Promise<{ run: RepeatableRun; result: RunDueResult | null }> {
+	let result: RunDueResult | null = null;
+	let outcome: Record<string, unknown>;
+	try {
+		result = await runDuePayments({ actorId, now });
+		outcome = {
+			status: 'success',
+			created: result.created,
+			alreadyBooked: result.alreadyBooked,
+			skipped: result.skipped,
+			completed: result.completed.length,
+		};
+	} catch (err: any) {
+		console.error('Repeatable payments run failed:', err);
+		outcome = { status: 'failed', error: err?.message || String(err) };
+	}
+
+	try {
+		await ref.update({ ...outcome, finishedAt: new Date() }, claimedAt ? { lastUpdateTime: claimedAt } : {});
+	} catch (err: any) {
+		if (err?.code !== FAILED_PRECONDITION) throw err;
+	}
+	return { run: toRepeatableRun(await ref.get()), result };
+}
+
+function newRun(trigger: RepeatableRunTrigger, actorId: string, scheduledFor?: Date) {
+	return {
+		trigger,
+		status: 'running',
+		...(scheduledFor ? { scheduledFor } : {}),
+		created: 0,
+		alreadyBooked: 0,
+		skipped: 0,
+		completed: 0,
+		createdBy: actorId,
+		startedAt: new Date(),
+	};
+}
+
+/**
+ * Run the due payments now and record the run. A failed run is recorded with its error
+ * and returned with a null result.
+ */
+export async function runAndRecordDuePayments(
+	actorId: string,
+	trigger: RepeatableRunTrigger
+): Promise<{ run: RepeatableRun; result: RunDueResult | null }> {
+	const ref = db.collection('repeatable_runs').doc();
+	await ref.set(newRun(trigger, actorId));
+	return executeRun(ref, actorId, new Date());
+}
+
+/**
+ * Run the due payments as the system user if the latest time slot has not run yet. Each slot
+ * is claimed in a transaction under a fixed ID, so callers that overlap run it once; a failed
+ * slot, or one still running after STALE_RUN_MS (its run crashed), is tried again on the next
+ * call. `force` runs now regardless of the schedule.
+ */
+export async function runScheduledDuePayments(options: { now?: Date; force?: boolean } = {}): Promise<{
+	ran: boolean;
+	reason?: string;
+	run?: RepeatableRun;
+	result?: RunDueResult | null;
+}> {
+	const { now = new Date(), force = false } = options;
+	const actorId = getSystemUserId();
+
+	if (force) {
+		const ref = db.collection('repeatable_runs').doc();
+		await ref.set(newRun('scheduled', actorId));
+		return { ran: true, ...(await executeRun(ref, actorId, now)) };
+	}
+
+	const slot = latestRunSlot(now);
+	const ref = db.collection('repeatable_runs').doc(`scheduled_${formatDate(slot, 'yyyy-MM-dd_HHmm')}`);
+	const claimed = await db.runTransaction(async (tx) => {
+		const existing = await tx.get(ref);
+		if (existing.exists) {
+			const { status, startedAt } = existing.data()!;
+			const stale = status === 'running' && now.getTime() - startedAt.toDate().getTime() >= STALE_RUN_MS;
+			if (status !== 'failed' && !stale) {
+				return false;
+			}
+		}
+		tx.set(ref, newRun('scheduled', actorId, slot));
+		return true;
+	});
+	if (!claimed) {
+		return { ran: false, reason: `The ${formatDate(slot, 'yyyy-MM-dd HH:mm')} run has already started` };
+	}
+	// Nobody can claim the slot again before it goes stale, so this is our write
+	const claimedAt = (await ref.get()).updateTime!;
+	return { ran: true, ...(await executeRun(ref, actorId, now, claimedAt)) };
+}
@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TransactionSnapshot } from '../types';
+
+// In-memory collections keyed by "collection/id". Dates are stored as is and read back as
+// Firestore-like timestamps, nested ones included.
+const docs = vi.hoisted(() => new Map<string, Record<string, any>>());
+const DELETE = vi.hoisted(() => Symbol('delete'));
+
+vi.mock('firebase-admin/firestore', () => ({ FieldValue: { delete: () => DELETE } }));
+
+vi.mock('../firebaseAdmin', () => {
+	let nextId = 0;
+	const wrap = (value: any): any => {
+		if (value instanceof Date) return { toDate: () => value };
+		if (Array.isArray(value)) return value.map(wrap);
+		if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, wrap(v)]));
+		return value;
+	};
+	const snapshot = (path: string) => {
+		const data = docs.get(path);
+		return { id: path.split('/')[1], ref: { path }, exists: !!data, data: () => data && wrap(data) };
+	};
+	const ref = (name: string, id: string = `auto${++nextId}`) => ({
+		id,
+		path: `${name}/${id}`,
+		get: async () => snapshot(`${name}/${id}`),
+	});
+	const applyUpdate = (path: string, fields: Record<string, any>) => {
+		const data = { ...docs.get(path)! };
+		for (const [key, value] of Object.entries(fields)) {
+			if (value === DELETE) delete data[key];
+			else data[key] = value;
+		}
+		docs.set(path, data);
+	};
+	return {
+		db: {
+			collection: (name: string) => ({
+				doc: (id?: string) => ref(name, id),
+				where: (field: string, op: '==' | 'in', value: any) => ({
+					get: async () => ({
+						docs: [...docs.keys()]
+							.filter(path => path.startsWith(`${name}/`))
+							.filter(path => (op === 'in' ? value.includes(docs.get(path)![field]) : docs.get(path)![field] === value))
+							.map(snapshot),
+					}),
+				}),
+			}),
+			getAll: async (...refs: Array<{ path: string }>) => refs.map(r => snapshot(r.path)),
+			batch: () => {
+				const writes: Array<() => void> = [];
+				return {
+					set: (r: { path: string }, data: Record<string, any>) => writes.push(() => docs.set(r.path, data)),
+					update: (r: { path: string }, fields: Record<string, any>) => writes.push(() => applyUpdate(r.path, fields)),
+					commit: async () => writes.forEach(write => write()),
+				};
+			},
+		},
+	};
+});
+
+vi.mock('./summaries', () => ({ updateSummaries: vi.fn(), updateSummariesBulk: vi.fn() }));
+const logAudit = vi.hoisted(() => vi.fn());
+vi.mock('./audit', () => ({ logAudit }));
+vi.mock('../outboundWebhooks', () => ({ emitEvent: vi.fn(), serializeTransaction: vi.fn() }));
+
+const { diffSnapshots, listTransactionRevisions, rewriteRevisionSnapshots, toSnapshot } = await import('./revisions');
+const { revertTransaction, updateTransaction } = await import('./transactions');
+
+const base: TransactionSnapshot = {
+	ts: new Date('2026-10-01T09:00:00Z'),
+	type: 'expense',
+	amountCents: 1000,
+	categoryId: 'rent',
+	note: '',
+};
+
+beforeEach(() => {
+	docs.clear();
+	logAudit.mockReset();
+	docs.set('categories/rent', { name: 'Rent' });
+	docs.set('categories/office', { name: 'Office' });
+	docs.set('accounts/bank', { name: 'Bank' });
+});
+
+describe('toSnapshot', () => {
+	it('keeps only the tracked fields and drops empty optional ones', () => {
+		const snapshot = toSnapshot({
+			ts: { toDate: () => base.ts },
+			type: 'expense',
+			amountCents: 1000,
+			categoryId: 'rent',
+			paymentMethod: '',
+			companyName: 'ACME',
+			searchTokens: ['company:acme'],
+			createdBy: 'staff1',
+			splits: [],
+		});
+		expect(snapshot).toEqual({ ...base, companyName: 'ACME' });
+	});
+});
+
+describe('diffSnapshots', () => {
+	it('lists the fields that differ, in display order', () => {
+		const after = { ...base, ts: new Date('2026-10-02T09:00:00Z'), note: 'October', amountCents: 1200 };
+		expect(diffSnapshots(base, after)).toEqual(['ts', 'amountCents', 'note']);
+		expect(diffSnapshots(base, { ...base, ts: new Date(base.ts) })).toEqual([]);
+	});
+
+	it('compares split lines by value', () => {
+		const splits = [{ categoryId: 'rent', amountCents: 600 }, { categoryId: 'office', amountCents: 400 }];
+		expect(diffSnapshots({ ...base, splits }, { ...base, splits: splits.map(line => ({ ...line })) })).toEqual([]);
+		expect(diffSnapshots({ ...base, splits }, { ...base, splits: [...splits].reverse() })).toEqual(['splits']);
+	});
+
+	it('counts every field with a value as changed against a missing snapshot', () => {
+		expect(diffSnapshots(undefined, base)).toEqual(['ts', 'type', 'amountCents', 'categoryId', 'note']);
+		expect(diffSnapshots(base, undefined)).toEqual(['ts', 'type', 'amountCents', 'categoryId', 'note']);
+	});
+});
+
+describe('rewriteRevisionSnapshots', () => {
+	it('rewrites only the revisions the change touches', async () => {
+		docs.set('transaction_revisions/r1', { transactionId: 'tx1', action: 'create', after: base, changedFields: [], createdAt: new Date() });
+		docs.set('transaction_revisions/r2', { transactionId: 'tx1', action: 'update', before: base, after: { ...base, categoryId: 'office' }, changedFields: ['categoryId'], createdAt: new Date() });
+
+		const changed = await rewriteRevisionSnapshots(['tx1'], snapshot => ({
+			...snapshot,
+			categoryId: snapshot.categoryId === 'office' ? 'rent' : snapshot.categoryId,
+		}));
+
+		expect(changed).toBe(1);
+		expect(docs.get('transaction_revisions/r2')).toMatchObject({ after: { categoryId: 'rent' }, changedFields: [] });
+	});
+});
+
+describe('revertTransaction', () => {
+	/** A transaction edited once: moved to "office", given an account and a note */
+	async function seedEdited() {
+		docs.set('transactions/tx1', { ...base, createdBy: 'staff1', createdAt: new Date() });
+		docs.set('transaction_revisions/created', { transactionId: 'tx1', action: 'create', after: base, changedFields: [], createdBy: 'staff1', createdAt: new Date('2026-10-01T09:00:00Z') });
+		await updateTransaction('tx1', { categoryId: 'office', accountId: 'bank', note: 'Desk' }, 'staff2');
+	}
+
+	it('brings back the revision\'s state and records the revert as a revision', async () => {
+		await seedEdited();
+
+		await revertTransaction('tx1', 'created', 'admin');
+
+		expect(docs.get('transactions/tx1')).toMatchObject({ categoryId: 'rent', categoryIds: ['rent'], accountId: '', note: '' });
+		const revisions = await listTransactionRevisions('tx1');
+		expect(revisions.map(revision => revision.action).sort()).toEqual(['create', 'revert', 'update']);
+		expect(revisions.find(revision => revision.action === 'revert')).toMatchObject({
+			revertedToId: 'created',
+			before: { categoryId: 'office', accountId: 'bank', note: 'Desk' },
+			changedFields: ['categoryId', 'accountId', 'note'],
+		});
+		expect(toSnapshot(docs.get('transactions/tx1')!)).toEqual(base);
+		expect(logAudit).toHaveBeenLastCalledWith(expect.objectContaining({ action: 'transaction.revert' }));
+	});
+
+	it('refuses a revision that is missing, of another transaction or a deletion', async () => {
+		await seedEdited();
+		docs.set('transaction_revisions/other', { transactionId: 'tx2', action: 'create', after: base, changedFields: [], createdAt: new Date() });
+		docs.set('transaction_revisions/deleted', { transactionId: 'tx1', action: 'delete', before: base, changedFields: [], createdAt: new Date() });
+
+		await expect(revertTransaction('tx1', 'nope', 'admin')).rejects.toThrow('Revision not found');
+		await expect(revertTransaction('tx1', 'other', 'admin')).rejects.toThrow('Revision not found');
+		await expect(revertTransaction('tx1', 'deleted', 'admin')).rejects.toThrow('Cannot revert to a deletion');
+	});
+
+	it('refuses a revision whose category is gone', async () => {
+		await seedEdited();
+		docs.delete('categories/rent');
+
+		await expect(revertTransaction('tx1', 'created', 'admin')).rejects.toThrow('Cannot revert: its category has been deleted');
+		expect(docs.get('transactions/tx1')!.categoryId).toBe('office');
+	});
+});
@@ -0,0 +1,160 @@
+import { db } from '../firebaseAdmin';
+import type { TransactionRevision, TransactionRevisionAction, TransactionSnapshot } from '../types';
+
+/** Tracked fields in display order, with their labels */
+export const REVISION_FIELDS: Array<{ field: keyof TransactionSnapshot; label: string }> = [
+	{ field: 'ts', label: 'Date' },
+	{ field: 'type', label: 'Type' },
+	{ field: 'amountCents', label: 'Amount' },
+	{ field: 'categoryId', label: 'Category' },
+	{ field: 'splits', label: 'Split lines' },
+	{ field: 'paymentMethod', label: 'Payment method' },
+	{ field: 'accountId', label: 'Account' },
+	{ field: 'note', label: 'Note' },
+	{ field: 'clickupId', label: 'Clickup Id' },
+	{ field: 'companyName', label: 'Company name' },
+];
+
+/**
+ * Take the tracked fields from a transaction or its Firestore data. Empty optional fields are
+ * left out, so an empty string and a missing field count as the same value.
+ */
+export function toSnapshot(data: Record<string, any>): TransactionSnapshot {
+	return {
+		ts: data.ts instanceof Date ? data.ts : data.ts.toDate(),
+		type: data.type,
+		amountCents: data.amountCents,
+		categoryId: data.categoryId,
+		...(data.splits?.length ? {
+			splits: data.splits.map((line: Record<string, any>) => ({
+				categoryId: line.categoryId,
+				amountCents: line.amountCents,
+				...(line.note ? { note: line.note } : {}),
+			})),
+		} : {}),
+		...(data.paymentMethod ? { paymentMethod: data.paymentMethod } : {}),
+		...(data.accountId ? { accountId: data.accountId } : {}),
+		note: data.note || '',
+		...(data.clickupId ? { clickupId: data.clickupId } : {}),
+		...(data.companyName ? { companyName: data.companyName } : {}),
+	};
+}
+
+function fieldValue(snapshot: TransactionSnapshot | undefined, field: keyof TransactionSnapshot): string {
+	const value = snapshot?.[field];
+	if (value instanceof Date) return String(value.getTime());
+	return value === undefined ? '' : JSON.stringify(value);
+}
+
+/**
+ * Tracked fields that differ between two snapshots. Against a missing snapshot every
+ * field that has a value counts as changed.
+ */
+export function diffSnapshots(
+	before: TransactionSnapshot | undefined,
+	after: TransactionSnapshot | undefined
+): Array<keyof TransactionSnapshot> {
+	return REVISION_FIELDS
+		.map(({ field }) => field)
+		.filter(field => fieldValue(before, field) !== fieldValue(after, field));
+}
+
+/**
+ * Add a revision to a batch, so it is committed together with the change it records.
+ * Returns the changed fields.
+ */
+export function addRevision(
+	batch: FirebaseFirestore.WriteBatch,
+	revision: {
+		transactionId: string;
+		action: TransactionRevisionAction;
+		before?: TransactionSnapshot;
+		after?: TransactionSnapshot;
+		revertedToId?: string;
+		createdBy: string;
+	}
+): Array<keyof TransactionSnapshot> {
+	const changedFields = diffSnapshots(revision.before, revision.after);
+	batch.set(db.collection('transaction_revisions').doc(), {
+		transactionId: revision.transactionId,
+		action: revision.action,
+		...(revision.before ? { before: revision.before } : {}),
+		...(revision.after ? { after: revision.after } : {}),
+		changedFields,
+		...(revision.revertedToId ? { revertedToId: revision.revertedToId } : {}),
+		createdBy: revision.createdBy,
+		createdAt: new Date(),
+	});
+	return changedFields;
+}
+
+function toRevision(doc: FirebaseFirestore.DocumentSnapshot): TransactionRevision {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		...data,
+		...(data.before ? { before: { ...data.before, ts: data.before.ts.toDate() } } : {}),
+		...(data.after ? { after: { ...data.after, ts: data.after.ts.toDate() } } : {}),
+		createdAt: data.createdAt.toDate(),
+	} as TransactionRevision;
+}
+
+export async function getTransactionRevision(id: string): Promise<TransactionRevision | null> {
+	const doc = await db.collection('transaction_revisions').doc(id).get();
+	return doc.exists ? toRevision(doc) : null;
+}
+
+/**
+ * A transaction's revisions, newest first. Sorted in memory to avoid a composite index.
+ */
+export async function listTransactionRevisions(transactionId: string): Promise<TransactionRevision[]> {
+	const snapshot = await db.collection('transaction_revisions')
+		.where('transactionId', '==', transactionId)
+		.get();
+	return snapshot.docs
+		.map(toRevision)
+		.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Rewrite the stored snapshots of some transactions' revisions, e.g. when a migration moves
+ * them to another category, so reverting to an old revision doesn't bring the old value
+ * back. At most 30 transaction IDs (the limit of an "in" query). Returns the number of
+ * revisions changed.
+ */
+export async function rewriteRevisionSnapshots(
+	transactionIds: string[],
+	rewrite: (snapshot: TransactionSnapshot) => TransactionSnapshot
+): Promise<number> {
+	if (transactionIds.length === 0) {
+		return 0;
+	}
+	const snapshot = await db.collection('transaction_revisions')
+		.where('transactionId', 'in', transactionIds)
+		.get();
+
+	const updates: Array<{ ref: FirebaseFirestore.DocumentReference; data: Record<string, unknown> }> = [];
+	for (const doc of snapshot.docs) {
+		const revision = toRevision(doc);
+		const before = revision.before && rewrite(revision.before);
+		const after = revision.after && rewrite(revision.after);
+		if (diffSnapshots(revision.before, before).length === 0 && diffSnapshots(revision.after, after).length === 0) {
+			continue;
+		}
+		updates.push({
+			ref: doc.ref,
+			data: {
+				...(before ? { before } : {}),
+				...(after ? { after } : {}),
+				changedFields: diffSnapshots(before, after),
+			},
+		});
+	}
+
+	for (let i = 0; i < updates.length; i += 500) {
+		const batch = db.batch();
+		updates.slice(i, i + 500).forEach(({ ref, data }) => batch.update(ref, data));
+		await batch.commit();
+	}
+	return updates.length;
+}
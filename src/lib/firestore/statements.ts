@@ -0,0 +1,435 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../firebaseAdmin';
+import type { BankStatement, StatementFormat, StatementLine, StatementLineStatus, Transaction } from '../types';
+import type { ParsedStatementLine } from '../statements';
+import { MATCH_WINDOW_DAYS, matchStatementLines } from '../statements/match';
+import { getAccount, resolveTransactionAccount } from './accounts';
+import { createTransaction, getTransaction, listTransactions } from './transactions';
+import { logAudit } from './audit';
+
+// Firestore allows 500 writes per batch
+const WRITE_CHUNK_SIZE = 450;
+
+const DAY_MS = 86400000;
+
+// Fields cleared when a line goes back to unmatched
+const CLEAR_MATCH = {
+	transactionId: FieldValue.delete(),
+	matchScore: FieldValue.delete(),
+	matchReasons: FieldValue.delete(),
+};
+
+function toStatement(doc: FirebaseFirestore.DocumentSnapshot): BankStatement {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		filename: data.filename,
+		format: data.format,
+		...(data.accountId ? { accountId: data.accountId } : {}),
+		fromDate: data.fromDate.toDate(),
+		toDate: data.toDate.toDate(),
+		lineCount: data.lineCount || 0,
+		createdBy: data.createdBy,
+		createdAt: data.createdAt?.toDate() || new Date(),
+	};
+}
+
+function toStatementLine(doc: FirebaseFirestore.DocumentSnapshot): StatementLine {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		statementId: data.statementId,
+		index: data.index,
+		date: data.date.toDate(),
+		amountCents: data.amountCents,
+		description: data.description || '',
+		...(data.counterparty ? { counterparty: data.counterparty } : {}),
+		...(data.reference ? { reference: data.reference } : {}),
+		status: data.status,
+		...(data.transactionId ? { transactionId: data.transactionId } : {}),
+		...(data.matchScore !== undefined ? { matchScore: data.matchScore } : {}),
+		...(data.matchReasons ? { matchReasons: data.matchReasons } : {}),
+		updatedAt: data.updatedAt?.toDate() || new Date(),
+	};
+}
+
+async function commitInChunks<T>(items: T[], write: (batch: FirebaseFirestore.WriteBatch, item: T) => void): Promise<void> {
+	for (let start = 0; start < items.length; start += WRITE_CHUNK_SIZE) {
+		const batch = db.batch();
+		items.slice(start, start + WRITE_CHUNK_SIZE).forEach(item => write(batch, item));
+		await batch.commit();
+	}
+}
+
+/**
+ * List uploaded statements, newest first
+ */
+export async function listStatements(limit: number = 50): Promise<BankStatement[]> {
+	const snapshot = await db.collection('bank_statements').orderBy('createdAt', 'desc').limit(limit).get();
+	return snapshot.docs.map(toStatement);
+}
+
+/**
+ * Get a single statement by ID
+ */
+export async function getStatement(id: string): Promise<BankStatement | null> {
+	const doc = await db.collection('bank_statements').doc(id).get();
+	return doc.exists ? toStatement(doc) : null;
+}
+
+/**
+ * All lines of a statement in file order
+ */
+export async function listStatementLines(statementId: string): Promise<StatementLine[]> {
+	const snapshot = await db.collection('statement_lines').where('statementId', '==', statementId).get();
+	// Sort in memory to avoid composite index requirement
+	return snapshot.docs.map(toStatementLine).sort((a, b) => a.index - b.index);
+}
+
+async function getStatementLine(id: string): Promise<StatementLine> {
+	const doc = await db.collection('statement_lines').doc(id).get();
+	if (!doc.exists) {
+		throw new Error('Statement line not found');
+	}
+	return toStatementLine(doc);
+}
+
+/**
+ * Transactions that a statement's lines could be matched to: everything in the statement
+ * period plus the match window on both sides, on the statement's account or on no account.
+ */
+export async function listStatementCandidates(statement: BankStatement, windowDays: number = MATCH_WINDOW_DAYS): Promise<Transaction[]> {
+	const fromDate = new Date(statement.fromDate.getTime() - (windowDays + 1) * DAY_MS);
+	const toDate = new Date(statement.toDate.getTime() + (windowDays + 1) * DAY_MS);
+
+	const transactions: Transaction[] = [];
+	let hasNext = true;
+	while (hasNext) {
+		const page = await listTransactions({
+			fromDate,
+			toDate,
+			limit: 1000,
+			startAfterId: transactions.length ? transactions[transactions.length - 1].id : undefined,
+		});
+		transactions.push(...page.transactions);
+		hasNext = page.hasNext;
+	}
+
+	return transactions.filter(tx =>
+		!statement.accountId || !tx.accountId || tx.accountId === statement.accountId
+	);
+}
+
+/**
+ * Store a parsed statement and its lines, then suggest matches for them.
+ * Returns the statement ID and the number of lines with a suggestion.
+ */
+export async function importStatement(
+	data: { filename: string; format: StatementFormat; accountId?: string; lines: ParsedStatementLine[] },
+	actorId: string
+): Promise<{ id: string; suggested: number }> {
+	if (data.accountId && !(await getAccount(data.accountId))) {
+		throw new Error('Account not found');
+	}
+
+	const dates = data.lines.map(line => new Date(line.dateKey + 'T00:00:00'));
+	const times = dates.map(date => date.getTime());
+	const now = new Date();
+
+	const ref = db.collection('bank_statements').doc();
+	await ref.set({
+		filename: data.filename,
+		format: data.format,
+		...(data.accountId ? { accountId: data.accountId } : {}),
+		fromDate: new Date(Math.min(...times)),
+		toDate: new Date(Math.max(...times)),
+		lineCount: data.lines.length,
+		createdBy: actorId,
+		createdAt: now,
+	});
+
+	await commitInChunks(data.lines.map((line, index) => ({ line, index })), (batch, { line, index }) => {
+		batch.set(db.collection('statement_lines').doc(), {
+			statementId: ref.id,
+			index,
+			date: dates[index],
+			amountCents: line.amountCents,
+			description: line.description,
+			...(line.counterparty ? { counterparty: line.counterparty } : {}),
+			...(line.reference ? { reference: line.reference } : {}),
+			status: 'unmatched',
+			updatedAt: now,
+		});
+	});
+
+	const suggested = await autoMatchStatement(ref.id);
+
+	await logAudit({
+		action: 'statement.import',
+		entityType: 'bank_statement',
+		entityId: ref.id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { filename: data.filename, format: data.format, lineCount: data.lines.length, suggested },
+	});
+	return { id: ref.id, suggested };
+}
+
+/**
+ * Suggest a transaction for every unmatched line of a statement. Reconciled transactions
+ * and transactions already suggested for another line are left out. Returns the number
+ * of new suggestions.
+ */
+export async function autoMatchStatement(statementId: string): Promise<number> {
+	const statement = await getStatement(statementId);
+	if (!statement) {
+		throw new Error('Statement not found');
+	}
+
+	const lines = (await listStatementLines(statementId)).filter(line => line.status === 'unmatched');
+	if (lines.length === 0) {
+		return 0;
+	}
+
+	const [candidates, suggestedSnapshot] = await Promise.all([
+		listStatementCandidates(statement),
+		db.collection('statement_lines').where('status', '==', 'suggested').get(),
+	]);
+	const taken = new Set(suggestedSnapshot.docs.map(doc => doc.data().transactionId));
+	const available = candidates.filter(tx => !tx.reconciled && !taken.has(tx.id));
+
+	const matches = matchStatementLines(lines, available);
+	const now = new Date();
+	await commitInChunks(matches, (batch, match) => {
+		batch.update(db.collection('statement_lines').doc(match.lineId), {
+			status: 'suggested',
+			transactionId: match.transactionId,
+			matchScore: match.score,
+			matchReasons: match.reasons,
+			updatedAt: now,
+		});
+	});
+	return matches.length;
+}
+
+/**
+ * Confirm a line against a transaction - its suggestion, or one picked by hand - and mark
+ * the transaction reconciled. Other lines suggesting the same transaction go back to unmatched.
+ */
+export async function confirmStatementLine(lineId: string, transactionId: string | undefined, actorId: string): Promise<void> {
+	const line = await getStatementLine(lineId);
+	if (line.status !== 'unmatched' && line.status !== 'suggested') {
+		throw new Error('Statement line is already resolved');
+	}
+	const targetId = transactionId || line.transactionId;
+	if (!targetId) {
+		throw new Error('Transaction is required');
+	}
+	const transaction = await getTransaction(targetId);
+	if (!transaction) {
+		throw new Error('Transaction not found');
+	}
+	if (transaction.reconciled) {
+		throw new Error('Transaction is already reconciled');
+	}
+	if (transaction.type !== (line.amountCents >= 0 ? 'income' : 'expense')) {
+		throw new Error(line.amountCents >= 0 ? 'Money in must match an income transaction' : 'Money out must match an expense transaction');
+	}
+
+	const now = new Date();
+	const competing = await db.collection('statement_lines').where('transactionId', '==', targetId).get();
+	const batch = db.batch();
+	for (const doc of competing.docs) {
+		if (doc.id !== lineId && doc.data().status === 'suggested') {
+			batch.update(doc.ref, { status: 'unmatched', ...CLEAR_MATCH, updatedAt: now });
+		}
+	}
+	batch.update(db.collection('statement_lines').doc(lineId), {
+		status: 'matched',
+		transactionId: targetId,
+		...(targetId !== line.transactionId ? { matchScore: FieldValue.delete(), matchReasons: ['manual'] } : {}),
+		updatedAt: now,
+	});
+	batch.update(db.collection('transactions').doc(targetId), {
+		reconciled: true,
+		reconciledAt: now,
+		statementLineId: lineId,
+	});
+	await batch.commit();
+
+	await logAudit({
+		action: 'statement_line.match',
+		entityType: 'statement_line',
+		entityId: lineId,
+		amountCents: transaction.amountCents,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { statementId: line.statementId, transactionId: targetId, suggested: targetId === line.transactionId },
+	});
+}
+
+/**
+ * Confirm every suggestion of a statement. Returns the number confirmed.
+ */
+export async function confirmSuggestedLines(statementId: string, actorId: string): Promise<number> {
+	const lines = (await listStatementLines(statementId)).filter(line => line.status === 'suggested');
+	let confirmed = 0;
+	for (const line of lines) {
+		try {
+			await confirmStatementLine(line.id, undefined, actorId);
+			confirmed++;
+		} catch {
+			// The suggested transaction was reconciled or deleted meanwhile; leave the line for review
+		}
+	}
+	return confirmed;
+}
+
+/**
+ * Create the missing transaction for an unmatched line, already reconciled. The type and
+ * amount come from the line, the account from the statement or else the default account.
+ */
+export async function createTransactionFromLine(
+	lineId: string,
+	data: { categoryId: string; paymentMethod?: string; note?: string },
+	actorId: string
+): Promise<string> {
+	const line = await getStatementLine(lineId);
+	if (line.status !== 'unmatched' && line.status !== 'suggested') {
+		throw new Error('Statement line is already resolved');
+	}
+	if (line.amountCents === 0) {
+		throw new Error('Cannot create a transaction for a zero amount');
+	}
+	const statement = await getStatement(line.statementId);
+	if (!statement) {
+		throw new Error('Statement not found');
+	}
+
+	const accountId = await resolveTransactionAccount(statement.accountId);
+
+	const transactionId = await createTransaction({
+		ts: line.date,
+		type: line.amountCents > 0 ? 'income' : 'expense',
+		amountCents: Math.abs(line.amountCents),
+		categoryId: data.categoryId,
+		...(data.paymentMethod ? { paymentMethod: data.paymentMethod } : {}),
+		...(accountId ? { accountId } : {}),
+		note: data.note || line.description,
+		...(line.counterparty ? { companyName: line.counterparty } : {}),
+		reconciled: true,
+		statementLineId: lineId,
+		source: 'statement',
+		createdBy: actorId,
+	});
+
+	await db.collection('statement_lines').doc(lineId).update({
+		status: 'created',
+		transactionId,
+		matchScore: FieldValue.delete(),
+		matchReasons: FieldValue.delete(),
+		updatedAt: new Date(),
+	});
+	await logAudit({
+		action: 'statement_line.create_transaction',
+		entityType: 'statement_line',
+		entityId: lineId,
+		amountCents: Math.abs(line.amountCents),
+		categoryId: data.categoryId,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { statementId: line.statementId, transactionId },
+	});
+	return transactionId;
+}
+
+/**
+ * Mark a line as not needing a transaction (bank fees booked elsewhere, internal moves, ...)
+ */
+export async function ignoreStatementLine(lineId: string, actorId: string): Promise<void> {
+	const line = await getStatementLine(lineId);
+	if (line.status !== 'unmatched' && line.status !== 'suggested') {
+		throw new Error('Statement line is already resolved');
+	}
+	await db.collection('statement_lines').doc(lineId).update({ status: 'ignored', ...CLEAR_MATCH, updatedAt: new Date() });
+	await logAudit({
+		action: 'statement_line.ignore',
+		entityType: 'statement_line',
+		entityId: lineId,
+		amountCents: Math.abs(line.amountCents),
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { statementId: line.statementId },
+	});
+}
+
+/**
+ * Put a line back to unmatched: drops a suggestion, restores an ignored line, or undoes a
+ * match. An undone match leaves the transaction in place but no longer reconciled.
+ */
+export async function resetStatementLine(lineId: string, actorId: string): Promise<void> {
+	const line = await getStatementLine(lineId);
+	const previousStatus: StatementLineStatus = line.status;
+
+	const batch = db.batch();
+	batch.update(db.collection('statement_lines').doc(lineId), { status: 'unmatched', ...CLEAR_MATCH, updatedAt: new Date() });
+	if ((line.status === 'matched' || line.status === 'created') && line.transactionId) {
+		const transaction = await getTransaction(line.transactionId);
+		if (transaction) {
+			batch.update(db.collection('transactions').doc(line.transactionId), {
+				reconciled: false,
+				reconciledAt: FieldValue.delete(),
+				statementLineId: FieldValue.delete(),
+			});
+		}
+	}
+	await batch.commit();
+
+	await logAudit({
+		action: 'statement_line.reset',
+		entityType: 'statement_line',
+		entityId: lineId,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { statementId: line.statementId, previousStatus, transactionId: line.transactionId },
+	});
+}
+
+/**
+ * Delete a statement and its lines. Transactions matched to it are no longer reconciled.
+ */
+export async function deleteStatement(id: string, actorId: string): Promise<void> {
+	const statement = await getStatement(id);
+	if (!statement) {
+		throw new Error('Statement not found');
+	}
+
+	const lines = await listStatementLines(id);
+	const matchedIds = lines
+		.filter(line => (line.status === 'matched' || line.status === 'created') && line.transactionId)
+		.map(line => line.transactionId!);
+	const matched = matchedIds.length
+		? (await db.getAll(...matchedIds.map(txId => db.collection('transactions').doc(txId)))).filter(doc => doc.exists)
+		: [];
+
+	await commitInChunks(matched, (batch, doc) => {
+		batch.update(doc.ref, {
+			reconciled: false,
+			reconciledAt: FieldValue.delete(),
+			statementLineId: FieldValue.delete(),
+		});
+	});
+	await commitInChunks(lines, (batch, line) => {
+		batch.delete(db.collection('statement_lines').doc(line.id));
+	});
+	await db.collection('bank_statements').doc(id).delete();
+
+	await logAudit({
+		action: 'statement.delete',
+		entityType: 'bank_statement',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { filename: statement.filename, lineCount: lines.length, unreconciled: matched.length },
+	});
+}
@@ -0,0 +1,73 @@
+import { randomUUID } from 'node:crypto';
+import { describe, expect, it, vi } from 'vitest';
+
+// Runs against the Firestore emulator only: FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 npm test
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+vi.mock('../firebaseAdmin', async () => {
+	const { default: admin } = await import('firebase-admin');
+	const app = admin.initializeApp({ projectId: 'demo-ledger' }, 'summaries-emulator-test');
+	return { db: app.firestore(), auth: {} };
+});
+
+const { db } = await import('../firebaseAdmin');
+const { updateSummaries } = await import('./summaries');
+
+describe.skipIf(!emulatorHost)('summary increments (Firestore emulator)', () => {
+	// Unique keys per run, so the test never sees documents of an earlier run
+	const keys = () => {
+		const id = randomUUID();
+		return { dateKey: `day-${id}`, weekKey: `week-${id}`, monthKey: `month-${id}` };
+	};
+
+	it('keeps every update when many transactions commit at once', async () => {
+		const periodKeys = keys();
+		const writers = 25;
+
+		await Promise.all(Array.from({ length: writers }, async (_, i) => {
+			const batch = db.batch();
+			await updateSummaries(batch, {
+				...periodKeys,
+				operation: 'increment',
+				type: i % 5 === 0 ? 'expense' : 'income',
+				amountCents: 100,
+				categoryId: 'sales',
+				paymentMethod: 'card',
+			});
+			await batch.commit();
+		}));
+
+		for (const [collection, key] of [
+			['stats_daily', periodKeys.dateKey],
+			['stats_weekly', periodKeys.weekKey],
+			['stats_monthly', periodKeys.monthKey],
+		]) {
+			const data = (await db.collection(collection).doc(key).get()).data();
+			expect(data).toMatchObject({
+				incomeCents: 2000,
+				expenseCents: 500,
+				netCents: 1500,
+				countIncome: 20,
+				countExpense: 5,
+			});
+		}
+	});
+
+	it('applies a decrement and an increment of the same document in one batch', async () => {
+		const periodKeys = keys();
+		const row = { ...periodKeys, type: 'income' as const, amountCents: 1000, categoryId: 'sales' };
+
+		const create = db.batch();
+		await updateSummaries(create, { ...row, operation: 'increment' });
+		await create.commit();
+
+		// An edit of the amount, as updateTransaction writes it
+		const edit = db.batch();
+		await updateSummaries(edit, { ...row, operation: 'decrement' });
+		await updateSummaries(edit, { ...row, amountCents: 2500, operation: 'increment' });
+		await edit.commit();
+
+		const data = (await db.collection('stats_daily').doc(periodKeys.dateKey).get()).data();
+		expect(data).toMatchObject({ incomeCents: 2500, netCents: 2500, countIncome: 1 });
+	});
+});
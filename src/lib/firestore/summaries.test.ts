@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory collections for the reads and writes summaries make
+const store = vi.hoisted(() => new Map<string, Map<string, Record<string, any>>>());
+
+vi.mock('../firebaseAdmin', () => {
+	const unwrap = (value: any) => (value && typeof value.toDate === 'function' ? value.toDate() : value);
+	const collection = (name: string) => store.get(name) || store.set(name, new Map()).get(name)!;
+	const snapshot = (name: string, id: string) => {
+		const data = collection(name).get(id);
+		return { id, exists: !!data, data: () => data, get: (field: string) => data?.[field] };
+	};
+	const compare = { '>=': (a: any, b: any) => a >= b, '<=': (a: any, b: any) => a <= b };
+	const query = (name: string, filters: Array<[string, '>=' | '<=', any]>, limit = Infinity, after?: string): any => ({
+		where: (field: string, op: '>=' | '<=', value: any) => query(name, [...filters, [field, op, value]], limit, after),
+		orderBy: () => query(name, filters, limit, after),
+		select: () => query(name, filters, limit, after),
+		limit: (n: number) => query(name, filters, n, after),
+		startAfter: (doc: { id: string }) => query(name, filters, limit, doc.id),
+		get: async () => {
+			const docs = [...collection(name).keys()].sort()
+				.filter(id => after === undefined || id > after)
+				.filter(id => filters.every(([field, op, value]) => compare[op](unwrap(collection(name).get(id)![field]), value)))
+				.slice(0, limit)
+				.map(id => snapshot(name, id));
+			return { docs, size: docs.length };
+		},
+	});
+	return {
+		db: {
+			collection: (name: string) => ({
+				...query(name, []),
+				doc: (id: string) => ({ collection: name, id }),
+			}),
+			getAll: async (...refs: Array<{ collection: string; id: string }>) => refs.map(ref => snapshot(ref.collection, ref.id)),
+			batch: () => {
+				const writes: Array<() => void> = [];
+				return {
+					set: (ref: { collection: string; id: string }, data: Record<string, any>) => writes.push(() => collection(ref.collection).set(ref.id, data)),
+					commit: async () => writes.forEach(write => write()),
+				};
+			},
+		},
+	};
+});
+
+const logAudit = vi.hoisted(() => vi.fn());
+vi.mock('./audit', () => ({ logAudit }));
+vi.mock('./accounts', () => ({ applyAccountMovements: vi.fn() }));
+
+const {
+	backfillPaymentBreakdowns,
+	checkSummaryDrift,
+	getComputedMonthlyTable,
+	getComputedPeriodSummary,
+	getComputedWeeklyTable,
+} = await import('./summaries');
+
+const totals = (incomeCents: number, expenseCents = 0) => ({
+	incomeCents,
+	expenseCents,
+	netCents: incomeCents - expenseCents,
+	countIncome: incomeCents ? 1 : 0,
+	countExpense: expenseCents ? 1 : 0,
+});
+
+function seed(collection: string, docs: Record<string, Record<string, any>>) {
+	store.set(collection, new Map(Object.entries(docs)));
+}
+
+function transaction(ts: string, fields: Record<string, any>) {
+	return { ts: { toDate: () => new Date(ts) }, ...fields };
+}
+
+beforeEach(() => {
+	store.clear();
+	logAudit.mockReset();
+});
+
+describe('dashboard tables', () => {
+	it('lists the last 8 weeks, with zeros for weeks without stats', async () => {
+		seed('stats_weekly', { '2026-W42': { weekKey: '2026-W42', ...totals(5000) } });
+
+		const table = await getComputedWeeklyTable(new Date('2026-10-19T12:00:00Z'));
+
+		expect(table.map(row => row.weekKey)).toEqual([
+			'2026-W43', '2026-W42', '2026-W41', '2026-W40', '2026-W39', '2026-W38', '2026-W37', '2026-W36',
+		]);
+		expect(table[1]).toMatchObject(totals(5000));
+		expect(table[0]).toMatchObject(totals(0));
+	});
+
+	it('steps back whole weeks across a change of daylight saving time', async () => {
+		// Monday 30 March 2026, 00:30 in Athens (UTC+3 since the day before)
+		const table = await getComputedWeeklyTable(new Date('2026-03-29T21:30:00Z'));
+
+		expect(table.map(row => row.weekKey)).toEqual([
+			'2026-W14', '2026-W13', '2026-W12', '2026-W11', '2026-W10', '2026-W09', '2026-W08', '2026-W07',
+		]);
+	});
+
+	it('lists the last 12 months across the turn of the year', async () => {
+		seed('stats_monthly', { '2025-12': { monthKey: '2025-12', ...totals(0, 2500) } });
+
+		const table = await getComputedMonthlyTable(new Date('2026-02-10T12:00:00Z'));
+
+		expect(table.map(row => row.monthKey)).toEqual([
+			'2026-02', '2026-01', '2025-12', '2025-11', '2025-10', '2025-09',
+			'2025-08', '2025-07', '2025-06', '2025-05', '2025-04', '2025-03',
+		]);
+		expect(table[2]).toMatchObject(totals(0, 2500));
+		expect(table[0]).toMatchObject(totals(0));
+	});
+});
+
+describe('getComputedPeriodSummary', () => {
+	it('adds up the days of the range, with income per payment method', async () => {
+		seed('stats_daily', {
+			'2026-10-04': {
+				dateKey: '2026-10-04',
+				...totals(3000, 1000),
+				byMethod: { cash: totals(3000) },
+				byCategory: { sales: totals(3000), rent: totals(0, 1000) },
+			},
+			'2026-10-05': {
+				dateKey: '2026-10-05',
+				...totals(2000),
+				byMethod: { cash: totals(500), card: totals(1500) },
+				byCategory: { sales: totals(2000) },
+			},
+			'2026-10-09': { dateKey: '2026-10-09', ...totals(9900) },
+		});
+
+		const summary = await getComputedPeriodSummary(new Date('2026-10-04T12:00:00Z'), new Date('2026-10-05T12:00:00Z'));
+
+		expect(summary).toMatchObject({ incomeCents: 5000, expenseCents: 1000, netCents: 4000 });
+		expect(summary.payments).toEqual({ cash: 3500, card: 1500 });
+		expect(summary.byCategory.sales).toEqual({ incomeCents: 5000, expenseCents: 0, countIncome: 2, countExpense: 0 });
+		expect(summary.byCategory.rent).toEqual({ incomeCents: 0, expenseCents: 1000, countIncome: 0, countExpense: 1 });
+	});
+});
+
+describe('checkSummaryDrift', () => {
+	it('counts a split transaction once in the totals and per line in the categories', async () => {
+		seed('transactions', {
+			tx1: transaction('2026-10-05T09:00:00Z', {
+				type: 'income',
+				amountCents: 10000,
+				categoryId: 'sales',
+				splits: [{ categoryId: 'sales', amountCents: 6000 }, { categoryId: 'services', amountCents: 4000 }],
+				paymentMethod: 'card',
+			}),
+			tx2: transaction('2026-10-05T10:00:00Z', { type: 'expense', amountCents: 2500, categoryId: 'rent' }),
+		});
+
+		const drifts = await checkSummaryDrift(new Date('2026-10-05T12:00:00Z'), new Date('2026-10-05T12:00:00Z'));
+
+		expect(drifts.map(drift => `${drift.collection}/${drift.key}`)).toEqual([
+			'stats_daily/2026-10-05', 'stats_weekly/2026-W41', 'stats_monthly/2026-10',
+		]);
+		expect(drifts[0]).toMatchObject({ stored: null, expected: { ...totals(10000, 2500) } });
+		expect(drifts[0].expected.byCategory).toEqual({
+			rent: { incomeCents: 0, expenseCents: 2500, countIncome: 0, countExpense: 1 },
+			sales: { incomeCents: 6000, expenseCents: 0, countIncome: 1, countExpense: 0 },
+			services: { incomeCents: 4000, expenseCents: 0, countIncome: 1, countExpense: 0 },
+		});
+		expect(drifts[0].expected.byMethod).toEqual({
+			card: { incomeCents: 10000, expenseCents: 0, countIncome: 1, countExpense: 0 },
+		});
+	});
+
+	it('finds nothing when the stored documents match', async () => {
+		seed('transactions', { tx1: transaction('2026-10-05T09:00:00Z', { type: 'income', amountCents: 700, categoryId: 'sales' }) });
+		const stored = { ...totals(700), byCategory: { sales: { incomeCents: 700, expenseCents: 0, countIncome: 1, countExpense: 0 } } };
+		seed('stats_daily', { '2026-10-05': stored });
+		seed('stats_weekly', { '2026-W41': stored });
+		seed('stats_monthly', { '2026-10': stored });
+
+		await expect(checkSummaryDrift(new Date('2026-10-05T12:00:00Z'), new Date('2026-10-05T12:00:00Z'))).resolves.toEqual([]);
+	});
+});
+
+describe('backfillPaymentBreakdowns', () => {
+	it('rebuilds only the periods stored without a payment breakdown', async () => {
+		const cash = (ts: string) => transaction(ts, { type: 'income', amountCents: 1000, categoryId: 'sales', paymentMethod: 'cash' });
+		seed('transactions', {
+			tx1: cash('2024-01-10T09:00:00Z'),
+			tx2: cash('2026-10-05T09:00:00Z'),
+			tx3: cash('2026-10-12T09:00:00Z'),
+		});
+		const legacy = { ...totals(1000), byCategory: { sales: { incomeCents: 1000, expenseCents: 0, countIncome: 1, countExpense: 0 } } };
+		const current = { ...legacy, byMethod: { cash: { incomeCents: 1000, expenseCents: 0, countIncome: 1, countExpense: 0 } } };
+		const untouched = { dateKey: '2026-10-12', ...current };
+		seed('stats_daily', {
+			'2024-01-10': { dateKey: '2024-01-10', ...legacy },
+			'2026-10-05': { dateKey: '2026-10-05', ...legacy },
+			'2026-10-12': untouched,
+		});
+		seed('stats_weekly', { '2024-W02': legacy, '2026-W41': legacy, '2026-W42': current });
+		seed('stats_monthly', { '2024-01': legacy, '2026-10': { ...legacy, ...totals(2000) } });
+
+		// Two legacy days more than 400 days apart, repaired in two runs
+		await expect(backfillPaymentBreakdowns('admin')).resolves.toBe(6);
+		expect(logAudit).toHaveBeenCalledTimes(2);
+
+		for (const [collection, key] of [['stats_daily', '2026-10-05'], ['stats_weekly', '2026-W41'], ['stats_daily', '2024-01-10']]) {
+			expect(store.get(collection)!.get(key)!.byMethod).toEqual(current.byMethod);
+		}
+		expect(store.get('stats_monthly')!.get('2026-10')!.byMethod).toEqual({
+			cash: { incomeCents: 2000, expenseCents: 0, countIncome: 2, countExpense: 0 },
+		});
+		expect(store.get('stats_daily')!.get('2026-10-12')).toBe(untouched);
+	});
+});
@@ -1,277 +1,507 @@
 import { db } from '../firebaseAdmin';
 import type { DailySummary, WeeklySummary, MonthlySummary, PaymentTotals } from '../types';
-import type { TransactionType } from '../types';
-import type { WriteBatch } from 'firebase-admin/firestore';
+import type { TransactionType, TransactionSplit } from '../types';
+import { FieldValue, type WriteBatch } from 'firebase-admin/firestore';
+import { logAudit } from './audit';
+import { applyAccountMovements, type AccountMovement } from './accounts';
+import { transactionLines } from '../splits';
 
-interface UpdateSummaryParams {
+/** The fields of a transaction that summaries are built from */
+interface SummaryRow {
+	type: TransactionType;
+	amountCents: number;
+	categoryId: string;
+	splits?: TransactionSplit[]; // Split rows count per line in byCategory
+	paymentMethod?: string;
+	accountId?: string; // Rows with an account also move its balance
+}
+
+interface UpdateSummaryParams extends SummaryRow {
 	dateKey: string;
 	weekKey: string;
 	monthKey: string;
-	type: TransactionType;
-	amountCents: number;
 	operation: 'increment' | 'decrement';
 }
 
-async function getPaymentTypeIds(): Promise<{ cashId: string | null; onlineId: string | null }> {
-	const snapshot = await db.collection('categories')
-		.where('name', 'in', ['Cash', 'Online Payment'])
-		.get();
+/** Totals of one category or payment method inside a summary document */
+interface BreakdownTotals {
+	incomeCents: number;
+	expenseCents: number;
+	countIncome: number;
+	countExpense: number;
+}
 
-	let cashId: string | null = null;
-	let onlineId: string | null = null;
+type Breakdown = Record<string, BreakdownTotals>;
 
-	for (const doc of snapshot.docs) {
-		const name = doc.data().name;
-		if (name === 'Cash') {
-			cashId = doc.id;
-		} else if (name === 'Online Payment') {
-			onlineId = doc.id;
-		}
-	}
+function emptyTotals(): BreakdownTotals {
+	return { incomeCents: 0, expenseCents: 0, countIncome: 0, countExpense: 0 };
+}
 
-	return { cashId, onlineId };
+export interface ComputedPeriodSummary {
+	incomeCents: number;
+	expenseCents: number;
+	netCents: number;
+	payments: PaymentTotals;
+	byCategory: Record<string, BreakdownTotals>; // Per split line, so one transaction can count in several categories
 }
 
-/** Transaction-like shape for aggregation (ts may be Firestore Timestamp or Date) */
-interface TransactionRow {
-	ts: Date | { toDate(): Date };
-	type: TransactionType;
-	amountCents: number;
-	categoryId?: string;
+/**
+ * Income per payment method. Transactions without a method only count in the totals.
+ */
+function toPaymentTotals(byMethod: Breakdown | undefined): PaymentTotals {
+	return Object.fromEntries(
+		Object.entries(byMethod || {}).map(([method, totals]) => [method, totals.incomeCents || 0])
+	);
 }
 
-function tsToDate(ts: Date | { toDate(): Date }): Date {
-	return typeof (ts as { toDate?: () => Date }).toDate === 'function'
-		? (ts as { toDate(): Date }).toDate()
-		: (ts as Date);
+/**
+ * Add one breakdown into another (used to total daily documents over a period)
+ */
+function addBreakdown(target: Breakdown, source: Breakdown | undefined): void {
+	for (const [id, totals] of Object.entries(source || {})) {
+		const sum = target[id] || (target[id] = emptyTotals());
+		sum.incomeCents += totals.incomeCents || 0;
+		sum.expenseCents += totals.expenseCents || 0;
+		sum.countIncome += totals.countIncome || 0;
+		sum.countExpense += totals.countExpense || 0;
+	}
 }
 
 /**
- * Pure aggregation: Income/Expense/Net from Cash+Online only; Cash/Online = income only.
+ * Totals for an arbitrary range, summed from the stats_daily documents of the days it covers
  */
-function computeIncomeExpenseCashOnline(
-	transactions: TransactionRow[],
-	cashId: string | null,
-	onlineId: string | null
-): {
-	incomeCents: number;
-	expenseCents: number;
-	netCents: number;
-	cashCents: number;
-	onlineCents: number;
-} {
+export async function getComputedPeriodSummary(
+	fromDate: Date,
+	toDate: Date
+): Promise<ComputedPeriodSummary> {
+	const { toDateKey } = await import('../dates');
+	const snapshot = await db.collection('stats_daily')
+		.where('dateKey', '>=', toDateKey(fromDate))
+		.where('dateKey', '<=', toDateKey(toDate))
+		.get();
+
 	let incomeCents = 0;
 	let expenseCents = 0;
-	let cashCents = 0;
-	let onlineCents = 0;
-	const cashOrOnline = (id: string | undefined) =>
-		id === cashId || id === onlineId;
-	for (const t of transactions) {
-		const cat = t.categoryId;
-		if (!cashOrOnline(cat)) continue;
-		const amount = t.amountCents || 0;
-		if (t.type === 'income') {
-			incomeCents += amount;
-			if (cat === cashId) cashCents += amount;
-			if (cat === onlineId) onlineCents += amount;
-		} else if (t.type === 'expense') {
-			expenseCents += amount;
-		}
+	const byMethod: Breakdown = {};
+	const byCategory: Breakdown = {};
+	for (const doc of snapshot.docs) {
+		const data = doc.data();
+		incomeCents += data.incomeCents || 0;
+		expenseCents += data.expenseCents || 0;
+		addBreakdown(byMethod, data.byMethod);
+		addBreakdown(byCategory, data.byCategory);
 	}
 	return {
 		incomeCents,
 		expenseCents,
 		netCents: incomeCents - expenseCents,
-		cashCents,
-		onlineCents,
+		payments: toPaymentTotals(byMethod),
+		byCategory: normalizeBreakdown(byCategory),
 	};
 }
 
-const TRANSACTIONS_QUERY_LIMIT = 5000;
+/** Accumulated change for one summary document, in total, per category and per payment method */
+interface SummaryDelta extends BreakdownTotals {
+	byCategory: Breakdown;
+	byMethod: Breakdown;
+}
 
-async function getTransactionsInRange(
-	fromDate: Date,
-	toDate: Date
-): Promise<TransactionRow[]> {
-	const snapshot = await db
-		.collection('transactions')
-		.where('ts', '>=', fromDate)
-		.where('ts', '<=', toDate)
-		.orderBy('ts')
-		.limit(TRANSACTIONS_QUERY_LIMIT)
-		.get();
-	return snapshot.docs.map((doc) => {
-		const d = doc.data();
-		return {
-			ts: d.ts,
-			type: d.type as TransactionType,
-			amountCents: d.amountCents ?? 0,
-			categoryId: d.categoryId,
-		};
-	});
+const SUMMARY_COLLECTIONS = [
+	{ collection: 'stats_daily', keyField: 'dateKey' },
+	{ collection: 'stats_weekly', keyField: 'weekKey' },
+	{ collection: 'stats_monthly', keyField: 'monthKey' },
+] as const;
+
+function emptyDelta(): SummaryDelta {
+	return { ...emptyTotals(), byCategory: {}, byMethod: {} };
 }
 
-async function getPaymentTypeTotals(fromDate: Date, toDate: Date): Promise<PaymentTotals> {
-	const { cashId, onlineId } = await getPaymentTypeIds();
-	if (!cashId && !onlineId) return { cashCents: 0, onlineCents: 0 };
-	const rows = await getTransactionsInRange(fromDate, toDate);
-	const filtered = rows.filter(
-		(t) => t.categoryId === cashId || t.categoryId === onlineId
-	);
-	const { cashCents, onlineCents } = computeIncomeExpenseCashOnline(
-		filtered,
-		cashId,
-		onlineId
-	);
-	return { cashCents, onlineCents };
+function addToTotals(totals: BreakdownTotals, type: TransactionType, amountCents: number, sign: 1 | -1): void {
+	if (type === 'income') {
+		totals.incomeCents += sign * amountCents;
+		totals.countIncome += sign;
+	} else {
+		totals.expenseCents += sign * amountCents;
+		totals.countExpense += sign;
+	}
 }
 
-export interface ComputedPeriodSummary {
-	incomeCents: number;
-	expenseCents: number;
-	netCents: number;
-	cashCents: number;
-	onlineCents: number;
+function addToDelta(delta: SummaryDelta, row: SummaryRow, sign: 1 | -1): void {
+	addToTotals(delta, row.type, row.amountCents, sign);
+	for (const line of transactionLines(row)) {
+		const category = delta.byCategory[line.categoryId] || (delta.byCategory[line.categoryId] = emptyTotals());
+		addToTotals(category, row.type, line.amountCents, sign);
+	}
+	if (row.paymentMethod) {
+		const method = delta.byMethod[row.paymentMethod] || (delta.byMethod[row.paymentMethod] = emptyTotals());
+		addToTotals(method, row.type, row.amountCents, sign);
+	}
 }
 
-export async function getComputedPeriodSummary(
-	fromDate: Date,
-	toDate: Date
-): Promise<ComputedPeriodSummary> {
-	const { cashId, onlineId } = await getPaymentTypeIds();
-	const rows = await getTransactionsInRange(fromDate, toDate);
-	const filtered = rows.filter(
-		(t) => t.categoryId === cashId || t.categoryId === onlineId
-	);
-	return computeIncomeExpenseCashOnline(filtered, cashId, onlineId);
+function incrementBreakdown(breakdown: Breakdown): Record<string, Record<keyof BreakdownTotals, FieldValue>> {
+	return Object.fromEntries(Object.entries(breakdown).map(([id, totals]) => [id, {
+		incomeCents: FieldValue.increment(totals.incomeCents),
+		expenseCents: FieldValue.increment(totals.expenseCents),
+		countIncome: FieldValue.increment(totals.countIncome),
+		countExpense: FieldValue.increment(totals.countExpense),
+	}]));
 }
 
 /**
- * Update summary documents (daily, weekly, monthly) atomically
+ * Apply an accumulated delta to one summary document. Uses server-side increments instead of
+ * read-then-write, so concurrent commits (e.g. a webhook burst) can't overwrite each other's totals.
+ */
+function applySummaryDelta(
+	batch: WriteBatch,
+	collection: string,
+	keyField: string,
+	key: string,
+	delta: SummaryDelta
+): void {
+	const ref = db.collection(collection).doc(key);
+
+	// merge creates the document on first use; increments on a missing field start from 0
+	batch.set(ref, {
+		[keyField]: key,
+		incomeCents: FieldValue.increment(delta.incomeCents),
+		expenseCents: FieldValue.increment(delta.expenseCents),
+		netCents: FieldValue.increment(delta.incomeCents - delta.expenseCents),
+		countIncome: FieldValue.increment(delta.countIncome),
+		countExpense: FieldValue.increment(delta.countExpense),
+		byCategory: incrementBreakdown(delta.byCategory),
+		byMethod: incrementBreakdown(delta.byMethod),
+		updatedAt: new Date(),
+	}, { merge: true });
+}
+
+/**
+ * The balance change a transaction makes to its account, if it has one
+ */
+function toAccountMovement(row: SummaryRow, dateKey: string, sign: 1 | -1): AccountMovement[] {
+	if (!row.accountId) return [];
+	const amountCents = sign * row.amountCents;
+	return [{
+		accountId: row.accountId,
+		dateKey,
+		inCents: row.type === 'income' ? amountCents : 0,
+		outCents: row.type === 'income' ? 0 : amountCents,
+	}];
+}
+
+/**
+ * Update summary documents (daily, weekly, monthly) and the account balance atomically
  */
 export async function updateSummaries(
 	batch: WriteBatch,
 	params: UpdateSummaryParams
 ): Promise<void> {
-	const { dateKey, weekKey, monthKey, type, amountCents, operation } = params;
-	const delta = operation === 'increment' ? amountCents : -amountCents;
-	const countDelta = operation === 'increment' ? 1 : -1;
-
-	// Update daily summary
-	const dailyRef = db.collection('stats_daily').doc(dateKey);
-	const dailyDoc = await dailyRef.get();
-	
-	if (dailyDoc.exists) {
-		const data = dailyDoc.data()!;
-		const newIncomeCents = type === 'income' 
-			? (data.incomeCents || 0) + delta 
-			: (data.incomeCents || 0);
-		const newExpenseCents = type === 'expense' 
-			? (data.expenseCents || 0) + delta 
-			: (data.expenseCents || 0);
-		
-		batch.update(dailyRef, {
-			incomeCents: newIncomeCents,
-			expenseCents: newExpenseCents,
-			netCents: newIncomeCents - newExpenseCents,
-			countIncome: type === 'income' 
-				? (data.countIncome || 0) + countDelta 
-				: (data.countIncome || 0),
-			countExpense: type === 'expense' 
-				? (data.countExpense || 0) + countDelta 
-				: (data.countExpense || 0),
-			updatedAt: new Date(),
-		});
-	} else {
-		batch.set(dailyRef, {
-			dateKey,
-			incomeCents: type === 'income' ? amountCents : 0,
-			expenseCents: type === 'expense' ? amountCents : 0,
-			netCents: type === 'income' ? amountCents : -amountCents,
-			countIncome: type === 'income' ? 1 : 0,
-			countExpense: type === 'expense' ? 1 : 0,
-			updatedAt: new Date(),
-		});
+	const { dateKey, weekKey, monthKey, operation } = params;
+	const sign = operation === 'increment' ? 1 : -1;
+	const delta = emptyDelta();
+	addToDelta(delta, params, sign);
+
+	const keys = [dateKey, weekKey, monthKey];
+	for (let i = 0; i < SUMMARY_COLLECTIONS.length; i++) {
+		const { collection, keyField } = SUMMARY_COLLECTIONS[i];
+		applySummaryDelta(batch, collection, keyField, keys[i], delta);
 	}
+	applyAccountMovements(batch, toAccountMovement(params, dateKey, sign));
+}
 
-	// Update weekly summary
-	const weeklyRef = db.collection('stats_weekly').doc(weekKey);
-	const weeklyDoc = await weeklyRef.get();
-	
-	if (weeklyDoc.exists) {
-		const data = weeklyDoc.data()!;
-		const newIncomeCents = type === 'income' 
-			? (data.incomeCents || 0) + delta 
-			: (data.incomeCents || 0);
-		const newExpenseCents = type === 'expense' 
-			? (data.expenseCents || 0) + delta 
-			: (data.expenseCents || 0);
-		
-		batch.update(weeklyRef, {
-			incomeCents: newIncomeCents,
-			expenseCents: newExpenseCents,
-			netCents: newIncomeCents - newExpenseCents,
-			countIncome: type === 'income' 
-				? (data.countIncome || 0) + countDelta 
-				: (data.countIncome || 0),
-			countExpense: type === 'expense' 
-				? (data.countExpense || 0) + countDelta 
-				: (data.countExpense || 0),
-			updatedAt: new Date(),
-		});
-	} else {
-		batch.set(weeklyRef, {
-			weekKey,
-			incomeCents: type === 'income' ? amountCents : 0,
-			expenseCents: type === 'expense' ? amountCents : 0,
-			netCents: type === 'income' ? amountCents : -amountCents,
-			countIncome: type === 'income' ? 1 : 0,
-			countExpense: type === 'expense' ? 1 : 0,
-			updatedAt: new Date(),
+/**
+ * Update summaries for many transactions at once, writing each touched
+ * date/week/month document a single time
+ */
+export async function updateSummariesBulk(
+	batch: WriteBatch,
+	rows: Array<SummaryRow & { ts: Date }>,
+	operation: 'increment' | 'decrement'
+): Promise<void> {
+	const { toDateKey, toMonthKey, toISOWeekKey } = await import('../dates');
+	const sign = operation === 'increment' ? 1 : -1;
+	const deltas = SUMMARY_COLLECTIONS.map(() => new Map<string, SummaryDelta>());
+	const movements: AccountMovement[] = [];
+
+	for (const row of rows) {
+		const keys = [toDateKey(row.ts), toISOWeekKey(row.ts), toMonthKey(row.ts)];
+		keys.forEach((key, i) => {
+			if (!deltas[i].has(key)) deltas[i].set(key, emptyDelta());
+			addToDelta(deltas[i].get(key)!, row, sign);
 		});
+		movements.push(...toAccountMovement(row, keys[0], sign));
 	}
 
-	// Update monthly summary
-	const monthlyRef = db.collection('stats_monthly').doc(monthKey);
-	const monthlyDoc = await monthlyRef.get();
-	
-	if (monthlyDoc.exists) {
-		const data = monthlyDoc.data()!;
-		const newIncomeCents = type === 'income' 
-			? (data.incomeCents || 0) + delta 
-			: (data.incomeCents || 0);
-		const newExpenseCents = type === 'expense' 
-			? (data.expenseCents || 0) + delta 
-			: (data.expenseCents || 0);
-		
-		batch.update(monthlyRef, {
-			incomeCents: newIncomeCents,
-			expenseCents: newExpenseCents,
-			netCents: newIncomeCents - newExpenseCents,
-			countIncome: type === 'income' 
-				? (data.countIncome || 0) + countDelta 
-				: (data.countIncome || 0),
-			countExpense: type === 'expense' 
-				? (data.countExpense || 0) + countDelta 
-				: (data.countExpense || 0),
-			updatedAt: new Date(),
-		});
-	} else {
-		batch.set(monthlyRef, {
-			monthKey,
-			incomeCents: type === 'income' ? amountCents : 0,
-			expenseCents: type === 'expense' ? amountCents : 0,
-			netCents: type === 'income' ? amountCents : -amountCents,
-			countIncome: type === 'income' ? 1 : 0,
-			countExpense: type === 'expense' ? 1 : 0,
-			updatedAt: new Date(),
+	for (let i = 0; i < SUMMARY_COLLECTIONS.length; i++) {
+		const { collection, keyField } = SUMMARY_COLLECTIONS[i];
+		for (const [key, delta] of deltas[i]) {
+			applySummaryDelta(batch, collection, keyField, key, delta);
+		}
+	}
+	applyAccountMovements(batch, movements);
+}
+
+/** Stored totals of one summary document */
+export interface SummaryTotals {
+	incomeCents: number;
+	expenseCents: number;
+	netCents: number;
+	countIncome: number;
+	countExpense: number;
+	byCategory: Breakdown;
+	byMethod: Breakdown;
+}
+
+/** A summary document whose stored totals differ from the transactions */
+export interface SummaryDrift {
+	collection: string;
+	key: string;
+	stored: SummaryTotals | null; // null when the document is missing
+	expected: SummaryTotals;
+}
+
+const SUMMARY_FIELDS: Array<Exclude<keyof SummaryTotals, 'byCategory' | 'byMethod'>> = ['incomeCents', 'expenseCents', 'netCents', 'countIncome', 'countExpense'];
+const MAX_DRIFT_CHECK_DAYS = 400;
+const DRIFT_SCAN_BATCH_SIZE = 1000;
+
+/**
+ * Drop entries that net out to nothing and sort by id, so breakdowns compare as JSON
+ */
+function normalizeBreakdown(breakdown: Breakdown | undefined): Breakdown {
+	return Object.fromEntries(
+		Object.entries(breakdown || {})
+			.map(([id, t]): [string, BreakdownTotals] => [id, {
+				incomeCents: t.incomeCents || 0,
+				expenseCents: t.expenseCents || 0,
+				countIncome: t.countIncome || 0,
+				countExpense: t.countExpense || 0,
+			}])
+			.filter(([, t]) => t.incomeCents || t.expenseCents || t.countIncome || t.countExpense)
+			.sort(([a], [b]) => a.localeCompare(b))
+	);
+}
+
+function deltaToTotals(delta: SummaryDelta): SummaryTotals {
+	return {
+		incomeCents: delta.incomeCents,
+		expenseCents: delta.expenseCents,
+		netCents: delta.incomeCents - delta.expenseCents,
+		countIncome: delta.countIncome,
+		countExpense: delta.countExpense,
+		byCategory: normalizeBreakdown(delta.byCategory),
+		byMethod: normalizeBreakdown(delta.byMethod),
+	};
+}
+
+/**
+ * Recompute daily, weekly and monthly summaries from transactions and compare them with the
+ * stored documents. Every day, week and month touching the range is checked in full, so the
+ * scan is widened to whole weeks and months.
+ */
+export async function checkSummaryDrift(fromDate: Date, toDate: Date): Promise<SummaryDrift[]> {
+	const { toDateKey, toMonthKey, toISOWeekKey, getDayRange, getWeekRange, getMonthRange } = await import('../dates');
+	const keyFns = [toDateKey, toISOWeekKey, toMonthKey];
+
+	// Keys of every period touching the range, including ones with no transactions
+	const keys = SUMMARY_COLLECTIONS.map(() => new Set<string>());
+	let day = getDayRange(fromDate).start;
+	const last = getDayRange(toDate).end;
+	for (let n = 0; day <= last; n++) {
+		if (n >= MAX_DRIFT_CHECK_DAYS) {
+			throw new Error(`Cannot check more than ${MAX_DRIFT_CHECK_DAYS} days at once`);
+		}
+		keyFns.forEach((fn, i) => keys[i].add(fn(day)));
+		day = new Date(getDayRange(day).end.getTime() + 1);
+	}
+
+	const scanStart = new Date(Math.min(getWeekRange(fromDate).start.getTime(), getMonthRange(fromDate).start.getTime()));
+	const scanEnd = new Date(Math.max(getWeekRange(toDate).end.getTime(), getMonthRange(toDate).end.getTime()));
+
+	const expected = SUMMARY_COLLECTIONS.map(() => new Map<string, SummaryDelta>());
+	let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+	for (;;) {
+		let query = db.collection('transactions')
+			.where('ts', '>=', scanStart)
+			.where('ts', '<=', scanEnd)
+			.orderBy('ts')
+			.limit(DRIFT_SCAN_BATCH_SIZE);
+		if (cursor) query = query.startAfter(cursor);
+		const snapshot = await query.get();
+
+		for (const doc of snapshot.docs) {
+			const data = doc.data();
+			const ts = data.ts.toDate();
+			const row: SummaryRow = {
+				type: data.type,
+				amountCents: data.amountCents || 0,
+				categoryId: data.categoryId,
+				splits: data.splits,
+				paymentMethod: data.paymentMethod,
+			};
+			keyFns.forEach((fn, i) => {
+				const key = fn(ts);
+				if (!keys[i].has(key)) return;
+				if (!expected[i].has(key)) expected[i].set(key, emptyDelta());
+				addToDelta(expected[i].get(key)!, row, 1);
+			});
+		}
+
+		if (snapshot.size < DRIFT_SCAN_BATCH_SIZE) break;
+		cursor = snapshot.docs[snapshot.docs.length - 1];
+	}
+
+	const drifts: SummaryDrift[] = [];
+	for (let i = 0; i < SUMMARY_COLLECTIONS.length; i++) {
+		const { collection } = SUMMARY_COLLECTIONS[i];
+		const sortedKeys = Array.from(keys[i]).sort();
+		const docs = await db.getAll(...sortedKeys.map(key => db.collection(collection).doc(key)));
+
+		docs.forEach((doc, j) => {
+			const key = sortedKeys[j];
+			const want = deltaToTotals(expected[i].get(key) || emptyDelta());
+			const data = doc.exists ? doc.data()! : null;
+			const stored: SummaryTotals | null = data
+				? {
+					incomeCents: data.incomeCents || 0,
+					expenseCents: data.expenseCents || 0,
+					netCents: data.netCents || 0,
+					countIncome: data.countIncome || 0,
+					countExpense: data.countExpense || 0,
+					byCategory: normalizeBreakdown(data.byCategory),
+					byMethod: normalizeBreakdown(data.byMethod),
+				}
+				: null;
+			const isEmpty = SUMMARY_FIELDS.every(field => want[field] === 0) && Object.keys(want.byCategory).length === 0;
+
+			// A missing document is fine as long as there is nothing to count
+			const drifted = stored
+				? SUMMARY_FIELDS.some(field => stored[field] !== want[field]) || !breakdownsMatch(stored, want)
+				: !isEmpty;
+			if (drifted) {
+				drifts.push({ collection, key, stored, expected: want });
+			}
 		});
 	}
+
+	return drifts;
+}
+
+export function breakdownsMatch(a: SummaryTotals, b: SummaryTotals): boolean {
+	return JSON.stringify(a.byCategory) === JSON.stringify(b.byCategory)
+		&& JSON.stringify(a.byMethod) === JSON.stringify(b.byMethod);
 }
 
 /**
- * Get dashboard data (today, week, month, charts, tables) computed from transactions
- * (Cash+Online only: Income/Expense/Net; Cash/Online = income only).
+ * Rewrite only the drifted summary documents in the range with the recomputed totals.
+ * Writes that land between the check and the repair are not seen, so run it when the
+ * ledger is quiet and check again afterwards.
+ */
+export async function repairSummaryDrift(fromDate: Date, toDate: Date, actorId: string): Promise<SummaryDrift[]> {
+	const { toDateKey } = await import('../dates');
+	const drifts = await checkSummaryDrift(fromDate, toDate);
+	if (drifts.length === 0) {
+		return drifts;
+	}
+
+	const keyFields = new Map<string, string>(SUMMARY_COLLECTIONS.map(c => [c.collection, c.keyField]));
+	// 500 writes per batch is the Firestore limit. Documents are replaced, not merged,
+	// so categories and methods that no longer have transactions drop out of the breakdowns.
+	for (let i = 0; i < drifts.length; i += 500) {
+		const batch = db.batch();
+		for (const drift of drifts.slice(i, i + 500)) {
+			batch.set(db.collection(drift.collection).doc(drift.key), {
+				[keyFields.get(drift.collection)!]: drift.key,
+				...drift.expected,
+				updatedAt: new Date(),
+			});
+		}
+		await batch.commit();
+	}
+
+	await logAudit({
+		action: 'summaries.repair',
+		entityType: 'summary',
+		entityId: `${toDateKey(fromDate)}..${toDateKey(toDate)}`,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: {
+			from: toDateKey(fromDate),
+			to: toDateKey(toDate),
+			repaired: drifts.map(d => ({ collection: d.collection, key: d.key, before: d.stored, after: d.expected })),
+		},
+	});
+
+	return drifts;
+}
+
+/**
+ * Rebuild the summaries of every day whose stats document has no per-method breakdown yet
+ * (written before it existed), with the weeks and months around them. The days are repaired
+ * in runs of up to 400 days. Returns the number of documents rewritten.
+ */
+export async function backfillPaymentBreakdowns(actorId: string): Promise<number> {
+	const { parseDateKey } = await import('../dates');
+
+	const dateKeys: string[] = [];
+	let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+	for (;;) {
+		let query = db.collection('stats_daily')
+			.orderBy('dateKey')
+			.select('dateKey', 'byMethod')
+			.limit(DRIFT_SCAN_BATCH_SIZE);
+		if (cursor) query = query.startAfter(cursor);
+		const snapshot = await query.get();
+
+		for (const doc of snapshot.docs) {
+			if (doc.get('byMethod') === undefined) dateKeys.push(doc.id);
+		}
+
+		if (snapshot.size < DRIFT_SCAN_BATCH_SIZE) break;
+		cursor = snapshot.docs[snapshot.docs.length - 1];
+	}
+
+	let repaired = 0;
+	let i = 0;
+	while (i < dateKeys.length) {
+		const from = parseDateKey(dateKeys[i]);
+		// A day under the check's limit, so a daylight saving shift never pushes a run over it
+		const limit = from.getTime() + (MAX_DRIFT_CHECK_DAYS - 2) * 24 * 60 * 60 * 1000;
+		let j = i;
+		while (j + 1 < dateKeys.length && parseDateKey(dateKeys[j + 1]).getTime() <= limit) j++;
+		repaired += (await repairSummaryDrift(from, parseDateKey(dateKeys[j]), actorId)).length;
+		i = j + 1;
+	}
+	return repaired;
+}
+
+/**
+ * Totals of a stats document; every category counts
+ */
+function toSummaryRow(data: FirebaseFirestore.DocumentData | undefined) {
+	return {
+		incomeCents: data?.incomeCents || 0,
+		expenseCents: data?.expenseCents || 0,
+		netCents: data?.netCents || 0,
+		countIncome: data?.countIncome || 0,
+		countExpense: data?.countExpense || 0,
+		updatedAt: data?.updatedAt?.toDate?.() ?? new Date(),
+	};
+}
+
+function toDailySummary(doc: FirebaseFirestore.DocumentSnapshot): DailySummary {
+	return { dateKey: doc.id, ...toSummaryRow(doc.data()) };
+}
+
+function toWeeklySummary(doc: FirebaseFirestore.DocumentSnapshot): WeeklySummary {
+	return { weekKey: doc.id, ...toSummaryRow(doc.data()) };
+}
+
+function toMonthlySummary(doc: FirebaseFirestore.DocumentSnapshot): MonthlySummary {
+	return { monthKey: doc.id, ...toSummaryRow(doc.data()) };
+}
+
+/**
+ * Get dashboard data (today, week, month, charts, tables) from the stats documents.
+ * Reads a bounded number of documents whatever the size of the ledger.
  */
 export async function getDashboardData(fromDate?: Date, toDate?: Date): Promise<{
 	today: DailySummary | null;
@@ -285,52 +515,7 @@ export async function getDashboardData(fromDate?: Date, toDate?: Date): Promise<
 	monthPayments: PaymentTotals;
 }> {
 	const now = new Date();
-	const { toDateKey, toMonthKey, toISOWeekKey, getDayRange, getWeekRange, getMonthRange } = await import('../dates');
-	const { cashId, onlineId } = await getPaymentTypeIds();
-
-	const todayKey = toDateKey(now);
-	const weekKey = toISOWeekKey(now);
-	const monthKey = toMonthKey(now);
-	const { start: dayStart, end: dayEnd } = getDayRange(now);
-	const { start: weekStart, end: weekEnd } = getWeekRange(now);
-	const { start: monthStart, end: monthEnd } = getMonthRange(now);
-
-	const [daySummary, weekSummary, monthSummary] = await Promise.all([
-		getComputedPeriodSummary(dayStart, dayEnd),
-		getComputedPeriodSummary(weekStart, weekEnd),
-		getComputedPeriodSummary(monthStart, monthEnd),
-	]);
-
-	const today: DailySummary | null = {
-		dateKey: todayKey,
-		incomeCents: daySummary.incomeCents,
-		expenseCents: daySummary.expenseCents,
-		netCents: daySummary.netCents,
-		countIncome: 0,
-		countExpense: 0,
-		updatedAt: now,
-	};
-	const week: WeeklySummary | null = {
-		weekKey,
-		incomeCents: weekSummary.incomeCents,
-		expenseCents: weekSummary.expenseCents,
-		netCents: weekSummary.netCents,
-		countIncome: 0,
-		countExpense: 0,
-		updatedAt: now,
-	};
-	const month: MonthlySummary | null = {
-		monthKey,
-		incomeCents: monthSummary.incomeCents,
-		expenseCents: monthSummary.expenseCents,
-		netCents: monthSummary.netCents,
-		countIncome: 0,
-		countExpense: 0,
-		updatedAt: now,
-	};
-	const todayPayments: PaymentTotals = { cashCents: daySummary.cashCents, onlineCents: daySummary.onlineCents };
-	const weekPayments: PaymentTotals = { cashCents: weekSummary.cashCents, onlineCents: weekSummary.onlineCents };
-	const monthPayments: PaymentTotals = { cashCents: monthSummary.cashCents, onlineCents: monthSummary.onlineCents };
+	const { toDateKey, toMonthKey, toISOWeekKey } = await import('../dates');
 
 	const chartFromDate = fromDate ?? (() => {
 		const d = new Date(now);
@@ -338,153 +523,62 @@ export async function getDashboardData(fromDate?: Date, toDate?: Date): Promise<
 		return d;
 	})();
 	const chartToDate = toDate ?? now;
-	const chartRows = await getTransactionsInRange(chartFromDate, chartToDate);
-	const byDay = new Map<string, TransactionRow[]>();
-	for (const t of chartRows) {
-		const key = toDateKey(tsToDate(t.ts));
-		if (!byDay.has(key)) byDay.set(key, []);
-		byDay.get(key)!.push(t);
-	}
-	const dailyChart: DailySummary[] = Array.from(byDay.entries())
-		.map(([dateKey, rows]) => {
-			const s = computeIncomeExpenseCashOnline(rows, cashId, onlineId);
-			return {
-				dateKey,
-				incomeCents: s.incomeCents,
-				expenseCents: s.expenseCents,
-				netCents: s.netCents,
-				countIncome: 0,
-				countExpense: 0,
-				updatedAt: now,
-			};
-		})
-		.sort((a, b) => a.dateKey.localeCompare(b.dateKey));
-
-	const eightWeeksAgo = new Date(now);
-	eightWeeksAgo.setDate(eightWeeksAgo.getDate() - 8 * 7);
-	const { start: weeklyRangeStart } = getWeekRange(eightWeeksAgo);
-	const weeklyRows = await getTransactionsInRange(weeklyRangeStart, weekEnd);
-	const byWeek = new Map<string, TransactionRow[]>();
-	for (const t of weeklyRows) {
-		const key = toISOWeekKey(tsToDate(t.ts));
-		if (!byWeek.has(key)) byWeek.set(key, []);
-		byWeek.get(key)!.push(t);
-	}
-	const weeklyTable: WeeklySummary[] = Array.from(byWeek.entries())
-		.map(([weekKey, rows]) => {
-			const s = computeIncomeExpenseCashOnline(rows, cashId, onlineId);
-			return {
-				weekKey,
-				incomeCents: s.incomeCents,
-				expenseCents: s.expenseCents,
-				netCents: s.netCents,
-				countIncome: 0,
-				countExpense: 0,
-				updatedAt: now,
-			};
-		})
-		.sort((a, b) => b.weekKey.localeCompare(a.weekKey))
-		.slice(0, 8);
-
-	const twelveMonthsAgo = new Date(now);
-	twelveMonthsAgo.setMonth(twelveMonthsAgo.getMonth() - 12);
-	const { start: monthlyRangeStart } = getMonthRange(twelveMonthsAgo);
-	const monthlyRows = await getTransactionsInRange(monthlyRangeStart, monthEnd);
-	const byMonth = new Map<string, TransactionRow[]>();
-	for (const t of monthlyRows) {
-		const key = toMonthKey(tsToDate(t.ts));
-		if (!byMonth.has(key)) byMonth.set(key, []);
-		byMonth.get(key)!.push(t);
-	}
-	const monthlyTable: MonthlySummary[] = Array.from(byMonth.entries())
-		.map(([monthKey, rows]) => {
-			const s = computeIncomeExpenseCashOnline(rows, cashId, onlineId);
-			return {
-				monthKey,
-				incomeCents: s.incomeCents,
-				expenseCents: s.expenseCents,
-				netCents: s.netCents,
-				countIncome: 0,
-				countExpense: 0,
-				updatedAt: now,
-			};
-		})
-		.sort((a, b) => b.monthKey.localeCompare(a.monthKey))
-		.slice(0, 12);
+
+	const [todayDoc, weekDoc, monthDoc, chartSnapshot, weeklyTable, monthlyTable] = await Promise.all([
+		db.collection('stats_daily').doc(toDateKey(now)).get(),
+		db.collection('stats_weekly').doc(toISOWeekKey(now)).get(),
+		db.collection('stats_monthly').doc(toMonthKey(now)).get(),
+		db.collection('stats_daily')
+			.where('dateKey', '>=', toDateKey(chartFromDate))
+			.where('dateKey', '<=', toDateKey(chartToDate))
+			.orderBy('dateKey')
+			.get(),
+		getComputedWeeklyTable(now),
+		getComputedMonthlyTable(now),
+	]);
 
 	return {
-		today,
-		week,
-		month,
-		dailyChart,
+		today: toDailySummary(todayDoc),
+		week: toWeeklySummary(weekDoc),
+		month: toMonthlySummary(monthDoc),
+		dailyChart: chartSnapshot.docs.map(toDailySummary),
 		weeklyTable,
 		monthlyTable,
-		todayPayments,
-		weekPayments,
-		monthPayments,
+		todayPayments: toPaymentTotals(todayDoc.data()?.byMethod),
+		weekPayments: toPaymentTotals(weekDoc.data()?.byMethod),
+		monthPayments: toPaymentTotals(monthDoc.data()?.byMethod),
 	};
 }
 
-export async function getComputedWeeklyTable(): Promise<WeeklySummary[]> {
-	const now = new Date();
-	const { toISOWeekKey, getWeekRange } = await import('../dates');
-	const { start: weekStart, end: weekEnd } = getWeekRange(now);
-	const eightWeeksAgo = new Date(now);
-	eightWeeksAgo.setDate(eightWeeksAgo.getDate() - 8 * 7);
-	const { start: rangeStart } = getWeekRange(eightWeeksAgo);
-	const rows = await getTransactionsInRange(rangeStart, weekEnd);
-	const { cashId, onlineId } = await getPaymentTypeIds();
-	const byWeek = new Map<string, TransactionRow[]>();
-	for (const t of rows) {
-		const key = toISOWeekKey(tsToDate(t.ts));
-		if (!byWeek.has(key)) byWeek.set(key, []);
-		byWeek.get(key)!.push(t);
-	}
-	return Array.from(byWeek.entries())
-		.map(([weekKey, list]) => {
-			const s = computeIncomeExpenseCashOnline(list, cashId, onlineId);
-			return {
-				weekKey,
-				incomeCents: s.incomeCents,
-				expenseCents: s.expenseCents,
-				netCents: s.netCents,
-				countIncome: 0,
-				countExpense: 0,
-				updatedAt: now,
-			};
-		})
-		.sort((a, b) => b.weekKey.localeCompare(a.weekKey))
-		.slice(0, 8);
+/** How many weeks and months the dashboard tables show */
+const WEEKLY_TABLE_SIZE = 8;
+const MONTHLY_TABLE_SIZE = 12;
+
+/**
+ * The current and previous 7 weeks, newest first. Weeks without a stats document show as zeros.
+ */
+export async function getComputedWeeklyTable(now: Date = new Date()): Promise<WeeklySummary[]> {
+	const { toDateKey, toISOWeekKey } = await import('../dates');
+	// Step back by calendar days in Athens, not by 7 * 24 hours, so a DST change can't move a
+	// step into the neighbouring week. Noon UTC falls on the same date in Athens.
+	const [year, month, day] = toDateKey(now).split('-').map(Number);
+	const keys = Array.from({ length: WEEKLY_TABLE_SIZE }, (_, i) =>
+		toISOWeekKey(new Date(Date.UTC(year, month - 1, day - i * 7, 12)))
+	);
+	const docs = await db.getAll(...keys.map(key => db.collection('stats_weekly').doc(key)));
+	return docs.map(toWeeklySummary);
 }
 
-export async function getComputedMonthlyTable(): Promise<MonthlySummary[]> {
-	const now = new Date();
-	const { toMonthKey, getMonthRange } = await import('../dates');
-	const { end: monthEnd } = getMonthRange(now);
-	const twelveMonthsAgo = new Date(now);
-	twelveMonthsAgo.setMonth(twelveMonthsAgo.getMonth() - 12);
-	const { start: rangeStart } = getMonthRange(twelveMonthsAgo);
-	const rows = await getTransactionsInRange(rangeStart, monthEnd);
-	const { cashId, onlineId } = await getPaymentTypeIds();
-	const byMonth = new Map<string, TransactionRow[]>();
-	for (const t of rows) {
-		const key = toMonthKey(tsToDate(t.ts));
-		if (!byMonth.has(key)) byMonth.set(key, []);
-		byMonth.get(key)!.push(t);
-	}
-	return Array.from(byMonth.entries())
-		.map(([monthKey, list]) => {
-			const s = computeIncomeExpenseCashOnline(list, cashId, onlineId);
-			return {
-				monthKey,
-				incomeCents: s.incomeCents,
-				expenseCents: s.expenseCents,
-				netCents: s.netCents,
-				countIncome: 0,
-				countExpense: 0,
-				updatedAt: now,
-			};
-		})
-		.sort((a, b) => b.monthKey.localeCompare(a.monthKey))
-		.slice(0, 12);
+/**
+ * The current and previous 11 months, newest first. Months without a stats document show as zeros.
+ */
+export async function getComputedMonthlyTable(now: Date = new Date()): Promise<MonthlySummary[]> {
+	const { toMonthKey } = await import('../dates');
+	const [year, month] = toMonthKey(now).split('-').map(Number);
+	const keys = Array.from({ length: MONTHLY_TABLE_SIZE }, (_, i) => {
+		const index = year * 12 + (month - 1) - i;
+		return `${Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}`;
+	});
+	const docs = await db.getAll(...keys.map(key => db.collection('stats_monthly').doc(key)));
+	return docs.map(toMonthlySummary);
 }
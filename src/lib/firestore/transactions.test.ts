@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildSearchTokens } from '../search';
+
+// In-memory transactions collection with the ordering and cursors listTransactions relies on
+const rows = vi.hoisted(() => new Map<string, Record<string, any>>());
+
+vi.mock('../firebaseAdmin', () => {
+	const unwrap = (value: any) => (value && typeof value.toDate === 'function' ? value.toDate().getTime() : value instanceof Date ? value.getTime() : value);
+	const ops: Record<string, (a: any, b: any) => boolean> = {
+		'==': (a, b) => a === b,
+		'>=': (a, b) => a >= b,
+		'<=': (a, b) => a <= b,
+		'array-contains': (a, b) => Array.isArray(a) && a.includes(b),
+	};
+	// orderBy('ts', 'desc'): newest first, ties by document ID descending
+	const compare = (a: string, b: string) => unwrap(rows.get(b)!.ts) - unwrap(rows.get(a)!.ts) || (a < b ? 1 : a > b ? -1 : 0);
+	const snapshot = (id: string) => ({ id, ref: { id }, exists: rows.has(id), data: () => rows.get(id) });
+
+	interface State {
+		filters: Array<(data: Record<string, any>) => boolean>;
+		after?: string;
+		before?: string;
+		limit?: number;
+		last?: boolean;
+	}
+	const query = (state: State): any => ({
+		where: (field: string, op: string, value: any) =>
+			query({ ...state, filters: [...state.filters, data => ops[op](unwrap(data[field]), unwrap(value))] }),
+		orderBy: () => query(state),
+		startAfter: (doc: { id: string }) => query({ ...state, after: doc.id }),
+		endBefore: (doc: { id: string }) => query({ ...state, before: doc.id }),
+		limit: (n: number) => query({ ...state, limit: n }),
+		limitToLast: (n: number) => query({ ...state, limit: n, last: true }),
+		get: async () => {
+			let ids = [...rows.keys()]
+				.filter(id => state.filters.every(filter => filter(rows.get(id)!)))
+				.sort(compare)
+				.filter(id => state.after === undefined || compare(id, state.after) > 0)
+				.filter(id => state.before === undefined || compare(id, state.before) < 0);
+			if (state.limit !== undefined) {
+				ids = state.last ? ids.slice(-state.limit) : ids.slice(0, state.limit);
+			}
+			return { docs: ids.map(snapshot), empty: ids.length === 0 };
+		},
+	});
+
+	return {
+		db: {
+			collection: () => ({
+				...query({ filters: [] }),
+				doc: (id: string) => ({ get: async () => snapshot(id) }),
+			}),
+			batch: () => {
+				const writes: Array<() => void> = [];
+				return {
+					update: (ref: { id: string }, fields: Record<string, any>) => writes.push(() => rows.set(ref.id, { ...rows.get(ref.id), ...fields })),
+					commit: async () => writes.forEach(write => write()),
+				};
+			},
+		},
+	};
+});
+
+vi.mock('./summaries', () => ({ updateSummaries: vi.fn(), updateSummariesBulk: vi.fn() }));
+const logAudit = vi.hoisted(() => vi.fn());
+vi.mock('./audit', () => ({ logAudit }));
+vi.mock('../outboundWebhooks', () => ({ emitEvent: vi.fn(), serializeTransaction: vi.fn() }));
+
+const { backfillCategoryIds, backfillSearchTokens, listTransactions } = await import('./transactions');
+
+/** Seed rows tx001.. one minute apart, newest last */
+function seed(count: number, fields: (n: number) => Record<string, any> = () => ({})) {
+	for (let n = 1; n <= count; n++) {
+		const ts = new Date(Date.UTC(2026, 9, 1) + n * 60_000);
+		const data = {
+			ts: { toDate: () => ts },
+			type: 'income',
+			amountCents: n * 100,
+			categoryId: 'sales',
+			categoryIds: ['sales'],
+			note: '',
+			createdBy: 'staff1',
+			...fields(n),
+		};
+		rows.set(`tx${String(n).padStart(3, '0')}`, { ...data, searchTokens: buildSearchTokens(data) });
+	}
+}
+
+const ids = (result: { transactions: Array<{ id: string }> }) => result.transactions.map(tx => tx.id);
+
+beforeEach(() => {
+	rows.clear();
+});
+
+describe('listTransactions', () => {
+	it('pages forwards and back by cursor, newest first', async () => {
+		seed(7);
+
+		const first = await listTransactions({ limit: 3 });
+		expect(ids(first)).toEqual(['tx007', 'tx006', 'tx005']);
+		expect(first).toMatchObject({ hasNext: true, hasPrev: false });
+
+		const second = await listTransactions({ limit: 3, startAfterId: 'tx005' });
+		expect(ids(second)).toEqual(['tx004', 'tx003', 'tx002']);
+		expect(second).toMatchObject({ hasNext: true, hasPrev: true });
+
+		const last = await listTransactions({ limit: 3, startAfterId: 'tx002' });
+		expect(ids(last)).toEqual(['tx001']);
+		expect(last).toMatchObject({ hasNext: false, hasPrev: true });
+
+		const back = await listTransactions({ limit: 3, endBeforeId: 'tx004' });
+		expect(ids(back)).toEqual(['tx007', 'tx006', 'tx005']);
+		expect(back).toMatchObject({ hasNext: true, hasPrev: false });
+	});
+
+	it('neither skips nor repeats rows with the same time', async () => {
+		seed(5, () => ({ ts: { toDate: () => new Date('2026-10-01T09:00:00Z') } }));
+
+		const first = await listTransactions({ limit: 2 });
+		const second = await listTransactions({ limit: 2, startAfterId: first.transactions[1].id });
+		const third = await listTransactions({ limit: 2, startAfterId: second.transactions[1].id });
+
+		expect([...ids(first), ...ids(second), ...ids(third)]).toEqual(['tx005', 'tx004', 'tx003', 'tx002', 'tx001']);
+		expect(third.hasNext).toBe(false);
+	});
+
+	it('scans past non-matching batches to fill a page of in-memory matches', async () => {
+		// Every 100th row matches; the 500 rows take three scan batches
+		seed(500, n => (n % 100 === 0 ? { note: 'Paid ACME Corp', amountCents: 5000 } : {}));
+
+		const first = await listTransactions({ note: 'acme corp', limit: 2 });
+		expect(ids(first)).toEqual(['tx500', 'tx400']);
+		expect(first).toMatchObject({ hasNext: true, hasPrev: false });
+
+		const second = await listTransactions({ note: 'acme corp', limit: 2, startAfterId: 'tx400' });
+		expect(ids(second)).toEqual(['tx300', 'tx200']);
+		expect(second.hasNext).toBe(true);
+
+		const last = await listTransactions({ note: 'acme corp', limit: 2, startAfterId: 'tx200' });
+		expect(ids(last)).toEqual(['tx100']);
+		expect(last).toMatchObject({ hasNext: false, hasPrev: true });
+
+		const back = await listTransactions({ note: 'acme corp', limit: 2, endBeforeId: 'tx300' });
+		expect(ids(back)).toEqual(['tx500', 'tx400']);
+		expect(back).toMatchObject({ hasNext: true, hasPrev: false });
+	});
+
+	it('applies the amount range next to the indexed filters', async () => {
+		seed(10, n => ({ createdBy: n % 2 ? 'staff1' : 'staff2' }));
+
+		const result = await listTransactions({ createdBy: 'staff1', minAmountCents: 300, maxAmountCents: 700 });
+		expect(ids(result)).toEqual(['tx007', 'tx005', 'tx003']);
+	});
+
+	it('rejects a cursor that does not exist', async () => {
+		seed(3);
+		await expect(listTransactions({ startAfterId: 'gone' })).rejects.toThrow('Invalid cursor');
+		await expect(listTransactions({ note: 'acme corp', startAfterId: 'gone' })).rejects.toThrow('Invalid cursor');
+	});
+});
+
+describe('backfills', () => {
+	it('rewrites stale search tokens across batches and leaves current ones alone', async () => {
+		seed(900, n => ({ companyName: `Client ${n}` }));
+		rows.set('tx001', { ...rows.get('tx001')!, searchTokens: [] });
+		rows.set('tx850', { ...rows.get('tx850')!, companyName: 'Renamed Ltd' });
+
+		await expect(backfillSearchTokens('admin')).resolves.toBe(2);
+
+		expect(rows.get('tx001')!.searchTokens).toEqual(buildSearchTokens({ companyName: 'Client 1' }));
+		expect(rows.get('tx850')!.searchTokens).toContain('company:renamed');
+		expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'transaction.backfill_search', meta: { updated: 2 } }));
+	});
+
+	it('adds the categories of split lines', async () => {
+		seed(2);
+		rows.set('tx002', {
+			...rows.get('tx002')!,
+			categoryIds: undefined,
+			splits: [{ categoryId: 'sales', amountCents: 100 }, { categoryId: 'services', amountCents: 100 }],
+		});
+
+		await expect(backfillCategoryIds('admin')).resolves.toBe(1);
+		expect(rows.get('tx002')!.categoryIds).toEqual(['sales', 'services']);
+	});
+});
@@ -1,44 +1,135 @@
+import { FieldValue } from 'firebase-admin/firestore';
 import { db } from '../firebaseAdmin';
-import type { Transaction, TransactionType } from '../types';
+import type { ApiKeyScope, Transaction, TransactionSource, TransactionSplit, TransactionType } from '../types';
 import { toDateKey, toMonthKey, toISOWeekKey } from '../dates';
-import { updateSummaries } from './summaries';
+import { updateSummaries, updateSummariesBulk } from './summaries';
 import { logAudit } from './audit';
+import { emitEvent, serializeTransaction } from '../outboundWebhooks';
+import { checkApiKeyScope } from '../apiKeyAuth';
+import { buildSearchTokens, isSingleTokenSearch, matchesSearch, pickSearchToken } from '../search';
+import { lineCategoryIds, validateSplits } from '../splits';
+import { addRevision, diffSnapshots, getTransactionRevision, toSnapshot } from './revisions';
+
+type NewTransaction = Omit<Transaction, 'id' | 'createdAt'>;
+
+// Each row is written with its revision and can touch up to 3 summary docs and 1 account daily doc,
+// plus one write per account, so 70 rows stay under Firestore's 500 writes per batch
+const BULK_CHUNK_SIZE = 70;
+
+// Deleting also writes the trash copy and resets the statement line a row was matched to,
+// two more writes per row
+const BULK_DELETE_CHUNK_SIZE = 55;
+
+// Rows read per query while filtering search results in memory
+const SCAN_BATCH_SIZE = 200;
+
+// Rows read, and at most written, per batch when backfilling a derived field
+const BACKFILL_BATCH_SIZE = 400;
 
 /**
- * Create a new transaction and update summaries
+ * Map a transaction document. The internal searchTokens and categoryIds fields are left out.
  */
-export async function createTransaction(
-	data: Omit<Transaction, 'id' | 'createdAt'>
-): Promise<string> {
-	const transactionDate = data.ts;
-	const dateKey = toDateKey(transactionDate);
-	const weekKey = toISOWeekKey(transactionDate);
-	const monthKey = toMonthKey(transactionDate);
-	const now = new Date();
+function toTransaction(doc: FirebaseFirestore.DocumentSnapshot): Transaction {
+	const { searchTokens, categoryIds, ...data } = doc.data()!;
+	return {
+		id: doc.id,
+		...data,
+		ts: data.ts.toDate(),
+		...(data.reconciledAt ? { reconciledAt: data.reconciledAt.toDate() } : {}),
+		createdAt: data.createdAt?.toDate() || new Date(),
+	} as Transaction;
+}
+
+/**
+ * Build the Firestore document for a new transaction
+ */
+function buildTransactionData(data: NewTransaction, now: Date): Record<string, unknown> {
+	const splits = validateSplits(data.amountCents, data.splits);
 
 	// Build transaction data, excluding undefined optional fields
 	const transactionData: any = {
-		ts: transactionDate,
+		ts: data.ts,
 		type: data.type,
 		amountCents: data.amountCents,
-		categoryId: data.categoryId,
+		categoryId: splits ? splits[0].categoryId : data.categoryId,
+		categoryIds: lineCategoryIds({ ...data, splits }),
 		note: data.note || '',
 		createdBy: data.createdBy,
 		createdAt: now,
 	};
 
 	// Only include optional fields if they have values
+	if (splits) {
+		transactionData.splits = splits;
+	}
+	if (data.paymentMethod) {
+		transactionData.paymentMethod = data.paymentMethod;
+	}
+	if (data.accountId) {
+		transactionData.accountId = data.accountId;
+	}
 	if (data.clickupId) {
 		transactionData.clickupId = data.clickupId;
 	}
 	if (data.companyName) {
 		transactionData.companyName = data.companyName;
 	}
+	if (data.externalId) {
+		transactionData.externalId = data.externalId;
+	}
+	if (data.importBatchId) {
+		transactionData.importBatchId = data.importBatchId;
+	}
+	if (data.source) {
+		transactionData.source = data.source;
+	}
+	if (data.repeatablePaymentId) {
+		transactionData.repeatablePaymentId = data.repeatablePaymentId;
+		transactionData.occurrenceDate = data.occurrenceDate;
+	}
+	if (data.reconciled) {
+		transactionData.reconciled = true;
+		transactionData.reconciledAt = data.reconciledAt || now;
+		if (data.statementLineId) {
+			transactionData.statementLineId = data.statementLineId;
+		}
+	}
+	transactionData.searchTokens = buildSearchTokens(data);
+	return transactionData;
+}
+
+/**
+ * Create a new transaction and update summaries. With a fixed ID the write fails with
+ * ALREADY_EXISTS when a transaction already has it, so the same item is never booked twice.
+ */
+export async function createTransaction(
+	data: NewTransaction,
+	options: {
+		id?: string;
+		beforeCommit?: (batch: FirebaseFirestore.WriteBatch, transactionId: string) => void; // Extra writes committed atomically with it
+	} = {}
+): Promise<string> {
+	const transactionDate = data.ts;
+	const dateKey = toDateKey(transactionDate);
+	const weekKey = toISOWeekKey(transactionDate);
+	const monthKey = toMonthKey(transactionDate);
+	const now = new Date();
 
 	// Use batch write to ensure atomicity
 	const batch = db.batch();
-	const transactionRef = db.collection('transactions').doc();
-	batch.set(transactionRef, transactionData);
+	const transactionRef = options.id ? db.collection('transactions').doc(options.id) : db.collection('transactions').doc();
+	const transactionData = buildTransactionData(data, now);
+	if (options.id) {
+		batch.create(transactionRef, transactionData);
+	} else {
+		batch.set(transactionRef, transactionData);
+	}
+	addRevision(batch, {
+		transactionId: transactionRef.id,
+		action: 'create',
+		after: toSnapshot(transactionData),
+		createdBy: data.createdBy,
+	});
 
 	// Update summaries (calculate keys from ts)
 	await updateSummaries(batch, {
@@ -47,27 +138,110 @@ export async function createTransaction(
 		monthKey,
 		type: data.type,
 		amountCents: data.amountCents,
+		categoryId: transactionData.categoryId as string,
+		splits: data.splits,
+		paymentMethod: data.paymentMethod,
+		accountId: data.accountId,
 		operation: 'increment',
 	});
 
+	options.beforeCommit?.(batch, transactionRef.id);
 	await batch.commit();
 	await logAudit({
 		action: 'transaction.create',
 		entityType: 'transaction',
 		entityId: transactionRef.id,
 		amountCents: data.amountCents,
-		categoryId: data.categoryId,
+		categoryId: transactionData.categoryId as string,
 		createdBy: data.createdBy,
 		createdAt: new Date(),
 		meta: {
 			type: data.type,
+			...(data.splits?.length ? { splits: data.splits } : {}),
 		},
 	});
+	await emitEvent('transaction.created', {
+		transaction: serializeTransaction({ id: transactionRef.id, ...data, createdAt: now }),
+	});
 	return transactionRef.id;
 }
 
+export type BulkCreateResult = { id: string } | { error: string };
+
 /**
- * Delete a transaction and update summaries
+ * Create many transactions in chunks. Each chunk is committed atomically together
+ * with its summary updates, so every touched summary doc is written once per chunk.
+ * Returns one result per input row, in order; a failed chunk does not stop later ones.
+ * beforeLastCommit adds writes to the last chunk's batch and gets the results as they stand
+ * once that batch commits. With fixed ids (one per item) a chunk fails with ALREADY_EXISTS
+ * when one of its IDs is taken.
+ */
+export async function createTransactions(
+	items: NewTransaction[],
+	options: {
+		ids?: string[];
+		beforeLastCommit?: (batch: FirebaseFirestore.WriteBatch, results: BulkCreateResult[]) => void;
+	} = {}
+): Promise<BulkCreateResult[]> {
+	const results: BulkCreateResult[] = [];
+
+	for (let start = 0; start < items.length; start += BULK_CHUNK_SIZE) {
+		const chunk = items.slice(start, start + BULK_CHUNK_SIZE);
+		const now = new Date();
+		const batch = db.batch();
+		const refs = chunk.map((data, i) => {
+			const transactionData = buildTransactionData(data, now);
+			const ref = options.ids ? db.collection('transactions').doc(options.ids[start + i]) : db.collection('transactions').doc();
+			if (options.ids) {
+				batch.create(ref, transactionData);
+			} else {
+				batch.set(ref, transactionData);
+			}
+			addRevision(batch, { transactionId: ref.id, action: 'create', after: toSnapshot(transactionData), createdBy: data.createdBy });
+			return ref;
+		});
+
+		try {
+			await updateSummariesBulk(batch, chunk, 'increment');
+			if (start + BULK_CHUNK_SIZE >= items.length) {
+				options.beforeLastCommit?.(batch, [...results, ...refs.map(ref => ({ id: ref.id }))]);
+			}
+			await batch.commit();
+		} catch (error: any) {
+			const message = error.message || 'Failed to write transactions';
+			chunk.forEach(() => results.push({ error: message }));
+			continue;
+		}
+
+		for (let i = 0; i < chunk.length; i++) {
+			// Imports are audited once per batch instead of once per row
+			if (!chunk[i].importBatchId) {
+				await logAudit({
+					action: 'transaction.create',
+					entityType: 'transaction',
+					entityId: refs[i].id,
+					amountCents: chunk[i].amountCents,
+					categoryId: chunk[i].categoryId,
+					createdBy: chunk[i].createdBy,
+					createdAt: new Date(),
+					meta: {
+						type: chunk[i].type,
+					},
+				});
+			}
+			await emitEvent('transaction.created', {
+				transaction: serializeTransaction({ id: refs[i].id, ...chunk[i], createdAt: now }),
+			});
+			results.push({ id: refs[i].id });
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Move a transaction to the trash (deleted_transactions) and update summaries. It can be
+ * restored from there until it is purged.
  */
 export async function deleteTransaction(transactionId: string, actorId?: string): Promise<void> {
 	const transactionDoc = await db.collection('transactions').doc(transactionId).get();
@@ -86,6 +260,28 @@ export async function deleteTransaction(transactionId: string, actorId?: string)
 	
 	const batch = db.batch();
 	batch.delete(db.collection('transactions').doc(transactionId));
+	batch.set(db.collection('deleted_transactions').doc(transactionId), {
+		...data,
+		deletedAt: new Date(),
+		...(actorId ? { deletedBy: actorId } : {}),
+	});
+	addRevision(batch, {
+		transactionId,
+		action: 'delete',
+		before: toSnapshot(data),
+		createdBy: actorId || data.createdBy,
+	});
+
+	// The bank statement line it was matched to becomes unmatched again
+	if (data.statementLineId) {
+		batch.update(db.collection('statement_lines').doc(data.statementLineId), {
+			status: 'unmatched',
+			transactionId: FieldValue.delete(),
+			matchScore: FieldValue.delete(),
+			matchReasons: FieldValue.delete(),
+			updatedAt: new Date(),
+		});
+	}
 
 	// Reverse the summary updates
 	await updateSummaries(batch, {
@@ -94,6 +290,10 @@ export async function deleteTransaction(transactionId: string, actorId?: string)
 		monthKey,
 		type: data.type,
 		amountCents: data.amountCents,
+		categoryId: data.categoryId,
+		splits: data.splits,
+		paymentMethod: data.paymentMethod,
+		accountId: data.accountId,
 		operation: 'decrement',
 	});
 
@@ -113,15 +313,75 @@ export async function deleteTransaction(transactionId: string, actorId?: string)
 			},
 		});
 	}
+	await emitEvent('transaction.deleted', {
+		transaction: serializeTransaction(toTransaction(transactionDoc)),
+		...(actorId ? { deletedBy: actorId } : {}),
+	});
+}
+
+/**
+ * Move many transactions to the trash in chunks, reversing their summaries together. IDs that
+ * no longer exist are skipped. Not audited per row; the caller records the bulk operation.
+ * Returns the number deleted.
+ */
+export async function deleteTransactions(transactionIds: string[], actorId: string): Promise<number> {
+	let deleted = 0;
+
+	for (let start = 0; start < transactionIds.length; start += BULK_DELETE_CHUNK_SIZE) {
+		const refs = transactionIds.slice(start, start + BULK_DELETE_CHUNK_SIZE).map(id => db.collection('transactions').doc(id));
+		const docs = (await db.getAll(...refs)).filter(doc => doc.exists);
+		if (docs.length === 0) continue;
+
+		const batch = db.batch();
+		const now = new Date();
+		const rows = docs.map(doc => {
+			const data = doc.data()!;
+			batch.delete(doc.ref);
+			batch.set(db.collection('deleted_transactions').doc(doc.id), { ...data, deletedAt: now, deletedBy: actorId });
+			addRevision(batch, { transactionId: doc.id, action: 'delete', before: toSnapshot(data), createdBy: actorId });
+			if (data.statementLineId) {
+				batch.update(db.collection('statement_lines').doc(data.statementLineId), {
+					status: 'unmatched',
+					transactionId: FieldValue.delete(),
+					matchScore: FieldValue.delete(),
+					matchReasons: FieldValue.delete(),
+					updatedAt: new Date(),
+				});
+			}
+			return {
+				ts: data.ts.toDate(),
+				type: data.type,
+				amountCents: data.amountCents,
+				categoryId: data.categoryId,
+				splits: data.splits,
+				paymentMethod: data.paymentMethod,
+				accountId: data.accountId,
+			};
+		});
+		await updateSummariesBulk(batch, rows, 'decrement');
+		await batch.commit();
+		deleted += docs.length;
+
+		for (const doc of docs) {
+			await emitEvent('transaction.deleted', {
+				transaction: serializeTransaction(toTransaction(doc)),
+				deletedBy: actorId,
+			});
+		}
+	}
+
+	return deleted;
 }
 
 /**
- * Update an existing transaction and recalculate summaries
+ * Update an existing transaction and recalculate summaries. The change is recorded as a
+ * revision unless no tracked field changed.
  */
 export async function updateTransaction(
 	transactionId: string,
 	data: Partial<Omit<Transaction, 'id' | 'createdAt' | 'createdBy'>>,
-	actorId: string
+	actorId: string,
+	options: { revertedToId?: string } = {}
 ): Promise<void> {
 	const existingDoc = await db.collection('transactions').doc(transactionId).get();
 
@@ -142,6 +402,20 @@ export async function updateTransaction(
 	const newWeekKey = toISOWeekKey(newDate);
 	const newMonthKey = toMonthKey(newDate);
 
+	// An empty splits array turns a split back into a single category. Without new lines,
+	// the total and category of a split stay as they are so the lines keep adding up.
+	const oldSplits: TransactionSplit[] | undefined = oldData.splits;
+	if (data.splits === undefined && oldSplits?.length) {
+		if (data.amountCents !== undefined && data.amountCents !== oldData.amountCents) {
+			throw new Error('Cannot change the amount of a split transaction without its lines');
+		}
+		if (data.categoryId !== undefined && data.categoryId !== oldData.categoryId) {
+			throw new Error('Cannot change the category of a split transaction without its lines');
+		}
+	}
+	const newSplits = data.splits !== undefined ? validateSplits(newAmountCents, data.splits) : oldSplits;
+	const newCategoryId: string = newSplits?.length ? newSplits[0].categoryId : (data.categoryId ?? oldData.categoryId);
+
 	const batch = db.batch();
 
 	// Reverse old summaries
@@ -151,6 +425,10 @@ export async function updateTransaction(
 		monthKey: oldMonthKey,
 		type: oldData.type,
 		amountCents: oldData.amountCents,
+		categoryId: oldData.categoryId,
+		splits: oldSplits,
+		paymentMethod: oldData.paymentMethod,
+		accountId: oldData.accountId,
 		operation: 'decrement',
 	});
 
@@ -159,13 +437,51 @@ export async function updateTransaction(
 	if (data.ts !== undefined) updateData.ts = data.ts;
 	if (data.type !== undefined) updateData.type = data.type;
 	if (data.amountCents !== undefined) updateData.amountCents = data.amountCents;
-	if (data.categoryId !== undefined) updateData.categoryId = data.categoryId;
+	if (data.categoryId !== undefined || data.splits !== undefined) {
+		updateData.categoryId = newCategoryId;
+		updateData.categoryIds = lineCategoryIds({ categoryId: newCategoryId, amountCents: newAmountCents, splits: newSplits });
+	}
+	if (data.splits !== undefined) updateData.splits = newSplits ?? FieldValue.delete();
+	if (data.paymentMethod !== undefined) updateData.paymentMethod = data.paymentMethod;
+	if (data.accountId !== undefined) updateData.accountId = data.accountId;
 	if (data.note !== undefined) updateData.note = data.note;
 	if (data.clickupId !== undefined) updateData.clickupId = data.clickupId;
 	if (data.companyName !== undefined) updateData.companyName = data.companyName;
+	if (data.note !== undefined || data.clickupId !== undefined || data.companyName !== undefined) {
+		updateData.searchTokens = buildSearchTokens({
+			clickupId: data.clickupId ?? oldData.clickupId,
+			companyName: data.companyName ?? oldData.companyName,
+			note: data.note ?? oldData.note,
+		});
+	}
 
 	batch.update(db.collection('transactions').doc(transactionId), updateData);
 
+	const before = toSnapshot(oldData);
+	const after = toSnapshot({
+		ts: newDate,
+		type: newType,
+		amountCents: newAmountCents,
+		categoryId: newCategoryId,
+		splits: newSplits,
+		paymentMethod: data.paymentMethod ?? oldData.paymentMethod,
+		accountId: data.accountId ?? oldData.accountId,
+		note: data.note ?? oldData.note,
+		clickupId: data.clickupId ?? oldData.clickupId,
+		companyName: data.companyName ?? oldData.companyName,
+	});
+	const changedFields = diffSnapshots(before, after);
+	if (changedFields.length > 0) {
+		addRevision(batch, {
+			transactionId,
+			action: options.revertedToId ? 'revert' : 'update',
+			before,
+			after,
+			revertedToId: options.revertedToId,
+			createdBy: actorId,
+		});
+	}
+
 	// Apply new summaries
 	await updateSummaries(batch, {
 		dateKey: newDateKey,
@@ -173,81 +489,380 @@ export async function updateTransaction(
 		monthKey: newMonthKey,
 		type: newType,
 		amountCents: newAmountCents,
+		categoryId: newCategoryId,
+		splits: newSplits,
+		paymentMethod: data.paymentMethod ?? oldData.paymentMethod,
+		accountId: data.accountId ?? oldData.accountId,
 		operation: 'increment',
 	});
 
 	await batch.commit();
 
 	await logAudit({
-		action: 'transaction.update',
+		action: options.revertedToId ? 'transaction.revert' : 'transaction.update',
 		entityType: 'transaction',
 		entityId: transactionId,
 		amountCents: newAmountCents,
-		categoryId: data.categoryId ?? oldData.categoryId,
+		categoryId: newCategoryId,
 		createdBy: actorId,
 		createdAt: new Date(),
 		meta: {
 			type: newType,
 			oldType: oldData.type,
 			oldAmountCents: oldData.amountCents,
+			changedFields,
+			...(options.revertedToId ? { revertedToId: options.revertedToId } : {}),
+			...(data.splits !== undefined ? { splits: newSplits || [], oldSplits: oldSplits || [] } : {}),
 		},
 	});
+
+	const updated = await getTransaction(transactionId);
+	if (updated) {
+		await emitEvent('transaction.updated', {
+			transaction: serializeTransaction(updated),
+			previous: serializeTransaction(toTransaction(existingDoc)),
+			updatedBy: actorId,
+		});
+	}
 }
 
 /**
- * List transactions with filters and pagination
+ * Bring a transaction back to the state recorded by one of its revisions. Goes through
+ * updateTransaction, so summaries and balances follow and the revert is itself a revision.
  */
-export async function listTransactions(options: {
+export async function revertTransaction(transactionId: string, revisionId: string, actorId: string): Promise<void> {
+	const revision = await getTransactionRevision(revisionId);
+	if (!revision || revision.transactionId !== transactionId) {
+		throw new Error('Revision not found');
+	}
+	if (!revision.after) {
+		throw new Error('Cannot revert to a deletion');
+	}
+
+	const target = revision.after;
+	const categoryIds = lineCategoryIds(target);
+	const [categories, account] = await Promise.all([
+		db.getAll(...categoryIds.map(categoryId => db.collection('categories').doc(categoryId))),
+		target.accountId ? db.collection('accounts').doc(target.accountId).get() : null,
+	]);
+	if (categories.some(category => !category.exists)) {
+		throw new Error('Cannot revert: its category has been deleted');
+	}
+	if (account && !account.exists) {
+		throw new Error('Cannot revert: its account has been deleted');
+	}
+
+	// Empty values clear fields the revision did not have
+	await updateTransaction(transactionId, {
+		ts: target.ts,
+		type: target.type,
+		amountCents: target.amountCents,
+		categoryId: target.categoryId,
+		splits: target.splits || [],
+		paymentMethod: target.paymentMethod || '',
+		accountId: target.accountId || '',
+		note: target.note,
+		clickupId: target.clickupId || '',
+		companyName: target.companyName || '',
+	}, actorId, { revertedToId: revisionId });
+}
+
+export interface TransactionFilters {
 	fromDate?: Date;
 	toDate?: Date;
 	type?: TransactionType;
-	categoryId?: string;
+	categoryId?: string; // Matches any split line
+	paymentMethod?: string;
+	accountId?: string;
 	createdBy?: string;
-	limit?: number;
-	offset?: number;
-}): Promise<{ transactions: Transaction[]; total: number }> {
+	// Case-insensitive word-prefix search, e.g. "acme co" matches "ACME Corp"
+	clickupId?: string;
+	companyName?: string;
+	note?: string;
+	minAmountCents?: number;
+	maxAmountCents?: number;
+	source?: TransactionSource;
+	scope?: ApiKeyScope; // Only transactions an API key with this scope may use
+}
+
+export const TRANSACTION_SOURCES: Array<{ value: TransactionSource; label: string }> = [
+	{ value: 'manual', label: 'Entered by hand' },
+	{ value: 'repeatable', label: 'Repeatable payment' },
+	{ value: 'import', label: 'Import' },
+	{ value: 'statement', label: 'Bank statement' },
+	{ value: 'webhook', label: 'Webhook' },
+	{ value: 'api', label: 'API' },
+];
+
+/**
+ * Where a transaction came from. Older transactions have no source and are told apart by the
+ * fields their origin set.
+ */
+export function transactionSource(tx: Transaction): TransactionSource {
+	if (tx.source) return tx.source;
+	if (tx.repeatablePaymentId) return 'repeatable';
+	if (tx.importBatchId) return 'import';
+	if (tx.externalId) return 'webhook';
+	return 'manual';
+}
+
+/**
+ * Category filters use array-contains on categoryIds. Firestore allows one array-contains per
+ * query, so next to a text search the category is checked in memory instead.
+ */
+function isCategoryPostFiltered(filters: TransactionFilters): boolean {
+	return !!filters.categoryId && !!pickSearchToken(filters);
+}
+
+/**
+ * The part of the filters Firestore cannot answer from the index: extra search words,
+ * the amount range (a second range filter next to ts), a category next to a search, the
+ * source (older transactions don't store one) and an API key scope. Returns null if nothing
+ * is left.
+ */
+function getPostFilter(filters: TransactionFilters): ((tx: Transaction) => boolean) | null {
+	const hasAmount = filters.minAmountCents !== undefined || filters.maxAmountCents !== undefined;
+	const categoryInMemory = isCategoryPostFiltered(filters);
+	const scope = filters.scope?.types?.length || filters.scope?.categoryIds?.length ? filters.scope : undefined;
+	if (isSingleTokenSearch(filters) && !hasAmount && !categoryInMemory && !filters.source && !scope) {
+		return null;
+	}
+	return (tx: Transaction) =>
+		(!categoryInMemory || lineCategoryIds(tx).includes(filters.categoryId!)) &&
+		(!filters.clickupId || matchesSearch(tx.clickupId, filters.clickupId)) &&
+		(!filters.companyName || matchesSearch(tx.companyName, filters.companyName)) &&
+		(!filters.note || matchesSearch(tx.note, filters.note)) &&
+		(filters.minAmountCents === undefined || tx.amountCents >= filters.minAmountCents) &&
+		(filters.maxAmountCents === undefined || tx.amountCents <= filters.maxAmountCents) &&
+		(!filters.source || transactionSource(tx) === filters.source) &&
+		(!scope || checkApiKeyScope({ scope }, tx) === null);
+}
+
+function buildTransactionQuery(filters: TransactionFilters): FirebaseFirestore.Query {
 	let query: FirebaseFirestore.Query = db.collection('transactions');
 
-	if (options.fromDate) {
-		query = query.where('ts', '>=', options.fromDate);
+	if (filters.fromDate) {
+		query = query.where('ts', '>=', filters.fromDate);
+	}
+	if (filters.toDate) {
+		query = query.where('ts', '<=', filters.toDate);
+	}
+	if (filters.type) {
+		query = query.where('type', '==', filters.type);
+	}
+	if (filters.categoryId && !isCategoryPostFiltered(filters)) {
+		query = query.where('categoryIds', 'array-contains', filters.categoryId);
+	}
+	if (filters.paymentMethod) {
+		query = query.where('paymentMethod', '==', filters.paymentMethod);
 	}
-	if (options.toDate) {
-		query = query.where('ts', '<=', options.toDate);
+	if (filters.accountId) {
+		query = query.where('accountId', '==', filters.accountId);
 	}
-	if (options.type) {
-		query = query.where('type', '==', options.type);
+	if (filters.createdBy) {
+		query = query.where('createdBy', '==', filters.createdBy);
 	}
-	if (options.categoryId) {
-		query = query.where('categoryId', '==', options.categoryId);
+	const searchToken = pickSearchToken(filters);
+	if (searchToken) {
+		query = query.where('searchTokens', 'array-contains', searchToken);
 	}
-	if (options.createdBy) {
-		query = query.where('createdBy', '==', options.createdBy);
+
+	return query.orderBy('ts', 'desc');
+}
+
+async function getCursorDoc(id: string): Promise<FirebaseFirestore.DocumentSnapshot> {
+	const cursorDoc = await db.collection('transactions').doc(id).get();
+	if (!cursorDoc.exists) {
+		throw new Error('Invalid cursor');
+	}
+	return cursorDoc;
+}
+
+/**
+ * Read one page straight from the index. One extra row tells whether there is another
+ * page in the direction of travel.
+ */
+async function queryPage(
+	query: FirebaseFirestore.Query,
+	limit: number,
+	startAfterId?: string,
+	endBeforeId?: string
+): Promise<{ transactions: Transaction[]; hasNext: boolean; hasPrev: boolean }> {
+	if (endBeforeId) {
+		const snapshot = await query.endBefore(await getCursorDoc(endBeforeId)).limitToLast(limit + 1).get();
+		const hasPrev = snapshot.docs.length > limit;
+		const docs = hasPrev ? snapshot.docs.slice(1) : snapshot.docs;
+		return { transactions: docs.map(toTransaction), hasNext: true, hasPrev };
+	}
+
+	if (startAfterId) {
+		query = query.startAfter(await getCursorDoc(startAfterId));
+	}
+	const snapshot = await query.limit(limit + 1).get();
+	return {
+		transactions: snapshot.docs.slice(0, limit).map(toTransaction),
+		hasNext: snapshot.docs.length > limit,
+		hasPrev: !!startAfterId,
+	};
+}
+
+/**
+ * List one page of transactions, newest first. Pages are addressed by cursor (the ID of the
+ * last row of the previous page, or the first row of the next page) instead of an offset,
+ * so each page only reads its own rows. Ties on ts are ordered by document ID.
+ * Filters the index cannot answer are applied by scanning batches until the page is full.
+ */
+export async function listTransactions(options: TransactionFilters & {
+	limit?: number;
+	startAfterId?: string; // Next page: rows after this transaction
+	endBeforeId?: string; // Previous page: rows before this transaction
+}): Promise<{ transactions: Transaction[]; hasNext: boolean; hasPrev: boolean }> {
+	const query = buildTransactionQuery(options);
+	const limit = options.limit || 25;
+	const postFilter = getPostFilter(options);
+
+	if (!postFilter) {
+		return queryPage(query, limit, options.startAfterId, options.endBeforeId);
 	}
 
-	query = query.orderBy('ts', 'desc');
+	// Scan in the direction of travel until one row more than a page has matched
+	const backwards = !!options.endBeforeId;
+	const found: Transaction[] = [];
+	let cursor = options.endBeforeId || options.startAfterId;
+	let more = true;
+	while (more && found.length <= limit) {
+		const batch = backwards
+			? await queryPage(query, SCAN_BATCH_SIZE, undefined, cursor)
+			: await queryPage(query, SCAN_BATCH_SIZE, cursor);
+		const rows = backwards ? [...batch.transactions].reverse() : batch.transactions;
+		if (rows.length === 0) break;
+		found.push(...rows.filter(postFilter));
+		cursor = rows[rows.length - 1].id;
+		more = backwards ? batch.hasPrev : batch.hasNext;
+	}
 
-	const totalSnapshot = await query.get();
-	const total = totalSnapshot.size;
+	const page = found.slice(0, limit);
+	return {
+		transactions: backwards ? page.reverse() : page,
+		hasNext: backwards || found.length > limit,
+		hasPrev: backwards ? found.length > limit : !!options.startAfterId,
+	};
+}
 
-	if (options.offset) {
-		query = query.offset(options.offset);
+/**
+ * Count transactions matching the filters with an aggregate query (billed per 1000 entries,
+ * no documents read). Returns null when the filters need in-memory matching and cannot be counted.
+ */
+export async function countTransactions(filters: TransactionFilters): Promise<number | null> {
+	if (getPostFilter(filters)) {
+		return null;
 	}
-	if (options.limit) {
-		query = query.limit(options.limit);
+	const snapshot = await buildTransactionQuery(filters).count().get();
+	return snapshot.data().count;
+}
+
+/**
+ * Recompute a list field derived from each transaction's data and write it where the stored
+ * one differs. Returns the number of documents updated.
+ */
+async function backfillDerivedField(
+	field: 'searchTokens' | 'categoryIds',
+	derive: (data: FirebaseFirestore.DocumentData) => string[]
+): Promise<number> {
+	let updated = 0;
+	let lastDoc: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+	while (true) {
+		let query = db.collection('transactions').orderBy('__name__').limit(BACKFILL_BATCH_SIZE);
+		if (lastDoc) {
+			query = query.startAfter(lastDoc);
+		}
+		const snapshot = await query.get();
+		if (snapshot.empty) break;
+
+		const batch = db.batch();
+		let changes = 0;
+		for (const doc of snapshot.docs) {
+			const data = doc.data();
+			const values = derive(data);
+			const current: string[] = data[field] || [];
+			if (current.length !== values.length || values.some((value, i) => current[i] !== value)) {
+				batch.update(doc.ref, { [field]: values });
+				changes++;
+			}
+		}
+		if (changes > 0) {
+			await batch.commit();
+			updated += changes;
+		}
+		lastDoc = snapshot.docs[snapshot.docs.length - 1];
 	}
+	return updated;
+}
+
+/**
+ * Add or refresh searchTokens on existing transactions. Returns the number of documents updated.
+ */
+export async function backfillSearchTokens(actorId: string): Promise<number> {
+	const updated = await backfillDerivedField('searchTokens', data => buildSearchTokens(data));
 
-	const snapshot = await query.get();
-	const transactions = snapshot.docs.map(doc => {
-		const data = doc.data();
-		return {
-			id: doc.id,
-			...data,
-			ts: data.ts.toDate(),
-			createdAt: data.createdAt.toDate(),
-		} as Transaction;
+	await logAudit({
+		action: 'transaction.backfill_search',
+		entityType: 'transaction',
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { updated },
+	});
+	return updated;
+}
+
+/**
+ * Add or refresh categoryIds, the list of categories the category filter looks in, on existing
+ * transactions. Returns the number of documents updated.
+ */
+export async function backfillCategoryIds(actorId: string): Promise<number> {
+	const updated = await backfillDerivedField('categoryIds', data =>
+		lineCategoryIds({ categoryId: data.categoryId, amountCents: data.amountCents, splits: data.splits })
+	);
+
+	await logAudit({
+		action: 'transaction.backfill_categories',
+		entityType: 'transaction',
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { updated },
 	});
+	return updated;
+}
+
+/**
+ * Mark a transaction as checked against the bank, or clear the mark. Transactions matched
+ * to a statement line are unmarked by unmatching the line instead.
+ */
+export async function setTransactionReconciled(id: string, reconciled: boolean, actorId: string): Promise<void> {
+	const transaction = await getTransaction(id);
+	if (!transaction) {
+		throw new Error('Transaction not found');
+	}
+	if (!reconciled && transaction.statementLineId) {
+		throw new Error('Transaction is matched to a statement line; unmatch the line instead');
+	}
+	if (!!transaction.reconciled === reconciled) {
+		return;
+	}
 
-	return { transactions, total };
+	await db.collection('transactions').doc(id).update(reconciled
+		? { reconciled: true, reconciledAt: new Date() }
+		: { reconciled: false, reconciledAt: FieldValue.delete() });
+	await logAudit({
+		action: reconciled ? 'transaction.reconcile' : 'transaction.unreconcile',
+		entityType: 'transaction',
+		entityId: id,
+		amountCents: transaction.amountCents,
+		categoryId: transaction.categoryId,
+		createdBy: actorId,
+		createdAt: new Date(),
+	});
 }
 
 /**
@@ -258,11 +873,16 @@ export async function getTransaction(id: string): Promise<Transaction | null> {
 	if (!doc.exists) {
 		return null;
 	}
-	const data = doc.data()!;
-	return {
-		id: doc.id,
-		...data,
-		ts: data.ts.toDate(),
-		createdAt: data.createdAt.toDate(),
-	} as Transaction;
+	return toTransaction(doc);
+}
+
+/**
+ * Transactions a repeatable payment booked, oldest first
+ */
+export async function listRepeatablePaymentTransactions(repeatablePaymentId: string): Promise<Transaction[]> {
+	// Equality only, sorted in memory, so no composite index is needed
+	const snapshot = await db.collection('transactions').where('repeatablePaymentId', '==', repeatablePaymentId).get();
+	return snapshot.docs
+		.map(toTransaction)
+		.sort((a, b) => a.ts.getTime() - b.ts.getTime());
 }
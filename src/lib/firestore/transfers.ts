@@ -0,0 +1,132 @@
+import { db } from '../firebaseAdmin';
+import type { Transfer } from '../types';
+import { toDateKey } from '../dates';
+import { applyAccountMovements, isActiveAccount } from './accounts';
+import { logAudit } from './audit';
+
+type NewTransfer = Omit<Transfer, 'id' | 'createdAt'>;
+
+function toTransfer(doc: FirebaseFirestore.DocumentSnapshot): Transfer {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		ts: data.ts.toDate(),
+		fromAccountId: data.fromAccountId,
+		toAccountId: data.toAccountId,
+		amountCents: data.amountCents,
+		note: data.note || '',
+		createdBy: data.createdBy,
+		createdAt: data.createdAt?.toDate() || new Date(),
+	};
+}
+
+/**
+ * Get a single transfer by ID
+ */
+export async function getTransfer(id: string): Promise<Transfer | null> {
+	const doc = await db.collection('transfers').doc(id).get();
+	return doc.exists ? toTransfer(doc) : null;
+}
+
+/**
+ * List the most recent transfers, optionally only those touching one account
+ */
+export async function listTransfers(options: { accountId?: string; limit?: number } = {}): Promise<Transfer[]> {
+	const limit = options.limit ?? 50;
+	if (!options.accountId) {
+		const snapshot = await db.collection('transfers').orderBy('ts', 'desc').limit(limit).get();
+		return snapshot.docs.map(toTransfer);
+	}
+
+	// Two equality queries merged in memory to avoid composite indexes
+	const [out, into] = await Promise.all([
+		db.collection('transfers').where('fromAccountId', '==', options.accountId).get(),
+		db.collection('transfers').where('toAccountId', '==', options.accountId).get(),
+	]);
+	return [...out.docs, ...into.docs]
+		.map(toTransfer)
+		.sort((a, b) => b.ts.getTime() - a.ts.getTime())
+		.slice(0, limit);
+}
+
+/**
+ * Move money between two accounts. Transfers change both balances but are neither
+ * income nor expense, so the stats docs are left alone.
+ */
+export async function createTransfer(data: NewTransfer): Promise<string> {
+	if (data.fromAccountId === data.toAccountId) {
+		throw new Error('Cannot transfer to the same account');
+	}
+	if (!Number.isInteger(data.amountCents) || data.amountCents <= 0) {
+		throw new Error('Amount must be greater than 0');
+	}
+	const [fromActive, toActive] = await Promise.all([
+		isActiveAccount(data.fromAccountId),
+		isActiveAccount(data.toAccountId),
+	]);
+	if (!fromActive || !toActive) {
+		throw new Error('Both accounts must exist and be active');
+	}
+
+	const batch = db.batch();
+	const ref = db.collection('transfers').doc();
+	batch.set(ref, {
+		ts: data.ts,
+		fromAccountId: data.fromAccountId,
+		toAccountId: data.toAccountId,
+		amountCents: data.amountCents,
+		note: data.note || '',
+		createdBy: data.createdBy,
+		createdAt: new Date(),
+	});
+	const dateKey = toDateKey(data.ts);
+	applyAccountMovements(batch, [
+		{ accountId: data.fromAccountId, dateKey, inCents: 0, outCents: data.amountCents },
+		{ accountId: data.toAccountId, dateKey, inCents: data.amountCents, outCents: 0 },
+	]);
+	await batch.commit();
+
+	await logAudit({
+		action: 'transfer.create',
+		entityType: 'transfer',
+		entityId: ref.id,
+		amountCents: data.amountCents,
+		createdBy: data.createdBy,
+		createdAt: new Date(),
+		meta: { fromAccountId: data.fromAccountId, toAccountId: data.toAccountId },
+	});
+	return ref.id;
+}
+
+/**
+ * Delete a transfer and reverse its effect on both balances
+ */
+export async function deleteTransfer(id: string, actorId: string): Promise<void> {
+	const transfer = await getTransfer(id);
+	if (!transfer) {
+		throw new Error('Transfer not found');
+	}
+
+	const batch = db.batch();
+	batch.delete(db.collection('transfers').doc(id));
+	const dateKey = toDateKey(transfer.ts);
+	applyAccountMovements(batch, [
+		{ accountId: transfer.fromAccountId, dateKey, inCents: 0, outCents: -transfer.amountCents },
+		{ accountId: transfer.toAccountId, dateKey, inCents: -transfer.amountCents, outCents: 0 },
+	]);
+	await batch.commit();
+
+	await logAudit({
+		action: 'transfer.delete',
+		entityType: 'transfer',
+		entityId: id,
+		amountCents: transfer.amountCents,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: {
+			fromAccountId: transfer.fromAccountId,
+			toAccountId: transfer.toAccountId,
+			originalCreatedBy: transfer.createdBy,
+		},
+	});
+}
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory collections keyed by "collection/id"; dates are stored as Firestore-like timestamps
+const docs = vi.hoisted(() => new Map<string, Record<string, any>>());
+const commits = vi.hoisted(() => [] as number[]);
+
+vi.mock('../firebaseAdmin', () => {
+	const snapshot = (path: string) => {
+		const data = docs.get(path);
+		return { id: path.split('/')[1], ref: { path }, exists: !!data, data: () => data };
+	};
+	const ref = (name: string, id: string) => ({
+		path: `${name}/${id}`,
+		get: async () => snapshot(`${name}/${id}`),
+		delete: async () => {
+			docs.delete(`${name}/${id}`);
+		},
+	});
+	const query = (name: string, cutoff?: Date, limit = Infinity): any => ({
+		where: (_field: 'deletedAt', _op: '<=', value: Date) => query(name, value, limit),
+		limit: (n: number) => query(name, cutoff, n),
+		get: async () => {
+			const matches = [...docs.keys()]
+				.filter(path => path.startsWith(`${name}/`))
+				.filter(path => !cutoff || docs.get(path)!.deletedAt.toDate() <= cutoff)
+				.slice(0, limit)
+				.map(snapshot);
+			return { docs: matches, size: matches.length, empty: matches.length === 0 };
+		},
+	});
+	return {
+		db: {
+			collection: (name: string) => ({
+				...query(name),
+				doc: (id: string) => ref(name, id),
+			}),
+			getAll: async (...refs: Array<{ path: string }>) => refs.map(r => snapshot(r.path)),
+			batch: () => {
+				const writes: Array<() => void> = [];
+				return {
+					create: (r: { path: string }, data: Record<string, any>) => writes.push(() => {
+						if (docs.has(r.path)) throw new Error('Already exists');
+						docs.set(r.path, data);
+					}),
+					delete: (r: { path: string }) => writes.push(() => docs.delete(r.path)),
+					commit: async () => {
+						commits.push(writes.length);
+						writes.forEach(write => write());
+					},
+				};
+			},
+		},
+	};
+});
+
+const updateSummaries = vi.hoisted(() => vi.fn());
+vi.mock('./summaries', () => ({ updateSummaries }));
+const logAudit = vi.hoisted(() => vi.fn());
+vi.mock('./audit', () => ({ logAudit }));
+vi.mock('./revisions', () => ({ addRevision: vi.fn(), toSnapshot: vi.fn() }));
+vi.mock('./transactions', () => ({ getTransaction: vi.fn() }));
+vi.mock('../outboundWebhooks', () => ({ emitEvent: vi.fn(), serializeTransaction: vi.fn() }));
+
+const { emptyTrash, getPurgeDate, purgeExpiredTrash, purgeTrashedTransaction, restoreTransaction } = await import('./trash');
+
+const stamp = (date: Date) => ({ toDate: () => date });
+
+/** A trashed income of 10.00 in "sales", deleted on the given day */
+function trash(id: string, deletedAt: Date, fields: Record<string, any> = {}) {
+	docs.set(`deleted_transactions/${id}`, {
+		ts: stamp(new Date('2026-09-01T10:00:00Z')),
+		type: 'income',
+		amountCents: 1000,
+		categoryId: 'sales',
+		paymentMethod: 'cash',
+		createdBy: 'staff1',
+		deletedAt: stamp(deletedAt),
+		deletedBy: 'staff2',
+		...fields,
+	});
+}
+
+beforeEach(() => {
+	docs.clear();
+	commits.length = 0;
+	logAudit.mockReset();
+	updateSummaries.mockReset();
+	docs.set('categories/sales', { name: 'Sales' });
+});
+
+describe('getPurgeDate', () => {
+	it('adds the retention period to the deletion time', () => {
+		expect(getPurgeDate(new Date('2026-10-01T12:00:00Z'))).toEqual(new Date('2026-10-31T12:00:00Z'));
+	});
+});
+
+describe('restoreTransaction', () => {
+	it('moves the row back unreconciled and re-applies its summaries', async () => {
+		trash('tx1', new Date('2026-10-01T00:00:00Z'), { reconciled: true, statementLineId: 'line1' });
+
+		await restoreTransaction('tx1', 'admin');
+
+		expect(docs.has('deleted_transactions/tx1')).toBe(false);
+		const restored = docs.get('transactions/tx1')!;
+		expect(restored).toMatchObject({ type: 'income', amountCents: 1000, categoryId: 'sales' });
+		expect(restored).not.toHaveProperty('deletedAt');
+		expect(restored).not.toHaveProperty('reconciled');
+		expect(restored).not.toHaveProperty('statementLineId');
+		expect(updateSummaries).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+			dateKey: '2026-09-01',
+			amountCents: 1000,
+			operation: 'increment',
+		}));
+		expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({
+			action: 'transaction.restore',
+			meta: { type: 'income', deletedAt: '2026-10-01T00:00:00.000Z', deletedBy: 'staff2' },
+		}));
+	});
+
+	it('refuses a row whose category or account is gone', async () => {
+		trash('tx1', new Date(), { categoryId: 'gone' });
+		trash('tx2', new Date(), { accountId: 'closed' });
+
+		await expect(restoreTransaction('tx1', 'admin')).rejects.toThrow('Cannot restore: its category has been deleted');
+		await expect(restoreTransaction('tx2', 'admin')).rejects.toThrow('Cannot restore: its account has been deleted');
+		expect(docs.has('deleted_transactions/tx1')).toBe(true);
+		expect(commits).toEqual([]);
+	});
+
+	it('refuses an ID that is not in the trash', async () => {
+		await expect(restoreTransaction('nope', 'admin')).rejects.toThrow('Transaction not found in trash');
+	});
+});
+
+describe('purgeTrashedTransaction', () => {
+	it('deletes the one row for good', async () => {
+		trash('tx1', new Date());
+		trash('tx2', new Date());
+
+		await purgeTrashedTransaction('tx1', 'admin');
+
+		expect([...docs.keys()]).toEqual(['categories/sales', 'deleted_transactions/tx2']);
+		expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'transaction.purge', entityId: 'tx1' }));
+	});
+});
+
+describe('purgeExpiredTrash', () => {
+	it('purges only rows past the retention period, in chunks', async () => {
+		const now = new Date('2026-10-19T12:00:00Z');
+		for (let n = 0; n < 500; n++) {
+			trash(`old${n}`, new Date('2026-09-01T00:00:00Z'));
+		}
+		trash('recent', new Date('2026-10-10T00:00:00Z'));
+
+		await expect(purgeExpiredTrash('system', now)).resolves.toBe(500);
+
+		expect(commits).toEqual([450, 50]);
+		expect(docs.has('deleted_transactions/recent')).toBe(true);
+		expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({
+			action: 'transaction.purge_trash',
+			meta: { reason: 'expired', purged: 500, deletedBefore: '2026-09-19T12:00:00.000Z' },
+		}));
+	});
+
+	it('writes no audit entry when nothing expired', async () => {
+		trash('recent', new Date());
+		await expect(purgeExpiredTrash('system')).resolves.toBe(0);
+		expect(logAudit).not.toHaveBeenCalled();
+	});
+});
+
+describe('emptyTrash', () => {
+	it('purges everything', async () => {
+		trash('tx1', new Date());
+		trash('tx2', new Date('2020-01-01T00:00:00Z'));
+
+		await expect(emptyTrash('admin')).resolves.toBe(2);
+
+		expect([...docs.keys()]).toEqual(['categories/sales']);
+		expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ meta: { reason: 'emptied', purged: 2 } }));
+	});
+});
@@ -0,0 +1,203 @@
+import { db } from '../firebaseAdmin';
+import type { TrashedTransaction } from '../types';
+import { toDateKey, toMonthKey, toISOWeekKey } from '../dates';
+import { updateSummaries } from './summaries';
+import { logAudit } from './audit';
+import { emitEvent, serializeTransaction } from '../outboundWebhooks';
+import { lineCategoryIds } from '../splits';
+import { getTransaction } from './transactions';
+import { addRevision, toSnapshot } from './revisions';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 86400000;
+
+// Firestore allows 500 writes per batch
+const PURGE_CHUNK_SIZE = 450;
+
+/**
+ * Days a deleted transaction stays in the trash before it is purged (TRASH_RETENTION_DAYS, default 30)
+ */
+export function getTrashRetentionDays(): number {
+	const days = Number(import.meta.env.TRASH_RETENTION_DAYS || process.env.TRASH_RETENTION_DAYS);
+	return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * When a trashed transaction is purged
+ */
+export function getPurgeDate(deletedAt: Date): Date {
+	return new Date(deletedAt.getTime() + getTrashRetentionDays() * DAY_MS);
+}
+
+function toTrashedTransaction(doc: FirebaseFirestore.DocumentSnapshot): TrashedTransaction {
+	const { searchTokens, categoryIds, ...data } = doc.data()!;
+	return {
+		id: doc.id,
+		...data,
+		ts: data.ts.toDate(),
+		...(data.reconciledAt ? { reconciledAt: data.reconciledAt.toDate() } : {}),
+		createdAt: data.createdAt?.toDate() || new Date(),
+		deletedAt: data.deletedAt.toDate(),
+	} as TrashedTransaction;
+}
+
+/**
+ * List the trash, most recently deleted first
+ */
+export async function listTrashedTransactions(limit: number = 200): Promise<TrashedTransaction[]> {
+	const snapshot = await db.collection('deleted_transactions').orderBy('deletedAt', 'desc').limit(limit).get();
+	return snapshot.docs.map(toTrashedTransaction);
+}
+
+/**
+ * Put a trashed transaction back in the ledger under its old ID and re-apply its summaries.
+ * It comes back unreconciled: its statement line was unmatched when it was deleted.
+ */
+export async function restoreTransaction(id: string, actorId: string): Promise<void> {
+	const trashRef = db.collection('deleted_transactions').doc(id);
+	const doc = await trashRef.get();
+	if (!doc.exists) {
+		throw new Error('Transaction not found in trash');
+	}
+
+	const {
+		deletedAt,
+		deletedBy,
+		reconciled,
+		reconciledAt,
+		statementLineId,
+		...data
+	} = doc.data()!;
+
+	// Summaries and balances must not point at a category or account that is gone
+	const categoryIds = lineCategoryIds({ categoryId: data.categoryId, amountCents: data.amountCents, splits: data.splits });
+	const [categories, account] = await Promise.all([
+		db.getAll(...categoryIds.map(categoryId => db.collection('categories').doc(categoryId))),
+		data.accountId ? db.collection('accounts').doc(data.accountId).get() : null,
+	]);
+	if (categories.some(category => !category.exists)) {
+		throw new Error('Cannot restore: its category has been deleted');
+	}
+	if (account && !account.exists) {
+		throw new Error('Cannot restore: its account has been deleted');
+	}
+
+	const ts: Date = data.ts.toDate();
+	const batch = db.batch();
+	// create, not set: fails the batch if the ID is somehow in use again
+	batch.create(db.collection('transactions').doc(id), data);
+	batch.delete(trashRef);
+	addRevision(batch, { transactionId: id, action: 'restore', after: toSnapshot(data), createdBy: actorId });
+	await updateSummaries(batch, {
+		dateKey: toDateKey(ts),
+		weekKey: toISOWeekKey(ts),
+		monthKey: toMonthKey(ts),
+		type: data.type,
+		amountCents: data.amountCents,
+		categoryId: data.categoryId,
+		splits: data.splits,
+		paymentMethod: data.paymentMethod,
+		accountId: data.accountId,
+		operation: 'increment',
+	});
+	await batch.commit();
+
+	await logAudit({
+		action: 'transaction.restore',
+		entityType: 'transaction',
+		entityId: id,
+		amountCents: data.amountCents,
+		categoryId: data.categoryId,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: {
+			type: data.type,
+			deletedAt: deletedAt.toDate().toISOString(),
+			...(deletedBy ? { deletedBy } : {}),
+		},
+	});
+
+	const restored = await getTransaction(id);
+	if (restored) {
+		await emitEvent('transaction.restored', {
+			transaction: serializeTransaction(restored),
+			restoredBy: actorId,
+		});
+	}
+}
+
+/**
+ * Delete a trashed transaction for good
+ */
+export async function purgeTrashedTransaction(id: string, actorId: string): Promise<void> {
+	const trashRef = db.collection('deleted_transactions').doc(id);
+	const doc = await trashRef.get();
+	if (!doc.exists) {
+		throw new Error('Transaction not found in trash');
+	}
+
+	const data = doc.data()!;
+	await trashRef.delete();
+	await logAudit({
+		action: 'transaction.purge',
+		entityType: 'transaction',
+		entityId: id,
+		amountCents: data.amountCents,
+		categoryId: data.categoryId,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: {
+			type: data.type,
+		},
+	});
+}
+
+/**
+ * Purge trashed transactions deleted before the cutoff (everything when no cutoff is given).
+ * Recorded as one audit entry. Returns the number purged.
+ */
+async function purgeTrash(actorId: string, cutoff: Date | null, reason: 'expired' | 'emptied'): Promise<number> {
+	let purged = 0;
+	for (;;) {
+		let query: FirebaseFirestore.Query = db.collection('deleted_transactions');
+		if (cutoff) {
+			query = query.where('deletedAt', '<=', cutoff);
+		}
+		const snapshot = await query.limit(PURGE_CHUNK_SIZE).get();
+		if (snapshot.empty) break;
+
+		const batch = db.batch();
+		snapshot.docs.forEach(doc => batch.delete(doc.ref));
+		await batch.commit();
+		purged += snapshot.size;
+	}
+
+	if (purged > 0) {
+		await logAudit({
+			action: 'transaction.purge_trash',
+			entityType: 'transaction',
+			createdBy: actorId,
+			createdAt: new Date(),
+			meta: {
+				reason,
+				purged,
+				...(cutoff ? { deletedBefore: cutoff.toISOString() } : {}),
+			},
+		});
+	}
+	return purged;
+}
+
+/**
+ * Purge trashed transactions older than the retention period. Returns the number purged.
+ */
+export async function purgeExpiredTrash(actorId: string, now: Date = new Date()): Promise<number> {
+	return purgeTrash(actorId, new Date(now.getTime() - getTrashRetentionDays() * DAY_MS), 'expired');
+}
+
+/**
+ * Purge everything in the trash. Returns the number purged.
+ */
+export async function emptyTrash(actorId: string): Promise<number> {
+	return purgeTrash(actorId, null, 'emptied');
+}
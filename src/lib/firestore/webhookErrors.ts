@@ -0,0 +1,185 @@
+import { db } from '../firebaseAdmin';
+import type { WebhookError, WebhookErrorStatus } from '../types';
+import { logAudit } from './audit';
+
+function toWebhookError(doc: FirebaseFirestore.DocumentSnapshot): WebhookError {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		...data,
+		status: data.status || 'open', // Errors logged before the inbox existed have no status
+		resolvedAt: data.resolvedAt?.toDate(),
+		createdAt: data.createdAt?.toDate() || new Date(),
+	} as WebhookError;
+}
+
+/**
+ * Record a rejected webhook request so it can be inspected later
+ */
+export async function logWebhookError(payload: unknown, error: string, apiKeyId?: string) {
+	await db.collection('webhook_errors').add({
+		payload: payload ?? null,
+		error,
+		...(apiKeyId ? { apiKeyId } : {}),
+		status: 'open',
+		createdAt: new Date(),
+	});
+}
+
+/**
+ * List webhook errors, newest first
+ */
+export async function listWebhookErrors(filters: {
+	status?: WebhookErrorStatus;
+	apiKeyId?: string;
+	fromDate?: Date;
+	toDate?: Date;
+	search?: string;
+	limit?: number;
+} = {}): Promise<WebhookError[]> {
+	let query: FirebaseFirestore.Query = db.collection('webhook_errors');
+
+	if (filters.fromDate) {
+		query = query.where('createdAt', '>=', filters.fromDate);
+	}
+	if (filters.toDate) {
+		query = query.where('createdAt', '<=', filters.toDate);
+	}
+
+	const snapshot = await query.orderBy('createdAt', 'desc').limit(filters.limit || 500).get();
+	let errors = snapshot.docs.map(toWebhookError);
+
+	// Status and key are filtered here so older documents without these fields still match
+	if (filters.status) {
+		errors = errors.filter(e => e.status === filters.status);
+	}
+	if (filters.apiKeyId) {
+		errors = errors.filter(e => e.apiKeyId === filters.apiKeyId);
+	}
+	if (filters.search) {
+		const search = filters.search.toLowerCase();
+		errors = errors.filter(e =>
+			e.error.toLowerCase().includes(search) ||
+			JSON.stringify(e.payload ?? '').toLowerCase().includes(search)
+		);
+	}
+
+	return errors;
+}
+
+export async function getWebhookError(id: string): Promise<WebhookError | null> {
+	const doc = await db.collection('webhook_errors').doc(id).get();
+	if (!doc.exists) return null;
+	return toWebhookError(doc);
+}
+
+/**
+ * Save an edited payload whose replay failed, keeping the original payload once
+ */
+export async function recordReplayFailure(id: string, payload: unknown, error: string): Promise<void> {
+	const ref = db.collection('webhook_errors').doc(id);
+	const doc = await ref.get();
+	if (!doc.exists) {
+		throw new Error('Webhook error not found');
+	}
+
+	const data = doc.data()!;
+	await ref.update({
+		payload: payload ?? null,
+		...(data.originalPayload === undefined ? { originalPayload: data.payload ?? null } : {}),
+		lastReplayError: error,
+	});
+}
+
+function resolution(
+	current: { payload?: unknown; originalPayload?: unknown },
+	actorId: string,
+	result: { transactionId?: string; payload?: unknown }
+): Record<string, unknown> {
+	const updateData: Record<string, unknown> = {
+		status: 'resolved',
+		resolvedBy: actorId,
+		resolvedAt: new Date(),
+	};
+	if (result.transactionId) {
+		updateData.transactionId = result.transactionId;
+	}
+	if (result.payload !== undefined) {
+		updateData.payload = result.payload;
+		if (current.originalPayload === undefined) {
+			updateData.originalPayload = current.payload ?? null;
+		}
+	}
+	return updateData;
+}
+
+function logResolution(id: string, actorId: string, result: { transactionId?: string }): Promise<void> {
+	return logAudit({
+		action: result.transactionId ? 'webhook_error.replay' : 'webhook_error.resolve',
+		entityType: 'webhook_error',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		...(result.transactionId ? { meta: { transactionId: result.transactionId } } : {}),
+	});
+}
+
+/**
+ * Mark an error resolved, optionally linking the transaction a replay produced
+ */
+export async function resolveWebhookError(
+	id: string,
+	actorId: string,
+	result: { transactionId?: string; payload?: unknown } = {}
+): Promise<void> {
+	const ref = db.collection('webhook_errors').doc(id);
+	const doc = await ref.get();
+	if (!doc.exists) {
+		throw new Error('Webhook error not found');
+	}
+
+	await ref.update(resolution(doc.data()!, actorId, result));
+	await logResolution(id, actorId, result);
+}
+
+/**
+ * Resolve a replayed error in the batch that writes its transaction, so the two are saved
+ * together. Call logReplayResolution once the batch is committed.
+ */
+export function resolveWebhookErrorInBatch(
+	batch: FirebaseFirestore.WriteBatch,
+	webhookError: WebhookError,
+	actorId: string,
+	result: { transactionId: string; payload: unknown }
+): void {
+	batch.update(db.collection('webhook_errors').doc(webhookError.id), resolution(webhookError, actorId, result));
+}
+
+export async function logReplayResolution(id: string, actorId: string, transactionId: string): Promise<void> {
+	await logResolution(id, actorId, { transactionId });
+}
+
+/**
+ * Dismiss an error that needs no action (e.g. a test request)
+ */
+export async function dismissWebhookError(id: string, actorId: string): Promise<void> {
+	const ref = db.collection('webhook_errors').doc(id);
+	const doc = await ref.get();
+	if (!doc.exists) {
+		throw new Error('Webhook error not found');
+	}
+
+	await ref.update({
+		status: 'dismissed',
+		resolvedBy: actorId,
+		resolvedAt: new Date(),
+	});
+
+	await logAudit({
+		action: 'webhook_error.dismiss',
+		entityType: 'webhook_error',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+	});
+}
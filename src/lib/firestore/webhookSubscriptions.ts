@@ -0,0 +1,181 @@
+import { randomBytes } from 'node:crypto';
+import { db } from '../firebaseAdmin';
+import type { WebhookDelivery, WebhookEventType, WebhookSubscription } from '../types';
+import { logAudit } from './audit';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+	'transaction.created',
+	'transaction.updated',
+	'transaction.deleted',
+	'transaction.restored',
+	'repeatable_payment.run',
+];
+
+function toSubscription(doc: FirebaseFirestore.DocumentSnapshot): WebhookSubscription {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		...data,
+		events: data.events || [],
+		createdAt: data.createdAt?.toDate() || new Date(),
+		updatedAt: data.updatedAt?.toDate() || new Date(),
+	} as WebhookSubscription;
+}
+
+function toDelivery(doc: FirebaseFirestore.DocumentSnapshot): WebhookDelivery {
+	const data = doc.data()!;
+	return {
+		id: doc.id,
+		...data,
+		attemptLog: (data.attemptLog || []).map((attempt: any) => ({
+			...attempt,
+			at: attempt.at?.toDate() || new Date(),
+		})),
+		nextAttemptAt: data.nextAttemptAt?.toDate(),
+		deliveredAt: data.deliveredAt?.toDate(),
+		createdAt: data.createdAt?.toDate() || new Date(),
+	} as WebhookDelivery;
+}
+
+/**
+ * Validate a subscriber URL. Plain http is allowed so a local receiver can be used for testing.
+ */
+export function validateSubscriptionUrl(url: string): string | null {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return 'URL is not valid';
+	}
+	if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+		return 'URL must start with http:// or https://';
+	}
+	return null;
+}
+
+/**
+ * Register a new subscriber URL with a generated signing secret
+ */
+export async function createWebhookSubscription(
+	data: { name: string; url: string; events: WebhookEventType[] },
+	actorId: string
+): Promise<string> {
+	const urlError = validateSubscriptionUrl(data.url);
+	if (urlError) {
+		throw new Error(urlError);
+	}
+
+	const now = new Date();
+	const subscriptionRef = db.collection('webhook_subscriptions').doc();
+	await subscriptionRef.set({
+		name: data.name,
+		url: data.url,
+		secret: randomBytes(32).toString('hex'),
+		events: data.events,
+		active: true,
+		createdBy: actorId,
+		createdAt: now,
+		updatedAt: now,
+	});
+	await logAudit({
+		action: 'webhook_subscription.create',
+		entityType: 'webhook_subscription',
+		entityId: subscriptionRef.id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { name: data.name, url: data.url, events: data.events },
+	});
+	return subscriptionRef.id;
+}
+
+export async function listWebhookSubscriptions(activeOnly: boolean = false): Promise<WebhookSubscription[]> {
+	let query: FirebaseFirestore.Query = db.collection('webhook_subscriptions');
+	if (activeOnly) {
+		query = query.where('active', '==', true);
+	}
+	const snapshot = await query.get();
+	return snapshot.docs
+		.map(toSubscription)
+		.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+export async function getWebhookSubscription(id: string): Promise<WebhookSubscription | null> {
+	const doc = await db.collection('webhook_subscriptions').doc(id).get();
+	if (!doc.exists) return null;
+	return toSubscription(doc);
+}
+
+/**
+ * Pause or resume a subscription
+ */
+export async function toggleWebhookSubscription(id: string, actorId: string): Promise<void> {
+	const ref = db.collection('webhook_subscriptions').doc(id);
+	const doc = await ref.get();
+	if (!doc.exists) {
+		throw new Error('Webhook subscription not found');
+	}
+
+	const active = !doc.data()!.active;
+	await ref.update({ active, updatedAt: new Date() });
+	await logAudit({
+		action: 'webhook_subscription.toggle',
+		entityType: 'webhook_subscription',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { active },
+	});
+}
+
+/**
+ * Delete a subscription. Its delivery log is kept.
+ */
+export async function deleteWebhookSubscription(id: string, actorId: string): Promise<void> {
+	const ref = db.collection('webhook_subscriptions').doc(id);
+	const doc = await ref.get();
+	if (!doc.exists) {
+		throw new Error('Webhook subscription not found');
+	}
+
+	await ref.delete();
+	await logAudit({
+		action: 'webhook_subscription.delete',
+		entityType: 'webhook_subscription',
+		entityId: id,
+		createdBy: actorId,
+		createdAt: new Date(),
+		meta: { name: doc.data()?.name, url: doc.data()?.url },
+	});
+}
+
+/**
+ * List recent deliveries, newest first
+ */
+export async function listWebhookDeliveries(filters: {
+	subscriptionId?: string;
+	limit?: number;
+} = {}): Promise<WebhookDelivery[]> {
+	const limit = filters.limit || 50;
+	if (!filters.subscriptionId) {
+		const snapshot = await db.collection('webhook_deliveries')
+			.orderBy('createdAt', 'desc')
+			.limit(limit)
+			.get();
+		return snapshot.docs.map(toDelivery);
+	}
+
+	const snapshot = await db.collection('webhook_deliveries')
+		.where('subscriptionId', '==', filters.subscriptionId)
+		.get();
+	// Sorted in memory to avoid needing a composite index
+	return snapshot.docs
+		.map(toDelivery)
+		.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+		.slice(0, limit);
+}
+
+export async function getWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+	const doc = await db.collection('webhook_deliveries').doc(id).get();
+	if (!doc.exists) return null;
+	return toDelivery(doc);
+}
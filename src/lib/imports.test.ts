@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { duplicateKey, guessImportMapping, isLikelyDuplicate, parseImportDate, parseImportRow, readImportFile } from './imports';
+import type { ImportOptions } from './types';
+
+const options: ImportOptions = { dateFormat: 'dmy', createMissingCategories: true, skipDuplicates: true };
+
+describe('readImportFile', () => {
+	it('splits a CSV upload into headers and rows', () => {
+		expect(readImportFile('ledger.csv', Buffer.from(' Date ;Amount;Category\n02/03/2026;10,00;Sales\n'))).toEqual({
+			headers: ['Date', 'Amount', 'Category'],
+			rows: [['02/03/2026', '10,00', 'Sales']],
+		});
+	});
+
+	it('needs a header row and data', () => {
+		expect(() => readImportFile('ledger.csv', Buffer.from('Date,Amount\n'))).toThrow('The file needs a header row and at least one data row');
+	});
+});
+
+describe('guessImportMapping', () => {
+	it('maps the columns whose header it knows', () => {
+		expect(guessImportMapping(['Ημερομηνία', 'Total', 'Category Name', 'Customer', 'Internal code'])).toEqual({
+			date: 0,
+			amount: 1,
+			category: 2,
+			companyName: 3,
+		});
+	});
+});
+
+describe('parseImportDate', () => {
+	it('reads slash dates day-first unless told otherwise', () => {
+		expect(parseImportDate('03/04/2026', 'dmy')).toBe('2026-04-03');
+		expect(parseImportDate('03/04/2026', 'mdy')).toBe('2026-03-04');
+		expect(parseImportDate('2026-04-03', 'mdy')).toBe('2026-04-03');
+	});
+
+	it('reads Excel serial numbers', () => {
+		expect(parseImportDate('46023', 'dmy')).toBe('2026-01-01');
+		expect(parseImportDate('46023.75', 'dmy')).toBe('2026-01-01');
+	});
+
+	it('returns null for text that is not a date', () => {
+		expect(parseImportDate('soon', 'dmy')).toBeNull();
+	});
+});
+
+describe('parseImportRow', () => {
+	const mapping = { date: 0, amount: 1, category: 2, note: 3, clickupId: 4 };
+
+	it('takes the type from the sign of the amount without a type column', () => {
+		expect(parseImportRow(['02/03/2026', '-1.250,50', 'Rent', 'March', ''], mapping, options)).toEqual({
+			data: { dateKey: '2026-03-02', type: 'expense', amountCents: 125050, categoryName: 'Rent', note: 'March' },
+			errors: [],
+		});
+		expect(parseImportRow(['02/03/2026', '99', 'Sales', '', '86c7n2897'], mapping, options).data)
+			.toMatchObject({ type: 'income', amountCents: 9900, clickupId: '86c7n2897' });
+	});
+
+	it('reads a type column', () => {
+		const withType = { ...mapping, type: 5 };
+		expect(parseImportRow(['02/03/2026', '20', 'Sales', '', '', 'Έξοδο'], withType, options).data).toMatchObject({ type: 'expense' });
+		expect(parseImportRow(['02/03/2026', '20', 'Sales', '', '', 'maybe'], withType, options).errors)
+			.toEqual(['Unknown type "maybe" (use income or expense)']);
+	});
+
+	it('lists every problem of a row', () => {
+		expect(parseImportRow(['32/13/2026', '0', ''], mapping, options)).toEqual({
+			errors: ['Invalid date "32/13/2026"', 'Invalid amount "0"', 'Category is missing'],
+		});
+		expect(parseImportRow([], mapping, options).errors).toEqual(['Date is missing', 'Amount is missing', 'Category is missing']);
+	});
+});
+
+describe('duplicates', () => {
+	it('keys rows by day, type and amount', () => {
+		expect(duplicateKey({ dateKey: '2026-03-02', type: 'income', amountCents: 1000 })).toBe('2026-03-02|income|1000');
+	});
+
+	it('tells rows apart only by different ClickUp IDs', () => {
+		expect(isLikelyDuplicate({}, { clickupId: 'a1' })).toBe(true);
+		expect(isLikelyDuplicate({ clickupId: 'A1' }, { clickupId: 'a1' })).toBe(true);
+		expect(isLikelyDuplicate({ clickupId: 'a1' }, { clickupId: 'b2' })).toBe(false);
+	});
+});
@@ -0,0 +1,167 @@
+import type { ImportField, ImportMapping, ImportOptions, TransactionType } from './types';
+import { parseCsv } from './csv';
+import { readXlsx } from './xlsx';
+import { parseAmountCents, parseStatementDate } from './statements/values';
+
+// Keeps one import within a single request's time budget
+export const MAX_IMPORT_ROWS = 5000;
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required: boolean }> = [
+	{ field: 'date', label: 'Date', required: true },
+	{ field: 'type', label: 'Type', required: false },
+	{ field: 'amount', label: 'Amount', required: true },
+	{ field: 'category', label: 'Category Name', required: true },
+	{ field: 'note', label: 'Note', required: false },
+	{ field: 'clickupId', label: 'Clickup Id', required: false },
+	{ field: 'companyName', label: 'Company Name', required: false },
+];
+
+// Lower-cased header names recognised when guessing the mapping
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+	date: ['date', 'transaction date', 'ημερομηνία'],
+	type: ['type', 'income/expense', 'τύπος'],
+	amount: ['amount', 'value', 'total', 'ποσό'],
+	category: ['category', 'category name', 'κατηγορία'],
+	note: ['note', 'notes', 'description', 'memo', 'σημείωση', 'περιγραφή'],
+	clickupId: ['clickup id', 'clickupid', 'clickup'],
+	companyName: ['company', 'company name', 'companyname', 'customer', 'supplier', 'εταιρεία'],
+};
+
+const TYPE_VALUES: Record<string, TransactionType> = {
+	income: 'income',
+	in: 'income',
+	credit: 'income',
+	'+': 'income',
+	'έσοδο': 'income',
+	expense: 'expense',
+	out: 'expense',
+	debit: 'expense',
+	'-': 'expense',
+	'έξοδο': 'expense',
+};
+
+/** One row read against the mapping, before categories and duplicates are resolved */
+export interface ParsedImportRow {
+	dateKey: string;
+	type: TransactionType;
+	amountCents: number;
+	categoryName: string;
+	note: string;
+	clickupId?: string;
+	companyName?: string;
+}
+
+/**
+ * Read a CSV or XLSX upload into a header row and data rows
+ */
+export function readImportFile(filename: string, data: Buffer): { headers: string[]; rows: string[][] } {
+	// XLSX files are zip archives, which start with "PK"
+	const isXlsx = /\.xlsx$/i.test(filename) || (data[0] === 0x50 && data[1] === 0x4b);
+	const table = isXlsx ? readXlsx(data) : parseCsv(data.toString('utf8'));
+
+	const [headers, ...rows] = table;
+	if (!headers || rows.length === 0) {
+		throw new Error('The file needs a header row and at least one data row');
+	}
+	if (rows.length > MAX_IMPORT_ROWS) {
+		throw new Error(`The file has ${rows.length} rows; split it into files of at most ${MAX_IMPORT_ROWS}`);
+	}
+	return { headers: headers.map(h => h.trim()), rows };
+}
+
+/**
+ * Map columns whose header matches a known name
+ */
+export function guessImportMapping(headers: string[]): ImportMapping {
+	const mapping: ImportMapping = {};
+	const normalized = headers.map(h => h.trim().toLowerCase());
+	for (const { field } of IMPORT_FIELDS) {
+		const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+		if (index !== -1) mapping[field] = index;
+	}
+	return mapping;
+}
+
+/**
+ * Read a date cell as YYYY-MM-DD. Excel serial numbers are accepted; slash dates are read
+ * day-first unless the format says month-first.
+ */
+export function parseImportDate(text: string, format: ImportOptions['dateFormat']): string | null {
+	const value = text.trim();
+	if (/^\d{5}(\.\d+)?$/.test(value)) {
+		// Days since 1899-12-30, Excel's epoch once its 1900 leap year bug is accounted for
+		const serial = Math.floor(Number(value));
+		return new Date(Date.UTC(1899, 11, 30) + serial * 86400000).toISOString().slice(0, 10);
+	}
+	if (format === 'mdy') {
+		const m = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+		if (m) return parseStatementDate(`${m[2]}/${m[1]}/${m[3]}`);
+	}
+	return parseStatementDate(value);
+}
+
+/**
+ * Read one row against the mapping. Without a type column the sign of the amount decides:
+ * negative amounts are expenses.
+ */
+export function parseImportRow(
+	cells: string[],
+	mapping: ImportMapping,
+	options: ImportOptions
+): { data?: ParsedImportRow; errors: string[] } {
+	const cell = (field: ImportField) => (mapping[field] !== undefined ? (cells[mapping[field]!] ?? '').trim() : '');
+	const errors: string[] = [];
+
+	const dateKey = parseImportDate(cell('date'), options.dateFormat);
+	if (!dateKey) {
+		errors.push(cell('date') ? `Invalid date "${cell('date')}"` : 'Date is missing');
+	}
+
+	const amountCents = parseAmountCents(cell('amount'));
+	if (isNaN(amountCents) || amountCents === 0) {
+		errors.push(cell('amount') ? `Invalid amount "${cell('amount')}"` : 'Amount is missing');
+	}
+
+	let type: TransactionType | undefined;
+	if (mapping.type !== undefined) {
+		type = TYPE_VALUES[cell('type').toLowerCase()];
+		if (!type) errors.push(`Unknown type "${cell('type')}" (use income or expense)`);
+	} else if (!isNaN(amountCents)) {
+		type = amountCents < 0 ? 'expense' : 'income';
+	}
+
+	const categoryName = cell('category');
+	if (!categoryName) {
+		errors.push('Category is missing');
+	}
+
+	if (errors.length > 0) {
+		return { errors };
+	}
+	return {
+		data: {
+			dateKey: dateKey!,
+			type: type!,
+			amountCents: Math.abs(amountCents),
+			categoryName,
+			note: cell('note'),
+			...(cell('clickupId') ? { clickupId: cell('clickupId') } : {}),
+			...(cell('companyName') ? { companyName: cell('companyName') } : {}),
+		},
+		errors,
+	};
+}
+
+/**
+ * Key two rows share when they could be the same payment: same day, type and amount
+ */
+export function duplicateKey(row: { dateKey: string; type: TransactionType; amountCents: number }): string {
+	return `${row.dateKey}|${row.type}|${row.amountCents}`;
+}
+
+/**
+ * Two rows with the same key are likely duplicates unless both carry different ClickUp IDs
+ */
+export function isLikelyDuplicate(a: { clickupId?: string }, b: { clickupId?: string }): boolean {
+	return !a.clickupId || !b.clickupId || a.clickupId.toLowerCase() === b.clickupId.toLowerCase();
+}
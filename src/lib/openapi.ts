@@ -0,0 +1,257 @@
+import {
+	DEFAULT_PAGE_SIZE,
+	MAX_PAGE_SIZE,
+	TRANSACTION_CREATE,
+	TRANSACTION_UPDATE,
+	CATEGORY_CREATE,
+	CATEGORY_UPDATE,
+	REPEATABLE_PAYMENT_CREATE,
+	REPEATABLE_PAYMENT_UPDATE,
+	type FieldSpec,
+	type InputSpec,
+} from './apiV1';
+
+type Schema = Record<string, unknown>;
+
+function fieldSchema(field: FieldSpec): Schema {
+	const schema: Schema = field.type === 'date'
+		? { type: 'string', format: 'date-time' }
+		: { type: field.type };
+	if (field.enum) schema.enum = [...field.enum];
+	if (field.minimum !== undefined) schema.minimum = field.minimum;
+	if (field.nullable) schema.nullable = true;
+	schema.description = field.description;
+	return schema;
+}
+
+/**
+ * Turn an input spec into a JSON schema. Required fields are only enforced for create bodies.
+ */
+function inputSchema(spec: InputSpec, enforceRequired: boolean): Schema {
+	const required = Object.entries(spec).filter(([, f]) => f.required).map(([name]) => name);
+	return {
+		type: 'object',
+		additionalProperties: false,
+		properties: Object.fromEntries(Object.entries(spec).map(([name, f]) => [name, fieldSchema(f)])),
+		...(enforceRequired && required.length ? { required } : {}),
+	};
+}
+
+/**
+ * Resource schema: the input fields plus read-only server fields
+ */
+function resourceSchema(spec: InputSpec, extra: Record<string, Schema>): Schema {
+	return {
+		type: 'object',
+		properties: {
+			id: { type: 'string', readOnly: true },
+			...Object.fromEntries(Object.entries(spec).map(([name, f]) => [name, fieldSchema(f)])),
+			...extra,
+		},
+	};
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const errorResponse = (description: string) => ({
+	description,
+	content: { 'application/json': { schema: ref('Error') } },
+});
+const dataResponse = (description: string, schemaName: string) => ({
+	description,
+	content: { 'application/json': { schema: { type: 'object', properties: { data: ref(schemaName) } } } },
+});
+
+const pageParams = [
+	{ name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE } },
+	{ name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'nextCursor from the previous page' },
+];
+const idParam = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+
+/**
+ * Paths for a list/create collection and a get/update/delete item route
+ */
+function resourcePaths(options: {
+	path: string;
+	tag: string;
+	schemaName: string;
+	listParams?: Schema[];
+	adminOnly?: { read?: boolean; write: boolean };
+}): Record<string, Schema> {
+	const { path, tag, schemaName } = options;
+	const writeNote = options.adminOnly?.write ? ' Requires the admin role.' : '';
+	const readNote = options.adminOnly?.read ? ' Requires the admin role.' : '';
+	const common = {
+		401: errorResponse('Not authenticated'),
+		403: errorResponse('Not allowed'),
+	};
+
+	return {
+		[path]: {
+			get: {
+				tags: [tag],
+				summary: `List ${tag.toLowerCase()}.${readNote}`,
+				parameters: [...pageParams, ...(options.listParams || [])],
+				responses: {
+					200: {
+						description: 'A page of results',
+						content: {
+							'application/json': {
+								schema: {
+									type: 'object',
+									properties: {
+										data: { type: 'array', items: ref(schemaName) },
+										nextCursor: { type: 'string', nullable: true },
+									},
+								},
+							},
+						},
+					},
+					400: errorResponse('Invalid filter or cursor'),
+					...common,
+				},
+			},
+			post: {
+				tags: [tag],
+				summary: `Create a ${schemaName}.${writeNote}`,
+				requestBody: { required: true, content: { 'application/json': { schema: ref(`${schemaName}Create`) } } },
+				responses: {
+					201: dataResponse('Created', schemaName),
+					400: errorResponse('Validation error'),
+					...common,
+				},
+			},
+		},
+		[`${path}/{id}`]: {
+			parameters: [idParam],
+			get: {
+				tags: [tag],
+				summary: `Get a ${schemaName}.${readNote}`,
+				responses: { 200: dataResponse('Found', schemaName), 404: errorResponse('Not found'), ...common },
+			},
+			patch: {
+				tags: [tag],
+				summary: `Update a ${schemaName}. Send only the fields to change; null clears optional fields.${writeNote}`,
+				requestBody: { required: true, content: { 'application/json': { schema: ref(`${schemaName}Update`) } } },
+				responses: {
+					200: dataResponse('Updated', schemaName),
+					400: errorResponse('Validation error'),
+					404: errorResponse('Not found'),
+					...common,
+				},
+			},
+			delete: {
+				tags: [tag],
+				summary: `Delete a ${schemaName}. Requires the admin role.`,
+				responses: {
+					204: { description: 'Deleted' },
+					404: errorResponse('Not found'),
+					409: errorResponse('Still in use'),
+					...common,
+				},
+			},
+		},
+	};
+}
+
+const timestamps = {
+	createdAt: { type: 'string', format: 'date-time', readOnly: true },
+};
+
+/**
+ * Build the OpenAPI 3 document for /api/v1 from the same specs the routes validate against
+ */
+export function buildOpenApiDocument(baseUrl: string): Schema {
+	return {
+		openapi: '3.0.3',
+		info: {
+			title: 'Company Ledger API',
+			version: '1.0.0',
+			description: 'Errors use the envelope { "error": { "code", "message", "details" } }. Lists are paginated with an opaque cursor.',
+		},
+		servers: [{ url: `${baseUrl}/api/v1` }],
+		security: [{ apiKey: [] }, { session: [] }],
+		paths: {
+			...resourcePaths({
+				path: '/transactions',
+				tag: 'Transactions',
+				schemaName: 'Transaction',
+				listParams: [
+					{ name: 'from', in: 'query', schema: { type: 'string', format: 'date' } },
+					{ name: 'to', in: 'query', schema: { type: 'string', format: 'date' } },
+					{ name: 'type', in: 'query', schema: { type: 'string', enum: ['income', 'expense'] } },
+					{ name: 'categoryId', in: 'query', schema: { type: 'string' } },
+					{ name: 'paymentMethod', in: 'query', schema: { type: 'string' } },
+					{ name: 'accountId', in: 'query', schema: { type: 'string' } },
+					{ name: 'clickupId', in: 'query', schema: { type: 'string' }, description: 'Word-prefix match, case and accent insensitive' },
+					{ name: 'companyName', in: 'query', schema: { type: 'string' }, description: 'Word-prefix match, case and accent insensitive' },
+					{ name: 'note', in: 'query', schema: { type: 'string' }, description: 'Word-prefix match, case and accent insensitive' },
+					{ name: 'minAmountCents', in: 'query', schema: { type: 'integer', minimum: 0 } },
+					{ name: 'maxAmountCents', in: 'query', schema: { type: 'integer', minimum: 0 } },
+				],
+			}),
+			...resourcePaths({
+				path: '/categories',
+				tag: 'Categories',
+				schemaName: 'Category',
+				listParams: [{ name: 'active', in: 'query', schema: { type: 'boolean' } }],
+				adminOnly: { write: true },
+			}),
+			...resourcePaths({
+				path: '/repeatable-payments',
+				tag: 'Repeatable payments',
+				schemaName: 'RepeatablePayment',
+				listParams: [{ name: 'active', in: 'query', schema: { type: 'boolean' } }],
+				adminOnly: { read: true, write: true },
+			}),
+		},
+		components: {
+			securitySchemes: {
+				apiKey: { type: 'http', scheme: 'bearer', description: 'API key issued under Admin → API Keys' },
+				session: { type: 'apiKey', in: 'cookie', name: 'session' },
+			},
+			schemas: {
+				Error: {
+					type: 'object',
+					properties: {
+						error: {
+							type: 'object',
+							properties: {
+								code: { type: 'string' },
+								message: { type: 'string' },
+								details: { type: 'object' },
+							},
+						},
+					},
+				},
+				Transaction: resourceSchema(TRANSACTION_CREATE, {
+					createdBy: { type: 'string', readOnly: true },
+					...timestamps,
+				}),
+				TransactionCreate: inputSchema(TRANSACTION_CREATE, true),
+				TransactionUpdate: inputSchema(TRANSACTION_UPDATE, false),
+				Category: resourceSchema(CATEGORY_UPDATE, timestamps),
+				CategoryCreate: inputSchema(CATEGORY_CREATE, true),
+				CategoryUpdate: inputSchema(CATEGORY_UPDATE, false),
+				RepeatablePayment: resourceSchema(REPEATABLE_PAYMENT_CREATE, {
+					recurrence: {
+						type: 'object',
+						readOnly: true,
+						description: 'Schedule: freq, interval and optional byMonthDay, byWeekday, bySetPos',
+					},
+					exceptions: {
+						type: 'array',
+						readOnly: true,
+						description: 'Changed dates: { date, skip?, moveTo?, amountCents?, booked? }, dates as YYYY-MM-DD',
+						items: { type: 'object' },
+					},
+					nextDueDate: { type: 'string', format: 'date-time', readOnly: true },
+					createdBy: { type: 'string', readOnly: true },
+					...timestamps,
+					updatedAt: { type: 'string', format: 'date-time', readOnly: true },
+				}),
+				RepeatablePaymentCreate: inputSchema(REPEATABLE_PAYMENT_CREATE, true),
+				RepeatablePaymentUpdate: inputSchema(REPEATABLE_PAYMENT_UPDATE, false),
+			},
+		},
+	};
+}
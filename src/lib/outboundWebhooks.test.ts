@@ -0,0 +1,157 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WebhookSubscription } from './types';
+
+// In-memory stand-in for the few Firestore calls the delivery queue makes
+const store = vi.hoisted(() => new Map<string, Record<string, any>>());
+
+vi.mock('./firebaseAdmin', () => {
+	const toStored = (data: Record<string, any>) => Object.fromEntries(Object.entries(data).map(([key, value]) => [
+		key,
+		value instanceof Date ? { toDate: () => value, value } : value,
+	]));
+	const fromStored = (value: any) => (value && typeof value.toDate === 'function' ? value.toDate() : value);
+	let nextId = 0;
+	let transactions: Promise<unknown> = Promise.resolve();
+	const ref = (id: string) => ({
+		id,
+		get: async () => ({ id, exists: store.has(id), data: () => store.get(id) }),
+		update: async (data: Record<string, any>) => {
+			store.set(id, { ...store.get(id), ...toStored(data) });
+		},
+	});
+	return {
+		db: {
+			collection: () => ({
+				doc: (id: string = `delivery${++nextId}`) => ref(id),
+				where: (field: string, _op: '<=', bound: Date) => ({
+					orderBy: () => ({
+						limit: (limit: number) => ({
+							get: async () => {
+								const docs = [...store.entries()]
+									.filter(([, data]) => fromStored(data[field]) instanceof Date && fromStored(data[field]) <= bound)
+									.slice(0, limit)
+									.map(([id]) => ({ id, ref: ref(id) }));
+								return { docs, size: docs.length };
+							},
+						}),
+					}),
+				}),
+			}),
+			batch: () => {
+				const writes: Array<() => void> = [];
+				return {
+					set: (target: { id: string }, data: Record<string, any>) => writes.push(() => store.set(target.id, toStored(data))),
+					commit: async () => writes.forEach(write => write()),
+				};
+			},
+			// Transactions run one after the other, as Firestore's retries make them appear to
+			runTransaction: (fn: (tx: unknown) => Promise<unknown>) => {
+				const run = transactions.then(() => fn({
+					get: (target: ReturnType<typeof ref>) => target.get(),
+					update: (target: ReturnType<typeof ref>, data: Record<string, any>) => target.update(data),
+				}));
+				transactions = run.catch(() => undefined);
+				return run;
+			},
+		},
+	};
+});
+
+const subscription = vi.hoisted(() => ({
+	id: 'sub1',
+	name: 'Receiver',
+	url: '',
+	secret: 'whsec_test',
+	events: [],
+	active: true,
+} as unknown as WebhookSubscription));
+
+vi.mock('./firestore/webhookSubscriptions', () => ({
+	getWebhookSubscription: async () => subscription,
+	listWebhookSubscriptions: async () => [subscription],
+}));
+
+const { emitEvent, retryDueDeliveries } = await import('./outboundWebhooks');
+const { signPayload } = await import('./apiKeyAuth');
+
+// Local receiver: records every request and answers with the status set by the test
+const received: Array<{ headers: IncomingHttpHeaders; body: string }> = [];
+let responseStatus = 200;
+let server: Server;
+
+beforeAll(async () => {
+	server = createServer((req, res) => {
+		let body = '';
+		req.on('data', chunk => body += chunk);
+		req.on('end', () => {
+			received.push({ headers: req.headers, body });
+			res.statusCode = responseStatus;
+			res.end(responseStatus === 200 ? 'ok' : 'down for maintenance');
+		});
+	});
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	subscription.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(async () => {
+	await new Promise(resolve => server.close(resolve));
+});
+
+describe('outbound webhook delivery queue', () => {
+	beforeEach(() => {
+		store.clear();
+		received.length = 0;
+		responseStatus = 200;
+	});
+
+	it('queues events without sending them, then the drain delivers them signed', async () => {
+		await emitEvent('transaction.created', { transaction: { id: 'tx1' } });
+		expect(received).toHaveLength(0);
+		const [[deliveryId, queued]] = [...store.entries()];
+		expect(queued.status).toBe('pending');
+
+		await expect(retryDueDeliveries()).resolves.toEqual({ attempted: 1 });
+
+		expect(received).toHaveLength(1);
+		const { headers, body } = received[0];
+		expect(JSON.parse(body)).toMatchObject({ type: 'transaction.created', data: { transaction: { id: 'tx1' } } });
+		expect(headers['x-ledger-event']).toBe('transaction.created');
+		expect(headers['x-ledger-delivery']).toBe(deliveryId);
+		expect(headers['x-signature']).toBe(`sha256=${signPayload(subscription.secret, String(headers['x-timestamp']), body)}`);
+		expect(store.get(deliveryId)).toMatchObject({ status: 'succeeded', attempts: 1, nextAttemptAt: null });
+
+		// Nothing is due anymore
+		await expect(retryDueDeliveries()).resolves.toEqual({ attempted: 0 });
+		expect(received).toHaveLength(1);
+	});
+
+	it('reschedules a failed delivery with backoff', async () => {
+		responseStatus = 503;
+		await emitEvent('transaction.deleted', { transaction: { id: 'tx1' } });
+
+		const before = Date.now();
+		await retryDueDeliveries();
+
+		const [delivery] = [...store.values()];
+		expect(delivery).toMatchObject({ status: 'pending', attempts: 1, lastStatusCode: 503, lastError: 'HTTP 503: down for maintenance' });
+		expect(delivery.nextAttemptAt.toDate().getTime()).toBeGreaterThanOrEqual(before + 60 * 1000);
+		await expect(retryDueDeliveries()).resolves.toEqual({ attempted: 0 });
+	});
+
+	it('sends each due delivery once when drains overlap', async () => {
+		await emitEvent('ping', { message: 'hello' });
+
+		const results = await Promise.all([retryDueDeliveries(), retryDueDeliveries()]);
+
+		expect(results.map(result => result.attempted).sort()).toEqual([0, 1]);
+		expect(received).toHaveLength(1);
+	});
+
+	it('sends right away when asked to', async () => {
+		await emitEvent('ping', { message: 'hello' }, { subscriptionId: 'sub1', deliverNow: true });
+		expect(received).toHaveLength(1);
+		await expect(retryDueDeliveries()).resolves.toEqual({ attempted: 0 });
+	});
+});
@@ -0,0 +1,220 @@
+import { randomUUID } from 'node:crypto';
+import { db } from './firebaseAdmin';
+import { signPayload } from './apiKeyAuth';
+import { getWebhookSubscription, listWebhookSubscriptions } from './firestore/webhookSubscriptions';
+import type { Transaction, WebhookDeliveryAttempt, WebhookEventType, WebhookSubscription } from './types';
+
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60 * 1000; // 1, 2, 4, 8, 16 minutes between attempts
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery is left alone this long, so a drain that dies mid-send is retried later
+const CLAIM_LEASE_MS = 3 * DELIVERY_TIMEOUT_MS;
+const DRAIN_CONCURRENCY = 10;
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Delay before the next attempt after `attempts` failed ones
+ */
+export function getRetryDelayMs(attempts: number): number {
+	return BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1);
+}
+
+/**
+ * Shape a transaction for an event payload (dates as ISO strings)
+ */
+export function serializeTransaction(transaction: Transaction): Record<string, unknown> {
+	return {
+		...transaction,
+		ts: transaction.ts.toISOString(),
+		createdAt: transaction.createdAt.toISOString(),
+	};
+}
+
+function subscribesTo(subscription: WebhookSubscription, event: WebhookEventType): boolean {
+	return subscription.events.length === 0 || subscription.events.includes(event);
+}
+
+/**
+ * Take a due delivery for sending by moving its next attempt past the lease, so concurrent
+ * drains don't send it twice. False when it isn't due (anymore).
+ */
+async function claimDelivery(ref: FirebaseFirestore.DocumentReference): Promise<boolean> {
+	return db.runTransaction(async (tx) => {
+		const doc = await tx.get(ref);
+		const nextAttemptAt: Date | undefined = doc.data()?.nextAttemptAt?.toDate();
+		if (!nextAttemptAt || nextAttemptAt > new Date()) {
+			return false;
+		}
+		tx.update(ref, { nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) });
+		return true;
+	});
+}
+
+/**
+ * Send one delivery and record the attempt. Failed attempts are rescheduled with
+ * exponential backoff until MAX_ATTEMPTS is reached.
+ */
+export async function attemptDelivery(deliveryId: string): Promise<void> {
+	const ref = db.collection('webhook_deliveries').doc(deliveryId);
+	const doc = await ref.get();
+	if (!doc.exists) {
+		throw new Error('Webhook delivery not found');
+	}
+
+	const data = doc.data()!;
+	const subscription = await getWebhookSubscription(data.subscriptionId);
+	if (!subscription) {
+		await ref.update({ status: 'failed', lastError: 'Subscription was deleted', nextAttemptAt: null });
+		return;
+	}
+
+	const timestamp = Math.floor(Date.now() / 1000).toString();
+	const startedAt = new Date();
+	let statusCode: number | undefined;
+	let error: string | undefined;
+
+	try {
+		const response = await fetch(subscription.url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'User-Agent': 'CompanyLedger-Webhooks/1.0',
+				'X-Ledger-Event': data.event,
+				'X-Ledger-Delivery': deliveryId,
+				'X-Timestamp': timestamp,
+				'X-Signature': `sha256=${signPayload(subscription.secret, timestamp, data.body)}`,
+			},
+			body: data.body,
+			signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+		});
+		statusCode = response.status;
+		if (!response.ok) {
+			const text = await response.text().catch(() => '');
+			error = `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ''}`;
+		}
+	} catch (err: any) {
+		error = (err.message || 'Request failed').slice(0, MAX_ERROR_LENGTH);
+	}
+
+	// Firestore rejects undefined values, so optional fields are only set when present
+	const attempt: WebhookDeliveryAttempt = {
+		at: startedAt,
+		durationMs: Date.now() - startedAt.getTime(),
+		...(statusCode !== undefined ? { statusCode } : {}),
+		...(error ? { error } : {}),
+	};
+
+	const attempts = (data.attempts || 0) + 1;
+	const succeeded = !error;
+	const updateData: Record<string, unknown> = {
+		attempts,
+		attemptLog: [...(data.attemptLog || []), attempt],
+		lastStatusCode: statusCode ?? null,
+		lastError: error ?? null,
+	};
+
+	if (succeeded) {
+		updateData.status = 'succeeded';
+		updateData.deliveredAt = new Date();
+		updateData.nextAttemptAt = null;
+	} else if (attempts >= MAX_ATTEMPTS) {
+		updateData.status = 'failed';
+		updateData.nextAttemptAt = null;
+	} else {
+		updateData.status = 'pending';
+		updateData.nextAttemptAt = new Date(Date.now() + getRetryDelayMs(attempts));
+	}
+
+	await ref.update(updateData);
+}
+
+/**
+ * Queue a delivery of one event for each active subscriber. Deliveries are sent by the
+ * cron drain (retryDueDeliveries), so a slow subscriber never holds up the ledger change
+ * that triggered it; deliverNow sends them right away (the admin's test event).
+ * Never throws - a failing subscriber must not break the ledger change that triggered it.
+ */
+export async function emitEvent(
+	event: WebhookEventType,
+	data: Record<string, unknown>,
+	options: { deliverNow?: boolean; subscriptionId?: string } = {}
+): Promise<void> {
+	try {
+		const subscriptions = options.subscriptionId
+			? [await getWebhookSubscription(options.subscriptionId)].filter((s): s is WebhookSubscription => !!s)
+			: (await listWebhookSubscriptions(true)).filter(s => subscribesTo(s, event));
+		if (subscriptions.length === 0) return;
+
+		const eventId = randomUUID();
+		const body = JSON.stringify({
+			id: eventId,
+			type: event,
+			createdAt: new Date().toISOString(),
+			data,
+		});
+
+		const batch = db.batch();
+		const deliveryIds: string[] = [];
+		for (const subscription of subscriptions) {
+			const deliveryRef = db.collection('webhook_deliveries').doc();
+			batch.set(deliveryRef, {
+				subscriptionId: subscription.id,
+				eventId,
+				event,
+				body,
+				status: 'pending',
+				attempts: 0,
+				attemptLog: [],
+				nextAttemptAt: options.deliverNow ? new Date(Date.now() + CLAIM_LEASE_MS) : new Date(),
+				createdAt: new Date(),
+			});
+			deliveryIds.push(deliveryRef.id);
+		}
+		await batch.commit();
+
+		if (options.deliverNow) {
+			await Promise.all(deliveryIds.map(id => attemptDelivery(id)));
+		}
+	} catch (error) {
+		console.error(`Failed to emit ${event} webhook event:`, error);
+	}
+}
+
+/**
+ * Send deliveries whose next attempt is due (new events and retries). Called by the cron
+ * endpoint and by Retry Due Deliveries; safe to run concurrently.
+ */
+export async function retryDueDeliveries(limit: number = 50): Promise<{ attempted: number }> {
+	// Only pending deliveries have nextAttemptAt set, so no status filter is needed
+	const snapshot = await db.collection('webhook_deliveries')
+		.where('nextAttemptAt', '<=', new Date())
+		.orderBy('nextAttemptAt')
+		.limit(limit)
+		.get();
+
+	let attempted = 0;
+	for (let i = 0; i < snapshot.docs.length; i += DRAIN_CONCURRENCY) {
+		await Promise.all(snapshot.docs.slice(i, i + DRAIN_CONCURRENCY).map(async (doc) => {
+			if (await claimDelivery(doc.ref)) {
+				await attemptDelivery(doc.id);
+				attempted++;
+			}
+		}));
+	}
+	return { attempted };
+}
+
+/**
+ * Send a delivery again, e.g. after the receiver was fixed. Resets the retry budget.
+ */
+export async function redeliver(deliveryId: string): Promise<void> {
+	const ref = db.collection('webhook_deliveries').doc(deliveryId);
+	const doc = await ref.get();
+	if (!doc.exists) {
+		throw new Error('Webhook delivery not found');
+	}
+
+	// Leased like a claim, so the cron drain doesn't send it at the same time
+	await ref.update({ status: 'pending', attempts: 0, nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) });
+	await attemptDelivery(deliveryId);
+}
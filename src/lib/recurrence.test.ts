@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+	describeRecurrence,
+	formatRRule,
+	listOccurrences,
+	nextOccurrence,
+	parseMonthDays,
+	parseRRule,
+	validateRecurrence,
+} from './recurrence';
+import type { RecurrenceRule } from './types';
+
+// Local calendar dates, as the schedule works on the server's calendar
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+const keys = (dates: Date[]) => dates.map(d => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`);
+
+describe('listOccurrences', () => {
+	it('clamps the 31st to short months without drifting', () => {
+		const rule: RecurrenceRule = { freq: 'monthly', interval: 1 };
+		expect(keys(listOccurrences(rule, day(2026, 1, 31), { count: 4 })))
+			.toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+	});
+
+	it('falls on Feb 29 in leap years only', () => {
+		const rule: RecurrenceRule = { freq: 'yearly', interval: 1 };
+		expect(keys(listOccurrences(rule, day(2024, 2, 29), { count: 3 })))
+			.toEqual(['2024-02-29', '2025-02-28', '2026-02-28']);
+	});
+
+	it('handles days of the month with the last day', () => {
+		const rule = validateRecurrence({ freq: 'monthly', interval: 1, byMonthDay: parseMonthDays('15, last') });
+		expect(keys(listOccurrences(rule, day(2026, 2, 1), { count: 4 })))
+			.toEqual(['2026-02-15', '2026-02-28', '2026-03-15', '2026-03-31']);
+	});
+
+	it('picks the last business day of the month', () => {
+		const rule = parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1');
+		expect(keys(listOccurrences(rule, day(2026, 1, 1), { count: 3 })))
+			.toEqual(['2026-01-30', '2026-02-27', '2026-03-31']);
+	});
+
+	it('repeats every other week on several weekdays', () => {
+		const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+		expect(keys(listOccurrences(rule, day(2026, 1, 5), { count: 4 })))
+			.toEqual(['2026-01-05', '2026-01-08', '2026-01-19', '2026-01-22']);
+	});
+
+	it('starts from `from` and stops at `until`', () => {
+		const rule: RecurrenceRule = { freq: 'monthly', interval: 3 };
+		expect(keys(listOccurrences(rule, day(2026, 1, 10), { count: 10, from: day(2026, 3, 1), until: day(2026, 12, 31) })))
+			.toEqual(['2026-04-10', '2026-07-10', '2026-10-10']);
+	});
+
+	it('never returns dates before the start date', () => {
+		const rule = validateRecurrence({ freq: 'monthly', interval: 1, byMonthDay: [1, 20] });
+		expect(keys(listOccurrences(rule, day(2026, 1, 10), { count: 2 })))
+			.toEqual(['2026-01-20', '2026-02-01']);
+	});
+});
+
+describe('nextOccurrence', () => {
+	it('returns the date after the given one', () => {
+		const rule: RecurrenceRule = { freq: 'weekly', interval: 1 };
+		expect(keys([nextOccurrence(rule, day(2026, 1, 5), day(2026, 1, 5))!])).toEqual(['2026-01-12']);
+	});
+});
+
+describe('parseRRule', () => {
+	it('reads a prefixed day as a position', () => {
+		expect(parseRRule('RRULE:FREQ=MONTHLY;BYDAY=-1FR')).toEqual({ freq: 'monthly', interval: 1, byWeekday: ['FR'], bySetPos: -1 });
+	});
+
+	it('round-trips through formatRRule', () => {
+		const text = 'FREQ=MONTHLY;INTERVAL=2;BYDAY=MO,FR;BYSETPOS=1';
+		expect(formatRRule(parseRRule(text))).toBe(text);
+	});
+
+	it('rejects several days with positions instead of dropping some', () => {
+		expect(() => parseRRule('FREQ=MONTHLY;BYDAY=2FR,4FR')).toThrow(/Only one day can have a position/);
+		expect(() => parseRRule('FREQ=MONTHLY;BYDAY=-1MO,FR')).toThrow(/Only one day can have a position/);
+	});
+
+	it('rejects a position given twice', () => {
+		expect(() => parseRRule('FREQ=MONTHLY;BYDAY=2FR;BYSETPOS=1')).toThrow(/BYSETPOS cannot be combined/);
+		expect(() => parseRRule('FREQ=MONTHLY;BYSETPOS=1;BYDAY=2FR')).toThrow(/BYSETPOS cannot be combined/);
+	});
+
+	it('rejects unsupported parts and frequencies', () => {
+		expect(() => parseRRule('FREQ=HOURLY')).toThrow(/Unsupported FREQ/);
+		expect(() => parseRRule('FREQ=DAILY;COUNT=3')).toThrow(/Unsupported recurrence part/);
+		expect(() => parseRRule('INTERVAL=2')).toThrow(/needs a FREQ/);
+	});
+});
+
+describe('validateRecurrence', () => {
+	it('sorts and de-duplicates', () => {
+		expect(validateRecurrence({ freq: 'monthly', interval: 1, byMonthDay: [15, -1, 15, 1] }).byMonthDay).toEqual([-1, 1, 15]);
+		expect(validateRecurrence({ freq: 'weekly', interval: 1, byWeekday: ['FR', 'MO'] }).byWeekday).toEqual(['MO', 'FR']);
+	});
+
+	it('rejects rules that do not fit together', () => {
+		expect(() => validateRecurrence({ freq: 'weekly', interval: 1, byMonthDay: [1] })).toThrow();
+		expect(() => validateRecurrence({ freq: 'monthly', interval: 0 })).toThrow();
+		expect(() => validateRecurrence({ freq: 'monthly', interval: 1, bySetPos: 1 })).toThrow();
+		expect(() => validateRecurrence({ freq: 'monthly', interval: 1, byWeekday: ['MO'], bySetPos: 6 })).toThrow();
+	});
+});
+
+describe('describeRecurrence', () => {
+	it('puts the rule in words', () => {
+		expect(describeRecurrence({ freq: 'weekly', interval: 2, byWeekday: ['MO', 'TH'] })).toBe('Every 2 weeks on Mon, Thu');
+		expect(describeRecurrence(validateRecurrence({ freq: 'monthly', interval: 1, byMonthDay: [15, -1] }))).toBe('Monthly on the last day and 15th');
+		expect(describeRecurrence(parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1'))).toBe('Monthly on the last weekday');
+	});
+});
@@ -0,0 +1,406 @@
+/**
+ * Recurrence rules for repeatable payments, modelled on iCalendar RRULE: a frequency with an
+ * interval, plus days of the month or weekdays. Every date is worked out from the start date
+ * and the period number, never from the previous date, so a payment on the 31st falls on the
+ * last day of shorter months and returns to the 31st after them.
+ */
+import type { RecurrenceRule, RepeatFrequency, Weekday } from './types';
+
+export const FREQUENCIES: RepeatFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+// Week starts on Monday, as in RRULE's default WKST
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export const WEEKDAY_NAMES: Record<Weekday, string> = {
+	MO: 'Mon',
+	TU: 'Tue',
+	WE: 'Wed',
+	TH: 'Thu',
+	FR: 'Fri',
+	SA: 'Sat',
+	SU: 'Sun',
+};
+
+export const MAX_INTERVAL = 999;
+
+// Periods scanned before giving up on a rule that produces no more dates
+const MAX_PERIODS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const POSITION_NAMES = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+/**
+ * The rule a payment follows; payments created before recurrence rules repeat every period
+ */
+export function getRecurrence(payment: { frequency: RepeatFrequency; recurrence?: RecurrenceRule | null }): RecurrenceRule {
+	return payment.recurrence || { freq: payment.frequency, interval: 1 };
+}
+
+/**
+ * Check a rule and return it in the form it is stored: sorted, without duplicates or empty parts
+ */
+export function validateRecurrence(rule: RecurrenceRule): RecurrenceRule {
+	if (!FREQUENCIES.includes(rule.freq)) {
+		throw new Error('Invalid frequency');
+	}
+	if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_INTERVAL) {
+		throw new Error(`Interval must be a whole number from 1 to ${MAX_INTERVAL}`);
+	}
+
+	const monthly = rule.freq === 'monthly' || rule.freq === 'yearly';
+	const normalized: RecurrenceRule = { freq: rule.freq, interval: rule.interval };
+
+	if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+		if (!monthly) {
+			throw new Error('Days of the month only apply to monthly and yearly payments');
+		}
+		if (rule.byWeekday && rule.byWeekday.length > 0) {
+			throw new Error('Choose either days of the month or weekdays');
+		}
+		for (const day of rule.byMonthDay) {
+			if (!Number.isInteger(day) || day === 0 || day < -31 || day > 31) {
+				throw new Error(`Invalid day of the month: ${day}`);
+			}
+		}
+		normalized.byMonthDay = Array.from(new Set(rule.byMonthDay)).sort((a, b) => a - b);
+	}
+
+	if (rule.byWeekday && rule.byWeekday.length > 0) {
+		if (rule.freq === 'daily') {
+			throw new Error('Weekdays do not apply to daily payments');
+		}
+		for (const day of rule.byWeekday) {
+			if (!WEEKDAYS.includes(day)) {
+				throw new Error(`Invalid weekday: ${day}`);
+			}
+		}
+		normalized.byWeekday = WEEKDAYS.filter(day => rule.byWeekday!.includes(day));
+	}
+
+	if (rule.bySetPos !== undefined) {
+		if (!monthly || !normalized.byWeekday) {
+			throw new Error('A weekday position needs a monthly or yearly payment with weekdays');
+		}
+		if (!Number.isInteger(rule.bySetPos) || rule.bySetPos === 0 || Math.abs(rule.bySetPos) > 5) {
+			throw new Error('Weekday position must be 1 to 5 or -1 to -5');
+		}
+		normalized.bySetPos = rule.bySetPos;
+	}
+
+	return normalized;
+}
+
+function daysInMonth(year: number, month: number): number {
+	return new Date(year, month + 1, 0).getDate();
+}
+
+// Calendar day with the start date's time of day; day and month overflow roll over as in Date
+function atStartTime(start: Date, year: number, month: number, day: number): Date {
+	return new Date(year, month, day, start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds());
+}
+
+// Days of the week as getDay() numbers (Sunday = 0)
+function weekdayNumber(day: Weekday): number {
+	return (WEEKDAYS.indexOf(day) + 1) % 7;
+}
+
+/**
+ * Days of one month the rule falls on, ascending
+ */
+function monthDays(rule: RecurrenceRule, start: Date, year: number, month: number): number[] {
+	const lastDay = daysInMonth(year, month);
+
+	if (rule.byWeekday) {
+		const wanted = rule.byWeekday.map(weekdayNumber);
+		const matches: number[] = [];
+		for (let day = 1; day <= lastDay; day++) {
+			if (wanted.includes(new Date(year, month, day).getDay())) {
+				matches.push(day);
+			}
+		}
+		if (rule.bySetPos === undefined) {
+			return matches;
+		}
+		const picked = rule.bySetPos > 0 ? matches[rule.bySetPos - 1] : matches[matches.length + rule.bySetPos];
+		return picked ? [picked] : [];
+	}
+
+	// Days past the end of a short month fall on its last day
+	const days = (rule.byMonthDay || [start.getDate()])
+		.map(day => (day > 0 ? Math.min(day, lastDay) : lastDay + day + 1))
+		.filter(day => day >= 1);
+	return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+/**
+ * Dates in the given period (0 = the one holding the start date), ascending. They may fall
+ * before the start date in the first period.
+ */
+function periodDates(rule: RecurrenceRule, start: Date, period: number): Date[] {
+	const year = start.getFullYear();
+	const month = start.getMonth();
+	const step = period * rule.interval;
+
+	switch (rule.freq) {
+		case 'daily':
+			return [atStartTime(start, year, month, start.getDate() + step)];
+		case 'weekly': {
+			const monday = start.getDate() - ((start.getDay() + 6) % 7) + step * 7;
+			const offsets = rule.byWeekday
+				? rule.byWeekday.map(day => WEEKDAYS.indexOf(day))
+				: [(start.getDay() + 6) % 7];
+			return offsets.map(offset => atStartTime(start, year, month, monday + offset));
+		}
+		case 'monthly': {
+			const first = new Date(year, month + step, 1);
+			return monthDays(rule, start, first.getFullYear(), first.getMonth())
+				.map(day => atStartTime(start, first.getFullYear(), first.getMonth(), day));
+		}
+		case 'yearly':
+			return monthDays(rule, start, year + step, month)
+				.map(day => atStartTime(start, year + step, month, day));
+	}
+}
+
+// A period at or just before the one holding the given date, so scanning from it misses nothing
+function periodBefore(rule: RecurrenceRule, start: Date, date: Date): number {
+	if (date <= start) {
+		return 0;
+	}
+	let elapsed: number;
+	switch (rule.freq) {
+		case 'daily':
+			elapsed = Math.floor((date.getTime() - start.getTime()) / DAY_MS);
+			break;
+		case 'weekly':
+			elapsed = Math.floor((date.getTime() - start.getTime()) / (7 * DAY_MS));
+			break;
+		case 'monthly':
+			elapsed = (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth();
+			break;
+		case 'yearly':
+			elapsed = date.getFullYear() - start.getFullYear();
+			break;
+	}
+	return Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+}
+
+/**
+ * Dates of the rule from the start date on, limited to those on or after `from` and on or
+ * before `until`, up to `count` of them
+ */
+export function listOccurrences(
+	rule: RecurrenceRule,
+	start: Date,
+	options: { count: number; from?: Date; until?: Date }
+): Date[] {
+	const from = options.from && options.from > start ? options.from : start;
+	const dates: Date[] = [];
+
+	const firstPeriod = periodBefore(rule, start, from);
+	for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+		for (const date of periodDates(rule, start, period)) {
+			if (date < from) continue;
+			if (options.until && date > options.until) return dates;
+			dates.push(date);
+			if (dates.length >= options.count) return dates;
+		}
+	}
+	return dates;
+}
+
+/**
+ * The first date of the rule after the given one, or null when there is none
+ */
+export function nextOccurrence(rule: RecurrenceRule, start: Date, after: Date): Date | null {
+	const [next] = listOccurrences(rule, start, { count: 1, from: new Date(after.getTime() + 1) });
+	return next || null;
+}
+
+function ordinal(n: number): string {
+	const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+	return `${n}${suffix}`;
+}
+
+function joinWithAnd(items: string[]): string {
+	return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+}
+
+function positionName(position: number): string {
+	if (position === -1) return 'last';
+	return position > 0 ? POSITION_NAMES[position - 1] : `${POSITION_NAMES[-position - 1]} to last`;
+}
+
+function monthDayName(day: number): string {
+	if (day === -1) return 'last day';
+	return day > 0 ? ordinal(day) : `${ordinal(-day)} to last day`;
+}
+
+/**
+ * The rule in words, e.g. "Every 2 weeks on Mon, Thu" or "Monthly on the 15th and last day".
+ * Yearly rules name the month when given the start date.
+ */
+export function describeRecurrence(rule: RecurrenceRule, start?: Date): string {
+	const units: Record<RepeatFrequency, string> = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' };
+	let text = rule.interval === 1
+		? rule.freq.charAt(0).toUpperCase() + rule.freq.slice(1)
+		: `Every ${rule.interval} ${units[rule.freq]}s`;
+
+	if (rule.freq === 'yearly' && start) {
+		text += ` in ${start.toLocaleString('en-US', { month: 'long' })}`;
+	}
+
+	if (rule.byWeekday) {
+		const names = rule.byWeekday.map(day => WEEKDAY_NAMES[day]).join(', ');
+		const workweek = rule.byWeekday.join(',') === 'MO,TU,WE,TH,FR';
+		if (rule.freq === 'weekly') {
+			text += ` on ${names}`;
+		} else if (rule.bySetPos !== undefined) {
+			text += ` on the ${positionName(rule.bySetPos)} ${workweek ? 'weekday' : names}`;
+		} else {
+			text += ` on every ${workweek ? 'weekday' : names}`;
+		}
+	}
+
+	if (rule.byMonthDay) {
+		text += ` on the ${joinWithAnd(rule.byMonthDay.map(monthDayName))}`;
+	}
+
+	return text;
+}
+
+/**
+ * Days of the month as typed in the form: numbers separated by commas, negative counting from
+ * the end, "last" for the last day
+ */
+export function parseMonthDays(text: string): number[] {
+	return text
+		.split(/[\s,]+/)
+		.filter(Boolean)
+		.map(token => {
+			const day = token.toLowerCase() === 'last' ? -1 : Number(token);
+			if (!Number.isInteger(day)) {
+				throw new Error(`Invalid day of the month: "${token}"`);
+			}
+			return day;
+		});
+}
+
+export function formatMonthDays(days: number[] | undefined): string {
+	return (days || []).map(day => (day === -1 ? 'last' : String(day))).join(', ');
+}
+
+/**
+ * Read the recurrence fields of a repeatable payment form. Fields that don't apply to the
+ * chosen frequency are ignored, as the form only hides them.
+ */
+export function parseRecurrenceForm(formData: FormData): RecurrenceRule {
+	const freq = formData.get('frequency')?.toString() as RepeatFrequency;
+	const intervalText = formData.get('interval')?.toString().trim();
+	const rule: RecurrenceRule = { freq, interval: intervalText ? Number(intervalText) : 1 };
+
+	const monthly = freq === 'monthly' || freq === 'yearly';
+	const repeatOn = formData.get('repeatOn')?.toString() || '';
+	const weekdays = formData.getAll('byWeekday').map(value => value.toString() as Weekday);
+
+	if (freq === 'weekly') {
+		rule.byWeekday = weekdays;
+	} else if (monthly && repeatOn === 'weekday') {
+		if (weekdays.length === 0) {
+			throw new Error('Choose at least one weekday');
+		}
+		rule.byWeekday = weekdays;
+		const setPos = formData.get('bySetPos')?.toString();
+		if (setPos) {
+			rule.bySetPos = Number(setPos);
+		}
+	} else if (monthly && repeatOn === 'monthDay') {
+		rule.byMonthDay = parseMonthDays(formData.get('byMonthDay')?.toString() || '');
+		if (rule.byMonthDay.length === 0) {
+			throw new Error('Enter at least one day of the month');
+		}
+	}
+
+	return validateRecurrence(rule);
+}
+
+const RRULE_FREQS: Record<string, RepeatFrequency> = {
+	DAILY: 'daily',
+	WEEKLY: 'weekly',
+	MONTHLY: 'monthly',
+	YEARLY: 'yearly',
+};
+
+/**
+ * Parse an iCalendar RRULE such as "FREQ=MONTHLY;BYMONTHDAY=15,-1" or "FREQ=MONTHLY;BYDAY=-1FR".
+ * Only FREQ, INTERVAL, BYMONTHDAY, BYDAY and BYSETPOS are supported.
+ */
+export function parseRRule(text: string): RecurrenceRule {
+	const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+	for (const part of text.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+		const [key, value = ''] = part.split('=').map(s => s.trim().toUpperCase());
+		switch (key) {
+			case 'FREQ':
+				rule.freq = RRULE_FREQS[value];
+				if (!rule.freq) {
+					throw new Error(`Unsupported FREQ: ${value}`);
+				}
+				break;
+			case 'INTERVAL':
+				rule.interval = Number(value);
+				break;
+			case 'BYMONTHDAY':
+				rule.byMonthDay = value.split(',').map(Number);
+				break;
+			case 'BYDAY': {
+				const tokens = value.split(',');
+				rule.byWeekday = tokens.map(token => {
+					// A prefixed day ("-1FR") is shorthand for BYSETPOS
+					const match = token.match(/^([+-]?\d+)?([A-Z]{2})$/);
+					if (!match) {
+						throw new Error(`Invalid BYDAY value: ${token}`);
+					}
+					if (match[1]) {
+						// "2FR,4FR" or "-1MO,-1FR" mean one match per day, which a single BYSETPOS can't hold
+						if (tokens.length > 1) {
+							throw new Error(`Unsupported BYDAY value: ${value}. Only one day can have a position (e.g. -1FR)`);
+						}
+						if (rule.bySetPos !== undefined) {
+							throw new Error('BYSETPOS cannot be combined with a position in BYDAY');
+						}
+						rule.bySetPos = Number(match[1]);
+					}
+					return match[2] as Weekday;
+				});
+				break;
+			}
+			case 'BYSETPOS':
+				if (rule.bySetPos !== undefined) {
+					throw new Error('BYSETPOS cannot be combined with a position in BYDAY');
+				}
+				rule.bySetPos = Number(value);
+				break;
+			default:
+				throw new Error(`Unsupported recurrence part: ${key}`);
+		}
+	}
+
+	if (!rule.freq) {
+		throw new Error('Recurrence needs a FREQ');
+	}
+	return validateRecurrence(rule as RecurrenceRule);
+}
+
+/**
+ * The rule as an iCalendar RRULE value
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+	const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+	if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+	if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+	if (rule.byWeekday) parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+	if (rule.bySetPos !== undefined) parts.push(`BYSETPOS=${rule.bySetPos}`);
+	return parts.join(';');
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+	buildSearchTokens,
+	isSingleTokenSearch,
+	matchesSearch,
+	parseSearchParams,
+	pickSearchToken,
+	toSearchWords,
+} from './search';
+
+describe('toSearchWords', () => {
+	it('lowercases, strips accents and splits on anything but letters and digits', () => {
+		expect(toSearchWords('ACME Corp. — Αθήνα/2026')).toEqual(['acme', 'corp', 'αθηνα', '2026']);
+		expect(toSearchWords('  ')).toEqual([]);
+	});
+});
+
+describe('buildSearchTokens', () => {
+	it('stores every prefix of every word, per field', () => {
+		const tokens = buildSearchTokens({ companyName: 'Acme Co', note: 'ok' });
+		expect(tokens).toEqual(expect.arrayContaining([
+			'company:a', 'company:ac', 'company:acm', 'company:acme', 'company:c', 'company:co', 'note:o', 'note:ok',
+		]));
+		expect(tokens).toHaveLength(8);
+	});
+
+	it('caps prefixes at 15 characters and tokens per field', () => {
+		expect(buildSearchTokens({ clickupId: 'abcdefghijklmnopqrst' })).toHaveLength(15);
+		const longNote = Array.from({ length: 100 }, (_, i) => `word${i}abcdef`).join(' ');
+		expect(buildSearchTokens({ note: longNote })).toHaveLength(300);
+	});
+});
+
+describe('pickSearchToken', () => {
+	it('uses the longest word of any field', () => {
+		expect(pickSearchToken({ companyName: 'acme', note: 'invoice march' })).toBe('note:invoice');
+		expect(pickSearchToken({})).toBeUndefined();
+	});
+
+	it('cuts words longer than the stored prefixes', () => {
+		expect(pickSearchToken({ clickupId: 'abcdefghijklmnopqrst' })).toBe('clickup:abcdefghijklmno');
+	});
+});
+
+describe('matchesSearch', () => {
+	it('needs every query word to start some word of the value', () => {
+		expect(matchesSearch('ACME Corporation', 'acme co')).toBe(true);
+		expect(matchesSearch('ACME Corporation', 'corp acme')).toBe(true);
+		expect(matchesSearch('ACME Corporation', 'acme ltd')).toBe(false);
+		expect(matchesSearch('Αθήνα', 'αθη')).toBe(true);
+		expect(matchesSearch(undefined, 'acme')).toBe(false);
+	});
+});
+
+describe('isSingleTokenSearch', () => {
+	it('is true only for one short word in total', () => {
+		expect(isSingleTokenSearch({})).toBe(true);
+		expect(isSingleTokenSearch({ note: 'rent' })).toBe(true);
+		expect(isSingleTokenSearch({ note: 'rent march' })).toBe(false);
+		expect(isSingleTokenSearch({ note: 'rent', companyName: 'acme' })).toBe(false);
+		expect(isSingleTokenSearch({ clickupId: 'abcdefghijklmnop' })).toBe(false);
+	});
+});
+
+describe('parseSearchParams', () => {
+	it('trims text filters and reads amounts in euros as cents', () => {
+		const params = new URLSearchParams('companyName=%20acme%20&note=&minAmount=12.5&maxAmount=abc');
+		expect(parseSearchParams(params)).toEqual({
+			clickupId: undefined,
+			companyName: 'acme',
+			note: undefined,
+			minAmountCents: 1250,
+			maxAmountCents: undefined,
+		});
+	});
+});
@@ -0,0 +1,108 @@
+/**
+ * Search tokens for transactions. Firestore has no text search, so every word of the searchable
+ * fields is stored as a list of prefixes ("company:ac", "company:acm", ...). A query can then
+ * use array-contains on one token and check the remaining words in memory.
+ */
+
+export type SearchField = 'clickupId' | 'companyName' | 'note';
+
+const FIELD_PREFIXES: Record<SearchField, string> = {
+	clickupId: 'clickup',
+	companyName: 'company',
+	note: 'note',
+};
+
+const MAX_PREFIX_LENGTH = 15;
+const MAX_TOKENS_PER_FIELD = 300; // Keeps long notes from blowing up the index
+
+/**
+ * Lowercase, strip accents (so "Αθήνα" matches "αθηνα") and split into words
+ */
+export function toSearchWords(value: string): string[] {
+	return value
+		.normalize('NFD')
+		.replace(/\p{M}/gu, '')
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(Boolean);
+}
+
+function token(field: SearchField, prefix: string): string {
+	return `${FIELD_PREFIXES[field]}:${prefix}`;
+}
+
+/**
+ * Build the searchTokens array stored on a transaction
+ */
+export function buildSearchTokens(values: Partial<Record<SearchField, string | undefined>>): string[] {
+	const tokens = new Set<string>();
+	for (const field of Object.keys(FIELD_PREFIXES) as SearchField[]) {
+		const fieldTokens = new Set<string>();
+		for (const word of toSearchWords(values[field] || '')) {
+			const max = Math.min(word.length, MAX_PREFIX_LENGTH);
+			for (let length = 1; length <= max && fieldTokens.size < MAX_TOKENS_PER_FIELD; length++) {
+				fieldTokens.add(token(field, word.slice(0, length)));
+			}
+		}
+		fieldTokens.forEach(t => tokens.add(t));
+	}
+	return Array.from(tokens);
+}
+
+/**
+ * Pick the most selective token of a search (the longest word) for the indexed query
+ */
+export function pickSearchToken(search: Partial<Record<SearchField, string | undefined>>): string | undefined {
+	let best: { field: SearchField; word: string } | undefined;
+	for (const field of Object.keys(FIELD_PREFIXES) as SearchField[]) {
+		for (const word of toSearchWords(search[field] || '')) {
+			if (!best || word.length > best.word.length) {
+				best = { field, word };
+			}
+		}
+	}
+	return best ? token(best.field, best.word.slice(0, MAX_PREFIX_LENGTH)) : undefined;
+}
+
+/**
+ * True if every word of the query is a prefix of some word in the value
+ */
+export function matchesSearch(value: string | undefined, query: string): boolean {
+	const words = toSearchWords(value || '');
+	return toSearchWords(query).every(q => words.some(word => word.startsWith(q)));
+}
+
+/**
+ * True if the search can be answered by the indexed token alone (a single word of at most
+ * MAX_PREFIX_LENGTH characters), so no rows need to be checked in memory
+ */
+export function isSingleTokenSearch(search: Partial<Record<SearchField, string | undefined>>): boolean {
+	const words = (Object.keys(FIELD_PREFIXES) as SearchField[]).flatMap(field => toSearchWords(search[field] || ''));
+	return words.length <= 1 && words.every(word => word.length <= MAX_PREFIX_LENGTH);
+}
+
+function parseAmountParam(value: string | null): number | undefined {
+	if (!value) return undefined;
+	const cents = Math.round(parseFloat(value) * 100);
+	return isNaN(cents) ? undefined : cents;
+}
+
+/**
+ * Read the search filters shared by the transactions page and the CSV export
+ * (clickupId, companyName, note, minAmount/maxAmount in euros)
+ */
+export function parseSearchParams(params: URLSearchParams): {
+	clickupId?: string;
+	companyName?: string;
+	note?: string;
+	minAmountCents?: number;
+	maxAmountCents?: number;
+} {
+	return {
+		clickupId: params.get('clickupId')?.trim() || undefined,
+		companyName: params.get('companyName')?.trim() || undefined,
+		note: params.get('note')?.trim() || undefined,
+		minAmountCents: parseAmountParam(params.get('minAmount')),
+		maxAmountCents: parseAmountParam(params.get('maxAmount')),
+	};
+}
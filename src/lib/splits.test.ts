@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { lineCategoryIds, MAX_SPLIT_LINES, parseSplitForm, transactionLines, validateSplits } from './splits';
+
+describe('transactionLines', () => {
+	it('is the splits, or one line for the whole amount', () => {
+		const splits = [{ categoryId: 'sales', amountCents: 600 }, { categoryId: 'services', amountCents: 400 }];
+		expect(transactionLines({ categoryId: 'sales', amountCents: 1000, splits })).toBe(splits);
+		expect(transactionLines({ categoryId: 'sales', amountCents: 1000, splits: [] })).toEqual([{ categoryId: 'sales', amountCents: 1000 }]);
+		expect(transactionLines({ categoryId: 'sales', amountCents: 1000 })).toEqual([{ categoryId: 'sales', amountCents: 1000 }]);
+	});
+});
+
+describe('lineCategoryIds', () => {
+	it('lists each category once', () => {
+		expect(lineCategoryIds({
+			categoryId: 'sales',
+			amountCents: 1000,
+			splits: [
+				{ categoryId: 'sales', amountCents: 500 },
+				{ categoryId: 'services', amountCents: 300 },
+				{ categoryId: 'sales', amountCents: 200 },
+			],
+		})).toEqual(['sales', 'services']);
+	});
+});
+
+describe('validateSplits', () => {
+	it('keeps lines that add up to the total, without empty notes', () => {
+		expect(validateSplits(1000, [
+			{ categoryId: 'sales', amountCents: 600, note: '' },
+			{ categoryId: 'services', amountCents: 400, note: 'Setup' },
+		])).toEqual([
+			{ categoryId: 'sales', amountCents: 600 },
+			{ categoryId: 'services', amountCents: 400, note: 'Setup' },
+		]);
+	});
+
+	it('has nothing to split without lines', () => {
+		expect(validateSplits(1000, undefined)).toBeUndefined();
+		expect(validateSplits(1000, [])).toBeUndefined();
+	});
+
+	it('rejects lines that do not make a split', () => {
+		const line = { categoryId: 'sales', amountCents: 100 };
+		expect(() => validateSplits(100, [line])).toThrow('A split needs at least two lines');
+		expect(() => validateSplits(2100, Array(MAX_SPLIT_LINES + 1).fill(line))).toThrow(`A split can have at most ${MAX_SPLIT_LINES} lines`);
+		expect(() => validateSplits(200, [line, { categoryId: '', amountCents: 100 }])).toThrow('Every split line needs a category');
+		expect(() => validateSplits(100, [line, { categoryId: 'rent', amountCents: 0 }])).toThrow('Split line amounts must be greater than 0');
+		expect(() => validateSplits(200, [line, { categoryId: 'rent', amountCents: 10.5 }])).toThrow('Split line amounts must be greater than 0');
+		expect(() => validateSplits(1000, [line, line])).toThrow('Split lines add up to €2.00, not the total of €10.00');
+	});
+});
+
+describe('parseSplitForm', () => {
+	it('reads one line per set of fields and skips empty ones', () => {
+		const form = new FormData();
+		for (const [categoryId, amount, note] of [['sales', '6.50', ''], ['', '', ''], ['services', ' 3.5 ', 'Setup']]) {
+			form.append('splitCategoryId', categoryId);
+			form.append('splitAmount', amount);
+			form.append('splitNote', note);
+		}
+
+		expect(parseSplitForm(form)).toEqual([
+			{ categoryId: 'sales', amountCents: 650 },
+			{ categoryId: 'services', amountCents: 350, note: 'Setup' },
+		]);
+	});
+
+	it('needs an amount on every line that is filled in', () => {
+		const form = new FormData();
+		form.append('splitCategoryId', 'sales');
+		form.append('splitAmount', '');
+		expect(() => parseSplitForm(form)).toThrow('Split line 1 needs an amount');
+	});
+});
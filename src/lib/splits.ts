@@ -0,0 +1,87 @@
+/**
+ * Split transactions. A transaction can carry two or more lines, each with its own category,
+ * amount and note, that add up to its total. Category totals, filters and the CSV export work
+ * on lines; a transaction without splits is a single line for its whole amount.
+ */
+import type { TransactionSplit } from './types';
+
+// Keeps a split (and its summary updates) well inside one write batch
+export const MAX_SPLIT_LINES = 20;
+
+/**
+ * The category lines of a transaction: its splits, or one line for the whole amount
+ */
+export function transactionLines(tx: {
+	categoryId: string;
+	amountCents: number;
+	splits?: TransactionSplit[];
+}): TransactionSplit[] {
+	return tx.splits && tx.splits.length > 0
+		? tx.splits
+		: [{ categoryId: tx.categoryId, amountCents: tx.amountCents }];
+}
+
+/**
+ * Every category a transaction is booked to, stored as categoryIds for array-contains filtering
+ */
+export function lineCategoryIds(tx: { categoryId: string; amountCents: number; splits?: TransactionSplit[] }): string[] {
+	return Array.from(new Set(transactionLines(tx).map(line => line.categoryId)));
+}
+
+/**
+ * Check split lines against the transaction total. Returns the lines to store, or undefined
+ * when there is nothing to split.
+ */
+export function validateSplits(amountCents: number, splits: TransactionSplit[] | undefined): TransactionSplit[] | undefined {
+	if (!splits || splits.length === 0) {
+		return undefined;
+	}
+	if (splits.length < 2) {
+		throw new Error('A split needs at least two lines');
+	}
+	if (splits.length > MAX_SPLIT_LINES) {
+		throw new Error(`A split can have at most ${MAX_SPLIT_LINES} lines`);
+	}
+	for (const line of splits) {
+		if (!line.categoryId) {
+			throw new Error('Every split line needs a category');
+		}
+		if (!Number.isInteger(line.amountCents) || line.amountCents <= 0) {
+			throw new Error('Split line amounts must be greater than 0');
+		}
+	}
+	const total = splits.reduce((sum, line) => sum + line.amountCents, 0);
+	if (total !== amountCents) {
+		throw new Error(`Split lines add up to €${(total / 100).toFixed(2)}, not the total of €${(amountCents / 100).toFixed(2)}`);
+	}
+	return splits.map(line => ({
+		categoryId: line.categoryId,
+		amountCents: line.amountCents,
+		...(line.note ? { note: line.note } : {}),
+	}));
+}
+
+/**
+ * Read the split lines of a transaction form (splitCategoryId, splitAmount and splitNote,
+ * one of each per line). Lines left completely empty are skipped.
+ */
+export function parseSplitForm(formData: FormData): TransactionSplit[] {
+	const categoryIds = formData.getAll('splitCategoryId').map(value => value.toString());
+	const amounts = formData.getAll('splitAmount').map(value => value.toString().trim());
+	const notes = formData.getAll('splitNote').map(value => value.toString().trim());
+
+	const lines: TransactionSplit[] = [];
+	for (let i = 0; i < Math.max(categoryIds.length, amounts.length); i++) {
+		const categoryId = categoryIds[i] || '';
+		const amount = amounts[i] || '';
+		const note = notes[i] || '';
+		if (!categoryId && !amount && !note) continue;
+
+		const amountCents = Math.round(parseFloat(amount) * 100);
+		if (isNaN(amountCents)) {
+			throw new Error(`Split line ${lines.length + 1} needs an amount`);
+		}
+		lines.push({ categoryId, amountCents, ...(note ? { note } : {}) });
+	}
+	return lines;
+}
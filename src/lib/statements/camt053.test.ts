@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseCamt053 } from './camt053';
+
+const entry = (body: string) => `<Ntry>${body}</Ntry>`;
+
+const statement = (...entries: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+	<BkToCstmrStmt><Stmt>${entries.join('\n')}</Stmt></BkToCstmrStmt>
+</Document>`;
+
+describe('parseCamt053', () => {
+	it('reads booked entries with their party, texts and reference', () => {
+		const lines = parseCamt053(statement(
+			entry(`
+				<Amt Ccy="EUR">1250.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts>BOOK</Sts>
+				<BookgDt><Dt>2026-03-02</Dt></BookgDt><ValDt><Dt>2026-03-03</Dt></ValDt>
+				<NtryDtls><TxDtls>
+					<Refs><EndToEndId>INV-2026-17</EndToEndId></Refs>
+					<RltdPties><Dbtr><Nm>ACME S.A.</Nm></Dbtr><Cdtr><Nm>Our Company</Nm></Cdtr></RltdPties>
+					<RmtInf><Ustrd>Invoice 17 &amp; 18</Ustrd></RmtInf>
+				</TxDtls></NtryDtls>`),
+			entry(`
+				<Amt Ccy="EUR">80.50</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+				<BookgDt><DtTm>2026-03-04T09:30:00</DtTm></BookgDt>
+				<AcctSvcrRef>BANK-REF-9</AcctSvcrRef>
+				<NtryDtls><TxDtls>
+					<Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+					<RltdPties><Dbtr><Nm>Our Company</Nm></Dbtr><Cdtr><Nm>Power Co</Nm></Cdtr></RltdPties>
+				</TxDtls></NtryDtls>
+				<AddtlNtryInf>Direct debit
+					electricity</AddtlNtryInf>`),
+		));
+
+		expect(lines).toEqual([
+			{ dateKey: '2026-03-02', amountCents: 125000, description: 'Invoice 17 & 18', counterparty: 'ACME S.A.', reference: 'INV-2026-17' },
+			{ dateKey: '2026-03-04', amountCents: -8050, description: 'Direct debit electricity', counterparty: 'Power Co', reference: 'BANK-REF-9' },
+		]);
+	});
+
+	it('skips pending entries and ignores namespace prefixes', () => {
+		const lines = parseCamt053(`<ns2:BkToCstmrStmt>
+			<ns2:Ntry><ns2:Amt>10.00</ns2:Amt><ns2:CdtDbtInd>CRDT</ns2:CdtDbtInd><ns2:Sts>PDNG</ns2:Sts><ns2:BookgDt><ns2:Dt>2026-03-05</ns2:Dt></ns2:BookgDt></ns2:Ntry>
+			<ns2:Ntry><ns2:Amt>20.00</ns2:Amt><ns2:CdtDbtInd>CRDT</ns2:CdtDbtInd><ns2:Sts><ns2:Cd>BOOK</ns2:Cd></ns2:Sts><ns2:BookgDt><ns2:Dt>2026-03-06</ns2:Dt></ns2:BookgDt></ns2:Ntry>
+		</ns2:BkToCstmrStmt>`);
+
+		expect(lines).toEqual([{ dateKey: '2026-03-06', amountCents: 2000, description: '', counterparty: undefined, reference: undefined }]);
+	});
+
+	it('rejects an entry without a booking date', () => {
+		expect(() => parseCamt053(statement(entry('<Amt>5.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>'))))
+			.toThrow('camt.053 entry 1 has no valid amount or booking date');
+	});
+});
@@ -0,0 +1,65 @@
+import type { ParsedStatementLine } from './index';
+import { cleanText, parseAmountCents, parseStatementDate } from './values';
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decode(text: string): string {
+	return text.replace(/&(amp|lt|gt|quot|apos);/g, (_, name) => ENTITIES[name]);
+}
+
+/**
+ * Every block of one element, ignoring namespace prefixes (e.g. <ns2:Ntry>)
+ */
+function blocks(xml: string, name: string): string[] {
+	const pattern = new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'g');
+	return Array.from(xml.matchAll(pattern), m => m[1]);
+}
+
+/**
+ * Text of the first element with the given name, or undefined
+ */
+function text(xml: string, name: string): string | undefined {
+	const value = blocks(xml, name)[0];
+	return value === undefined ? undefined : decode(value.replace(/<[^>]+>/g, ' ')).trim();
+}
+
+/**
+ * Parse an ISO 20022 camt.053 (bank to customer statement) file. Only booked entries
+ * are read; the entry amount and booking date are used, not the per-transaction details.
+ */
+export function parseCamt053(xml: string): ParsedStatementLine[] {
+	const lines: ParsedStatementLine[] = [];
+
+	for (const entry of blocks(xml, 'Ntry')) {
+		const status = text(entry, 'Sts');
+		if (status && !status.includes('BOOK')) continue;
+
+		const amountCents = parseAmountCents(text(entry, 'Amt') || '');
+		const booking = blocks(entry, 'BookgDt')[0] ?? blocks(entry, 'ValDt')[0] ?? '';
+		const dateKey = parseStatementDate(text(booking, 'Dt') || text(booking, 'DtTm') || '');
+		if (isNaN(amountCents) || !dateKey) {
+			throw new Error(`camt.053 entry ${lines.length + 1} has no valid amount or booking date`);
+		}
+		const debit = text(entry, 'CdtDbtInd') === 'DBIT';
+
+		// The other party: the creditor on payments out, the debtor on payments in
+		const party = blocks(entry, debit ? 'Cdtr' : 'Dbtr')[0];
+		const endToEndId = text(entry, 'EndToEndId');
+
+		lines.push({
+			dateKey,
+			amountCents: debit ? -Math.abs(amountCents) : Math.abs(amountCents),
+			description: cleanText([
+				...blocks(entry, 'Ustrd').map(decode),
+				text(entry, 'AddtlTxInf'),
+				text(entry, 'AddtlNtryInf'),
+			].filter(Boolean).join(' ')),
+			counterparty: party ? cleanText(text(party, 'Nm')) || undefined : undefined,
+			reference: endToEndId && endToEndId !== 'NOTPROVIDED'
+				? endToEndId
+				: text(entry, 'AcctSvcrRef') || text(entry, 'NtryRef') || undefined,
+		});
+	}
+
+	return lines;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvStatement } from './csvStatement';
+
+describe('parseCsvStatement', () => {
+	it('reads a signed amount column and skips rows without a date', () => {
+		const lines = parseCsvStatement([
+			'Booking Date;Description;Name;Amount;Reference',
+			'01/03/2026;Opening balance;;1.000,00;',
+			'02/03/2026;"Invoice 17; 18";ACME S.A.;1.250,00;INV-2026-17',
+			'04/03/2026;Direct debit;Power Co;-80,50;',
+			'Closing balance;;;2.169,50;',
+		].join('\n'));
+
+		expect(lines).toEqual([
+			{ dateKey: '2026-03-01', amountCents: 100000, description: 'Opening balance', counterparty: undefined, reference: undefined },
+			{ dateKey: '2026-03-02', amountCents: 125000, description: 'Invoice 17; 18', counterparty: 'ACME S.A.', reference: 'INV-2026-17' },
+			{ dateKey: '2026-03-04', amountCents: -8050, description: 'Direct debit', counterparty: 'Power Co', reference: undefined },
+		]);
+	});
+
+	it('reads separate debit and credit columns, with Greek headers', () => {
+		const lines = parseCsvStatement([
+			'Ημερομηνία;Αιτιολογία;Χρέωση;Πίστωση',
+			'02/03/2026;Κατάθεση;;200,00',
+			'03/03/2026;Ενοίκιο;500,00;',
+		].join('\n'));
+
+		expect(lines.map(line => [line.dateKey, line.amountCents, line.description])).toEqual([
+			['2026-03-02', 20000, 'Κατάθεση'],
+			['2026-03-03', -50000, 'Ενοίκιο'],
+		]);
+	});
+
+	it('names the row with an amount it cannot read', () => {
+		expect(() => parseCsvStatement('Date,Amount\n2026-03-02,10.00\n2026-03-03,ten')).toThrow('Row 3: invalid amount');
+	});
+
+	it('needs a date and an amount column', () => {
+		expect(() => parseCsvStatement('Date,Description\n2026-03-02,Fee')).toThrow('CSV statement needs a date column');
+	});
+});
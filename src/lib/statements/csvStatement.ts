@@ -0,0 +1,71 @@
+import type { ParsedStatementLine } from './index';
+import { parseCsvRecords } from '../csv';
+import { cleanText, parseAmountCents, parseStatementDate } from './values';
+
+// Header names used by common bank exports, English and Greek, lower-cased
+const COLUMNS = {
+	date: ['date', 'booking date', 'transaction date', 'posting date', 'value date', 'ημερομηνία', 'ημερομηνία συναλλαγής', 'ημ/νία'],
+	amount: ['amount', 'ποσό', 'ποσό συναλλαγής'],
+	debit: ['debit', 'withdrawal', 'χρέωση', 'χρεώσεις'],
+	credit: ['credit', 'deposit', 'πίστωση', 'πιστώσεις'],
+	description: ['description', 'details', 'narrative', 'memo', 'purpose', 'αιτιολογία', 'περιγραφή'],
+	counterparty: ['counterparty', 'name', 'payee', 'beneficiary', 'δικαιούχος', 'αντισυμβαλλόμενος'],
+	reference: ['reference', 'ref', 'transaction id', 'αριθμός αναφοράς', 'αναφορά'],
+};
+
+function findColumn(headers: string[], names: string[]): string | undefined {
+	return names.find(name => headers.includes(name));
+}
+
+/**
+ * Parse a CSV bank export. Needs a date column and either a signed amount column or
+ * separate debit and credit columns. Rows without a readable date (opening and closing
+ * balance lines, totals) are skipped.
+ */
+export function parseCsvStatement(content: string): ParsedStatementLine[] {
+	const records = parseCsvRecords(content);
+	if (records.length === 0) {
+		return [];
+	}
+
+	const headers = Object.keys(records[0]);
+	const dateColumn = findColumn(headers, COLUMNS.date);
+	const amountColumn = findColumn(headers, COLUMNS.amount);
+	const debitColumn = findColumn(headers, COLUMNS.debit);
+	const creditColumn = findColumn(headers, COLUMNS.credit);
+	if (!dateColumn || (!amountColumn && !(debitColumn && creditColumn))) {
+		throw new Error('CSV statement needs a date column and an amount column (or debit and credit columns)');
+	}
+	const descriptionColumn = findColumn(headers, COLUMNS.description);
+	const counterpartyColumn = findColumn(headers, COLUMNS.counterparty);
+	const referenceColumn = findColumn(headers, COLUMNS.reference);
+
+	const lines: ParsedStatementLine[] = [];
+	records.forEach((record, i) => {
+		const dateKey = parseStatementDate(record[dateColumn]);
+		if (!dateKey) return;
+
+		let amountCents: number;
+		if (amountColumn) {
+			amountCents = parseAmountCents(record[amountColumn]);
+		} else {
+			const debit = record[debitColumn!] ? parseAmountCents(record[debitColumn!]) : 0;
+			const credit = record[creditColumn!] ? parseAmountCents(record[creditColumn!]) : 0;
+			amountCents = credit - Math.abs(debit);
+		}
+		if (isNaN(amountCents)) {
+			// Row numbers as seen in a spreadsheet, header being row 1
+			throw new Error(`Row ${i + 2}: invalid amount`);
+		}
+
+		lines.push({
+			dateKey,
+			amountCents,
+			description: cleanText(descriptionColumn ? record[descriptionColumn] : ''),
+			counterparty: (counterpartyColumn && cleanText(record[counterpartyColumn])) || undefined,
+			reference: (referenceColumn && record[referenceColumn]) || undefined,
+		});
+	});
+
+	return lines;
+}
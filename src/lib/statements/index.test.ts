@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { detectStatementFormat, parseStatement } from './index';
+
+describe('detectStatementFormat', () => {
+	it('detects the format from the contents', () => {
+		expect(detectStatementFormat('export.xml', '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">')).toBe('camt053');
+		expect(detectStatementFormat('export.qfx', 'OFXHEADER:100\nDATA:OFXSGML')).toBe('ofx');
+		expect(detectStatementFormat('export.sta', ':20:STMT\n:25:ACCOUNT\n:61:260302C10,00NTRFNONREF')).toBe('mt940');
+		expect(detectStatementFormat('export.txt', 'Date;Amount\n02/03/2026;10,00')).toBe('csv');
+		expect(detectStatementFormat('export.dat', 'Date;Amount')).toBe('csv');
+	});
+
+	it('returns null for anything else', () => {
+		expect(detectStatementFormat('notes.pdf', '%PDF-1.7')).toBeNull();
+	});
+});
+
+describe('parseStatement', () => {
+	it('parses with the detected format', () => {
+		expect(parseStatement('export.csv', 'Date,Amount\n2026-03-02,10.00')).toEqual({
+			format: 'csv',
+			lines: [{ dateKey: '2026-03-02', amountCents: 1000, description: '', counterparty: undefined, reference: undefined }],
+		});
+	});
+
+	it('rejects unknown formats and files without lines', () => {
+		expect(() => parseStatement('notes.pdf', '%PDF-1.7')).toThrow('Unrecognised statement format');
+		expect(() => parseStatement('export.csv', 'Date,Amount\nTotal,0.00')).toThrow('No statement lines found in the file');
+	});
+});
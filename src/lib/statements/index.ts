@@ -0,0 +1,66 @@
+import type { StatementFormat } from '../types';
+import { parseCamt053 } from './camt053';
+import { parseMt940 } from './mt940';
+import { parseOfx } from './ofx';
+import { parseCsvStatement } from './csvStatement';
+
+export interface ParsedStatementLine {
+	dateKey: string; // Booking date, YYYY-MM-DD
+	amountCents: number; // Signed: positive is money in, negative is money out
+	description: string;
+	counterparty?: string;
+	reference?: string;
+}
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+	camt053: 'CAMT.053 (ISO 20022 XML)',
+	mt940: 'MT940 (SWIFT)',
+	ofx: 'OFX / QFX',
+	csv: 'CSV',
+};
+
+/**
+ * Work out the format from the file contents, falling back to the extension for CSV
+ */
+export function detectStatementFormat(filename: string, content: string): StatementFormat | null {
+	const head = content.slice(0, 2000);
+	if (/camt\.053|<(\w+:)?BkToCstmrStmt/.test(content)) {
+		return 'camt053';
+	}
+	if (/OFXHEADER|<OFX>/i.test(head)) {
+		return 'ofx';
+	}
+	if (/^:20:/m.test(content) && /^:61:/m.test(content)) {
+		return 'mt940';
+	}
+	if (/\.(csv|txt)$/i.test(filename) || /[,;\t]/.test(head.split(/\r?\n/, 1)[0] || '')) {
+		return 'csv';
+	}
+	return null;
+}
+
+/**
+ * Parse a statement file into lines. Throws when the format is unknown, the file is
+ * malformed or it holds no lines.
+ */
+export function parseStatement(
+	filename: string,
+	content: string,
+	format: StatementFormat | null = detectStatementFormat(filename, content)
+): { format: StatementFormat; lines: ParsedStatementLine[] } {
+	if (!format) {
+		throw new Error('Unrecognised statement format. Upload a CAMT.053, MT940, OFX or CSV file.');
+	}
+
+	const parsers: Record<StatementFormat, (content: string) => ParsedStatementLine[]> = {
+		camt053: parseCamt053,
+		mt940: parseMt940,
+		ofx: parseOfx,
+		csv: parseCsvStatement,
+	};
+	const lines = parsers[format](content);
+	if (lines.length === 0) {
+		throw new Error('No statement lines found in the file');
+	}
+	return { format, lines };
+}
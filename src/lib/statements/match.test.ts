@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { matchStatementLines, scoreMatch } from './match';
+import type { StatementLine, Transaction } from '../types';
+
+// Midday UTC, the same calendar day in Athens
+const at = (dateKey: string) => new Date(`${dateKey}T12:00:00Z`);
+
+function line(id: string, dateKey: string, amountCents: number, fields: Partial<StatementLine> = {}): StatementLine {
+	return { id, statementId: 'stmt1', index: 0, date: at(dateKey), amountCents, description: '', status: 'unmatched', updatedAt: at(dateKey), ...fields };
+}
+
+function transaction(id: string, dateKey: string, type: Transaction['type'], amountCents: number, fields: Partial<Transaction> = {}): Transaction {
+	return { id, ts: at(dateKey), type, amountCents, categoryId: 'sales', note: '', createdBy: 'user1', createdAt: at(dateKey), ...fields };
+}
+
+describe('scoreMatch', () => {
+	it('needs the same type, amount and a date inside the window', () => {
+		const credit = line('l1', '2026-03-10', 12500);
+		expect(scoreMatch(credit, transaction('t1', '2026-03-10', 'income', 12500))).toEqual({
+			lineId: 'l1', transactionId: 't1', score: 80, reasons: ['amount', 'same day'],
+		});
+		expect(scoreMatch(credit, transaction('t2', '2026-03-13', 'income', 12500))).toMatchObject({ score: 50, reasons: ['amount', '3 days apart'] });
+		expect(scoreMatch(credit, transaction('t3', '2026-03-14', 'income', 12500))).toBeNull();
+		expect(scoreMatch(credit, transaction('t4', '2026-03-10', 'expense', 12500))).toBeNull();
+		expect(scoreMatch(credit, transaction('t5', '2026-03-10', 'income', 12501))).toBeNull();
+	});
+
+	it('matches money out to expenses', () => {
+		expect(scoreMatch(line('l1', '2026-03-10', -8050), transaction('t1', '2026-03-09', 'expense', 8050)))
+			.toMatchObject({ score: 70, reasons: ['amount', '1 day apart'] });
+	});
+
+	it('adds confidence for a ClickUp ID or the company name in the bank texts', () => {
+		const credit = line('l1', '2026-03-10', 12500, { description: 'Payment 86C7N2897', counterparty: 'ACME SA' });
+		expect(scoreMatch(credit, transaction('t1', '2026-03-10', 'income', 12500, { clickupId: '86c7n2897', companyName: 'ACME S.A.' })))
+			.toMatchObject({ score: 150, reasons: ['amount', 'same day', 'ClickUp ID', 'company name'] });
+		expect(scoreMatch(credit, transaction('t2', '2026-03-10', 'income', 12500, { companyName: 'Globex Ltd' })))
+			.toMatchObject({ score: 80 });
+	});
+});
+
+describe('matchStatementLines', () => {
+	it('takes the best pairs first and uses each transaction once', () => {
+		const lines = [
+			line('early', '2026-03-08', 5000),
+			line('exact', '2026-03-10', 5000),
+		];
+		const transactions = [
+			transaction('t1', '2026-03-10', 'income', 5000),
+			transaction('t2', '2026-03-07', 'income', 5000),
+		];
+
+		expect(matchStatementLines(lines, transactions).map(match => [match.lineId, match.transactionId])).toEqual([
+			['exact', 't1'],
+			['early', 't2'],
+		]);
+	});
+
+	it('leaves a line without a candidate unmatched', () => {
+		const lines = [line('l1', '2026-03-10', 5000), line('l2', '2026-03-10', 5000)];
+		expect(matchStatementLines(lines, [transaction('t1', '2026-03-10', 'income', 5000)])).toHaveLength(1);
+	});
+});
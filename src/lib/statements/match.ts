@@ -0,0 +1,83 @@
+import type { StatementLine, Transaction } from '../types';
+import { toDateKey } from '../dates';
+
+/** Days a transaction may sit before or after the statement booking date */
+export const MATCH_WINDOW_DAYS = 3;
+
+export interface StatementMatch {
+	lineId: string;
+	transactionId: string;
+	score: number;
+	reasons: string[];
+}
+
+function daysBetween(a: string, b: string): number {
+	return Math.round(Math.abs(Date.parse(a) - Date.parse(b)) / 86400000);
+}
+
+function normalize(text: string): string {
+	return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Score one line against one transaction, or null when they cannot be the same payment.
+ * Type, amount and the date window must agree; a ClickUp ID or the company name found in
+ * the bank texts adds confidence.
+ */
+export function scoreMatch(line: StatementLine, tx: Transaction): StatementMatch | null {
+	const type = line.amountCents >= 0 ? 'income' : 'expense';
+	if (tx.type !== type || tx.amountCents !== Math.abs(line.amountCents)) {
+		return null;
+	}
+	const days = daysBetween(toDateKey(line.date), toDateKey(tx.ts));
+	if (days > MATCH_WINDOW_DAYS) {
+		return null;
+	}
+
+	const reasons = ['amount', days === 0 ? 'same day' : `${days} day${days === 1 ? '' : 's'} apart`];
+	let score = 50 + (MATCH_WINDOW_DAYS - days) * 10;
+
+	const bankText = normalize([line.description, line.counterparty, line.reference].filter(Boolean).join(' '));
+	if (tx.clickupId && bankText.includes(normalize(tx.clickupId))) {
+		score += 40;
+		reasons.push('ClickUp ID');
+	}
+	if (tx.companyName) {
+		// Either the full name, or every significant word of it ("ACME S.A." matches "acme sa")
+		const name = normalize(tx.companyName);
+		const words = name.split(' ').filter(word => word.length >= 3);
+		if (bankText.includes(name) || (words.length > 0 && words.every(word => bankText.includes(word)))) {
+			score += 30;
+			reasons.push('company name');
+		}
+	}
+
+	return { lineId: line.id, transactionId: tx.id, score, reasons };
+}
+
+/**
+ * Pair statement lines with transactions. Every possible pair is scored and the best
+ * pairs are taken first, so a transaction is never suggested for two lines and a close
+ * match is not lost to a weaker one that happened to be checked earlier.
+ */
+export function matchStatementLines(lines: StatementLine[], transactions: Transaction[]): StatementMatch[] {
+	const pairs: StatementMatch[] = [];
+	for (const line of lines) {
+		for (const tx of transactions) {
+			const match = scoreMatch(line, tx);
+			if (match) pairs.push(match);
+		}
+	}
+	pairs.sort((a, b) => b.score - a.score);
+
+	const usedLines = new Set<string>();
+	const usedTransactions = new Set<string>();
+	const matches: StatementMatch[] = [];
+	for (const pair of pairs) {
+		if (usedLines.has(pair.lineId) || usedTransactions.has(pair.transactionId)) continue;
+		usedLines.add(pair.lineId);
+		usedTransactions.add(pair.transactionId);
+		matches.push(pair);
+	}
+	return matches;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseMt940 } from './mt940';
+
+describe('parseMt940', () => {
+	it('reads :61: lines with the :86: details that follow them', () => {
+		const lines = parseMt940([
+			':20:STMT2026-03',
+			':25:GR1601101250000000012300695',
+			':28C:00042/001',
+			':60F:C260301EUR1000,00',
+			':61:2603020302C1250,00NTRFINV-2026-17//BANK1',
+			':86:/NAME/ACME S.A./REMI/Invoice 17/EREF/INV-2026-17',
+			':61:260304D80,5NDDTNONREF//BANK2',
+			'Electricity March',
+			':86:166?00SEPA-LASTSCHRIFT?20Strom Maerz?21Kundennr 123?32Power?33 Co',
+			':61:260305RD15,00NCHGNONREF',
+			':62F:C260305EUR2184,50',
+			'-',
+		].join('\r\n'));
+
+		expect(lines).toEqual([
+			{ dateKey: '2026-03-02', amountCents: 125000, description: 'Invoice 17', counterparty: 'ACME S.A.', reference: 'INV-2026-17' },
+			{ dateKey: '2026-03-04', amountCents: -8050, description: 'Strom Maerz Kundennr 123', counterparty: 'Power Co', reference: 'BANK2' },
+			// A reversed debit is money coming back in
+			{ dateKey: '2026-03-05', amountCents: 1500, description: '', counterparty: undefined, reference: undefined },
+		]);
+	});
+
+	it('falls back to the supplementary details and free text', () => {
+		const lines = parseMt940([
+			':20:STMT',
+			':61:260310C5,00NMSCNONREF//BANK3',
+			'Cash deposit',
+			':61:260311D7,00NMSCREF4',
+			':86:Card payment kiosk',
+		].join('\n'));
+
+		expect(lines.map(line => [line.description, line.reference])).toEqual([
+			['Cash deposit', 'BANK3'],
+			['Card payment kiosk', 'REF4'],
+		]);
+	});
+
+	it('rejects a line it cannot read', () => {
+		expect(() => parseMt940(':20:STMT\n:61:not a statement line\n')).toThrow('MT940 line 1 could not be read: not a statement line');
+	});
+});
@@ -0,0 +1,80 @@
+import type { ParsedStatementLine } from './index';
+import { cleanText, parseAmountCents, parseStatementDate } from './values';
+
+// :61: value date, optional entry date, mark (C, D, RC, RD), optional funds code,
+// amount with a decimal comma, transaction type, customer reference and bank reference
+const LINE_PATTERN = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d{0,2})([NF][A-Z0-9]{3})([^/\n]*)(?:\/\/([^\n]*))?/;
+
+/**
+ * Split the :86: details. German banks use ?NN subfields (?20-?29 purpose, ?32/?33 name),
+ * others use /CODE/ tags (/REMI/ purpose, /NAME/ name); anything else is free text.
+ */
+function parseDetails(details: string): { description: string; counterparty?: string } {
+	const flat = details.replace(/\r?\n/g, '');
+	if (/\?\d{2}/.test(flat)) {
+		const fields = new Map<number, string>();
+		for (const m of flat.matchAll(/\?(\d{2})([^?]*)/g)) {
+			fields.set(Number(m[1]), (fields.get(Number(m[1])) || '') + m[2]);
+		}
+		const purpose = [];
+		for (let code = 20; code <= 29; code++) purpose.push(fields.get(code) || '');
+		for (let code = 60; code <= 63; code++) purpose.push(fields.get(code) || '');
+		return {
+			description: cleanText(purpose.join(' ')) || cleanText(fields.get(0)),
+			counterparty: cleanText(`${fields.get(32) || ''}${fields.get(33) || ''}`) || undefined,
+		};
+	}
+	if (/\/(REMI|NAME)\//.test(flat)) {
+		const tag = (name: string) => flat.match(new RegExp(`/${name}/(.*?)(?=/[A-Z]{2,4}/|$)`))?.[1];
+		return {
+			description: cleanText(tag('REMI') || flat),
+			counterparty: cleanText(tag('NAME')) || undefined,
+		};
+	}
+	return { description: cleanText(details) };
+}
+
+/**
+ * Parse a SWIFT MT940 statement. A file may hold several statements; all their
+ * :61: lines are returned, each with the :86: details that follow it.
+ */
+export function parseMt940(content: string): ParsedStatementLine[] {
+	// Collect tag/value pairs; lines not starting with a tag continue the previous value
+	const fields: Array<{ tag: string; value: string }> = [];
+	for (const raw of content.split(/\r?\n/)) {
+		const m = raw.match(/^:(\d{2}[A-Z]?):(.*)$/);
+		if (m) {
+			fields.push({ tag: m[1], value: m[2] });
+		} else if (fields.length && raw !== '-' && !raw.startsWith('-}') && !raw.startsWith('{')) {
+			fields[fields.length - 1].value += '\n' + raw;
+		}
+	}
+
+	const lines: ParsedStatementLine[] = [];
+	for (let i = 0; i < fields.length; i++) {
+		if (fields[i].tag !== '61') continue;
+
+		const m = fields[i].value.match(LINE_PATTERN);
+		const dateKey = m ? parseStatementDate(m[1]) : null;
+		if (!m || !dateKey) {
+			throw new Error(`MT940 line ${lines.length + 1} could not be read: ${fields[i].value.split('\n')[0]}`);
+		}
+		const credit = m[3] === 'C' || m[3] === 'RD';
+		const amountCents = parseAmountCents(m[5]);
+		const customerRef = m[7].trim();
+		const bankRef = (m[8] || '').split('\n')[0].trim();
+		// Supplementary details on the second line of :61:
+		const supplementary = fields[i].value.split('\n').slice(1).join(' ');
+
+		const details = fields[i + 1]?.tag === '86' ? parseDetails(fields[i + 1].value) : { description: '' };
+		lines.push({
+			dateKey,
+			amountCents: credit ? amountCents : -amountCents,
+			description: cleanText(details.description || supplementary),
+			counterparty: details.counterparty,
+			reference: (customerRef && customerRef !== 'NONREF' ? customerRef : bankRef) || undefined,
+		});
+	}
+
+	return lines;
+}
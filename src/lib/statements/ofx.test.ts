@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseOfx } from './ofx';
+
+describe('parseOfx', () => {
+	it('reads OFX 1.x files, where leaf elements are not closed', () => {
+		const lines = parseOfx(`OFXHEADER:100
+DATA:OFXSGML
+
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260302120000[+2:EET]
+<TRNAMT>1250.00
+<FITID>FIT1
+<NAME>ACME S.A.
+<MEMO>Invoice 17 &amp; 18
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260304
+<TRNAMT>-80.50
+<FITID>FIT2
+<CHECKNUM>1042
+<NAME>Power Co
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`);
+
+		expect(lines).toEqual([
+			{ dateKey: '2026-03-02', amountCents: 125000, description: 'Invoice 17 & 18', counterparty: 'ACME S.A.', reference: 'FIT1' },
+			{ dateKey: '2026-03-04', amountCents: -8050, description: 'Power Co', counterparty: 'Power Co', reference: '1042' },
+		]);
+	});
+
+	it('reads OFX 2.x XML', () => {
+		const lines = parseOfx(`<?xml version="1.0"?><OFX><STMTTRN><DTPOSTED>20260305</DTPOSTED><TRNAMT>-5</TRNAMT><REFNUM>R1</REFNUM><MEMO>Fee</MEMO></STMTTRN></OFX>`);
+
+		expect(lines).toEqual([{ dateKey: '2026-03-05', amountCents: -500, description: 'Fee', counterparty: undefined, reference: 'R1' }]);
+	});
+
+	it('rejects a transaction without a posting date', () => {
+		expect(() => parseOfx('<OFX><STMTTRN><TRNAMT>5.00</STMTTRN></OFX>')).toThrow('OFX transaction 1 has no valid amount or posting date');
+	});
+});
@@ -0,0 +1,39 @@
+import type { ParsedStatementLine } from './index';
+import { cleanText, parseAmountCents, parseStatementDate } from './values';
+
+/**
+ * Value of a field inside an OFX aggregate. Works for both OFX 1.x (SGML, where leaf
+ * elements are not closed) and OFX 2.x (XML).
+ */
+function field(block: string, name: string): string | undefined {
+	const value = block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'))?.[1];
+	return value === undefined ? undefined : value.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').trim();
+}
+
+/**
+ * Parse the bank transactions (STMTTRN) of an OFX or QFX download
+ */
+export function parseOfx(content: string): ParsedStatementLine[] {
+	const lines: ParsedStatementLine[] = [];
+
+	for (const m of content.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)) {
+		const block = m[1];
+		const amountCents = parseAmountCents(field(block, 'TRNAMT') || '');
+		const dateKey = parseStatementDate(field(block, 'DTPOSTED') || '');
+		if (isNaN(amountCents) || !dateKey) {
+			throw new Error(`OFX transaction ${lines.length + 1} has no valid amount or posting date`);
+		}
+
+		const name = cleanText(field(block, 'NAME'));
+		const memo = cleanText(field(block, 'MEMO'));
+		lines.push({
+			dateKey,
+			amountCents,
+			description: memo || name,
+			counterparty: name || undefined,
+			reference: field(block, 'REFNUM') || field(block, 'CHECKNUM') || field(block, 'FITID') || undefined,
+		});
+	}
+
+	return lines;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { cleanText, parseAmountCents, parseStatementDate } from './values';
+
+describe('parseAmountCents', () => {
+	it('reads either decimal separator', () => {
+		expect(parseAmountCents('1.234,56')).toBe(123456);
+		expect(parseAmountCents('1,234.56')).toBe(123456);
+		expect(parseAmountCents('12,5')).toBe(1250);
+		expect(parseAmountCents('1.234')).toBe(123400);
+	});
+
+	it('reads signs in front, behind and as brackets', () => {
+		expect(parseAmountCents('-12,50')).toBe(-1250);
+		expect(parseAmountCents('12,50-')).toBe(-1250);
+		expect(parseAmountCents('+12.50')).toBe(1250);
+		expect(parseAmountCents('(99.00)')).toBe(-9900);
+	});
+
+	it('drops currency codes, symbols and spaces', () => {
+		expect(parseAmountCents('€ 1 500,00')).toBe(150000);
+		expect(parseAmountCents('EUR -20.00')).toBe(-2000);
+	});
+
+	it('returns NaN for text that is not an amount', () => {
+		expect(parseAmountCents('')).toBeNaN();
+		expect(parseAmountCents('n/a')).toBeNaN();
+		expect(parseAmountCents('-')).toBeNaN();
+	});
+});
+
+describe('parseStatementDate', () => {
+	it('reads ISO and compact dates', () => {
+		expect(parseStatementDate('2026-03-05')).toBe('2026-03-05');
+		expect(parseStatementDate('2026-03-05T10:15:00+02:00')).toBe('2026-03-05');
+		expect(parseStatementDate('20260305')).toBe('2026-03-05');
+		expect(parseStatementDate('20260305120000[-5:EST]')).toBe('2026-03-05');
+		expect(parseStatementDate('260305')).toBe('2026-03-05');
+	});
+
+	it('reads day-first dates', () => {
+		expect(parseStatementDate('05/03/2026')).toBe('2026-03-05');
+		expect(parseStatementDate('5.3.26')).toBe('2026-03-05');
+		expect(parseStatementDate('05-03-2026')).toBe('2026-03-05');
+	});
+
+	it('rejects anything else', () => {
+		expect(parseStatementDate('Opening balance')).toBeNull();
+		expect(parseStatementDate('2026-13-01')).toBeNull();
+		expect(parseStatementDate('32/01/2026')).toBeNull();
+	});
+});
+
+describe('cleanText', () => {
+	it('collapses whitespace and line breaks', () => {
+		expect(cleanText('  Invoice\n 2026/17\tpaid ')).toBe('Invoice 2026/17 paid');
+		expect(cleanText(undefined)).toBe('');
+	});
+});
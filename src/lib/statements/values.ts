@@ -0,0 +1,78 @@
+/**
+ * Parse a bank amount into cents. Accepts either decimal separator ("1.234,56" and
+ * "1,234.56"), a sign in front or behind ("-12,50", "12,50-"), brackets for negatives,
+ * and currency codes or symbols. Returns NaN when the text is not an amount.
+ */
+export function parseAmountCents(text: string): number {
+	let value = text.replace(/[\s €$£]|EUR|USD|GBP/gi, '');
+	let negative = false;
+	if (/^\(.*\)$/.test(value)) {
+		negative = true;
+		value = value.slice(1, -1);
+	}
+	if (value.endsWith('-')) {
+		negative = !negative;
+		value = value.slice(0, -1);
+	}
+	if (value.startsWith('-')) {
+		negative = !negative;
+		value = value.slice(1);
+	} else if (value.startsWith('+')) {
+		value = value.slice(1);
+	}
+	if (!/^[\d.,]+$/.test(value)) {
+		return NaN;
+	}
+
+	// The last separator is the decimal one if one or two digits follow it
+	const lastSep = Math.max(value.lastIndexOf('.'), value.lastIndexOf(','));
+	let whole = value;
+	let fraction = '';
+	if (lastSep !== -1 && /^\d{1,2}$/.test(value.slice(lastSep + 1))) {
+		whole = value.slice(0, lastSep);
+		fraction = value.slice(lastSep + 1);
+	}
+	whole = whole.replace(/[.,]/g, '');
+	if (!whole && !fraction) {
+		return NaN;
+	}
+
+	const cents = Number(whole || '0') * 100 + Number(fraction.padEnd(2, '0') || '0');
+	return negative ? -cents : cents;
+}
+
+/**
+ * Normalise a statement date to YYYY-MM-DD. Understands ISO dates (with or without
+ * time), YYYYMMDD, YYMMDD and day-first dates with "/", "." or "-". Returns null
+ * for anything else.
+ */
+export function parseStatementDate(text: string): string | null {
+	const value = text.trim();
+	let year: number, month: number, day: number;
+
+	let m = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+	if (m) {
+		[year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+	} else if ((m = value.match(/^(\d{4})(\d{2})(\d{2})/))) {
+		[year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+	} else if ((m = value.match(/^(\d{2})(\d{2})(\d{2})$/))) {
+		[year, month, day] = [2000 + Number(m[1]), Number(m[2]), Number(m[3])];
+	} else if ((m = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/))) {
+		const y = Number(m[3]);
+		[year, month, day] = [y < 100 ? 2000 + y : y, Number(m[2]), Number(m[1])];
+	} else {
+		return null;
+	}
+
+	if (month < 1 || month > 12 || day < 1 || day > 31) {
+		return null;
+	}
+	return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Collapse whitespace, including the line breaks statement files wrap long texts with
+ */
+export function cleanText(text: string | undefined): string {
+	return (text || '').replace(/\s+/g, ' ').trim();
+}
@@ -5,14 +5,62 @@ export interface Transaction {
 	ts: Date; // Transaction timestamp - dateKey/weekKey/monthKey calculated on-the-fly
 	type: TransactionType;
 	amountCents: number;
-	categoryId: string;
+	categoryId: string; // The first line's category when the transaction is split
+	splits?: TransactionSplit[]; // Two or more lines adding up to amountCents
+	paymentMethod?: string; // PaymentMethod id, e.g. "cash"
+	accountId?: string; // Account the money moved in or out of
 	note: string;
 	clickupId?: string;
 	companyName?: string;
+	externalId?: string; // ID from the sending system (webhook integrations)
+	reconciled?: boolean; // Checked against a bank statement
+	reconciledAt?: Date;
+	statementLineId?: string; // Statement line it was matched to, if any
+	importBatchId?: string; // Import that created it
+	source?: TransactionSource; // Missing on transactions saved before sources were recorded
+	repeatablePaymentId?: string; // Repeatable payment that booked it
+	occurrenceDate?: string; // YYYY-MM-DD: the repeatable payment's date it was booked for
 	createdBy: string;
 	createdAt: Date;
 }
 
+/** Where a transaction came from */
+export type TransactionSource = 'manual' | 'api' | 'webhook' | 'import' | 'statement' | 'repeatable';
+
+/** A deleted transaction waiting in the trash until it is restored or purged */
+export interface TrashedTransaction extends Transaction {
+	deletedAt: Date;
+	deletedBy?: string;
+}
+
+/** Fields tracked by a transaction's revision history */
+export type TransactionSnapshot = Pick<
+	Transaction,
+	'ts' | 'type' | 'amountCents' | 'categoryId' | 'splits' | 'paymentMethod' | 'accountId' | 'note' | 'clickupId' | 'companyName'
+>;
+
+export type TransactionRevisionAction = 'create' | 'update' | 'revert' | 'delete' | 'restore';
+
+/** One change to a transaction, from transaction_revisions */
+export interface TransactionRevision {
+	id: string;
+	transactionId: string;
+	action: TransactionRevisionAction;
+	before?: TransactionSnapshot; // Not set on create and restore
+	after?: TransactionSnapshot; // Not set on delete
+	changedFields: Array<keyof TransactionSnapshot>;
+	revertedToId?: string; // Revision whose state a revert brought back
+	createdBy: string;
+	createdAt: Date;
+}
+
+/** One category line of a split transaction */
+export interface TransactionSplit {
+	categoryId: string;
+	amountCents: number;
+	note?: string;
+}
+
 export interface Category {
 	id: string;
 	name: string;
@@ -21,6 +69,121 @@ export interface Category {
 	createdAt: Date;
 }
 
+export interface PaymentMethod {
+	id: string; // Slug of the name, e.g. "bank_transfer"
+	name: string;
+	active: boolean;
+	createdAt: Date;
+}
+
+export type AccountKind = 'bank' | 'cash';
+
+export interface Account {
+	id: string;
+	name: string;
+	kind: AccountKind;
+	openingBalanceCents: number; // Balance before the first recorded transaction or transfer
+	balanceCents: number; // Opening balance plus every movement, kept up to date on each write
+	active: boolean;
+	createdAt: Date;
+}
+
+/** Money moved between two accounts. Not income or expense, so it never reaches the stats docs. */
+export interface Transfer {
+	id: string;
+	ts: Date;
+	fromAccountId: string;
+	toAccountId: string;
+	amountCents: number;
+	note: string;
+	createdBy: string;
+	createdAt: Date;
+}
+
+/** One day of an account's history, from stats_account_daily */
+export interface AccountDailyBalance {
+	dateKey: string;
+	inCents: number;
+	outCents: number;
+	netCents: number;
+	balanceCents: number; // Running balance at the end of the day
+}
+
+export type StatementFormat = 'camt053' | 'mt940' | 'ofx' | 'csv';
+
+export interface BankStatement {
+	id: string;
+	filename: string;
+	format: StatementFormat;
+	accountId?: string; // Account the statement belongs to; matching is limited to it when set
+	fromDate: Date; // Earliest line date
+	toDate: Date; // Latest line date
+	lineCount: number;
+	createdBy: string;
+	createdAt: Date;
+}
+
+export type StatementLineStatus =
+	| 'unmatched'
+	| 'suggested' // Auto-matched, waiting for confirmation
+	| 'matched' // Confirmed against an existing transaction
+	| 'created' // A transaction was created from the line
+	| 'ignored';
+
+export interface StatementLine {
+	id: string;
+	statementId: string;
+	index: number; // Position in the file
+	date: Date;
+	amountCents: number; // Signed: positive is money in, negative is money out
+	description: string;
+	counterparty?: string;
+	reference?: string; // End-to-end or bank reference
+	status: StatementLineStatus;
+	transactionId?: string; // Suggested or matched transaction
+	matchScore?: number;
+	matchReasons?: string[];
+	updatedAt: Date;
+}
+
+/** Transaction fields a spreadsheet column can be mapped to */
+export type ImportField = 'date' | 'type' | 'amount' | 'category' | 'note' | 'clickupId' | 'companyName';
+
+/** Column index per mapped field */
+export type ImportMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportOptions {
+	dateFormat: 'dmy' | 'mdy'; // How to read slash dates such as 03/04/2026
+	createMissingCategories: boolean;
+	skipDuplicates: boolean;
+	accountId?: string; // Applied to every row
+	paymentMethod?: string; // Applied to every row
+}
+
+export type ImportBatchStatus = 'draft' | 'committing' | 'commit_failed' | 'committed' | 'rolled_back';
+
+export interface ImportBatch {
+	id: string;
+	filename: string;
+	headers: string[];
+	rowCount: number;
+	mapping?: ImportMapping;
+	options?: ImportOptions;
+	status: ImportBatchStatus;
+	createdCount: number;
+	failedCount: number;
+	skippedCount: number; // Invalid rows and skipped duplicates
+	processedCount: number; // Rows the commit has written or failed so far
+	createdCategories: string[];
+	createdBy: string;
+	createdAt: Date;
+	committedAt?: Date;
+	commitUpdatedAt?: Date; // Last progress of the commit; a commit silent for long has stopped
+	commitError?: string; // Why the last commit attempt stopped
+	rolledBackBy?: string;
+	rolledBackAt?: Date;
+}
+
 export interface DailySummary {
 	dateKey: string;
 	incomeCents: number;
@@ -70,10 +233,8 @@ export interface DashboardData {
 	monthPayments: PaymentTotals;
 }
 
-export interface PaymentTotals {
-	cashCents: number;
-	onlineCents: number;
-}
+/** Income cents per payment method id */
+export type PaymentTotals = Record<string, number>;
 
 export interface AuditLog {
 	id: string;
@@ -85,39 +246,147 @@ export interface AuditLog {
 	createdBy: string;
 	createdAt: Date;
 	meta?: Record<string, unknown>;
+	seq?: number; // Position in the hash chain; missing until appended and on entries written before the chain
+	prevHash?: string;
+	hash?: string; // SHA-256 of the entry's other fields
 }
 
-export interface AuditLog {
+/** A signed snapshot of the audit chain head, for storing off-site */
+export interface AuditCheckpoint {
 	id: string;
-	action: string;
-	entityType: string;
-	entityId?: string;
-	amountCents?: number;
-	categoryId?: string;
+	seq: number;
+	hash: string;
+	entryId: string;
+	signature: string; // HMAC-SHA256 with AUDIT_SIGNING_KEY
 	createdBy: string;
 	createdAt: Date;
-	meta?: Record<string, unknown>;
 }
 
+export type WebhookErrorStatus = 'open' | 'resolved' | 'dismissed';
+
 export interface WebhookError {
 	id: string;
-	payload: Record<string, unknown>;
+	payload: unknown; // Usually the JSON body; the raw text when it could not be parsed
+	originalPayload?: unknown; // Kept when an admin edits the payload before replaying
 	error: string;
+	lastReplayError?: string;
+	apiKeyId?: string;
+	status: WebhookErrorStatus;
+	transactionId?: string; // Transaction produced by a successful replay
+	resolvedBy?: string;
+	resolvedAt?: Date;
+	createdAt: Date;
+}
+
+export interface ApiKeyScope {
+	types?: TransactionType[]; // Allowed transaction types - empty/undefined means all
+	categoryIds?: string[]; // Allowed category IDs - empty/undefined means all
+}
+
+export interface ApiKey {
+	id: string;
+	name: string;
+	prefix: string; // Public part of the key, used for lookup and display
+	keyHash: string; // SHA-256 of the full key - the key itself is never stored
+	signingSecret: string; // HMAC-SHA256 secret for request signatures
+	requireSignature: boolean;
+	userId: string; // Service user that created transactions are attributed to
+	scope: ApiKeyScope;
+	active: boolean;
+	expiresAt?: Date; // Set on rotation to give integrations a grace period
+	rotatedToId?: string;
+	revokedAt?: Date;
+	lastUsedAt?: Date;
+	createdBy: string;
+	createdAt: Date;
+}
+
+export type WebhookEventType =
+	| 'transaction.created'
+	| 'transaction.updated'
+	| 'transaction.deleted'
+	| 'transaction.restored'
+	| 'repeatable_payment.run'
+	| 'ping';
+
+export interface WebhookSubscription {
+	id: string;
+	name: string;
+	url: string;
+	secret: string; // HMAC-SHA256 secret used to sign deliveries
+	events: WebhookEventType[]; // Empty means all events
+	active: boolean;
+	createdBy: string;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+	at: Date;
+	statusCode?: number;
+	error?: string;
+	durationMs: number;
+}
+
+export interface WebhookDelivery {
+	id: string;
+	subscriptionId: string;
+	eventId: string;
+	event: WebhookEventType;
+	body: string; // Serialized event, sent unchanged on every attempt
+	status: WebhookDeliveryStatus;
+	attempts: number;
+	attemptLog: WebhookDeliveryAttempt[];
+	lastStatusCode?: number;
+	lastError?: string;
+	nextAttemptAt?: Date; // Only set while pending
+	deliveredAt?: Date;
 	createdAt: Date;
 }
 
 export type RepeatFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
 
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/**
+ * RRULE-style schedule. Dates are generated from the start date, so a short month never
+ * shifts the ones after it.
+ */
+export interface RecurrenceRule {
+	freq: RepeatFrequency;
+	interval: number; // Every n days/weeks/months/years
+	byMonthDay?: number[]; // Monthly/yearly: days of the month, negative counts from the end (-1 = last day)
+	byWeekday?: Weekday[]; // Weekly: days of the week; monthly/yearly: weekdays in the month
+	bySetPos?: number; // With byWeekday: which match in the month (1 = first, -1 = last)
+}
+
+/**
+ * A change to one date of a repeatable payment's schedule, leaving the other dates as they are
+ */
+export interface OccurrenceException {
+	date: string; // YYYY-MM-DD: the scheduled date it changes
+	skip?: boolean; // Not booked at all
+	moveTo?: string; // YYYY-MM-DD: booked on this date instead
+	amountCents?: number; // Booked with this amount instead
+	booked?: boolean; // Set when a moved date has been booked; it is never booked again
+}
+
 export interface RepeatablePayment {
 	id: string;
 	name: string;
 	type: TransactionType;
 	amountCents: number;
 	categoryId: string;
+	paymentMethod?: string; // PaymentMethod id
+	accountId?: string;
 	clickupId?: string;
 	companyName?: string;
 	note?: string;
-	frequency: RepeatFrequency;
+	frequency: RepeatFrequency; // Same as recurrence.freq
+	recurrence?: RecurrenceRule; // Missing on older payments: every 1 frequency
+	exceptions?: OccurrenceException[]; // Sorted by date, at most one per date
 	startDate: Date;
 	endDate?: Date; // Optional - if not set, repeats indefinitely
 	nextDueDate: Date;
@@ -126,3 +395,23 @@ export interface RepeatablePayment {
 	createdAt: Date;
 	updatedAt: Date;
 }
+
+export type RepeatableRunTrigger = 'manual' | 'api' | 'scheduled';
+
+/**
+ * One run of the due repeatable payments, kept as run history
+ */
+export interface RepeatableRun {
+	id: string;
+	trigger: RepeatableRunTrigger;
+	status: 'running' | 'success' | 'failed';
+	scheduledFor?: Date; // Scheduled runs: the time slot the run was for
+	created: number;
+	alreadyBooked: number; // Dates whose transaction already existed
+	skipped: number; // Dates skipped by an exception
+	completed: number; // Payments deactivated at their end date
+	error?: string;
+	createdBy: string; // Admin who clicked, or the system user for scheduled runs
+	startedAt: Date;
+	finishedAt?: Date;
+}
@@ -0,0 +1,195 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiKey } from './types';
+
+vi.mock('./firebaseAdmin', () => ({
+	db: { collection: () => ({ doc: () => ({ get: async () => ({ exists: true }) }) }) },
+	auth: {},
+}));
+
+const held = { namespace: 'key1', key: 'order-1', claimedAt: {} };
+const idempotency = vi.hoisted(() => ({
+	claimIdempotencyKey: vi.fn(),
+	completeIdempotencyKey: vi.fn(),
+	completeIdempotencyKeyInBatch: vi.fn(),
+	getCompletedResponse: vi.fn(),
+	releaseIdempotencyKey: vi.fn(),
+}));
+
+vi.mock('./firestore/idempotency', () => ({
+	...idempotency,
+	hashRequestPayload: () => 'hash',
+	validateIdempotencyKey: () => null,
+}));
+
+const webhookErrors = vi.hoisted(() => ({
+	logWebhookError: vi.fn(),
+	getWebhookError: vi.fn(),
+	recordReplayFailure: vi.fn(),
+	resolveWebhookErrorInBatch: vi.fn(),
+	logReplayResolution: vi.fn(),
+}));
+vi.mock('./firestore/webhookErrors', () => webhookErrors);
+
+const paymentMethods = vi.hoisted(() => ({
+	isActivePaymentMethod: vi.fn(),
+	ensureDefaultPaymentMethod: vi.fn(),
+	getLegacyPaymentCategory: vi.fn(),
+}));
+vi.mock('./firestore/paymentMethods', async (importOriginal) => ({
+	...(await importOriginal<typeof import('./firestore/paymentMethods')>()),
+	...paymentMethods,
+}));
+
+const createTransaction = vi.hoisted(() => vi.fn());
+vi.mock('./firestore/transactions', () => ({ createTransaction }));
+
+const resolveTransactionAccount = vi.hoisted(() => vi.fn(async (accountId?: string) => accountId));
+vi.mock('./firestore/accounts', () => ({ resolveTransactionAccount }));
+
+const { withIdempotency, replayWebhookError, validateWebhookTransaction } = await import('./webhook');
+
+const apiKey = { id: 'key1' } as ApiKey;
+const created = { statusCode: 200, body: { success: true, transactionId: 'tx1' }, transactionId: 'tx1' };
+
+describe('withIdempotency', () => {
+	beforeEach(() => {
+		Object.values(idempotency).forEach(mock => mock.mockReset());
+		idempotency.claimIdempotencyKey.mockResolvedValue({ status: 'claimed', held });
+	});
+
+	it('completes the key in the handler\'s batch, not in a separate write', async () => {
+		const batch = {} as FirebaseFirestore.WriteBatch;
+		const response = await withIdempotency(apiKey, 'order-1', {}, async (completeInBatch) => {
+			completeInBatch(batch, created);
+			return { ...created, idempotencyCompleted: true };
+		});
+
+		expect(response.status).toBe(200);
+		expect(idempotency.completeIdempotencyKeyInBatch).toHaveBeenCalledWith(batch, held, { statusCode: 200, body: created.body }, 'tx1');
+		expect(idempotency.completeIdempotencyKey).not.toHaveBeenCalled();
+		expect(idempotency.releaseIdempotencyKey).not.toHaveBeenCalled();
+	});
+
+	it('completes the key afterwards for handlers that write in several batches', async () => {
+		await withIdempotency(apiKey, 'order-1', {}, async () => created);
+		expect(idempotency.completeIdempotencyKey).toHaveBeenCalledWith(held, { statusCode: 200, body: created.body }, 'tx1');
+	});
+
+	it('releases the held key when the handler fails', async () => {
+		await expect(withIdempotency(apiKey, 'order-1', {}, async () => {
+			throw new Error('boom');
+		})).rejects.toThrow('boom');
+		expect(idempotency.releaseIdempotencyKey).toHaveBeenCalledWith(held);
+
+		await withIdempotency(apiKey, 'order-1', {}, async () => ({ statusCode: 400, body: { success: false } }));
+		expect(idempotency.releaseIdempotencyKey).toHaveBeenCalledTimes(2);
+	});
+
+	it('replays a completed key without running the handler', async () => {
+		idempotency.claimIdempotencyKey.mockResolvedValue({ status: 'replay', response: { statusCode: 200, body: created.body } });
+		const handler = vi.fn();
+		const response = await withIdempotency(apiKey, 'order-1', {}, handler);
+		expect(handler).not.toHaveBeenCalled();
+		expect(response.headers.get('Idempotent-Replayed')).toBe('true');
+		expect(await response.json()).toEqual(created.body);
+	});
+
+	it('answers a resent signed request from the stored response only', async () => {
+		idempotency.getCompletedResponse.mockResolvedValue({ statusCode: 200, body: created.body });
+		const handler = vi.fn();
+		const response = await withIdempotency(apiKey, 'order-1', {}, handler, { replayedSignature: true });
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Idempotent-Replayed')).toBe('true');
+		expect(idempotency.getCompletedResponse).toHaveBeenCalledWith('key1', 'order-1', 'hash');
+
+		idempotency.getCompletedResponse.mockResolvedValue(null);
+		expect((await withIdempotency(apiKey, 'order-1', {}, handler, { replayedSignature: true })).status).toBe(401);
+		expect((await withIdempotency(apiKey, null, {}, handler, { replayedSignature: true })).status).toBe(401);
+		expect(handler).not.toHaveBeenCalled();
+		expect(idempotency.claimIdempotencyKey).not.toHaveBeenCalled();
+	});
+});
+
+describe('replayWebhookError', () => {
+	const payload = { date: '2026-03-01', type: 'expense', amount: 12.5, categoryId: 'food' };
+
+	beforeEach(() => {
+		Object.values(webhookErrors).forEach(mock => mock.mockReset());
+		createTransaction.mockReset();
+		webhookErrors.getWebhookError.mockResolvedValue({ id: 'err1', status: 'open', payload });
+	});
+
+	it('creates the transaction under an ID derived from the error and resolves it in the same batch', async () => {
+		const batch = {} as FirebaseFirestore.WriteBatch;
+		createTransaction.mockImplementation(async (_data, options) => {
+			options.beforeCommit(batch, options.id);
+			return options.id;
+		});
+
+		const result = await replayWebhookError('err1', payload, 'admin');
+
+		expect(result).toEqual({ ok: true, transactionId: 'whe_err1' });
+		expect(createTransaction).toHaveBeenCalledWith(expect.objectContaining({ amountCents: 1250 }), expect.objectContaining({ id: 'whe_err1' }));
+		expect(webhookErrors.resolveWebhookErrorInBatch).toHaveBeenCalledWith(
+			batch,
+			expect.objectContaining({ id: 'err1' }),
+			'admin',
+			{ transactionId: 'whe_err1', payload }
+		);
+		expect(webhookErrors.logReplayResolution).toHaveBeenCalledWith('err1', 'admin', 'whe_err1');
+	});
+
+	it('reports a concurrent replay instead of creating a second transaction', async () => {
+		createTransaction.mockRejectedValue(Object.assign(new Error('Document already exists'), { code: 6 }));
+
+		const result = await replayWebhookError('err1', payload, 'admin');
+
+		expect(result).toEqual({ ok: false, error: 'Webhook error has already been replayed' });
+		expect(webhookErrors.logReplayResolution).not.toHaveBeenCalled();
+	});
+
+	it('does not replay an error that is no longer open', async () => {
+		webhookErrors.getWebhookError.mockResolvedValue({ id: 'err1', status: 'resolved', payload });
+		await expect(replayWebhookError('err1', payload, 'admin')).resolves.toEqual({ ok: false, error: 'Webhook error is already resolved' });
+		expect(createTransaction).not.toHaveBeenCalled();
+	});
+});
+
+describe('validateWebhookTransaction', () => {
+	const sender = { userId: 'service-user', scope: {} };
+
+	beforeEach(() => {
+		Object.values(paymentMethods).forEach(mock => mock.mockReset());
+		paymentMethods.getLegacyPaymentCategory.mockResolvedValue('sales');
+		paymentMethods.isActivePaymentMethod.mockResolvedValue(true);
+	});
+
+	it('files legacy payment types under the migration target and creates the implied method', async () => {
+		const result = await validateWebhookTransaction({ date: '2026-03-01', type: 'income', amount: 10, categoryId: 'online' }, sender);
+
+		expect(result).toMatchObject({ ok: true, transaction: { categoryId: 'sales', paymentMethod: 'online_payment' } });
+		expect(paymentMethods.ensureDefaultPaymentMethod).toHaveBeenCalledWith('Online Payment');
+	});
+
+	it('does not create methods that are named explicitly', async () => {
+		paymentMethods.isActivePaymentMethod.mockResolvedValue(false);
+		const result = await validateWebhookTransaction({ date: '2026-03-01', type: 'income', amount: 10, categoryId: 'cash', paymentMethod: 'card' }, sender);
+
+		expect(result).toMatchObject({ ok: false, error: 'Payment method "card" does not exist or is inactive' });
+		expect(paymentMethods.ensureDefaultPaymentMethod).not.toHaveBeenCalled();
+	});
+
+	it('books a transaction that names no account to the default account', async () => {
+		resolveTransactionAccount.mockResolvedValueOnce('main-bank');
+		const result = await validateWebhookTransaction({ date: '2026-03-01', type: 'income', amount: 10, categoryId: 'sales' }, sender);
+
+		expect(result).toMatchObject({ ok: true, transaction: { accountId: 'main-bank' } });
+	});
+
+	it('requires an account once accounts exist and no default is set', async () => {
+		resolveTransactionAccount.mockRejectedValueOnce(new Error('Account is required; name one or set a default account'));
+		const result = await validateWebhookTransaction({ date: '2026-03-01', type: 'income', amount: 10, categoryId: 'sales' }, sender);
+
+		expect(result).toMatchObject({ ok: false, statusCode: 400, error: 'Account ID is required. Please send an accountId or set a default account' });
+	});
+});
@@ -0,0 +1,327 @@
+import { db } from './firebaseAdmin';
+import { createTransaction } from './firestore/transactions';
+import {
+	isActivePaymentMethod,
+	ensureDefaultPaymentMethod,
+	getLegacyPaymentCategory,
+	paymentMethodId,
+} from './firestore/paymentMethods';
+import { resolveTransactionAccount } from './firestore/accounts';
+import { checkApiKeyScope, REPLAYED_SIGNATURE_ERROR } from './apiKeyAuth';
+import {
+	claimIdempotencyKey,
+	completeIdempotencyKey,
+	completeIdempotencyKeyInBatch,
+	getCompletedResponse,
+	releaseIdempotencyKey,
+	hashRequestPayload,
+	validateIdempotencyKey,
+	type HeldIdempotencyKey,
+} from './firestore/idempotency';
+import {
+	logWebhookError,
+	getWebhookError,
+	recordReplayFailure,
+	resolveWebhookErrorInBatch,
+	logReplayResolution,
+} from './firestore/webhookErrors';
+import { getApiKey } from './firestore/apiKeys';
+import type { ApiKey, Transaction } from './types';
+
+export type WebhookTransactionInput = Omit<Transaction, 'id' | 'createdAt'>;
+
+export interface WebhookResult {
+	statusCode: number;
+	body: Record<string, unknown>;
+	transactionId?: string;
+	idempotencyCompleted?: boolean; // The key was completed in the same write as the result
+}
+
+/**
+ * Handed to webhook handlers that write their result in one batch: adds the completion of the
+ * request's idempotency key (if it has one) to that batch
+ */
+export type CompleteInBatch = (batch: FirebaseFirestore.WriteBatch, result: WebhookResult) => void;
+
+/** The parts of an API key that decide how a payload is validated and attributed */
+export type WebhookSender = Pick<ApiKey, 'userId' | 'scope'>;
+
+export type WebhookValidationResult =
+	| { ok: true; transaction: WebhookTransactionInput }
+	| { ok: false; statusCode: 400 | 403; error: string; logMessage: string };
+
+export function jsonResponse(statusCode: number, body: unknown, headers: Record<string, string> = {}): Response {
+	return new Response(JSON.stringify(body), {
+		status: statusCode,
+		headers: { 'Content-Type': 'application/json', ...headers }
+	});
+}
+
+/**
+ * Run a webhook handler at most once per idempotency key. Successful results are stored
+ * and replayed; failures release the key so a corrected payload can reuse it. Handlers that
+ * write in a single batch complete the key in it, so a crash can't leave the write done and
+ * the key open for a second attempt. A request whose signature was already used (a client
+ * resending the exact signed request) only gets the stored response; without one it is
+ * rejected as a replay.
+ */
+export async function withIdempotency(
+	apiKey: ApiKey,
+	idempotencyKey: string | null,
+	body: unknown,
+	handler: (completeInBatch: CompleteInBatch) => Promise<WebhookResult>,
+	options: { replayedSignature?: boolean } = {}
+): Promise<Response> {
+	if (options.replayedSignature) {
+		const stored = idempotencyKey !== null && !validateIdempotencyKey(idempotencyKey)
+			? await getCompletedResponse(apiKey.id, idempotencyKey, hashRequestPayload(body))
+			: null;
+		if (!stored) {
+			return jsonResponse(401, { success: false, error: REPLAYED_SIGNATURE_ERROR });
+		}
+		return jsonResponse(stored.statusCode, stored.body, { 'Idempotent-Replayed': 'true' });
+	}
+
+	if (idempotencyKey === null) {
+		const result = await handler(() => undefined);
+		return jsonResponse(result.statusCode, result.body);
+	}
+
+	const keyError = validateIdempotencyKey(idempotencyKey);
+	if (keyError) {
+		await logWebhookError(body, keyError, apiKey.id);
+		return jsonResponse(400, { success: false, error: keyError });
+	}
+
+	const claim = await claimIdempotencyKey(apiKey.id, idempotencyKey, hashRequestPayload(body));
+	if (claim.status === 'replay') {
+		return jsonResponse(claim.response.statusCode, claim.response.body, { 'Idempotent-Replayed': 'true' });
+	}
+	if (claim.status === 'conflict') {
+		await logWebhookError(body, claim.error, apiKey.id);
+		return jsonResponse(409, { success: false, error: claim.error });
+	}
+
+	const { held } = claim;
+	const completeInBatch: CompleteInBatch = (batch, result) => {
+		completeIdempotencyKeyInBatch(batch, held, { statusCode: result.statusCode, body: result.body }, result.transactionId);
+	};
+
+	let result: WebhookResult;
+	try {
+		result = await handler(completeInBatch);
+	} catch (error) {
+		await releaseIdempotencyKey(held);
+		throw error;
+	}
+
+	if (result.statusCode === 200) {
+		if (!result.idempotencyCompleted) {
+			await completeIdempotencyKey(held, { statusCode: result.statusCode, body: result.body }, result.transactionId);
+		}
+	} else {
+		await releaseIdempotencyKey(held);
+	}
+	return jsonResponse(result.statusCode, result.body);
+}
+
+/**
+ * Old senders post categoryId "cash"/"online" for what is now a payment method (by name).
+ * Those are filed under the category the payment type migration moved the old rows to,
+ * with the matching method.
+ */
+const LEGACY_PAYMENT_TYPES: Record<string, string> = {
+	cash: 'Cash',
+	online: 'Online Payment',
+};
+
+function invalid(statusCode: 400 | 403, error: string, logMessage: string = error): WebhookValidationResult {
+	return { ok: false, statusCode, error, logMessage };
+}
+
+/**
+ * Validate one webhook transaction payload and resolve its category and payment method.
+ * lookupCache lets batch callers avoid re-reading the same category, method or account per
+ * item; keys are prefixed with "category:", "method:" or "account:".
+ */
+export async function validateWebhookTransaction(
+	body: any,
+	apiKey: WebhookSender,
+	lookupCache: Map<string, string | null> = new Map()
+): Promise<WebhookValidationResult> {
+	// Extract and validate required fields (any "createdBy" in the body is ignored)
+	const {
+		date,           // ISO date string (e.g., "2026-01-22T13:18:08Z") or YYYY-MM-DD
+		type,           // "income" | "expense"
+		amount,         // Number (will be converted to cents)
+		categoryId,     // Category ID (legacy: "cash"/"online", see LEGACY_PAYMENT_TYPES)
+		paymentMethod,  // Optional - payment method ID (e.g., "cash", "card")
+		accountId,      // Optional - account the money moved in or out of
+		note,           // Optional
+		clickupId,      // Optional
+		companyName,    // Optional
+		externalId      // Optional - the sender's own ID, also used for duplicate protection
+	} = body ?? {};
+
+	// Validate required fields
+	if (!date || !type || amount === undefined || !categoryId) {
+		return invalid(400, 'Missing required fields. Required: date, type, amount, categoryId');
+	}
+
+	// Validate type
+	if (type !== 'income' && type !== 'expense') {
+		return invalid(400, 'Invalid type. Must be "income" or "expense"');
+	}
+
+	// Parse date - handle both ISO strings and YYYY-MM-DD format
+	let transactionDate: Date;
+	if (typeof date === 'string') {
+		// If it's just YYYY-MM-DD, add time
+		if (date.match(/^\d{4}-\d{2}-\d{2}$/)) {
+			transactionDate = new Date(date + 'T00:00:00');
+		} else {
+			transactionDate = new Date(date);
+		}
+	} else {
+		return invalid(400, 'Invalid date format. Use ISO date string or YYYY-MM-DD');
+	}
+
+	if (isNaN(transactionDate.getTime())) {
+		return invalid(
+			400,
+			'Invalid date format. Use ISO date string (e.g., "2026-01-22T13:18:08Z") or YYYY-MM-DD',
+			'Invalid date format. Use ISO date string or YYYY-MM-DD'
+		);
+	}
+
+	// Convert amount to cents
+	const amountCents = Math.round(parseFloat(amount) * 100);
+	if (amountCents <= 0 || isNaN(amountCents)) {
+		return invalid(400, 'Amount must be a positive number');
+	}
+
+	// Legacy payment type "categories" become a payment method on the fallback category
+	const rawCategoryId = String(categoryId);
+	const legacyMethodName = LEGACY_PAYMENT_TYPES[rawCategoryId];
+	const legacyMethod = legacyMethodName ? paymentMethodId(legacyMethodName) : undefined;
+	const categoryKey = `category:${rawCategoryId}`;
+	if (!lookupCache.has(categoryKey)) {
+		const resolvedId = legacyMethod ? await getLegacyPaymentCategory() : rawCategoryId;
+		const categoryDoc = await db.collection('categories').doc(resolvedId).get();
+		lookupCache.set(categoryKey, categoryDoc.exists ? resolvedId : null);
+	}
+	const finalCategoryId = lookupCache.get(categoryKey);
+	if (!finalCategoryId) {
+		return invalid(
+			400,
+			`Category ID "${rawCategoryId}" does not exist. Please use a valid category ID`,
+			`Category ID "${rawCategoryId}" does not exist`
+		);
+	}
+
+	// An explicit paymentMethod wins over the one implied by a legacy categoryId
+	const rawPaymentMethod = paymentMethod !== undefined && paymentMethod !== '' ? String(paymentMethod) : legacyMethod;
+	if (rawPaymentMethod) {
+		const methodKey = `method:${rawPaymentMethod}`;
+		if (!lookupCache.has(methodKey)) {
+			// The implied method is created on first use, so old senders work before the defaults are seeded
+			if (legacyMethodName && rawPaymentMethod === legacyMethod) {
+				await ensureDefaultPaymentMethod(legacyMethodName);
+			}
+			lookupCache.set(methodKey, (await isActivePaymentMethod(rawPaymentMethod)) ? rawPaymentMethod : null);
+		}
+		if (!lookupCache.get(methodKey)) {
+			return invalid(400, `Payment method "${rawPaymentMethod}" does not exist or is inactive`);
+		}
+	}
+
+	// Without an account the default account is used; once accounts exist, one of the two is required
+	const rawAccountId = accountId !== undefined && accountId !== '' ? String(accountId) : undefined;
+	const accountKey = `account:${rawAccountId || ''}`;
+	if (!lookupCache.has(accountKey)) {
+		lookupCache.set(accountKey, await resolveTransactionAccount(rawAccountId).then(id => id || '', () => null));
+	}
+	const finalAccountId = lookupCache.get(accountKey);
+	if (finalAccountId === null) {
+		return invalid(400, rawAccountId
+			? `Account "${rawAccountId}" does not exist or is inactive`
+			: 'Account ID is required. Please send an accountId or set a default account');
+	}
+
+	// Enforce the key's scope (allowed types and categories)
+	const scopeError = checkApiKeyScope(apiKey, { type, categoryId: finalCategoryId });
+	if (scopeError) {
+		return invalid(403, scopeError);
+	}
+
+	return {
+		ok: true,
+		transaction: {
+			ts: transactionDate,
+			type,
+			amountCents,
+			categoryId: finalCategoryId,
+			paymentMethod: rawPaymentMethod,
+			accountId: finalAccountId || undefined,
+			note: note || '',
+			clickupId: clickupId || undefined,
+			companyName: companyName || undefined,
+			externalId: externalId !== undefined && externalId !== '' ? String(externalId) : undefined,
+			source: 'webhook',
+			createdBy: apiKey.userId,
+		},
+	};
+}
+
+// gRPC status Firestore returns when create() finds the document already there
+const ALREADY_EXISTS = 6;
+
+/**
+ * ID of the transaction a replay of the given webhook error creates
+ */
+function replayTransactionId(webhookErrorId: string): string {
+	return `whe_${webhookErrorId}`;
+}
+
+/**
+ * Replay a logged webhook error through the same validation as the live endpoint.
+ * The transaction is attributed to the original key's service user, or to the admin
+ * when the error was logged without a key.
+ */
+export async function replayWebhookError(
+	id: string,
+	payload: unknown,
+	actorId: string
+): Promise<{ ok: true; transactionId: string } | { ok: false; error: string }> {
+	const webhookError = await getWebhookError(id);
+	if (!webhookError) {
+		throw new Error('Webhook error not found');
+	}
+	if (webhookError.status !== 'open') {
+		return { ok: false, error: `Webhook error is already ${webhookError.status}` };
+	}
+
+	const apiKey = webhookError.apiKeyId ? await getApiKey(webhookError.apiKeyId) : null;
+	const sender: WebhookSender = apiKey || { userId: actorId, scope: {} };
+
+	const validation = await validateWebhookTransaction(payload, sender);
+	if (!validation.ok) {
+		await recordReplayFailure(id, payload, validation.error);
+		return { ok: false, error: validation.error };
+	}
+
+	// The transaction ID comes from the error, so two replays running at once can't both create
+	// one; the error is resolved in the same write
+	const transactionId = replayTransactionId(id);
+	try {
+		await createTransaction(validation.transaction, {
+			id: transactionId,
+			beforeCommit: (batch) => resolveWebhookErrorInBatch(batch, webhookError, actorId, { transactionId, payload }),
+		});
+	} catch (err: any) {
+		if (err?.code !== ALREADY_EXISTS) throw err;
+		return { ok: false, error: 'Webhook error has already been replayed' };
+	}
+	await logReplayResolution(id, actorId, transactionId);
+	return { ok: true, transactionId };
+}
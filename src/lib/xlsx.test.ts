@@ -0,0 +1,82 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { readXlsx } from './xlsx';
+
+/**
+ * A minimal zip archive: one local header per file and a central directory. The reader
+ * does not check CRCs, so they are left at zero.
+ */
+function zip(files: Record<string, string>, deflate = true): Buffer {
+	const locals: Buffer[] = [];
+	const central: Buffer[] = [];
+	let offset = 0;
+	for (const [name, content] of Object.entries(files)) {
+		const nameBytes = Buffer.from(name);
+		const data = deflate ? deflateRawSync(Buffer.from(content)) : Buffer.from(content);
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(deflate ? 8 : 0, 8);
+		local.writeUInt32LE(data.length, 18);
+		local.writeUInt32LE(Buffer.byteLength(content), 22);
+		local.writeUInt16LE(nameBytes.length, 26);
+		locals.push(local, nameBytes, data);
+
+		const entry = Buffer.alloc(46);
+		entry.writeUInt32LE(0x02014b50, 0);
+		entry.writeUInt16LE(deflate ? 8 : 0, 10);
+		entry.writeUInt32LE(data.length, 20);
+		entry.writeUInt32LE(Buffer.byteLength(content), 24);
+		entry.writeUInt16LE(nameBytes.length, 28);
+		entry.writeUInt32LE(offset, 42);
+		central.push(entry, nameBytes);
+
+		offset += 30 + nameBytes.length + data.length;
+	}
+
+	const directory = Buffer.concat(central);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(Object.keys(files).length, 8);
+	end.writeUInt16LE(Object.keys(files).length, 10);
+	end.writeUInt32LE(directory.length, 12);
+	end.writeUInt32LE(offset, 16);
+	return Buffer.concat([...locals, directory, end]);
+}
+
+const workbook = {
+	'xl/workbook.xml': '<workbook><sheets><sheet name="Ledger" sheetId="1" r:id="rId3"/></sheets></workbook>',
+	'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId3" Type="worksheet" Target="worksheets/ledger.xml"/></Relationships>',
+	'xl/sharedStrings.xml': '<sst><si><t>Date</t></si><si><t>Amount</t></si><si><r><t>Sales </t></r><r><t xml:space="preserve">&amp; Services</t></r></si></sst>',
+};
+
+describe('readXlsx', () => {
+	it('reads the first worksheet with shared, inline and number cells', () => {
+		const data = zip({
+			...workbook,
+			'xl/worksheets/ledger.xml': `<worksheet><sheetData>
+				<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Paid</t></is></c></row>
+				<row r="2"><c r="A2"><v>46023</v></c><c r="B2"><f>SUM(1,2)</f><v>1250.5</v></c><c r="C2" t="s"><v>2</v></c><c r="D2" t="b"><v>1</v></c></row>
+				<row r="3"><c r="A3"/></row>
+			</sheetData></worksheet>`,
+		});
+
+		expect(readXlsx(data)).toEqual([
+			['Date', 'Amount', '', 'Paid'],
+			['46023', '1250.5', 'Sales & Services', 'TRUE'],
+		]);
+	});
+
+	it('reads stored entries and falls back to sheet1 without relationships', () => {
+		const data = zip({
+			'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row><c t="inlineStr"><is><t>caf&#xE9;</t></is></c><c><v>7</v></c></row></sheetData></worksheet>',
+		}, false);
+
+		expect(readXlsx(data)).toEqual([['café', '7']]);
+	});
+
+	it('rejects files that are not zip archives or have no worksheet', () => {
+		expect(() => readXlsx(Buffer.from('Date,Amount\n'.repeat(3)))).toThrow('Not a valid XLSX file');
+		expect(() => readXlsx(zip({ 'xl/workbook.xml': '<workbook/>' }))).toThrow('The workbook has no worksheet');
+	});
+});
@@ -0,0 +1,138 @@
+import { inflateRawSync } from 'node:zlib';
+
+/**
+ * Read the files of a zip archive (an .xlsx file is one) into a map of path → contents.
+ * Only stored and deflated entries are supported, which is all Excel writes.
+ */
+function unzip(data: Buffer): Map<string, Buffer> {
+	// The end of central directory record sits in the last 64 KB (the comment is at most 65535 bytes)
+	let eocd = -1;
+	for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+		if (data.readUInt32LE(i) === 0x06054b50) {
+			eocd = i;
+			break;
+		}
+	}
+	if (eocd === -1) {
+		throw new Error('Not a valid XLSX file');
+	}
+
+	const files = new Map<string, Buffer>();
+	const entries = data.readUInt16LE(eocd + 10);
+	let offset = data.readUInt32LE(eocd + 16);
+	for (let i = 0; i < entries; i++) {
+		if (data.readUInt32LE(offset) !== 0x02014b50) {
+			throw new Error('Not a valid XLSX file');
+		}
+		const method = data.readUInt16LE(offset + 10);
+		const compressedSize = data.readUInt32LE(offset + 20);
+		const nameLength = data.readUInt16LE(offset + 28);
+		const extraLength = data.readUInt16LE(offset + 30);
+		const commentLength = data.readUInt16LE(offset + 32);
+		const localOffset = data.readUInt32LE(offset + 42);
+		const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+		// The local header repeats the name and has its own extra field length
+		const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+		const raw = data.subarray(start, start + compressedSize);
+		if (method === 0) {
+			files.set(name, raw);
+		} else if (method === 8) {
+			files.set(name, inflateRawSync(raw));
+		}
+
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+	return files;
+}
+
+function decodeXml(text: string): string {
+	return text
+		.replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+		.replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, '&');
+}
+
+/**
+ * Concatenated text of all <t> runs, as used by shared and inline strings
+ */
+function runsText(xml: string): string {
+	return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), m => decodeXml(m[1])).join('');
+}
+
+/**
+ * Zero-based column number of a cell reference such as "AB12"
+ */
+function columnIndex(ref: string): number {
+	const letters = ref.match(/^[A-Z]+/)?.[0] || 'A';
+	let index = 0;
+	for (const letter of letters) {
+		index = index * 26 + (letter.charCodeAt(0) - 64);
+	}
+	return index - 1;
+}
+
+/**
+ * Path of the first worksheet, following the workbook relationships
+ */
+function firstSheetPath(files: Map<string, Buffer>): string {
+	const workbook = files.get('xl/workbook.xml')?.toString('utf8') || '';
+	const rels = files.get('xl/_rels/workbook.xml.rels')?.toString('utf8') || '';
+	const relId = workbook.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1];
+	const target = relId
+		? rels.match(new RegExp(`<Relationship\\s[^>]*Id="${relId}"[^>]*Target="([^"]+)"`))?.[1]
+			|| rels.match(new RegExp(`<Relationship\\s[^>]*Target="([^"]+)"[^>]*Id="${relId}"`))?.[1]
+		: undefined;
+	if (!target) {
+		return 'xl/worksheets/sheet1.xml';
+	}
+	return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Read the first worksheet of an .xlsx file as rows of cell text. Numbers are returned
+ * as written in the file, so dates come back as Excel serial numbers (e.g. "46023").
+ * Formulas give their cached result. Empty rows are skipped.
+ */
+export function readXlsx(data: Buffer): string[][] {
+	const files = unzip(data);
+	const sheet = files.get(firstSheetPath(files))?.toString('utf8');
+	if (!sheet) {
+		throw new Error('The workbook has no worksheet');
+	}
+	const sharedXml = files.get('xl/sharedStrings.xml')?.toString('utf8') || '';
+	const shared = Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g), m => runsText(m[1]));
+
+	const rows: string[][] = [];
+	for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+		const row: string[] = [];
+		for (const cell of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+			const attrs = cell[1];
+			const body = cell[2] || '';
+			const ref = attrs.match(/\br="([A-Z]+\d*)"/)?.[1];
+			const type = attrs.match(/\bt="(\w+)"/)?.[1];
+			const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+			let text = '';
+			if (type === 's' && value !== undefined) {
+				text = shared[Number(value)] ?? '';
+			} else if (type === 'inlineStr') {
+				text = runsText(body);
+			} else if (type === 'b') {
+				text = value === '1' ? 'TRUE' : 'FALSE';
+			} else if (value !== undefined) {
+				text = decodeXml(value);
+			}
+
+			const index = ref ? columnIndex(ref) : row.length;
+			while (row.length < index) row.push('');
+			row[index] = text;
+		}
+		if (row.some(value => value.trim() !== '')) rows.push(row);
+	}
+	return rows;
+}
@@ -0,0 +1,22 @@
+import type { APIRoute } from 'astro';
+import { isCronAuthorized, cronUnauthorized } from '../../../lib/cron';
+import { appendAuditChain } from '../../../lib/firestore/auditChain';
+
+/**
+ * Called by a scheduler with "Authorization: Bearer <CRON_SECRET>", ideally every minute.
+ * Appends audit entries queued since the last call to the hash chain.
+ */
+const handler: APIRoute = async ({ request }) => {
+	if (!isCronAuthorized(request)) {
+		return cronUnauthorized();
+	}
+
+	const appended = await appendAuditChain();
+	return new Response(JSON.stringify({ appended }), {
+		status: 200,
+		headers: { 'Content-Type': 'application/json' },
+	});
+};
+
+export const GET = handler;
+export const POST = handler;
@@ -0,0 +1,22 @@
+import type { APIRoute } from 'astro';
+import { isCronAuthorized, cronUnauthorized, getSystemUserId } from '../../../lib/cron';
+import { createAuditCheckpointIfDue, serializeCheckpoint } from '../../../lib/firestore/auditChain';
+
+/**
+ * Called by a scheduler with "Authorization: Bearer <CRON_SECRET>", e.g. every hour.
+ * Signs a checkpoint of the audit chain when the last one is a day old.
+ */
+const handler: APIRoute = async ({ request }) => {
+	if (!isCronAuthorized(request)) {
+		return cronUnauthorized();
+	}
+
+	const checkpoint = await createAuditCheckpointIfDue(getSystemUserId());
+	return new Response(JSON.stringify({ checkpoint: checkpoint ? serializeCheckpoint(checkpoint) : null }), {
+		status: 200,
+		headers: { 'Content-Type': 'application/json' },
+	});
+};
+
+export const GET = handler;
+export const POST = handler;
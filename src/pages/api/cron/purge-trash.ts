@@ -0,0 +1,22 @@
+import type { APIRoute } from 'astro';
+import { isCronAuthorized, cronUnauthorized, getSystemUserId } from '../../../lib/cron';
+import { purgeExpiredTrash } from '../../../lib/firestore/trash';
+
+/**
+ * Called by a scheduler with "Authorization: Bearer <CRON_SECRET>", e.g. once a day.
+ * Purges trashed transactions older than TRASH_RETENTION_DAYS.
+ */
+const handler: APIRoute = async ({ request }) => {
+	if (!isCronAuthorized(request)) {
+		return cronUnauthorized();
+	}
+
+	const purged = await purgeExpiredTrash(getSystemUserId());
+	return new Response(JSON.stringify({ purged }), {
+		status: 200,
+		headers: { 'Content-Type': 'application/json' },
+	});
+};
+
+export const GET = handler;
+export const POST = handler;
@@ -0,0 +1,28 @@
+import type { APIRoute } from 'astro';
+import { isCronAuthorized, cronUnauthorized } from '../../../lib/cron';
+import { runScheduledDuePayments } from '../../../lib/firestore/repeatableRuns';
+
+/**
+ * Called by a scheduler (system cron, Vercel Cron) with "Authorization: Bearer <CRON_SECRET>".
+ * It can be called as often as wanted; due payments only run once per scheduled time slot.
+ */
+const handler: APIRoute = async ({ request, url }) => {
+	if (!isCronAuthorized(request)) {
+		return cronUnauthorized();
+	}
+
+	const outcome = await runScheduledDuePayments({ force: url.searchParams.get('force') === 'true' });
+	const failed = outcome.run?.status === 'failed';
+
+	return new Response(JSON.stringify({
+		ran: outcome.ran,
+		...(outcome.reason ? { reason: outcome.reason } : {}),
+		...(outcome.run ? { run: outcome.run } : {}),
+	}), {
+		status: failed ? 500 : 200,
+		headers: { 'Content-Type': 'application/json' },
+	});
+};
+
+export const GET = handler;
+export const POST = handler;
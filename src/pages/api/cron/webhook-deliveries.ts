@@ -0,0 +1,22 @@
+import type { APIRoute } from 'astro';
+import { isCronAuthorized, cronUnauthorized } from '../../../lib/cron';
+import { retryDueDeliveries } from '../../../lib/outboundWebhooks';
+
+/**
+ * Called by a scheduler with "Authorization: Bearer <CRON_SECRET>", ideally every minute.
+ * Sends queued outbound webhook deliveries and retries whose backoff has passed.
+ */
+const handler: APIRoute = async ({ request }) => {
+	if (!isCronAuthorized(request)) {
+		return cronUnauthorized();
+	}
+
+	const { attempted } = await retryDueDeliveries();
+	return new Response(JSON.stringify({ attempted }), {
+		status: 200,
+		headers: { 'Content-Type': 'application/json' },
+	});
+};
+
+export const GET = handler;
+export const POST = handler;
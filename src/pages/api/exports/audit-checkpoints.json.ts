@@ -0,0 +1,23 @@
+import type { APIRoute } from 'astro';
+import { requireAdmin } from '../../../lib/auth';
+import { listAuditCheckpoints, serializeCheckpoint } from '../../../lib/firestore/auditChain';
+
+export const GET: APIRoute = async ({ request }) => {
+	await requireAdmin(request);
+
+	const checkpoints = await listAuditCheckpoints(1000);
+	const body = {
+		exportedAt: new Date().toISOString(),
+		// Signature = HMAC-SHA256(AUDIT_SIGNING_KEY, "<seq>.<hash>.<entryId>.<createdAt>")
+		algorithm: 'HMAC-SHA256',
+		checkpoints: checkpoints.map(serializeCheckpoint),
+	};
+
+	return new Response(JSON.stringify(body, null, 2), {
+		status: 200,
+		headers: {
+			'Content-Type': 'application/json; charset=utf-8',
+			'Content-Disposition': `attachment; filename="audit-checkpoints-${body.exportedAt.slice(0, 10)}.json"`,
+		},
+	});
+};
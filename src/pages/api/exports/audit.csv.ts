@@ -0,0 +1,66 @@
+import type { APIRoute } from 'astro';
+import { requireAdmin } from '../../../lib/auth';
+import { listAuditLogs, parseAuditFilters } from '../../../lib/firestore/audit';
+import { listCategories } from '../../../lib/firestore/categories';
+import { auth } from '../../../lib/firebaseAdmin';
+import { toCsvCell } from '../../../lib/csv';
+import type { AuditLog } from '../../../lib/types';
+
+export const GET: APIRoute = async ({ request }) => {
+	await requireAdmin(request);
+
+	const filters = await parseAuditFilters(new URL(request.url).searchParams);
+
+	// Walk all pages so large exports are not cut off
+	const entries: AuditLog[] = [];
+	let hasMore = true;
+	while (hasMore) {
+		const page = await listAuditLogs({
+			...filters,
+			limit: 1000,
+			startAfterId: entries.length ? entries[entries.length - 1].id : undefined,
+		});
+		entries.push(...page.entries);
+		hasMore = page.hasMore;
+	}
+
+	const categories = await listCategories();
+	const categoryMap = new Map(categories.map(c => [c.id, c.name]));
+
+	const userEmails = new Map<string, string>();
+	for (const uid of new Set(entries.map(e => e.createdBy))) {
+		try {
+			const userRecord = await auth.getUser(uid);
+			userEmails.set(uid, userRecord.email || uid);
+		} catch {
+			userEmails.set(uid, uid);
+		}
+	}
+
+	const header = ['createdAt', 'actor', 'action', 'entityType', 'entityId', 'amount', 'category', 'meta', 'id', 'seq', 'hash'];
+	const rows = entries.map(entry => [
+		entry.createdAt.toISOString(),
+		userEmails.get(entry.createdBy) || entry.createdBy,
+		entry.action,
+		entry.entityType,
+		entry.entityId || '',
+		entry.amountCents !== undefined ? (entry.amountCents / 100).toFixed(2) : '',
+		entry.categoryId ? (categoryMap.get(entry.categoryId) || entry.categoryId) : '',
+		entry.meta ? JSON.stringify(entry.meta) : '',
+		entry.id,
+		entry.seq ?? '',
+		entry.hash || '',
+	]);
+
+	const csv = [header, ...rows]
+		.map(row => row.map(toCsvCell).join(','))
+		.join('\n');
+
+	return new Response(csv, {
+		status: 200,
+		headers: {
+			'Content-Type': 'text/csv; charset=utf-8',
+			'Content-Disposition': 'attachment; filename="audit-log.csv"',
+		},
+	});
+};
@@ -1,9 +1,15 @@
 import type { APIRoute } from 'astro';
 import { requireAdmin } from '../../../lib/auth';
-import { listTransactions } from '../../../lib/firestore/transactions';
+import { listTransactions, transactionSource, TRANSACTION_SOURCES } from '../../../lib/firestore/transactions';
 import { listCategories } from '../../../lib/firestore/categories';
+import { listPaymentMethods } from '../../../lib/firestore/paymentMethods';
+import { listAccounts } from '../../../lib/firestore/accounts';
 import { auth } from '../../../lib/firebaseAdmin';
 import { parseDateKey } from '../../../lib/dates';
+import { parseSearchParams } from '../../../lib/search';
+import { toCsvCell } from '../../../lib/csv';
+import { transactionLines } from '../../../lib/splits';
+import type { Transaction } from '../../../lib/types';
 
 export const GET: APIRoute = async ({ request }) => {
 	await requireAdmin(request);
@@ -13,23 +19,44 @@ export const GET: APIRoute = async ({ request }) => {
 	const toParam = url.searchParams.get('to');
 	const typeParam = url.searchParams.get('type');
 	const categoryIdParam = url.searchParams.get('categoryId');
+	const paymentMethod = url.searchParams.get('paymentMethod') || undefined;
+	const accountId = url.searchParams.get('accountId') || undefined;
+	const source = TRANSACTION_SOURCES.find(option => option.value === url.searchParams.get('source'))?.value;
 
 	const fromDate = fromParam ? parseDateKey(fromParam) : undefined;
 	const toDate = toParam ? parseDateKey(toParam) : undefined;
 	const type = typeParam && typeParam !== 'all' ? (typeParam as 'income' | 'expense') : undefined;
 	const categoryId = categoryIdParam || undefined;
+	const search = parseSearchParams(url.searchParams);
 
-	const { transactions } = await listTransactions({
-		fromDate,
-		toDate,
-		type,
-		categoryId,
-		limit: 5000,
-		offset: 0,
-	});
+	// Walk all pages with cursors so large exports are not cut off
+	const transactions: Transaction[] = [];
+	let hasNext = true;
+	while (hasNext) {
+		const page = await listTransactions({
+			fromDate,
+			toDate,
+			type,
+			categoryId,
+			paymentMethod,
+			accountId,
+			source,
+			...search,
+			limit: 1000,
+			startAfterId: transactions.length ? transactions[transactions.length - 1].id : undefined,
+		});
+		transactions.push(...page.transactions);
+		hasNext = page.hasNext;
+	}
 
-	const categories = await listCategories();
+	const [categories, paymentMethods, accounts] = await Promise.all([
+		listCategories(),
+		listPaymentMethods(),
+		listAccounts(),
+	]);
 	const categoryMap = new Map(categories.map(c => [c.id, c.name]));
+	const paymentMethodMap = new Map(paymentMethods.map(m => [m.id, m.name]));
+	const accountMap = new Map(accounts.map(a => [a.id, a.name]));
 
 	const userIds = new Set(transactions.map(t => t.createdBy));
 	const userEmails = new Map<string, string>();
@@ -47,25 +74,43 @@ export const GET: APIRoute = async ({ request }) => {
 		'type',
 		'amount',
 		'category',
+		'paymentMethod',
+		'account',
 		'note',
 		'clickupId',
 		'companyName',
+		'reconciled',
 		'createdBy',
+		'source',
+		'lineNote',
+		'transactionAmount',
+		'transactionId',
 	];
 
-	const rows = transactions.map(tx => [
-		tx.ts.toISOString(),
-		tx.type,
-		(tx.amountCents / 100).toFixed(2),
-		categoryMap.get(tx.categoryId) || tx.categoryId,
-		tx.note || '',
-		tx.clickupId || '',
-		tx.companyName || '',
-		userEmails.get(tx.createdBy) || tx.createdBy,
-	]);
+	// One row per category line: split transactions give several rows sharing a transactionId,
+	// and a category filter keeps only the lines in that category
+	const rows = transactions.flatMap(tx => transactionLines(tx)
+		.filter(line => !categoryId || line.categoryId === categoryId)
+		.map(line => [
+			tx.ts.toISOString(),
+			tx.type,
+			(line.amountCents / 100).toFixed(2),
+			categoryMap.get(line.categoryId) || line.categoryId,
+			tx.paymentMethod ? (paymentMethodMap.get(tx.paymentMethod) || tx.paymentMethod) : '',
+			tx.accountId ? (accountMap.get(tx.accountId) || tx.accountId) : '',
+			tx.note || '',
+			tx.clickupId || '',
+			tx.companyName || '',
+			tx.reconciled ? 'yes' : 'no',
+			userEmails.get(tx.createdBy) || tx.createdBy,
+			transactionSource(tx),
+			line.note || '',
+			(tx.amountCents / 100).toFixed(2),
+			tx.id,
+		]));
 
 	const csv = [header, ...rows]
-		.map(row => row.map(value => `"${String(value).replace(/"/g, '""')}"`).join(','))
+		.map(row => row.map(toCsvCell).join(','))
 		.join('\n');
 
 	return new Response(csv, {
@@ -2,6 +2,8 @@ import type { APIRoute } from 'astro';
 import PDFDocument from 'pdfkit';
 import { requireAdmin } from '../../../lib/auth';
 import { getComputedPeriodSummary, getComputedWeeklyTable, getComputedMonthlyTable } from '../../../lib/firestore/summaries';
+import { listPaymentMethods, labelPaymentTotals } from '../../../lib/firestore/paymentMethods';
+import { listCategories } from '../../../lib/firestore/categories';
 import { formatDate, parseDateKey, getMonthRange } from '../../../lib/dates';
 
 export const GET: APIRoute = async ({ request }) => {
@@ -19,6 +21,9 @@ export const GET: APIRoute = async ({ request }) => {
 	const monthData = await getComputedPeriodSummary(monthStart, monthEnd);
 	const weeklyTable = await getComputedWeeklyTable();
 	const monthlyTable = await getComputedMonthlyTable();
+	const paymentMethods = await listPaymentMethods();
+	const categories = await listCategories();
+	const categoryNames = new Map(categories.map(c => [c.id, c.name]));
 
 	const doc = new PDFDocument({ margin: 40 });
 
@@ -35,6 +40,24 @@ export const GET: APIRoute = async ({ request }) => {
 	doc.fontSize(11).text(`Income: €${(monthData.incomeCents / 100).toFixed(2)}`);
 	doc.fontSize(11).text(`Expense: €${(monthData.expenseCents / 100).toFixed(2)}`);
 	doc.fontSize(11).text(`Net: €${(monthData.netCents / 100).toFixed(2)}`);
+	labelPaymentTotals(monthData.payments, paymentMethods).forEach(payment => {
+		doc.fontSize(10).text(`Income by ${payment.label}: €${(payment.value / 100).toFixed(2)}`);
+	});
+
+	// Split transactions count in each of their lines' categories
+	const categoryRows = Object.entries(monthData.byCategory)
+		.map(([id, totals]) => ({ name: categoryNames.get(id) || id, ...totals }))
+		.sort((a, b) => (b.incomeCents + b.expenseCents) - (a.incomeCents + a.expenseCents));
+	if (categoryRows.length > 0) {
+		doc.moveDown();
+		doc.fontSize(14).text('By Category');
+		doc.moveDown(0.5);
+		categoryRows.forEach(row => {
+			doc.fontSize(10).text(
+				`${row.name} | Income: €${(row.incomeCents / 100).toFixed(2)} | Expense: €${(row.expenseCents / 100).toFixed(2)}`
+			);
+		});
+	}
 
 	doc.moveDown();
 	doc.fontSize(14).text('Weekly Summary (Last 8 Weeks)');
@@ -0,0 +1,39 @@
+import { deleteCategory, getCategory, updateCategory } from '../../../../lib/firestore/categories';
+import {
+	apiHandler,
+	apiJson,
+	apiError,
+	parseInput,
+	requireApiAdmin,
+	requireParam,
+	CATEGORY_UPDATE,
+} from '../../../../lib/apiV1';
+import type { Category } from '../../../../lib/types';
+
+export const GET = apiHandler(async ({ params }) => {
+	const category = await getCategory(requireParam(params, 'id'));
+	if (!category) {
+		return apiError(404, 'not_found', 'Category not found');
+	}
+	return apiJson(200, { data: category });
+});
+
+export const PATCH = apiHandler(async ({ params, body, principal }) => {
+	requireApiAdmin(principal);
+	const id = requireParam(params, 'id');
+	const input = parseInput(body, CATEGORY_UPDATE, true);
+
+	await updateCategory(id, {
+		...(input.name !== undefined ? { name: (input.name as string).trim() } : {}),
+		...(input.type !== undefined ? { type: input.type as Category['type'] } : {}),
+		...(input.active !== undefined ? { active: input.active as boolean } : {}),
+	}, principal.uid);
+	return apiJson(200, { data: await getCategory(id) });
+});
+
+export const DELETE = apiHandler(async ({ params, principal }) => {
+	requireApiAdmin(principal);
+	// Fails with 409 if the category is used by transactions
+	await deleteCategory(requireParam(params, 'id'), principal.uid);
+	return new Response(null, { status: 204 });
+});
@@ -0,0 +1,40 @@
+import { createCategory, getCategory, listCategories } from '../../../../lib/firestore/categories';
+import {
+	apiHandler,
+	apiJson,
+	apiError,
+	paginate,
+	parseInput,
+	parsePageParams,
+	requireApiAdmin,
+	CATEGORY_CREATE,
+} from '../../../../lib/apiV1';
+import type { Category } from '../../../../lib/types';
+
+export const GET = apiHandler(async ({ url }) => {
+	const { limit, cursorId } = parsePageParams(url);
+
+	const activeParam = url.searchParams.get('active');
+	if (activeParam && activeParam !== 'true' && activeParam !== 'false') {
+		return apiError(400, 'validation_error', 'active must be "true" or "false"', { field: 'active' });
+	}
+
+	let categories = await listCategories();
+	if (activeParam) {
+		categories = categories.filter(c => c.active === (activeParam === 'true'));
+	}
+
+	return apiJson(200, paginate(categories, limit, cursorId));
+});
+
+export const POST = apiHandler(async ({ body, principal }) => {
+	requireApiAdmin(principal);
+	const input = parseInput(body, CATEGORY_CREATE);
+
+	const categoryId = await createCategory(
+		(input.name as string).trim(),
+		principal.uid,
+		input.type as Category['type']
+	);
+	return apiJson(201, { data: await getCategory(categoryId) }, { Location: `/api/v1/categories/${categoryId}` });
+});
@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { buildOpenApiDocument } from '../../../lib/openapi';
+
+// Public so API clients and code generators can fetch it without credentials
+export const GET: APIRoute = async ({ url }) => {
+	return new Response(JSON.stringify(buildOpenApiDocument(url.origin), null, 2), {
+		status: 200,
+		headers: { 'Content-Type': 'application/json' },
+	});
+};
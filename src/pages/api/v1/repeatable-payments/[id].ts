@@ -0,0 +1,61 @@
+import {
+	deleteRepeatablePayment,
+	getRepeatablePayment,
+	updateRepeatablePayment,
+} from '../../../../lib/firestore/repeatablePayments';
+import {
+	apiHandler,
+	apiJson,
+	apiError,
+	parseInput,
+	requireApiAdmin,
+	requireCategory,
+	requirePaymentMethod,
+	resolveAccount,
+	requireParam,
+	requireRecurrence,
+	REPEATABLE_PAYMENT_UPDATE,
+} from '../../../../lib/apiV1';
+import type { RepeatablePayment } from '../../../../lib/types';
+
+export const GET = apiHandler(async ({ params, principal }) => {
+	requireApiAdmin(principal);
+	const payment = await getRepeatablePayment(requireParam(params, 'id'));
+	if (!payment) {
+		return apiError(404, 'not_found', 'Repeatable payment not found');
+	}
+	return apiJson(200, { data: payment });
+});
+
+export const PATCH = apiHandler(async ({ params, body, principal }) => {
+	requireApiAdmin(principal);
+	const id = requireParam(params, 'id');
+	const input = parseInput(body, REPEATABLE_PAYMENT_UPDATE, true);
+	if (input.categoryId !== undefined) {
+		await requireCategory(input.categoryId as string);
+	}
+	if (input.paymentMethod) {
+		await requirePaymentMethod(input.paymentMethod as string);
+	}
+
+	// updateRepeatablePayment stores null for cleared optional fields
+	const data: Record<string, unknown> = { ...input };
+	if (input.accountId !== undefined) {
+		data.accountId = (await resolveAccount((input.accountId as string | null) || undefined)) || '';
+	}
+	if (typeof data.name === 'string') data.name = data.name.trim();
+	if (typeof data.rrule === 'string') data.recurrence = requireRecurrence(data.rrule);
+	delete data.rrule;
+	for (const field of ['paymentMethod', 'accountId', 'note', 'clickupId', 'companyName', 'endDate']) {
+		if (data[field] === null) data[field] = '';
+	}
+
+	await updateRepeatablePayment(id, data as Partial<RepeatablePayment>, principal.uid);
+	return apiJson(200, { data: await getRepeatablePayment(id) });
+});
+
+export const DELETE = apiHandler(async ({ params, principal }) => {
+	requireApiAdmin(principal);
+	await deleteRepeatablePayment(requireParam(params, 'id'), principal.uid);
+	return new Response(null, { status: 204 });
+});
@@ -0,0 +1,67 @@
+import {
+	createRepeatablePayment,
+	getRepeatablePayment,
+	listRepeatablePayments,
+} from '../../../../lib/firestore/repeatablePayments';
+import {
+	apiHandler,
+	apiJson,
+	paginate,
+	parseInput,
+	parsePageParams,
+	requireApiAdmin,
+	requireCategory,
+	requirePaymentMethod,
+	resolveAccount,
+	requireRecurrence,
+	apiError,
+	REPEATABLE_PAYMENT_CREATE,
+} from '../../../../lib/apiV1';
+import type { RecurrenceRule, RepeatFrequency, TransactionType } from '../../../../lib/types';
+
+export const GET = apiHandler(async ({ url, principal }) => {
+	// Repeatable payments are admin-only, as in the UI
+	requireApiAdmin(principal);
+	const { limit, cursorId } = parsePageParams(url);
+	const payments = await listRepeatablePayments(url.searchParams.get('active') === 'true');
+	return apiJson(200, paginate(payments, limit, cursorId));
+});
+
+export const POST = apiHandler(async ({ body, principal }) => {
+	requireApiAdmin(principal);
+	const input = parseInput(body, REPEATABLE_PAYMENT_CREATE);
+	await requireCategory(input.categoryId as string);
+	if (input.paymentMethod) {
+		await requirePaymentMethod(input.paymentMethod as string);
+	}
+	const accountId = await resolveAccount((input.accountId as string | null) || undefined);
+	if (!input.rrule && !input.frequency) {
+		throw apiError(400, 'validation_error', 'Field "frequency" or "rrule" is required', { field: 'frequency' });
+	}
+	const recurrence: RecurrenceRule = input.rrule
+		? requireRecurrence(input.rrule as string)
+		: { freq: input.frequency as RepeatFrequency, interval: 1 };
+
+	const paymentId = await createRepeatablePayment({
+		name: (input.name as string).trim(),
+		type: input.type as TransactionType,
+		amountCents: input.amountCents as number,
+		categoryId: input.categoryId as string,
+		paymentMethod: (input.paymentMethod as string | null) || undefined,
+		accountId,
+		frequency: recurrence.freq,
+		recurrence,
+		startDate: input.startDate as Date,
+		endDate: (input.endDate as Date | null) || undefined,
+		note: (input.note as string | null) || undefined,
+		clickupId: (input.clickupId as string | null) || undefined,
+		companyName: (input.companyName as string | null) || undefined,
+		active: (input.active as boolean | undefined) ?? true,
+		createdBy: principal.uid,
+	});
+	return apiJson(
+		201,
+		{ data: await getRepeatablePayment(paymentId) },
+		{ Location: `/api/v1/repeatable-payments/${paymentId}` }
+	);
+});
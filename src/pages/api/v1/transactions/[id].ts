@@ -0,0 +1,87 @@
+import { deleteTransaction, getTransaction, updateTransaction } from '../../../../lib/firestore/transactions';
+import { checkApiKeyScope } from '../../../../lib/apiKeyAuth';
+import {
+	apiHandler,
+	apiJson,
+	apiError,
+	parseInput,
+	requireApiAdmin,
+	requireCategory,
+	requirePaymentMethod,
+	resolveAccount,
+	requireParam,
+	TRANSACTION_UPDATE,
+	type ApiPrincipal,
+} from '../../../../lib/apiV1';
+import type { Transaction, TransactionType } from '../../../../lib/types';
+
+/**
+ * Load a transaction the caller may see. Staff can only access their own, and an API key
+ * only those within its scope.
+ */
+async function loadTransaction(id: string, principal: ApiPrincipal): Promise<Transaction> {
+	const transaction = await getTransaction(id);
+	if (!transaction) {
+		throw apiError(404, 'not_found', 'Transaction not found');
+	}
+	if (principal.role === 'staff' && transaction.createdBy !== principal.uid) {
+		throw apiError(403, 'forbidden', 'You can only access your own transactions');
+	}
+	if (principal.apiKey && checkApiKeyScope(principal.apiKey, transaction)) {
+		throw apiError(403, 'forbidden', 'This transaction is outside the API key\'s scope');
+	}
+	return transaction;
+}
+
+export const GET = apiHandler(async ({ params, principal }) => {
+	const transaction = await loadTransaction(requireParam(params, 'id'), principal);
+	return apiJson(200, { data: transaction });
+});
+
+export const PATCH = apiHandler(async ({ params, body, principal }) => {
+	const id = requireParam(params, 'id');
+	const existing = await loadTransaction(id, principal);
+	const input = parseInput(body, TRANSACTION_UPDATE, true);
+
+	if (input.categoryId !== undefined) {
+		await requireCategory(input.categoryId as string);
+	}
+	// The current method or account may have been deactivated since; keeping it is allowed
+	if (input.paymentMethod && input.paymentMethod !== existing.paymentMethod) {
+		await requirePaymentMethod(input.paymentMethod as string);
+	}
+	const accountChanged = input.accountId !== undefined && (input.accountId || '') !== (existing.accountId || '');
+	const accountId = accountChanged ? await resolveAccount((input.accountId as string | null) || undefined) : undefined;
+	if (principal.apiKey) {
+		const scopeError = checkApiKeyScope(principal.apiKey, {
+			type: (input.type as TransactionType | undefined) ?? existing.type,
+			categoryId: (input.categoryId as string | undefined) ?? existing.categoryId,
+			splits: existing.splits,
+		});
+		if (scopeError) {
+			return apiError(403, 'forbidden', scopeError);
+		}
+	}
+
+	// null clears an optional text field
+	const data: Partial<Omit<Transaction, 'id' | 'createdAt' | 'createdBy'>> = {};
+	if (input.ts !== undefined) data.ts = input.ts as Date;
+	if (input.type !== undefined) data.type = input.type as TransactionType;
+	if (input.amountCents !== undefined) data.amountCents = input.amountCents as number;
+	if (input.categoryId !== undefined) data.categoryId = input.categoryId as string;
+	if (input.paymentMethod !== undefined) data.paymentMethod = (input.paymentMethod as string | null) || '';
+	if (accountChanged) data.accountId = accountId || '';
+	if (input.note !== undefined) data.note = (input.note as string | null) || '';
+	if (input.clickupId !== undefined) data.clickupId = (input.clickupId as string | null) || '';
+	if (input.companyName !== undefined) data.companyName = (input.companyName as string | null) || '';
+
+	await updateTransaction(id, data, principal.uid);
+	return apiJson(200, { data: await getTransaction(id) });
+});
+
+export const DELETE = apiHandler(async ({ params, principal }) => {
+	// Only admins can delete, as in the UI
+	requireApiAdmin(principal);
+	await deleteTransaction(requireParam(params, 'id'), principal.uid);
+	return new Response(null, { status: 204 });
+});
@@ -0,0 +1,104 @@
+import { createTransaction, getTransaction, listTransactions } from '../../../../lib/firestore/transactions';
+import { checkApiKeyScope } from '../../../../lib/apiKeyAuth';
+import {
+	apiHandler,
+	apiJson,
+	apiError,
+	encodeCursor,
+	parseInput,
+	parsePageParams,
+	requireCategory,
+	requirePaymentMethod,
+	resolveAccount,
+	TRANSACTION_CREATE,
+} from '../../../../lib/apiV1';
+import { getDayRange, parseDateKey } from '../../../../lib/dates';
+import type { TransactionType } from '../../../../lib/types';
+
+function parseAmountFilter(url: URL, name: string): number | undefined {
+	const value = url.searchParams.get(name);
+	if (!value) return undefined;
+	if (!/^\d+$/.test(value)) {
+		throw apiError(400, 'validation_error', `${name} must be a non-negative integer`, { field: name });
+	}
+	return parseInt(value, 10);
+}
+
+function parseDateFilter(url: URL, name: string): Date | undefined {
+	const value = url.searchParams.get(name);
+	if (!value) return undefined;
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+		throw apiError(400, 'validation_error', `${name} must be YYYY-MM-DD`, { field: name });
+	}
+	const range = getDayRange(parseDateKey(value));
+	return name === 'from' ? range.start : range.end;
+}
+
+export const GET = apiHandler(async ({ url, principal }) => {
+	const { limit, cursorId } = parsePageParams(url);
+
+	const typeParam = url.searchParams.get('type');
+	if (typeParam && typeParam !== 'income' && typeParam !== 'expense') {
+		return apiError(400, 'validation_error', 'type must be "income" or "expense"', { field: 'type' });
+	}
+
+	const { transactions, hasNext } = await listTransactions({
+		fromDate: parseDateFilter(url, 'from'),
+		toDate: parseDateFilter(url, 'to'),
+		type: (typeParam as TransactionType) || undefined,
+		categoryId: url.searchParams.get('categoryId') || undefined,
+		paymentMethod: url.searchParams.get('paymentMethod') || undefined,
+		accountId: url.searchParams.get('accountId') || undefined,
+		clickupId: url.searchParams.get('clickupId') || undefined,
+		companyName: url.searchParams.get('companyName') || undefined,
+		note: url.searchParams.get('note') || undefined,
+		minAmountCents: parseAmountFilter(url, 'minAmountCents'),
+		maxAmountCents: parseAmountFilter(url, 'maxAmountCents'),
+		// Staff only see their own transactions, as in the UI
+		createdBy: principal.role === 'staff' ? principal.uid : undefined,
+		// An API key only sees the transactions its scope allows
+		scope: principal.apiKey?.scope,
+		limit,
+		startAfterId: cursorId,
+	});
+
+	const nextCursor = hasNext ? encodeCursor(transactions[transactions.length - 1].id) : null;
+	return apiJson(200, { data: transactions, nextCursor });
+});
+
+export const POST = apiHandler(async ({ body, principal }) => {
+	const input = parseInput(body, TRANSACTION_CREATE);
+	const type = input.type as TransactionType;
+	const categoryId = input.categoryId as string;
+	const paymentMethod = (input.paymentMethod as string | null) || undefined;
+
+	await requireCategory(categoryId);
+	if (paymentMethod) {
+		await requirePaymentMethod(paymentMethod);
+	}
+	const accountId = await resolveAccount((input.accountId as string | null) || undefined);
+	if (principal.apiKey) {
+		const scopeError = checkApiKeyScope(principal.apiKey, { type, categoryId });
+		if (scopeError) {
+			return apiError(403, 'forbidden', scopeError);
+		}
+	}
+
+	const transactionId = await createTransaction({
+		ts: input.ts as Date,
+		type,
+		amountCents: input.amountCents as number,
+		categoryId,
+		paymentMethod,
+		accountId,
+		note: (input.note as string | null) || '',
+		clickupId: (input.clickupId as string | null) || undefined,
+		companyName: (input.companyName as string | null) || undefined,
+		externalId: (input.externalId as string | undefined) || undefined,
+		source: 'api',
+		createdBy: principal.uid,
+	});
+
+	const transaction = await getTransaction(transactionId);
+	return apiJson(201, { data: transaction }, { Location: `/api/v1/transactions/${transactionId}` });
+});
@@ -0,0 +1,170 @@
+import type { APIRoute } from 'astro';
+import { db } from '../../../lib/firebaseAdmin';
+import { createTransactions, type BulkCreateResult } from '../../../lib/firestore/transactions';
+import { authenticateApiKey } from '../../../lib/apiKeyAuth';
+import { logWebhookError } from '../../../lib/firestore/webhookErrors';
+import {
+	validateWebhookTransaction,
+	jsonResponse,
+	withIdempotency,
+	type CompleteInBatch,
+	type WebhookResult,
+	type WebhookTransactionInput,
+} from '../../../lib/webhook';
+import type { ApiKey } from '../../../lib/types';
+
+const MAX_BATCH_SIZE = 500;
+
+interface BatchItemResult {
+	index: number;
+	success: boolean;
+	transactionId?: string;
+	duplicate?: boolean;
+	error?: string;
+}
+
+/**
+ * Find transactions this service user already created for the given external IDs
+ */
+async function findExistingExternalIds(externalIds: string[], userId: string): Promise<Map<string, string>> {
+	const existing = new Map<string, string>();
+	// Firestore "in" queries accept at most 30 values
+	for (let i = 0; i < externalIds.length; i += 30) {
+		const snapshot = await db.collection('transactions')
+			.where('externalId', 'in', externalIds.slice(i, i + 30))
+			.get();
+		for (const doc of snapshot.docs) {
+			const data = doc.data();
+			if (data.createdBy === userId) {
+				existing.set(data.externalId, doc.id);
+			}
+		}
+	}
+	return existing;
+}
+
+/**
+ * Build the response from the per-item results and the outcome of the writes
+ */
+function batchResult(results: BatchItemResult[], toCreate: Array<{ index: number }>, created: BulkCreateResult[]): WebhookResult {
+	const all = [
+		...results,
+		...created.map((result, i): BatchItemResult => {
+			const { index } = toCreate[i];
+			return 'id' in result
+				? { index, success: true, transactionId: result.id }
+				: { index, success: false, error: result.error };
+		}),
+	].sort((a, b) => a.index - b.index);
+	const createdCount = all.filter(r => r.success && !r.duplicate).length;
+	const duplicateCount = all.filter(r => r.duplicate).length;
+	const failedCount = all.filter(r => !r.success).length;
+
+	return {
+		statusCode: 200,
+		body: {
+			success: failedCount === 0,
+			created: createdCount,
+			duplicates: duplicateCount,
+			failed: failedCount,
+			results: all,
+		},
+	};
+}
+
+/**
+ * Validate every item, skip already-imported external IDs and write the rest in chunks. The
+ * idempotency key is completed in the last chunk's write
+ */
+async function processBatch(items: unknown[], apiKey: ApiKey, completeInBatch: CompleteInBatch): Promise<WebhookResult> {
+	const results: BatchItemResult[] = [];
+	const valid: Array<{ index: number; transaction: WebhookTransactionInput }> = [];
+	const lookupCache = new Map<string, string | null>();
+	const seenExternalIds = new Set<string>();
+
+	for (let index = 0; index < items.length; index++) {
+		const item = items[index];
+		const validation = await validateWebhookTransaction(item, apiKey, lookupCache);
+		if (!validation.ok) {
+			await logWebhookError(item, validation.logMessage, apiKey.id);
+			results.push({ index, success: false, error: validation.error });
+			continue;
+		}
+
+		const { externalId } = validation.transaction;
+		if (externalId) {
+			if (seenExternalIds.has(externalId)) {
+				results.push({ index, success: false, error: `Duplicate externalId "${externalId}" in batch` });
+				continue;
+			}
+			seenExternalIds.add(externalId);
+		}
+		valid.push({ index, transaction: validation.transaction });
+	}
+
+	// Items whose externalId was already imported are reported, not created again
+	const existing = await findExistingExternalIds(Array.from(seenExternalIds), apiKey.userId);
+	const toCreate = valid.filter(({ index, transaction }) => {
+		const existingId = transaction.externalId ? existing.get(transaction.externalId) : undefined;
+		if (existingId) {
+			results.push({ index, success: true, transactionId: existingId, duplicate: true });
+			return false;
+		}
+		return true;
+	});
+
+	const created = await createTransactions(toCreate.map(v => v.transaction), {
+		beforeLastCommit: (batch, pending) => completeInBatch(batch, batchResult(results, toCreate, pending)),
+	});
+
+	// The key went out with the last chunk only if that chunk was written
+	const last = created[created.length - 1];
+	return { ...batchResult(results, toCreate, created), idempotencyCompleted: !!last && 'id' in last };
+}
+
+export const POST: APIRoute = async ({ request }) => {
+	try {
+		// Read the raw body first - the signature is computed over the exact bytes sent
+		const rawBody = await request.text();
+
+		// A resent signed request is let through so it can get its stored response
+		const authResult = await authenticateApiKey(request, rawBody, { allowReplayedSignature: true });
+		if (!authResult.ok) {
+			return jsonResponse(authResult.status, { success: false, error: authResult.error });
+		}
+		const { apiKey, replayedSignature } = authResult;
+
+		let body: unknown;
+		try {
+			body = JSON.parse(rawBody);
+		} catch {
+			await logWebhookError(rawBody, 'Request body is not valid JSON', apiKey.id);
+			return jsonResponse(400, { success: false, error: 'Request body is not valid JSON' });
+		}
+
+		// Accept either a bare array or { "transactions": [...] }
+		const items: unknown = Array.isArray(body) ? body : (body as { transactions?: unknown } | null)?.transactions;
+		if (!Array.isArray(items) || items.length === 0) {
+			await logWebhookError(body, 'Body must be a non-empty array of transactions', apiKey.id);
+			return jsonResponse(400, { success: false, error: 'Body must be a non-empty array of transactions or { "transactions": [...] }' });
+		}
+		if (items.length > MAX_BATCH_SIZE) {
+			return jsonResponse(400, { success: false, error: `A batch can contain at most ${MAX_BATCH_SIZE} transactions` });
+		}
+
+		const idempotencyKey = request.headers.get('idempotency-key');
+		return await withIdempotency(apiKey, idempotencyKey, body, (completeInBatch) => processBatch(items, apiKey, completeInBatch), { replayedSignature });
+
+	} catch (error: any) {
+		console.error('Webhook batch error:', error);
+		try {
+			await logWebhookError(null, error.message || 'Internal server error');
+		} catch {
+			// Avoid throwing from error logger
+		}
+		return jsonResponse(500, {
+			success: false,
+			error: error.message || 'Internal server error'
+		});
+	}
+};
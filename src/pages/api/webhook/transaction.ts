@@ -1,141 +1,83 @@
 import type { APIRoute } from 'astro';
 import { createTransaction } from '../../../lib/firestore/transactions';
-import { getOrCreatePaymentTypeCategory } from '../../../lib/firestore/categories';
-import { db } from '../../../lib/firebaseAdmin';
+import { authenticateApiKey } from '../../../lib/apiKeyAuth';
+import { logWebhookError } from '../../../lib/firestore/webhookErrors';
+import {
+	validateWebhookTransaction,
+	jsonResponse,
+	withIdempotency,
+	type CompleteInBatch,
+	type WebhookResult,
+} from '../../../lib/webhook';
+import type { ApiKey } from '../../../lib/types';
 
-async function logWebhookError(payload: unknown, error: string) {
-	await db.collection('webhook_errors').add({
-		payload,
-		error,
-		createdAt: new Date(),
-	});
+function createdResult(transactionId: string): WebhookResult {
+	return {
+		statusCode: 200,
+		body: {
+			success: true,
+			transactionId,
+			message: 'Transaction created successfully'
+		},
+		transactionId,
+	};
 }
 
-export const POST: APIRoute = async ({ request }) => {
-	try {
-		// Parse request body
-		const body = await request.json();
-		
-		// Extract and validate required fields
-		const { 
-			date,           // ISO date string (e.g., "2026-01-22T13:18:08Z") or YYYY-MM-DD
-			type,           // "income" | "expense"
-			amount,         // Number (will be converted to cents)
-			categoryId,     // Category ID or "cash"/"online"
-			createdBy,      // User UID
-			note,           // Optional
-			clickupId,      // Optional
-			companyName     // Optional
-		} = body;
-
-		// Validate required fields
-		if (!date || !type || amount === undefined || !categoryId || !createdBy) {
-			await logWebhookError(body, 'Missing required fields. Required: date, type, amount, categoryId, createdBy');
-			return new Response(JSON.stringify({ 
-				success: false,
-				error: 'Missing required fields. Required: date, type, amount, categoryId, createdBy' 
-			}), {
-				status: 400,
-				headers: { 'Content-Type': 'application/json' }
-			});
-		}
+/**
+ * Validate the payload and create the transaction; the idempotency key is completed in the
+ * same write
+ */
+async function processTransaction(
+	body: Record<string, unknown>,
+	apiKey: ApiKey,
+	completeInBatch: CompleteInBatch
+): Promise<WebhookResult> {
+	const validation = await validateWebhookTransaction(body, apiKey);
+	if (!validation.ok) {
+		await logWebhookError(body, validation.logMessage, apiKey.id);
+		return { statusCode: validation.statusCode, body: { success: false, error: validation.error } };
+	}
 
-		// Validate type
-		if (type !== 'income' && type !== 'expense') {
-			await logWebhookError(body, 'Invalid type. Must be "income" or "expense"');
-			return new Response(JSON.stringify({ 
-				success: false,
-				error: 'Invalid type. Must be "income" or "expense"' 
-			}), {
-				status: 400,
-				headers: { 'Content-Type': 'application/json' }
-			});
-		}
+	// Create transaction (this handles dateKey/weekKey/monthKey automatically and updates summaries)
+	const transactionId = await createTransaction(validation.transaction, {
+		beforeCommit: (batch, id) => completeInBatch(batch, createdResult(id)),
+	});
 
-		// Parse date - handle both ISO strings and YYYY-MM-DD format
-		let transactionDate: Date;
-		if (typeof date === 'string') {
-			// If it's just YYYY-MM-DD, add time
-			if (date.match(/^\d{4}-\d{2}-\d{2}$/)) {
-				transactionDate = new Date(date + 'T00:00:00');
-			} else {
-				transactionDate = new Date(date);
-			}
-		} else {
-			await logWebhookError(body, 'Invalid date format. Use ISO date string or YYYY-MM-DD');
-			return new Response(JSON.stringify({ 
-				success: false,
-				error: 'Invalid date format. Use ISO date string or YYYY-MM-DD' 
-			}), {
-				status: 400,
-				headers: { 'Content-Type': 'application/json' }
-			});
-		}
+	return { ...createdResult(transactionId), idempotencyCompleted: true };
+}
 
-		if (isNaN(transactionDate.getTime())) {
-			await logWebhookError(body, 'Invalid date format. Use ISO date string or YYYY-MM-DD');
-			return new Response(JSON.stringify({ 
-				success: false,
-				error: 'Invalid date format. Use ISO date string (e.g., "2026-01-22T13:18:08Z") or YYYY-MM-DD' 
-			}), {
-				status: 400,
-				headers: { 'Content-Type': 'application/json' }
-			});
-		}
+export const POST: APIRoute = async ({ request }) => {
+	try {
+		// Read the raw body first - the signature is computed over the exact bytes sent
+		const rawBody = await request.text();
 
-		// Convert amount to cents
-		const amountCents = Math.round(parseFloat(amount) * 100);
-		if (amountCents <= 0 || isNaN(amountCents)) {
-			await logWebhookError(body, 'Amount must be a positive number');
-			return new Response(JSON.stringify({ 
-				success: false,
-				error: 'Amount must be a positive number' 
-			}), {
-				status: 400,
-				headers: { 'Content-Type': 'application/json' }
-			});
+		// Authenticate the integration; the key decides who the transaction is attributed to
+		// A resent signed request is let through so it can get its stored response
+		const authResult = await authenticateApiKey(request, rawBody, { allowReplayedSignature: true });
+		if (!authResult.ok) {
+			return jsonResponse(authResult.status, { success: false, error: authResult.error });
 		}
+		const { apiKey, replayedSignature } = authResult;
 
-		// Handle payment type categories (cash/online)
-		let finalCategoryId = categoryId;
-		if (categoryId === 'cash' || categoryId === 'online') {
-			const categoryName = categoryId === 'cash' ? 'Cash' : 'Online Payment';
-			finalCategoryId = await getOrCreatePaymentTypeCategory(categoryName);
+		// Parse request body
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(rawBody);
+		} catch {
+			await logWebhookError(rawBody, 'Request body is not valid JSON', apiKey.id);
+			return jsonResponse(400, { success: false, error: 'Request body is not valid JSON' });
 		}
-
-		// Verify category exists
-		const categoryDoc = await db.collection('categories').doc(finalCategoryId).get();
-		if (!categoryDoc.exists) {
-			await logWebhookError(body, `Category ID "${finalCategoryId}" does not exist`);
-			return new Response(JSON.stringify({ 
-				success: false,
-				error: `Category ID "${finalCategoryId}" does not exist. Please use a valid category ID or "cash"/"online"` 
-			}), {
-				status: 400,
-				headers: { 'Content-Type': 'application/json' }
-			});
+		if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+			await logWebhookError(parsed, 'Request body must be a JSON object', apiKey.id);
+			return jsonResponse(400, { success: false, error: 'Request body must be a JSON object' });
 		}
+		const body = parsed as Record<string, unknown>;
 
-		// Create transaction (this handles dateKey/weekKey/monthKey automatically and updates summaries)
-		const transactionId = await createTransaction({
-			ts: transactionDate,
-			type: type as 'income' | 'expense',
-			amountCents,
-			categoryId: finalCategoryId,
-			note: note || '',
-			clickupId: clickupId || undefined,
-			companyName: companyName || undefined,
-			createdBy,
-		});
+		// Idempotency: the Idempotency-Key header wins, otherwise the payload's externalId
+		const headerKey = request.headers.get('idempotency-key');
+		const idempotencyKey = headerKey ?? (body.externalId !== undefined && body.externalId !== '' ? String(body.externalId) : null);
 
-		return new Response(JSON.stringify({ 
-			success: true, 
-			transactionId,
-			message: 'Transaction created successfully'
-		}), {
-			status: 200,
-			headers: { 'Content-Type': 'application/json' }
-		});
+		return await withIdempotency(apiKey, idempotencyKey, body, (completeInBatch) => processTransaction(body, apiKey, completeInBatch), { replayedSignature });
 
 	} catch (error: any) {
 		console.error('Webhook error:', error);
@@ -144,12 +86,9 @@ export const POST: APIRoute = async ({ request }) => {
 		} catch {
 			// Avoid throwing from error logger
 		}
-		return new Response(JSON.stringify({ 
+		return jsonResponse(500, {
 			success: false,
-			error: error.message || 'Internal server error' 
-		}), {
-			status: 500,
-			headers: { 'Content-Type': 'application/json' }
+			error: error.message || 'Internal server error'
 		});
 	}
 };
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+	test: {
+		include: ['src/**/*.test.ts'],
+		// Tests that need the Firestore emulator skip themselves unless FIRESTORE_EMULATOR_HOST is set
+		environment: 'node',
+	},
+});